@@ -4,11 +4,41 @@
 
 import Konva from 'konva';
 import { RichTextNode } from '../rich-text/RichTextNode';
+import { TextFrame } from '../rich-text/TextFrame';
 import {
   RichTextDocument,
   TextStyle,
+  ParagraphStyle,
+  TextDirection,
+  TextOverflow,
+  ColumnSettings,
+  TextWrap,
+  TextPathSettings,
+  LineBreaking,
+  TabSettings,
+  ShapePoint,
+  WrapExclusion,
+  TextRange,
+  AutoFitMode,
+  BeforeInputEvent,
+  LinkClickEvent,
+  TextLink,
+  InlineObject,
+  StyleSheet,
+  StyleKind,
+  StyleDefinitions,
   createEmptyDocument,
   createDocument,
+  SerializedTextBox,
+  TextFrameGeometry,
+  serializeTextBox,
+  deserializeTextBox,
+  renderTextBoxesToPDF,
+  PDFTextBox,
+  PDFMatrix,
+  PDFExportOptions,
+  fitText,
+  layoutTextFrames,
 } from '../rich-text';
 
 /**
@@ -28,13 +58,53 @@ export interface RichTextConfig extends Konva.ContainerConfig {
   placeholder?: string;
   editable?: boolean;
   draggable?: boolean;
+  // Link URLs as they are typed (default true)
+  autoLink?: boolean;
   // Alignment
   align?: 'left' | 'center' | 'right' | 'justify';
   verticalAlign?: 'top' | 'middle' | 'bottom';
   // Padding
   padding?: number;
+  // Text below the bottom of the box
+  overflow?: TextOverflow;
+  // Columns inside the box
+  columns?: ColumnSettings;
+  // Shape the text stays inside and areas it flows around (box coordinates)
+  textWrap?: TextWrap;
+  // Arc or SVG path the text is drawn along
+  textPath?: TextPathSettings;
+  // Break long words at hyphenation points
+  hyphenate?: boolean;
+  // 'optimal' breaks each paragraph as a whole for evenly filled lines
+  lineBreaking?: LineBreaking;
+  // Tab stops (default stops every 48px)
+  tabs?: TabSettings;
+  // Sizing (see AutoFitMode); autoHeight is short for autoFit: 'auto-height'
+  autoFit?: AutoFitMode;
+  autoHeight?: boolean;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
 }
 
+/**
+ * Events after which an obstacle (or the box itself) may have moved
+ */
+const OBSTACLE_EVENTS = [
+  'dragmove',
+  'transform',
+  'xChange',
+  'yChange',
+  'widthChange',
+  'heightChange',
+  'scaleXChange',
+  'scaleYChange',
+  'rotationChange',
+]
+  .map((event) => `${event}.textwrap`)
+  .join(' ');
+
 /**
  * RichText - A reusable rich text component for Konva
  *
@@ -65,6 +135,10 @@ export class RichText extends Konva.Group {
   private _richTextNode: RichTextNode;
   private _width: number;
   private _height: number;
+  private _textWrap: TextWrap | undefined; // As set, without the obstacles
+  private _wrapObstacles: Konva.Node[] = [];
+  // Only this box's listener is removed, other boxes may wrap around the same node
+  private _handleObstacleChange = (): void => this._updateTextWrap();
 
   constructor(config: RichTextConfig) {
     // Extract width/height and RichText-specific props before passing to super
@@ -77,9 +151,23 @@ export class RichText extends Konva.Group {
       style,
       placeholder,
       editable,
+      autoLink,
       align,
       verticalAlign,
       padding,
+      overflow,
+      columns,
+      textWrap,
+      textPath,
+      hyphenate,
+      lineBreaking,
+      tabs,
+      autoFit,
+      autoHeight,
+      minWidth,
+      maxWidth,
+      minHeight,
+      maxHeight,
       ...groupConfig
     } = config;
 
@@ -87,6 +175,7 @@ export class RichText extends Konva.Group {
 
     this._width = width;
     this._height = height;
+    this._textWrap = textWrap;
 
     // Create the document
     let document: RichTextDocument;
@@ -108,6 +197,24 @@ export class RichText extends Konva.Group {
     if (padding !== undefined) {
       document = { ...document, padding };
     }
+    if (overflow) {
+      document = { ...document, overflow };
+    }
+    if (columns) {
+      document = { ...document, columns };
+    }
+    if (textPath) {
+      document = { ...document, textPath };
+    }
+    if (hyphenate !== undefined) {
+      document = { ...document, hyphenate };
+    }
+    if (lineBreaking) {
+      document = { ...document, lineBreaking };
+    }
+    if (tabs) {
+      document = { ...document, tabs };
+    }
 
     // Create the internal RichTextNode
     this._richTextNode = new RichTextNode({
@@ -118,13 +225,26 @@ export class RichText extends Konva.Group {
       document,
       placeholder,
       editable,
+      autoLink,
+      autoFit: autoFit ?? (autoHeight ? 'auto-height' : 'fixed'),
+      minWidth,
+      maxWidth,
+      minHeight,
+      maxHeight,
+      textWrap,
     });
 
+    // Auto-fit modes may already have resized the box
+    this._syncSize();
+
     // Add to group
     this.add(this._richTextNode);
 
     // Set up event forwarding
     this._setupEventForwarding();
+
+    // Obstacles are placed relative to this box, so moving it moves them too
+    this.on(OBSTACLE_EVENTS, () => this._updateTextWrap());
   }
 
   /**
@@ -139,8 +259,36 @@ export class RichText extends Konva.Group {
       this.fire('editend');
     });
 
-    this._richTextNode.on('textchange', () => {
-      this.fire('textchange');
+    // Payloads are copied because Konva stamps target/currentTarget onto them
+    this._richTextNode.on('textchange', (e) => {
+      this.fire('textchange', { ...e });
+    });
+
+    this._richTextNode.on('selectionchange', (e) => {
+      this.fire('selectionchange', { ...e });
+    });
+
+    this._richTextNode.on('sizechange', (e) => {
+      this._syncSize();
+      this.fire('sizechange', { ...e });
+    });
+
+    // Cancellation and rewritten data flow back to the inner node
+    this._richTextNode.on('beforeinput', (e) => {
+      const forwarded: BeforeInputEvent = { ...e };
+      this.fire('beforeinput', forwarded);
+      if (forwarded.defaultPrevented) {
+        e.preventDefault();
+      }
+      e.data = forwarded.data;
+    });
+
+    this._richTextNode.on('linkclick', (e) => {
+      const forwarded: LinkClickEvent = { ...e };
+      this.fire('linkclick', forwarded);
+      if (forwarded.defaultPrevented) {
+        e.preventDefault();
+      }
     });
   }
 
@@ -159,8 +307,8 @@ export class RichText extends Konva.Group {
    * Set width
    */
   public setWidth(width: number): this {
-    this._width = width;
-    this._richTextNode.setWidth(width);
+    this._richTextNode.setBoxSize(width, this._height);
+    this._syncSize();
     return this;
   }
 
@@ -175,8 +323,8 @@ export class RichText extends Konva.Group {
    * Set height
    */
   public setHeight(height: number): this {
-    this._height = height;
-    this._richTextNode.setHeight(height);
+    this._richTextNode.setBoxSize(this._width, height);
+    this._syncSize();
     return this;
   }
 
@@ -184,12 +332,55 @@ export class RichText extends Konva.Group {
    * Set size (width and height)
    */
   public setSize(width: number, height: number): this {
-    this._width = width;
-    this._height = height;
-    this._richTextNode.setSize(width, height);
+    this._richTextNode.setBoxSize(width, height);
+    this._syncSize();
+    return this;
+  }
+
+  /**
+   * Take over the inner node's box size (minimum sizes and auto-fit modes
+   * can change the size that was asked for)
+   */
+  private _syncSize(): void {
+    const size = this._richTextNode.getBoxSize();
+    this._width = size.width;
+    this._height = size.height;
+  }
+
+  /**
+   * Get the sizing mode
+   */
+  public getAutoFit(): AutoFitMode {
+    return this._richTextNode.getAutoFit();
+  }
+
+  /**
+   * Set the sizing mode: 'fixed', 'auto-height', 'auto-width' or
+   * 'shrink-to-fit'. A `sizechange` event follows when the box size changes.
+   */
+  public setAutoFit(mode: AutoFitMode): this {
+    this._richTextNode.setAutoFit(mode);
+    this._syncSize();
     return this;
   }
 
+  /**
+   * Scale applied to the displayed font sizes by shrink-to-fit (1 otherwise)
+   */
+  public getFontScale(): number {
+    return this._richTextNode.getFontScale();
+  }
+
+  /**
+   * The size limits auto-sized boxes stay within, without the unlimited ones
+   * (Infinity does not survive JSON)
+   */
+  private _getSizeLimits(): Pick<RichTextConfig, 'minWidth' | 'maxWidth' | 'minHeight' | 'maxHeight'> {
+    const { minWidth, maxWidth, minHeight, maxHeight } = this._richTextNode.getAutoFitOptions();
+    const limits = { minWidth, maxWidth, minHeight, maxHeight };
+    return Object.fromEntries(Object.entries(limits).filter(([, value]) => Number.isFinite(value)));
+  }
+
   // ============================================================================
   // Text Content Methods
   // ============================================================================
@@ -295,6 +486,103 @@ export class RichText extends Konva.Group {
     return this;
   }
 
+  /**
+   * Toggle superscript on selection
+   */
+  public toggleSuperscript(): this {
+    this._richTextNode.toggleSuperscript();
+    return this;
+  }
+
+  /**
+   * Toggle subscript on selection
+   */
+  public toggleSubscript(): this {
+    this._richTextNode.toggleSubscript();
+    return this;
+  }
+
+  // ============================================================================
+  // Link Methods
+  // ============================================================================
+
+  /**
+   * Link the selection, or insert `text` (the URL by default) as a link
+   */
+  public insertLink(href: string, title?: string, text?: string): this {
+    this._richTextNode.insertLink(href, title, text);
+    return this;
+  }
+
+  /**
+   * Change the link at the caret; false when there is none
+   */
+  public editLink(href: string, title?: string): boolean {
+    return this._richTextNode.editLink(href, title);
+  }
+
+  /**
+   * Remove links from the selection, or the whole link at the caret
+   */
+  public removeLink(): this {
+    this._richTextNode.removeLink();
+    return this;
+  }
+
+  /**
+   * The link at a position (the caret by default) and its range
+   */
+  public getLink(position?: number): { link: TextLink; range: TextRange } | null {
+    return this._richTextNode.getLink(position);
+  }
+
+  // ============================================================================
+  // Inline Object Methods
+  // ============================================================================
+
+  /**
+   * Insert an image or icon in place of the selection
+   */
+  public insertObject(object: InlineObject): this {
+    this._richTextNode.insertObject(object);
+    return this;
+  }
+
+  // ============================================================================
+  // Style Sheet Methods
+  // ============================================================================
+
+  /**
+   * Give the selection (all text without one) a character style; null for none
+   */
+  public applyCharacterStyle(name: string | null): this {
+    this._richTextNode.applyCharacterStyle(name);
+    return this;
+  }
+
+  /**
+   * Give the paragraph(s) touched by the selection a paragraph style; null for none
+   */
+  public applyParagraphStyle(name: string | null): this {
+    this._richTextNode.applyParagraphStyle(name);
+    return this;
+  }
+
+  /**
+   * Add or change a named style; text that follows it takes the new look
+   */
+  public defineStyle<K extends StyleKind>(kind: K, name: string, definition: StyleDefinitions[K]): this {
+    this._richTextNode.defineStyle(kind, name, definition);
+    return this;
+  }
+
+  /**
+   * The named styles of this box's document
+   */
+  public getStyleSheet(): StyleSheet {
+    return this._richTextNode.getStyleSheet();
+  }
+
   // ============================================================================
   // Alignment Methods
   // ============================================================================
@@ -329,6 +617,150 @@ export class RichText extends Konva.Group {
     return this._richTextNode.getVerticalAlign();
   }
 
+  /**
+   * Set the base text direction ('auto' follows each paragraph's first
+   * strong character)
+   */
+  public setDirection(direction: TextDirection): this {
+    this._richTextNode.setDirection(direction);
+    return this;
+  }
+
+  /**
+   * Get the base text direction
+   */
+  public getDirection(): TextDirection {
+    return this._richTextNode.getDocument().direction ?? 'ltr';
+  }
+
+  /**
+   * Set how text below the bottom of the box is shown:
+   * 'visible', 'clip' or 'ellipsis'
+   */
+  public setOverflow(overflow: TextOverflow): this {
+    this._richTextNode.setOverflow(overflow);
+    return this;
+  }
+
+  /**
+   * Get the overflow mode
+   */
+  public getOverflow(): TextOverflow {
+    return this._richTextNode.getDocument().overflow ?? 'visible';
+  }
+
+  /**
+   * Set the columns text flows through, e.g. { count: 2, gap: 20 }, with an
+   * optional rule line between them (undefined for one column)
+   */
+  public setColumns(columns: ColumnSettings | undefined): this {
+    this._richTextNode.setColumns(columns);
+    return this;
+  }
+
+  /**
+   * Get the column settings (undefined for one column)
+   */
+  public getColumns(): ColumnSettings | undefined {
+    return this._richTextNode.getDocument().columns;
+  }
+
+  /**
+   * Draw the text along an arc, e.g. { type: 'arc', curvature: 50 }, or an
+   * SVG path in box coordinates (undefined for straight lines)
+   */
+  public setTextPath(textPath: TextPathSettings | undefined): this {
+    this._richTextNode.setTextPath(textPath);
+    return this;
+  }
+
+  /**
+   * Get the text path (undefined for straight lines)
+   */
+  public getTextPath(): TextPathSettings | undefined {
+    return this._richTextNode.getDocument().textPath;
+  }
+
+  /**
+   * Break words that do not fit a line at their hyphenation points (US
+   * English patterns) instead of moving them to the next line whole
+   */
+  public setHyphenation(enabled: boolean): this {
+    this._richTextNode.setHyphenation(enabled);
+    return this;
+  }
+
+  /**
+   * Get whether words are hyphenated
+   */
+  public getHyphenation(): boolean {
+    return this._richTextNode.getDocument().hyphenate ?? false;
+  }
+
+  /**
+   * Set how paragraphs are broken into lines: 'greedy' fills each line in
+   * turn, 'optimal' chooses the breaks of a whole paragraph for evenly filled
+   * lines (best with justified text)
+   */
+  public setLineBreaking(lineBreaking: LineBreaking): this {
+    this._richTextNode.setLineBreaking(lineBreaking);
+    return this;
+  }
+
+  /**
+   * Get how paragraphs are broken into lines
+   */
+  public getLineBreaking(): LineBreaking {
+    return this._richTextNode.getDocument().lineBreaking ?? 'greedy';
+  }
+
+  /**
+   * Set the tab stops, e.g. { interval: 48, stops: [{ position: 200,
+   * align: 'right', leader: '.' }] } for a price list (undefined for default
+   * stops every 48px). Paragraphs can have their own (see setParagraphStyle).
+   */
+  public setTabs(tabs: TabSettings | undefined): this {
+    this._richTextNode.setTabs(tabs);
+    return this;
+  }
+
+  /**
+   * Get the document's tab stops (undefined for the default stops)
+   */
+  public getTabs(): TabSettings | undefined {
+    return this._richTextNode.getDocument().tabs;
+  }
+
+  /**
+   * Insert a column break at the caret (Ctrl/Cmd+Shift+Enter while editing)
+   */
+  public insertColumnBreak(): this {
+    this._richTextNode.insertColumnBreak();
+    return this;
+  }
+
+  /**
+   * Whether some text does not fit the box
+   */
+  public isOverflowing(): boolean {
+    return this._richTextNode.isOverflowing();
+  }
+
+  /**
+   * The text that does not fit the box, or null if everything fits
+   */
+  public getOverflowRange(): TextRange | null {
+    return this._richTextNode.getOverflowRange();
+  }
+
+  /**
+   * Apply paragraph formatting to the paragraph(s) in the current selection
+   */
+  public setParagraphStyle(style: Partial<ParagraphStyle>): this {
+    this._richTextNode.setParagraphStyle(style);
+    return this;
+  }
+
   // ============================================================================
   // List Methods
   // ============================================================================
@@ -381,6 +813,145 @@ export class RichText extends Konva.Group {
     return this;
   }
 
+  // ============================================================================
+  // Linked Frame Methods
+  // ============================================================================
+
+  /**
+   * Create a frame and link it to the end of the chain. Text that does not
+   * fit this box flows on into it. Add the returned frame to a layer.
+   */
+  public addFrame(geometry: Omit<TextFrameGeometry, 'rotation'> & { rotation?: number }): TextFrame {
+    const frame = new TextFrame({ ...geometry });
+    this.linkFrame(frame);
+    return frame;
+  }
+
+  /**
+   * Link an existing frame to the end of the chain
+   */
+  public linkFrame(frame: TextFrame): this {
+    this._richTextNode.linkFrame(frame);
+    return this;
+  }
+
+  /**
+   * Unlink a frame. Its text flows into the remaining boxes.
+   */
+  public unlinkFrame(frame: TextFrame): this {
+    this._richTextNode.unlinkFrame(frame);
+    return this;
+  }
+
+  /**
+   * Linked frames, in flow order
+   */
+  public getFrames(): TextFrame[] {
+    return this._richTextNode.getFrames();
+  }
+
+  // ============================================================================
+  // Text Wrap Methods
+  // ============================================================================
+
+  /**
+   * Set the shape text stays inside and the exclusions it flows around, in
+   * box coordinates (undefined for the plain box)
+   */
+  public setTextWrap(wrap: TextWrap | undefined): this {
+    this._textWrap = wrap;
+    this._updateTextWrap();
+    return this;
+  }
+
+  /**
+   * Get the shape and exclusions as set (without obstacles)
+   */
+  public getTextWrap(): TextWrap | undefined {
+    return this._textWrap;
+  }
+
+  /**
+   * Set only the shape text stays inside, e.g. createEllipseShape() for a
+   * circle (undefined for the box)
+   */
+  public setWrapShape(shape: ShapePoint[] | undefined): this {
+    return this.setTextWrap({ ...this._textWrap, shape });
+  }
+
+  /**
+   * Flow the text around another node on the layer, such as an image.
+   * The text wraps around the node's bounding box and follows it when
+   * either of them moves or is transformed.
+   */
+  public addWrapObstacle(node: Konva.Node): this {
+    if (this._wrapObstacles.includes(node)) return this;
+
+    this._wrapObstacles.push(node);
+    node.on(OBSTACLE_EVENTS, this._handleObstacleChange);
+    this._updateTextWrap();
+    return this;
+  }
+
+  /**
+   * Stop flowing the text around a node
+   */
+  public removeWrapObstacle(node: Konva.Node): this {
+    const index = this._wrapObstacles.indexOf(node);
+    if (index === -1) return this;
+
+    this._wrapObstacles.splice(index, 1);
+    node.off(OBSTACLE_EVENTS, this._handleObstacleChange);
+    this._updateTextWrap();
+    return this;
+  }
+
+  /**
+   * Nodes the text flows around
+   */
+  public getWrapObstacles(): Konva.Node[] {
+    return [...this._wrapObstacles];
+  }
+
+  /**
+   * Pass the wrap, with an exclusion for each obstacle where it is now, to
+   * the text node
+   */
+  private _updateTextWrap(): void {
+    if (!this._richTextNode) return;
+
+    if (this._wrapObstacles.length === 0) {
+      if (this._richTextNode.getTextWrap() !== this._textWrap) {
+        this._richTextNode.setTextWrap(this._textWrap);
+        this._syncSize();
+      }
+      return;
+    }
+
+    const exclusions = [...(this._textWrap?.exclusions ?? [])];
+    for (const node of this._wrapObstacles) {
+      exclusions.push(this._getObstacleExclusion(node));
+    }
+    this._richTextNode.setTextWrap({ ...this._textWrap, exclusions });
+    this._syncSize();
+  }
+
+  /**
+   * An obstacle's bounding box on the stage, as a polygon in box
+   * coordinates (so rotated boxes wrap correctly)
+   */
+  private _getObstacleExclusion(node: Konva.Node): WrapExclusion {
+    const rect = node.getClientRect({ skipShadow: true });
+    const toBox = this.getAbsoluteTransform().copy().invert();
+    const corners = [
+      { x: rect.x, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y + rect.height },
+      { x: rect.x, y: rect.y + rect.height },
+    ];
+    return { type: 'polygon', points: corners.map((corner) => toBox.point(corner)) };
+  }
+
   // ============================================================================
   // Transformation Helpers
   // ============================================================================
@@ -462,6 +1033,9 @@ export class RichText extends Konva.Group {
       rotation: this.rotation(),
       document: this._richTextNode.getDocument(),
       draggable: this.draggable(),
+      autoFit: this.getAutoFit(),
+      ...this._getSizeLimits(),
+      textWrap: this._textWrap,
     };
 
     return new RichText(config);
@@ -471,42 +1045,148 @@ export class RichText extends Konva.Group {
    * Destroy and cleanup
    */
   public destroy(): void {
+    for (const node of this._wrapObstacles) {
+      node.off(OBSTACLE_EVENTS, this._handleObstacleChange);
+    }
+    this._wrapObstacles = [];
+    const frames = this.getFrames();
     this._richTextNode.destroy();
+    for (const frame of frames) {
+      frame.destroy();
+    }
     super.destroy();
   }
 
   /**
-   * Export to JSON
+   * Export to versioned JSON (see serialization.ts for the schema)
    */
-  public toJSON(): Record<string, unknown> {
+  public toJSON(): SerializedTextBox {
+    const frames = this.getFrames();
+    return serializeTextBox(
+      {
+        x: this.x(),
+        y: this.y(),
+        width: this._width,
+        height: this._height,
+        scaleX: this.scaleX(),
+        scaleY: this.scaleY(),
+        rotation: this.rotation(),
+        draggable: this.draggable(),
+        autoFit: this.getAutoFit(),
+        ...this._getSizeLimits(),
+        ...(frames.length > 0 && {
+          frames: frames.map((frame) => ({
+            x: frame.x(),
+            y: frame.y(),
+            ...frame.getFrameSize(),
+            rotation: frame.rotation(),
+          })),
+        }),
+        ...(this._textWrap && { textWrap: this._textWrap }),
+      },
+      this._richTextNode.getDocument()
+    );
+  }
+
+  /**
+   * Lay out this box for PDF export, with its transform on the stage
+   * (its own position, rotation, scale, skew and offset, and those of the
+   * groups and layer it is in)
+   */
+  public toPDFTextBox(): PDFTextBox {
+    const fit = fitText(
+      this._richTextNode.getDocument(),
+      this._width,
+      this._height,
+      this._richTextNode.getAutoFitOptions()
+    );
     return {
-      x: this.x(),
-      y: this.y(),
-      width: this._width,
-      height: this._height,
-      scaleX: this.scaleX(),
-      scaleY: this.scaleY(),
-      rotation: this.rotation(),
-      document: this._richTextNode.getDocument(),
-      draggable: this.draggable(),
+      layout: fit.layout,
+      document: fit.document,
+      transform: this.getAbsoluteTransform(this.getStage()).getMatrix() as PDFMatrix,
     };
   }
 
   /**
-   * Create from JSON
+   * Lay out this box and its linked frames for PDF export, each with its
+   * transform on the stage. Without linked frames this is just toPDFTextBox().
    */
-  public static fromJSON(json: Record<string, unknown>): RichText {
-    return new RichText({
-      x: json.x as number,
-      y: json.y as number,
-      width: json.width as number,
-      height: json.height as number,
-      scaleX: json.scaleX as number || 1,
-      scaleY: json.scaleY as number || 1,
-      rotation: json.rotation as number || 0,
-      document: json.document as RichTextDocument,
-      draggable: json.draggable as boolean,
+  public toPDFTextBoxes(): PDFTextBox[] {
+    const frames = this.getFrames();
+    if (frames.length === 0) {
+      return [this.toPDFTextBox()];
+    }
+
+    const document = this._richTextNode.getDocument();
+    const sizes = [
+      { width: this._width, height: this._height, wrap: this._richTextNode.getTextWrap() },
+      ...frames.map((frame) => frame.getFrameSize()),
+    ];
+    // Not counting the stage's own pan and zoom
+    const transforms = [
+      this.getAbsoluteTransform(this.getStage()),
+      ...frames.map((frame) => frame.getAbsoluteTransform(frame.getStage())),
+    ];
+
+    return layoutTextFrames(document, sizes).map((layout, k) => ({
+      layout,
+      document,
+      transform: transforms[k].getMatrix() as PDFMatrix,
+    }));
+  }
+
+  /**
+   * Export text boxes (with their linked frames) to a single-page PDF with
+   * selectable text
+   */
+  public static exportToPDF(boxes: RichText[], options?: PDFExportOptions): Uint8Array {
+    return renderTextBoxesToPDF(boxes.flatMap((box) => box.toPDFTextBoxes()), options);
+  }
+
+  /**
+   * Change a named style in every box whose style sheet has it (a brand kit
+   * shared by a design), laying each of them out again
+   */
+  public static updateStyle<K extends StyleKind>(
+    boxes: RichText[],
+    kind: K,
+    name: string,
+    definition: StyleDefinitions[K]
+  ): void {
+    for (const box of boxes) {
+      if (box.getStyleSheet()[kind].has(name)) {
+        box.defineStyle(kind, name, definition);
+      }
+    }
+  }
+
+  /**
+   * Create from JSON, migrating data saved by older versions. Linked frames
+   * are recreated too; add getFrames() to a layer.
+   */
+  public static fromJSON(json: SerializedTextBox | Record<string, unknown>): RichText {
+    const box = deserializeTextBox(json);
+    const richText = new RichText({
+      x: box.x,
+      y: box.y,
+      width: box.width,
+      height: box.height,
+      scaleX: box.scaleX,
+      scaleY: box.scaleY,
+      rotation: box.rotation,
+      document: box.document,
+      draggable: box.draggable,
+      autoFit: box.autoFit,
+      minWidth: box.minWidth,
+      maxWidth: box.maxWidth,
+      minHeight: box.minHeight,
+      maxHeight: box.maxHeight,
+      textWrap: box.textWrap,
     });
+    for (const frame of box.frames ?? []) {
+      richText.addFrame(frame);
+    }
+    return richText;
   }
 }
 
@@ -11,6 +11,7 @@ export type {
   TextStyle,
   TextSpan,
   ListItem,
+  ParagraphStyle,
   Selection,
 } from '../rich-text/types';
 
@@ -18,4 +19,5 @@ export {
   createEmptyDocument,
   createDocument,
   DEFAULT_STYLE,
+  DEFAULT_PARAGRAPH_STYLE,
 } from '../rich-text';
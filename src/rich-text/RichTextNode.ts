@@ -8,23 +8,47 @@ import {
   Selection,
   TextStyle,
   TextSpan,
+  ListItem,
+  ParagraphStyle,
+  TextDirection,
+  TextOverflow,
+  ColumnSettings,
+  TextWrap,
+  TextPathSettings,
+  LineBreaking,
+  TabSettings,
+  VerticalPosition,
+  TextLink,
+  LinkClickEvent,
+  InlineObject,
+  StyleSheet,
+  COLUMN_BREAK,
+  OBJECT_REPLACEMENT,
+  AutoFitMode,
   LayoutResult,
   HistoryEntry,
   createEmptyDocument,
   DEFAULT_STYLE,
   AbsolutePosition,
+  InputType,
+  TextRange,
+  BeforeInputEvent,
+  RichTextEventMap,
 } from './types';
 import {
   getDocumentLength,
   deleteRange,
   replaceSelection,
+  insertObject,
   getSelectedText,
   extractStyledSpans,
   insertStyledSpans,
+  insertDocumentFragment,
   applyStyleToRange,
   toggleBoldInRange,
   toggleItalicInRange,
   toggleStyleInRange,
+  toggleVerticalPositionInRange,
   getStyleAtPosition,
   cloneDocument,
   getLineIndexForPosition,
@@ -35,10 +59,37 @@ import {
   renumberLists,
   isLineEmpty,
   getLineStartPosition,
+  setParagraphStyle,
 } from './document-model';
-import { layoutText, getCaretPosition, hitTest, hitTestBulletZone } from './layout-engine';
+import {
+  createLayoutCache,
+  layoutTextFrames,
+  combineFrameLayouts,
+  getCaretPosition,
+  getLineAtPoint,
+  getLineBounds,
+  hitTest,
+  hitTestBulletZone,
+} from './layout-engine';
 import { parseHTMLToSpans, hasStyledContent } from './html-parser';
-import { createKonvaTextNodes } from './konva-renderer';
+import { exportToHTML } from './html-export';
+import { parseMarkdown, looksLikeMarkdown } from './markdown';
+import { KonvaTextRenderer } from './konva-renderer';
+import { TextFrame } from './TextFrame';
+import { fitText, AutoFitOptions } from './auto-fit';
+import { TextInputBridge } from './input-bridge';
+import { getPreviousGraphemeBoundary, getNextGraphemeBoundary } from './graphemes';
+import { placeOnPath, mapFromPath } from './text-path';
+import { getLinkAt, setLinkInRange, removeLinkInRange, linkUrlBefore, LINK_STYLE } from './links';
+import {
+  applyCharacterStyle,
+  applyParagraphStyle,
+  defineStyle,
+  resolveCharacterStyle,
+  resolveParagraphStyle,
+  StyleKind,
+  StyleDefinitions,
+} from './style-sheets';
 
 interface RichTextNodeConfig extends Konva.GroupConfig {
   width: number;
@@ -46,6 +97,23 @@ interface RichTextNodeConfig extends Konva.GroupConfig {
   document?: RichTextDocument;
   placeholder?: string;
   editable?: boolean;
+  autoFit?: AutoFitMode;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  textWrap?: TextWrap;
+  autoLink?: boolean; // Link URLs as they are typed (default true)
+}
+
+/**
+ * In-progress IME composition. The text is shown in place of `range` but is
+ * not part of the document until the composition ends.
+ */
+interface CompositionState {
+  range: TextRange;
+  text: string;
+  caret: number; // Offset of the IME caret within `text`
 }
 
 /**
@@ -54,15 +122,24 @@ interface RichTextNodeConfig extends Konva.GroupConfig {
 export class RichTextNode extends Konva.Group {
   private _document: RichTextDocument;
   private _selection: Selection;
+  private _lastSelection: Selection;
   private _isEditing: boolean = false;
   private _caretVisible: boolean = true;
   private _caretBlinkInterval: number | null = null;
-  private _layout: LayoutResult | null = null;
-  private _textGroup: Konva.Group | null = null;
+  private _layout: LayoutResult | null = null; // With linked frames, all frames combined
+  private _frameLayouts: LayoutResult[] = []; // This box's layout, then each linked frame's
+  private _frames: TextFrame[] = [];
+  private _textWrap: TextWrap | undefined; // Shape and exclusions of this node's box
+  private _layoutDocument: RichTextDocument | null = null; // Document the layout shows
+  private _layoutCache = createLayoutCache();
+  private _textRenderer: KonvaTextRenderer | null = null;
+  private _caretRenderer: KonvaTextRenderer | null = null; // Renderer of the box the caret is in
   private _borderRect: Konva.Rect | null = null;
   private _hitArea: Konva.Rect | null = null;
   private _placeholder: string;
   private _editable: boolean;
+  private _autoLink: boolean;
+  private _linkHovered: boolean = false; // Whether the pointer cursor is ours
   private _history: HistoryEntry[] = [];
   private _historyIndex: number = -1;
   private _maxHistory: number = 100;
@@ -72,11 +149,15 @@ export class RichTextNode extends Konva.Group {
   private _boxHeight: number;
   private _minWidth: number = 50;
   private _minHeight: number = 30;
+  private _maxWidth: number = Infinity;
+  private _maxHeight: number = Infinity;
+  private _autoFit: AutoFitMode = 'fixed';
+  private _fontScale: number = 1; // Shrink-to-fit scale of the displayed font sizes
+  private _lastSize: { width: number; height: number; fontScale: number } | null = null;
+  private _inputBridge: TextInputBridge;
+  private _composition: CompositionState | null = null;
 
   // Event handlers bound to this instance
-  private _boundKeyDownHandler: (e: KeyboardEvent) => void;
-  private _boundKeyPressHandler: (e: KeyboardEvent) => void;
-  private _boundPasteHandler: (e: ClipboardEvent) => void;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private _boundMouseMoveHandler: (e: any) => void;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -89,13 +170,33 @@ export class RichTextNode extends Konva.Group {
     this._boxHeight = config.height;
     this._document = config.document || createEmptyDocument();
     this._selection = { anchor: 0, focus: 0 };
+    this._lastSelection = { ...this._selection };
     this._placeholder = config.placeholder || 'Click to edit...';
     this._editable = config.editable !== false;
+    this._autoLink = config.autoLink !== false;
+    this._autoFit = config.autoFit ?? 'fixed';
+    this._minWidth = config.minWidth ?? this._minWidth;
+    this._maxWidth = config.maxWidth ?? this._maxWidth;
+    this._minHeight = config.minHeight ?? this._minHeight;
+    this._maxHeight = config.maxHeight ?? this._maxHeight;
+    this._textWrap = config.textWrap;
+
+    // Keyboard, IME and clipboard input arrive through a hidden textarea
+    this._inputBridge = new TextInputBridge({
+      onKeyDown: (e) => this._handleKeyDown(e),
+      onInsertText: (text) => this._insertText(text),
+      onEditCommand: (command) => {
+        if (command === 'deleteContentBackward') this._handleBackspace();
+        else if (command === 'deleteContentForward') this._handleDelete();
+        else this._handleEnter();
+      },
+      onCompositionStart: () => this._handleCompositionStart(),
+      onCompositionUpdate: (text, caret) => this._handleCompositionUpdate(text, caret),
+      onCompositionEnd: (text) => this._handleCompositionEnd(text),
+      onPaste: (e) => this._handlePaste(e),
+    });
 
     // Bind event handlers
-    this._boundKeyDownHandler = this._handleKeyDown.bind(this);
-    this._boundKeyPressHandler = this._handleKeyPress.bind(this);
-    this._boundPasteHandler = this._handlePaste.bind(this);
     this._boundMouseMoveHandler = this._handleMouseMove.bind(this);
     this._boundMouseUpHandler = this._handleMouseUp.bind(this);
 
@@ -113,6 +214,22 @@ export class RichTextNode extends Konva.Group {
     this._pushHistory();
   }
 
+  /**
+   * Subscribe to an event. Editor events (`textchange`, `selectionchange`,
+   * `beforeinput`) receive typed payloads; other names behave as in Konva.
+   */
+  public on<K extends keyof RichTextEventMap>(
+    evtStr: K,
+    handler: (this: this, e: RichTextEventMap[K]) => void
+  ): this;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  public on(evtStr: string, handler: (this: this, e: any) => void): this;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  public on(evtStr: string, handler: (this: this, e: any) => void): this {
+    super.on(evtStr, handler);
+    return this;
+  }
+
   /**
    * Initialize visual Konva nodes
    */
@@ -140,11 +257,10 @@ export class RichTextNode extends Konva.Group {
     });
     this.add(this._borderRect);
 
-    // Text group (will be populated by _render)
-    this._textGroup = new Konva.Group({
-      listening: false,
-    });
-    this.add(this._textGroup);
+    // Text, selection and caret nodes (kept between renders)
+    this._textRenderer = new KonvaTextRenderer();
+    this._textRenderer.getGroup().listening(false);
+    this.add(this._textRenderer.getGroup());
   }
 
   /**
@@ -161,6 +277,11 @@ export class RichTextNode extends Konva.Group {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     this.on('mousedown', this._handleMouseDown.bind(this) as any);
 
+    // Pointer cursor over links
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    this.on('mousemove', this._handleHover.bind(this) as any);
+    this.on('mouseleave', () => this._setLinkHovered(false));
+
     // Transform events for resizing
     this.on('transform', this._handleTransform.bind(this));
     this.on('transformend', this._handleTransformEnd.bind(this));
@@ -170,6 +291,10 @@ export class RichTextNode extends Konva.Group {
    * Handle click event
    */
   private _handleClick(e: Konva.KonvaEventObject<MouseEvent>): void {
+    // Links are followed (by `linkclick` handlers) unless editing, even in
+    // boxes that cannot be edited
+    if (!this._isEditing && this._fireLinkClick(e)) return;
+
     if (!this._editable) return;
 
     e.cancelBubble = true;
@@ -181,6 +306,9 @@ export class RichTextNode extends Konva.Group {
       this.startEditing();
     }
 
+    // The canvas took focus on mousedown; give it back to the input textarea
+    this._inputBridge.focus();
+
     // Check if click is in bullet zone
     const bulletZoneResult = hitTestBulletZone(this._layout, pos.x, pos.y, this._document);
 
@@ -198,6 +326,60 @@ export class RichTextNode extends Konva.Group {
     this._render();
   }
 
+  /**
+   * Fire `linkclick` if the pointer is on a link. Returns true when a
+   * handler prevented the click from doing anything else.
+   */
+  private _fireLinkClick(e: Konva.KonvaEventObject<MouseEvent>): boolean {
+    const target = this._getLinkAtPointer(e);
+    if (!target) return false;
+
+    e.cancelBubble = true;
+    const event: LinkClickEvent = {
+      ...target,
+      defaultPrevented: false,
+      preventDefault() {
+        this.defaultPrevented = true;
+      },
+    };
+    this.fire('linkclick', event);
+    return event.defaultPrevented;
+  }
+
+  /**
+   * Show the pointer cursor over links while not editing
+   */
+  private _handleHover(e: Konva.KonvaEventObject<MouseEvent>): void {
+    this._setLinkHovered(!this._isEditing && this._getLinkAtPointer(e) !== null);
+  }
+
+  /**
+   * Set or reset the stage cursor, leaving cursors set by others alone
+   */
+  private _setLinkHovered(hovered: boolean): void {
+    if (hovered === this._linkHovered) return;
+    this._linkHovered = hovered;
+
+    const container = this.getStage()?.container();
+    if (container) {
+      container.style.cursor = hovered ? 'pointer' : '';
+    }
+  }
+
+  /**
+   * The link of the character under the pointer
+   */
+  private _getLinkAtPointer(e: Konva.KonvaEventObject<MouseEvent>): { link: TextLink; range: TextRange } | null {
+    const pos = this._getRelativePointerPosition(e);
+    if (!pos || !this._layout) return null;
+
+    const char = this._layout.chars.find(
+      (c) => pos.x >= c.x && pos.x < c.x + c.width && pos.y >= c.y && pos.y < c.y + c.height
+    );
+    if (!char?.char.style.link) return null;
+    return getLinkAt(this._document, char.char.absoluteIndex + 1);
+  }
+
   /**
    * Handle double click to select word
    */
@@ -218,21 +400,20 @@ export class RichTextNode extends Konva.Group {
       const listItem = this._document.listItems.get(lineIndex);
 
       if (listItem) {
-        // Remove list formatting from this paragraph only
-        const newListItems = new Map(this._document.listItems);
-        newListItems.delete(lineIndex);
-        this._document = { ...this._document, listItems: newListItems };
+        const caretPos = getLineStartPosition(this._document, lineIndex);
 
-        // Renumber remaining list items
-        this._document = renumberLists(this._document);
+        this._performEdit('formatList', { start: caretPos, end: caretPos }, null, () => {
+          // Remove list formatting from this paragraph only
+          const newListItems = new Map(this._document.listItems);
+          newListItems.delete(lineIndex);
+          this._document = { ...this._document, listItems: newListItems };
 
-        // Place caret at start of text
-        const caretPos = getLineStartPosition(this._document, lineIndex);
-        this._selection = { anchor: caretPos, focus: caretPos };
+          // Renumber remaining list items
+          this._document = renumberLists(this._document);
 
-        this._updateLayout();
-        this._render();
-        this._pushHistory();
+          // Place caret at start of text
+          this._selection = { anchor: caretPos, focus: caretPos };
+        });
       }
     } else {
       // Normal double-click - select word
@@ -250,6 +431,9 @@ export class RichTextNode extends Konva.Group {
   private _handleMouseDown(e: Konva.KonvaEventObject<MouseEvent>): void {
     if (!this._editable || !this._isEditing) return;
 
+    // Clicking commits the composition, as in native text fields
+    this._commitComposition();
+
     const pos = this._getRelativePointerPosition(e);
     if (!pos || !this._layout) return;
 
@@ -294,6 +478,7 @@ export class RichTextNode extends Konva.Group {
    */
   private _handleMouseUp(_e: Konva.KonvaEventObject<MouseEvent>): void {
     this._isDraggingSelection = false;
+    this._inputBridge.focus();
 
     // Remove temporary global listeners
     const stage = this.getStage();
@@ -324,11 +509,21 @@ export class RichTextNode extends Konva.Group {
     this._boxWidth = newWidth;
     this._boxHeight = newHeight;
 
+    // Dragging the width of an auto-width box gives it that width, with the
+    // height still following the text
+    if (this._autoFit === 'auto-width' && Math.abs(scaleX - 1) > 0.001) {
+      this._autoFit = 'auto-height';
+    }
+
     // Scale font sizes proportionally for diagonal scaling
     if (isDiagonalScale) {
       // Use geometric mean of scale factors for proportional scaling
       const scaleFactor = Math.sqrt(scaleX * scaleY);
-      this._scaleFontSizes(scaleFactor);
+      const length = getDocumentLength(this._document);
+      this._performEdit('formatText', { start: 0, end: length }, null, () => {
+        this._scaleFontSizes(scaleFactor);
+      }, { cancelable: false, history: false });
+      return;
     }
 
     this._updateLayout();
@@ -398,14 +593,16 @@ export class RichTextNode extends Konva.Group {
       this._handleBackspace();
     } else if (key === 'Delete') {
       this._handleDelete();
+    } else if (ctrl && shift && key === 'Enter') {
+      this.insertColumnBreak();
     } else if (key === 'Enter') {
       this._handleEnter();
     } else if (key === 'Tab') {
       this._handleTab(shift);
-    } else if (key === 'ArrowLeft') {
-      this._moveCaret('left', shift);
-    } else if (key === 'ArrowRight') {
-      this._moveCaret('right', shift);
+    } else if (key === 'ArrowLeft' || key === 'ArrowRight') {
+      // In a right-to-left paragraph the left arrow moves forward
+      const isRTL = this._getParagraphDirection(this._selection.focus) === 'rtl';
+      this._moveCaret((key === 'ArrowRight') !== isRTL ? 'right' : 'left', shift);
     } else if (key === 'ArrowUp') {
       this._moveCaret('up', shift);
     } else if (key === 'ArrowDown') {
@@ -426,38 +623,24 @@ export class RichTextNode extends Konva.Group {
     }
   }
 
-  /**
-   * Handle character input
-   */
-  private _handleKeyPress(e: KeyboardEvent): void {
-    if (!this._isEditing) return;
-
-    // Filter out control characters
-    if (e.ctrlKey || e.metaKey || e.key.length !== 1) return;
-
-    e.preventDefault();
-    e.stopPropagation();
-
-    this._insertText(e.key);
-  }
-
   /**
    * Insert text at current position
    */
-  private _insertText(text: string): void {
-    const { doc, newPosition } = replaceSelection(
-      this._document,
-      this._selection,
-      text,
-      this._currentStyle
-    );
-
-    this._document = doc;
-    this._selection = { anchor: newPosition, focus: newPosition };
+  private _insertText(text: string, inputType: InputType = 'insertText'): void {
+    this._performEdit(inputType, this._getSelectionRange(), text, (data) => {
+      const { doc, newPosition } = replaceSelection(
+        this._document,
+        this._selection,
+        data ?? '',
+        this._currentStyle
+      );
 
-    this._updateLayout();
-    this._render();
-    this._pushHistory();
+      this._document = doc;
+      this._selection = { anchor: newPosition, focus: newPosition };
+      if (this._autoLink && /^\s$/.test(data ?? '')) {
+        this._document = linkUrlBefore(this._document, newPosition - 1);
+      }
+    });
     this._resetCaretBlink();
   }
 
@@ -468,64 +651,58 @@ export class RichTextNode extends Konva.Group {
     const currentLineIndex = getLineIndexForPosition(this._document, this._selection.focus);
     const currentListItem = this._document.listItems.get(currentLineIndex);
     const lineStart = getLineStartPosition(this._document, currentLineIndex);
+    const focus = this._selection.focus;
 
     if (this._selection.anchor !== this._selection.focus) {
       // Delete selection
-      const { doc, newPosition } = replaceSelection(
-        this._document,
-        this._selection,
-        ''
-      );
-      this._document = doc;
-      this._selection = { anchor: newPosition, focus: newPosition };
-      // Renumber lists after deletion
-      this._document = renumberLists(this._document);
-    } else if (currentListItem && this._selection.focus === lineStart) {
-      // At start of a list item
-      if (currentListItem.level > 0) {
-        // Outdent first (decrease indentation level)
-        this._document = outdentListItem(this._document, currentLineIndex);
-        this._document = renumberLists(this._document);
-      } else {
-        // At level 0 - remove list formatting entirely
-        const newListItems = new Map(this._document.listItems);
-        newListItems.delete(currentLineIndex);
-        this._document = { ...this._document, listItems: newListItems };
-        this._document = renumberLists(this._document);
-      }
-    } else if (this._selection.focus > 0) {
-      // Check if we're deleting a newline that would merge lines
-      const chars = this._document.spans.map(s => s.text).join('');
-      const charToDelete = chars[this._selection.focus - 1];
-
-      if (charToDelete === '\n') {
-        // Deleting a newline - need to adjust list items
-        this._document = deleteRange(
+      this._performEdit('deleteContentBackward', this._getSelectionRange(), null, () => {
+        const { doc, newPosition } = replaceSelection(
           this._document,
-          this._selection.focus - 1,
-          this._selection.focus
+          this._selection,
+          ''
         );
-        // Remove list item for the line being merged and shift subsequent items
-        this._document = removeListItemAtLine(this._document, currentLineIndex);
+        this._document = doc;
+        this._selection = { anchor: newPosition, focus: newPosition };
+        // Renumber lists after deletion
         this._document = renumberLists(this._document);
-      } else {
-        // Regular character deletion
-        this._document = deleteRange(
-          this._document,
-          this._selection.focus - 1,
-          this._selection.focus
-        );
-      }
+      });
+    } else if (currentListItem && focus === lineStart) {
+      // At start of a list item
+      this._performEdit('formatList', { start: focus, end: focus }, null, () => {
+        if (currentListItem.level > 0) {
+          // Outdent first (decrease indentation level)
+          this._document = outdentListItem(this._document, currentLineIndex);
+          this._document = renumberLists(this._document);
+        } else {
+          // At level 0 - remove list formatting entirely
+          const newListItems = new Map(this._document.listItems);
+          newListItems.delete(currentLineIndex);
+          this._document = { ...this._document, listItems: newListItems };
+          this._document = renumberLists(this._document);
+        }
+      });
+    } else if (focus > 0) {
+      // Delete the whole grapheme cluster (emoji sequence, letter with accents)
+      const text = this.getText();
+      const start = getPreviousGraphemeBoundary(text, focus);
+
+      this._performEdit('deleteContentBackward', { start, end: focus }, null, () => {
+        // Check if we're deleting a newline that would merge lines
+        if (text[start] === '\n') {
+          // Deleting a newline - need to adjust list items
+          this._document = deleteRange(this._document, start, focus);
+          // Remove list item for the line being merged and shift subsequent items
+          this._document = removeListItemAtLine(this._document, currentLineIndex);
+          this._document = renumberLists(this._document);
+        } else {
+          // Regular character deletion
+          this._document = deleteRange(this._document, start, focus);
+        }
 
-      this._selection = {
-        anchor: this._selection.focus - 1,
-        focus: this._selection.focus - 1,
-      };
+        this._selection = { anchor: start, focus: start };
+      });
     }
 
-    this._updateLayout();
-    this._render();
-    this._pushHistory();
     this._resetCaretBlink();
   }
 
@@ -534,47 +711,41 @@ export class RichTextNode extends Konva.Group {
    */
   private _handleDelete(): void {
     const docLength = getDocumentLength(this._document);
+    const focus = this._selection.focus;
 
     if (this._selection.anchor !== this._selection.focus) {
       // Delete selection
-      const { doc, newPosition } = replaceSelection(
-        this._document,
-        this._selection,
-        ''
-      );
-      this._document = doc;
-      this._selection = { anchor: newPosition, focus: newPosition };
-      // Renumber lists after deletion
-      this._document = renumberLists(this._document);
-    } else if (this._selection.focus < docLength) {
-      // Check if we're deleting a newline
-      const chars = this._document.spans.map(s => s.text).join('');
-      const charToDelete = chars[this._selection.focus];
-
-      if (charToDelete === '\n') {
-        // Deleting a newline - need to adjust list items
-        const nextLineIndex = getLineIndexForPosition(this._document, this._selection.focus + 1);
-        this._document = deleteRange(
+      this._performEdit('deleteContentForward', this._getSelectionRange(), null, () => {
+        const { doc, newPosition } = replaceSelection(
           this._document,
-          this._selection.focus,
-          this._selection.focus + 1
+          this._selection,
+          ''
         );
-        // Remove list item for the next line being merged
-        this._document = removeListItemAtLine(this._document, nextLineIndex);
+        this._document = doc;
+        this._selection = { anchor: newPosition, focus: newPosition };
+        // Renumber lists after deletion
         this._document = renumberLists(this._document);
-      } else {
-        // Regular character deletion
-        this._document = deleteRange(
-          this._document,
-          this._selection.focus,
-          this._selection.focus + 1
-        );
-      }
+      });
+    } else if (focus < docLength) {
+      const text = this.getText();
+      const end = getNextGraphemeBoundary(text, focus);
+
+      this._performEdit('deleteContentForward', { start: focus, end }, null, () => {
+        // Check if we're deleting a newline
+        if (text[focus] === '\n') {
+          // Deleting a newline - need to adjust list items
+          const nextLineIndex = getLineIndexForPosition(this._document, focus + 1);
+          this._document = deleteRange(this._document, focus, end);
+          // Remove list item for the next line being merged
+          this._document = removeListItemAtLine(this._document, nextLineIndex);
+          this._document = renumberLists(this._document);
+        } else {
+          // Regular character deletion
+          this._document = deleteRange(this._document, focus, end);
+        }
+      });
     }
 
-    this._updateLayout();
-    this._render();
-    this._pushHistory();
     this._resetCaretBlink();
   }
 
@@ -584,16 +755,16 @@ export class RichTextNode extends Konva.Group {
   private _handleEnter(): void {
     const currentLineIndex = getLineIndexForPosition(this._document, this._selection.focus);
     const currentListItem = this._document.listItems.get(currentLineIndex);
+    const focus = this._selection.focus;
 
     // If current line is an empty list item, exit the list instead of creating new item
     if (currentListItem && isLineEmpty(this._document, currentLineIndex)) {
-      // Remove the list formatting from current line
-      const newListItems = new Map(this._document.listItems);
-      newListItems.delete(currentLineIndex);
-      this._document = { ...this._document, listItems: newListItems };
-      this._updateLayout();
-      this._render();
-      this._pushHistory();
+      this._performEdit('formatList', { start: focus, end: focus }, null, () => {
+        // Remove the list formatting from current line
+        const newListItems = new Map(this._document.listItems);
+        newListItems.delete(currentLineIndex);
+        this._document = { ...this._document, listItems: newListItems };
+      });
       this._resetCaretBlink();
       return;
     }
@@ -605,95 +776,95 @@ export class RichTextNode extends Konva.Group {
     if (currentListItem && isAtLineStart && !isLineEmpty(this._document, currentLineIndex)) {
       // Special case: caret at start of non-empty list item
       // Create new empty list item ABOVE current, caret moves to new item
-      const newListItems = new Map(this._document.listItems);
-
-      // Shift all list items from current line onwards down by 1
-      const entries = Array.from(this._document.listItems.entries()).sort((a, b) => b[0] - a[0]);
-      for (const [lineIdx, item] of entries) {
-        if (lineIdx >= currentLineIndex) {
-          newListItems.delete(lineIdx);
-          newListItems.set(lineIdx + 1, item);
-        }
-      }
+      this._performEdit('insertParagraph', { start: lineStart, end: lineStart }, '\n', (data) => {
+        const newListItems = new Map(this._document.listItems);
 
-      // Insert new empty list item at current line index
-      newListItems.set(currentLineIndex, {
-        type: currentListItem.type,
-        level: currentListItem.level,
-        index: currentListItem.type === 'number' ? currentListItem.index : 0,
-      });
+        // Shift all list items from current line onwards down by 1
+        const entries = Array.from(this._document.listItems.entries()).sort((a, b) => b[0] - a[0]);
+        for (const [lineIdx, item] of entries) {
+          if (lineIdx >= currentLineIndex) {
+            newListItems.delete(lineIdx);
+            newListItems.set(lineIdx + 1, item);
+          }
+        }
 
-      // Insert newline before current text (at lineStart position)
-      const { doc } = replaceSelection(
-        this._document,
-        { anchor: lineStart, focus: lineStart },
-        '\n',
-        this._currentStyle
-      );
+        // Insert new empty list item at current line index
+        newListItems.set(currentLineIndex, {
+          type: currentListItem.type,
+          level: currentListItem.level,
+          index: currentListItem.type === 'number' ? currentListItem.index : 0,
+        });
 
-      this._document = { ...doc, listItems: newListItems };
-      // Caret stays at original position (which is now start of the text that moved down)
-      this._selection = { anchor: lineStart, focus: lineStart };
+        // Insert newline before current text (at lineStart position)
+        const { doc } = replaceSelection(
+          this._document,
+          { anchor: lineStart, focus: lineStart },
+          data ?? '',
+          this._currentStyle
+        );
 
-      // Renumber to ensure consistency
-      this._document = renumberLists(this._document);
+        this._document = { ...doc, listItems: newListItems };
+        // Caret stays at original position (which is now start of the text that moved down)
+        this._selection = { anchor: lineStart, focus: lineStart };
 
-      this._updateLayout();
-      this._render();
-      this._pushHistory();
+        // Renumber to ensure consistency
+        this._document = renumberLists(this._document);
+      });
       this._resetCaretBlink();
       return;
     }
 
-    // Insert newline first
-    const { doc, newPosition } = replaceSelection(
-      this._document,
-      this._selection,
-      '\n',
-      this._currentStyle
-    );
+    this._performEdit('insertParagraph', this._getSelectionRange(), '\n', (data) => {
+      // Insert newline first
+      const { doc, newPosition } = replaceSelection(
+        this._document,
+        this._selection,
+        data ?? '',
+        this._currentStyle
+      );
+
+      this._document = doc;
+      this._selection = { anchor: newPosition, focus: newPosition };
+      if (this._autoLink) {
+        this._document = linkUrlBefore(this._document, newPosition - 1);
+      }
 
-    this._document = doc;
-    this._selection = { anchor: newPosition, focus: newPosition };
+      // If current line is a list item, continue the list on the new line
+      if (currentListItem) {
+        const newLineIndex = currentLineIndex + 1;
+        const newListItems = new Map(this._document.listItems);
 
-    // If current line is a list item, continue the list on the new line
-    if (currentListItem) {
-      const newLineIndex = currentLineIndex + 1;
-      const newListItems = new Map(this._document.listItems);
-
-      // Shift all existing list items after this point down by 1
-      const entries = Array.from(this._document.listItems.entries()).sort((a, b) => b[0] - a[0]);
-      for (const [lineIdx, item] of entries) {
-        if (lineIdx > currentLineIndex) {
-          newListItems.delete(lineIdx);
-          newListItems.set(lineIdx + 1, item);
+        // Shift all existing list items after this point down by 1
+        const entries = Array.from(this._document.listItems.entries()).sort((a, b) => b[0] - a[0]);
+        for (const [lineIdx, item] of entries) {
+          if (lineIdx > currentLineIndex) {
+            newListItems.delete(lineIdx);
+            newListItems.set(lineIdx + 1, item);
+          }
         }
-      }
 
-      // Add new list item with same type and level
-      if (currentListItem.type === 'bullet') {
-        newListItems.set(newLineIndex, {
-          type: 'bullet',
-          level: currentListItem.level,
-          index: 0,
-        });
-      } else if (currentListItem.type === 'number') {
-        // For numbered lists, increment the index
-        newListItems.set(newLineIndex, {
-          type: 'number',
-          level: currentListItem.level,
-          index: currentListItem.index + 1,
-        });
-      }
+        // Add new list item with same type and level
+        if (currentListItem.type === 'bullet') {
+          newListItems.set(newLineIndex, {
+            type: 'bullet',
+            level: currentListItem.level,
+            index: 0,
+          });
+        } else if (currentListItem.type === 'number') {
+          // For numbered lists, increment the index
+          newListItems.set(newLineIndex, {
+            type: 'number',
+            level: currentListItem.level,
+            index: currentListItem.index + 1,
+          });
+        }
 
-      this._document = { ...this._document, listItems: newListItems };
-      // Renumber to ensure consistency
-      this._document = renumberLists(this._document);
-    }
+        this._document = { ...this._document, listItems: newListItems };
+        // Renumber to ensure consistency
+        this._document = renumberLists(this._document);
+      }
+    });
 
-    this._updateLayout();
-    this._render();
-    this._pushHistory();
     this._resetCaretBlink();
   }
 
@@ -706,14 +877,13 @@ export class RichTextNode extends Konva.Group {
 
     if (currentListItem) {
       // Indent or outdent the list item
-      if (shift) {
-        this._document = outdentListItem(this._document, currentLineIndex);
-      } else {
-        this._document = indentListItem(this._document, currentLineIndex);
-      }
-      this._updateLayout();
-      this._render();
-      this._pushHistory();
+      this._performEdit('formatList', this._getSelectionRange(), null, () => {
+        if (shift) {
+          this._document = outdentListItem(this._document, currentLineIndex);
+        } else {
+          this._document = indentListItem(this._document, currentLineIndex);
+        }
+      });
     } else {
       // Not in a list item, insert tab character
       this._insertText('\t');
@@ -735,7 +905,7 @@ export class RichTextNode extends Konva.Group {
         if (!extendSelection && this._selection.anchor !== this._selection.focus) {
           newFocus = Math.min(this._selection.anchor, this._selection.focus);
         } else if (newFocus > 0) {
-          newFocus--;
+          newFocus = getPreviousGraphemeBoundary(this.getText(), newFocus);
         }
         break;
 
@@ -743,7 +913,7 @@ export class RichTextNode extends Konva.Group {
         if (!extendSelection && this._selection.anchor !== this._selection.focus) {
           newFocus = Math.max(this._selection.anchor, this._selection.focus);
         } else if (newFocus < docLength) {
-          newFocus++;
+          newFocus = getNextGraphemeBoundary(this.getText(), newFocus);
         }
         break;
 
@@ -772,6 +942,15 @@ export class RichTextNode extends Konva.Group {
     this._resetCaretBlink();
   }
 
+  /**
+   * Resolved direction of the paragraph containing a position
+   */
+  private _getParagraphDirection(pos: AbsolutePosition): 'ltr' | 'rtl' {
+    const paragraphIndex = getLineIndexForPosition(this._document, pos);
+    const line = this._layout?.lines.find((l) => l.paragraphIndex === paragraphIndex);
+    return line?.direction ?? 'ltr';
+  }
+
   /**
    * Move caret up or down a line
    */
@@ -779,36 +958,38 @@ export class RichTextNode extends Konva.Group {
     if (!this._layout) return this._selection.focus;
 
     const currentPos = getCaretPosition(this._layout, this._selection.focus, this._document);
-    const currentLine = this._getLineAtY(currentPos.y);
+    const currentLine = getLineAtPoint(this._layout, currentPos.x, currentPos.y);
 
     if (currentLine === -1) return this._selection.focus;
 
-    const targetLineIndex = up ? currentLine - 1 : currentLine + 1;
+    // Lines are in column order, so this crosses from the bottom of one
+    // column to the top of the next. Wrap segments of the same row are
+    // skipped (hit testing picks the segment under the caret's x).
+    const line = this._layout.lines[currentLine];
+    const step = up ? -1 : 1;
+    let targetLineIndex = currentLine + step;
+    while (
+      this._layout.lines[targetLineIndex]?.y === line.y &&
+      this._layout.lines[targetLineIndex].column === line.column
+    ) {
+      targetLineIndex += step;
+    }
 
     if (targetLineIndex < 0 || targetLineIndex >= this._layout.lines.length) {
       return this._selection.focus;
     }
 
+    // Keep the caret's x within the column
     const targetLine = this._layout.lines[targetLineIndex];
     const targetY = targetLine.y + targetLine.height / 2;
-
-    return hitTest(this._layout, currentPos.x, targetY, this._document);
-  }
-
-  /**
-   * Get line index at Y coordinate
-   */
-  private _getLineAtY(y: number): number {
-    if (!this._layout) return -1;
-
-    for (let i = 0; i < this._layout.lines.length; i++) {
-      const line = this._layout.lines[i];
-      if (y >= line.y && y < line.y + line.height) {
-        return i;
-      }
-    }
-
-    return this._layout.lines.length - 1;
+    const targetX =
+      line.column === targetLine.column
+        ? currentPos.x
+        : currentPos.x -
+          getLineBounds(this._layout, this._document, line).left +
+          getLineBounds(this._layout, this._document, targetLine).left;
+
+    return hitTest(this._layout, targetX, targetY, this._document);
   }
 
   /**
@@ -818,14 +999,15 @@ export class RichTextNode extends Konva.Group {
     if (!this._layout) return 0;
 
     const caretPos = getCaretPosition(this._layout, pos, this._document);
-    const lineIndex = this._getLineAtY(caretPos.y);
+    const lineIndex = getLineAtPoint(this._layout, caretPos.x, caretPos.y);
 
     if (lineIndex < 0) return 0;
 
     const line = this._layout.lines[lineIndex];
     if (line.chars.length === 0) return pos;
 
-    return line.chars[0].char.absoluteIndex;
+    // Characters are in visual order; the line starts at the lowest index
+    return Math.min(...line.chars.map((c) => c.char.absoluteIndex));
   }
 
   /**
@@ -835,14 +1017,16 @@ export class RichTextNode extends Konva.Group {
     if (!this._layout) return getDocumentLength(this._document);
 
     const caretPos = getCaretPosition(this._layout, pos, this._document);
-    const lineIndex = this._getLineAtY(caretPos.y);
+    const lineIndex = getLineAtPoint(this._layout, caretPos.x, caretPos.y);
 
     if (lineIndex < 0) return getDocumentLength(this._document);
 
     const line = this._layout.lines[lineIndex];
     if (line.chars.length === 0) return pos;
 
-    return line.chars[line.chars.length - 1].char.absoluteIndex + 1;
+    // A line ended by a column break ends before it
+    const end = Math.max(...line.chars.map((c) => c.char.absoluteIndex + c.char.char.length));
+    return line.columnBreak ? end - COLUMN_BREAK.length : end;
   }
 
   /**
@@ -853,20 +1037,22 @@ export class RichTextNode extends Konva.Group {
       return { start: 0, end: 0 };
     }
 
-    const chars = this._layout.chars;
+    // Separators are single code units, so scanning code units never
+    // stops inside a cluster
+    const text = this.getText();
     let start = pos;
     let end = pos;
 
     // Find start of word
     while (start > 0) {
-      const char = chars[start - 1]?.char.char || '';
+      const char = text[start - 1];
       if (char === ' ' || char === '\n' || char === '\t') break;
       start--;
     }
 
     // Find end of word
-    while (end < chars.length) {
-      const char = chars[end]?.char.char || '';
+    while (end < text.length) {
+      const char = text[end];
       if (char === ' ' || char === '\n' || char === '\t') break;
       end++;
     }
@@ -892,6 +1078,7 @@ export class RichTextNode extends Konva.Group {
       });
 
       // Try to write both plain text and rich text to clipboard
+      // (semantic HTML for other apps, JSON payload for lossless internal paste)
       if (navigator.clipboard && navigator.clipboard.write) {
         const textBlob = new Blob([plainText], { type: 'text/plain' });
 
@@ -900,7 +1087,7 @@ export class RichTextNode extends Konva.Group {
             new ClipboardItem({
               'text/plain': textBlob,
               'text/html': new Blob(
-                [`<div data-rich-text-konva="${encodeURIComponent(richTextData)}">${this._escapeHTML(plainText)}</div>`],
+                [`<div data-rich-text-konva="${encodeURIComponent(richTextData)}">${exportToHTML(this._document, this._getSelectionRange())}</div>`],
                 { type: 'text/html' }
               ),
             }),
@@ -916,40 +1103,28 @@ export class RichTextNode extends Konva.Group {
     }
   }
 
-  /**
-   * Escape HTML for safe embedding
-   */
-  private _escapeHTML(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;')
-      .replace(/\n/g, '<br>');
-  }
-
   /**
    * Cut selected text
    */
   private _cutSelection(): void {
     this._copySelection();
     if (this._selection.anchor !== this._selection.focus) {
-      const { doc, newPosition } = replaceSelection(
-        this._document,
-        this._selection,
-        ''
-      );
-      this._document = doc;
-      this._selection = { anchor: newPosition, focus: newPosition };
-      this._updateLayout();
-      this._render();
-      this._pushHistory();
+      this._performEdit('deleteByCut', this._getSelectionRange(), null, () => {
+        const { doc, newPosition } = replaceSelection(
+          this._document,
+          this._selection,
+          ''
+        );
+        this._document = doc;
+        this._selection = { anchor: newPosition, focus: newPosition };
+      });
     }
   }
 
   /**
-   * Get relative pointer position within this node
+   * Get relative pointer position within this node. With linked frames the
+   * position is in the combined layout's coordinates, taken from the box
+   * under the pointer (or the nearest one while dragging outside them).
    */
   private _getRelativePointerPosition(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unused-vars
@@ -962,25 +1137,116 @@ export class RichTextNode extends Konva.Group {
     if (!pointerPos) return null;
 
     const transform = this.getAbsoluteTransform().copy().invert();
-    return transform.point(pointerPos);
+    const headPoint = transform.point(pointerPos);
+    const path = this._layout?.path;
+    if (path) {
+      // Curved text is hit tested where it would be laid out straight
+      return mapFromPath(path, headPoint.x, headPoint.y);
+    }
+    const bounds = this._layout?.frames;
+    if (!bounds) return headPoint;
+
+    const boxes: Konva.Group[] = [this, ...this._frames];
+    let best = { x: headPoint.x, y: headPoint.y, distance: Infinity };
+    boxes.forEach((box, k) => {
+      const point = box.getAbsoluteTransform().copy().invert().point(pointerPos);
+      const { width, height, top } = bounds[k];
+      const dx = Math.max(0, -point.x, point.x - width);
+      const dy = Math.max(0, -point.y, point.y - height);
+      const distance = Math.hypot(dx, dy);
+      if (distance >= best.distance) return;
+
+      // Points below a frame's text stay on its last lines instead of
+      // reaching the next frame
+      const lines = this._frameLayouts[k].lines;
+      const textBottom = Math.max(...lines.map((line) => line.y + line.height));
+      const y = lines.length > 0 ? Math.min(point.y, textBottom - 0.5) : point.y;
+      best = { x: point.x, y: top + y, distance };
+    });
+
+    return { x: best.x, y: best.y };
   }
 
   /**
-   * Update layout based on current document and dimensions
+   * Update layout based on current document and dimensions.
+   * Only paragraphs changed since the last update are laid out again.
+   * Auto-fit modes resize the box (or scale the displayed font sizes) here.
    */
   private _updateLayout(): void {
-    this._layout = layoutText(this._document, this._boxWidth, this._boxHeight);
+    if (this._frames.length > 0) {
+      // Linked frames keep their sizes (auto-fit does not apply)
+      const document = this._getDisplayDocument();
+      const sizes = [
+        { ...this.getBoxSize(), wrap: this._textWrap },
+        ...this._frames.map((frame) => frame.getFrameSize()),
+      ];
+      this._frameLayouts = layoutTextFrames(document, sizes, this._layoutCache);
+      this._layoutDocument = document;
+      this._layout = combineFrameLayouts(this._frameLayouts);
+      this._fontScale = 1;
+      return;
+    }
+
+    const fit = fitText(
+      this._getDisplayDocument(),
+      this._boxWidth,
+      this._boxHeight,
+      this.getAutoFitOptions(),
+      this._layoutCache
+    );
+    this._layoutDocument = fit.document;
+    this._layout = fit.layout;
+    this._boxWidth = fit.width;
+    this._boxHeight = fit.height;
+    this._fontScale = fit.fontScale;
+    this._frameLayouts = [fit.layout];
+  }
+
+  /**
+   * The document as shown: during a composition the composed text replaces
+   * the range it was started on. While editing, text an ellipsis would hide
+   * is shown.
+   */
+  private _getDisplayDocument(): RichTextDocument {
+    let doc = this._document;
+    if (this._isEditing && doc.overflow === 'ellipsis') {
+      doc = { ...doc, overflow: 'visible' };
+    }
+    if (!this._composition) return doc;
+
+    const { range, text } = this._composition;
+    return replaceSelection(
+      doc,
+      { anchor: range.start, focus: range.end },
+      text,
+      this._currentStyle
+    ).doc;
   }
 
   /**
    * Render everything using native Konva nodes
    */
   private _render(): void {
-    if (!this._layout || !this._textGroup || !this._borderRect || !this._hitArea) return;
+    if (!this._layout || !this._textRenderer || !this._borderRect || !this._hitArea) return;
+
+    // Every selection update ends in a render, so this is where it is reported
+    this._emitSelectionChange();
+    this._emitSizeChange();
+
+    const displayDocument = this._layoutDocument ?? this._document;
+    const composition = this._composition
+      ? {
+          start: this._composition.range.start,
+          end: this._composition.range.start + this._composition.text.length,
+        }
+      : null;
 
     // Get caret position and create CaretInfo
+    const caretFocus = this._composition
+      ? this._composition.range.start + this._composition.caret
+      : this._selection.focus;
     const caretPosition = this._isEditing
-      ? getCaretPosition(this._layout, this._selection.focus, this._document)
+      ? getCaretPosition(this._layout, caretFocus, displayDocument)
       : null;
 
     const caretInfo = caretPosition
@@ -990,22 +1256,31 @@ export class RichTextNode extends Konva.Group {
         }
       : null;
 
-    // Clear existing text group content
-    this._textGroup.destroyChildren();
-
-    // Create new Konva nodes for text, selection, and caret
-    const newContent = createKonvaTextNodes(
-      this._layout,
-      this._document,
-      this._isEditing ? this._selection : null,
-      caretInfo,
-      this._caretVisible && this._isEditing
-    );
-
-    // Add all children from the new content group
-    for (const child of newContent.getChildren().slice()) {
-      this._textGroup.add(child);
-    }
+    // Update only what changed: text nodes when the layout changed,
+    // selection and caret on their own. Each box renders its own part of the
+    // text; the caret goes into the box it is in.
+    const renderers = [this._textRenderer, ...this._frames.map((frame) => frame.getTextRenderer())];
+    const caretFrame = caretInfo ? this._getFrameIndexAt(caretInfo.y) : -1;
+    const caretTop = caretFrame > 0 ? this._layout.frames![caretFrame].top : 0;
+    this._caretRenderer = renderers[caretFrame] ?? null;
+
+    renderers.forEach((renderer, k) => {
+      const layout = this._frameLayouts[k];
+      const { width, height } = k === 0 ? this.getBoxSize() : this._frames[k - 1].getFrameSize();
+
+      renderer.update(layout, displayDocument, composition);
+      renderer.updateSelection(layout, this._isEditing && !composition ? this._selection : null);
+      renderer.updateCaret(k === caretFrame && caretInfo ? { ...caretInfo, y: caretInfo.y - caretTop } : null);
+
+      // Clip text (and selection and caret) to the box. A clip function is
+      // used because it can be removed again (clip sizes cannot be unset).
+      renderer.getGroup().setAttrs({
+        clipFunc:
+          displayDocument.overflow === 'clip'
+            ? (ctx: CanvasRenderingContext2D) => ctx.rect(0, 0, width, height)
+            : undefined,
+      });
+    });
 
     // Update hit area
     this._hitArea.width(this._boxWidth);
@@ -1018,45 +1293,259 @@ export class RichTextNode extends Konva.Group {
     if (this._isEditing) {
       this._borderRect.stroke('#4285f4');
       this._borderRect.strokeWidth(2);
+      if (caretInfo) {
+        const box = caretFrame > 0 ? this._frames[caretFrame - 1] : this;
+        this._positionInputBridge({ ...caretInfo, y: caretInfo.y - caretTop }, box);
+      }
     } else {
       this._borderRect.stroke('transparent');
       this._borderRect.strokeWidth(0);
     }
+    for (const frame of this._frames) {
+      frame.setEditing(this._isEditing);
+    }
 
-    // Redraw layer
+    // Redraw layer (linked frames may be on other layers)
     const layer = this.getLayer();
     if (layer) {
       layer.batchDraw();
     }
+    for (const frame of this._frames) {
+      const frameLayer = frame.getLayer();
+      if (frameLayer && frameLayer !== layer) {
+        frameLayer.batchDraw();
+      }
+    }
   }
 
   /**
-   * Update current style based on caret position
+   * Index of the box a y coordinate of the layout is in: 0 for this node's
+   * box, k for the k-th linked frame
    */
-  private _updateCurrentStyle(): void {
-    this._currentStyle = getStyleAtPosition(this._document, this._selection.focus);
+  private _getFrameIndexAt(y: number): number {
+    const bounds = this._layout?.frames;
+    if (!bounds) return 0;
+
+    let index = 0;
+    bounds.forEach((frame, k) => {
+      if (frame.top <= y) index = k;
+    });
+    return index;
   }
 
   /**
-   * Start editing mode
+   * Keep the input textarea over the caret, in viewport coordinates, so the
+   * IME candidate window opens next to the text being composed
    */
-  public startEditing(): void {
-    if (this._isEditing) return;
+  private _positionInputBridge(
+    caret: { x: number; y: number; height: number },
+    box: Konva.Group = this
+  ): void {
+    const stage = this.getStage();
+    if (!stage || !this._inputBridge.isAttached()) return;
+
+    // The caret's ends in the box, bent onto the text path if there is one
+    const path = box === this ? this._layout?.path : undefined;
+    const ends = [caret.y, caret.y + caret.height].map((y) =>
+      path ? placeOnPath(path, caret.x, y) : { x: caret.x, y }
+    );
+
+    const transform = box.getAbsoluteTransform();
+    const top = transform.point(ends[0]);
+    const bottom = transform.point(ends[1]);
+    const height = Math.hypot(bottom.x - top.x, bottom.y - top.y);
+    const scale = caret.height > 0 ? height / caret.height : 1;
+    const container = stage.container().getBoundingClientRect();
+    const fontSize = this._currentStyle.fontSize ?? DEFAULT_STYLE.fontSize;
+
+    this._inputBridge.setCaretRect(
+      { x: container.left + top.x, y: container.top + top.y, height },
+      fontSize * scale
+    );
+  }
+
+  /**
+   * Handle compositionstart: remember the range the composed text replaces
+   */
+  private _handleCompositionStart(): void {
+    if (!this._isEditing) return;
+
+    this._composition = { range: this._getSelectionRange(), text: '', caret: 0 };
+    this._updateCurrentStyle();
+  }
+
+  /**
+   * Handle compositionupdate: show the in-progress text
+   */
+  private _handleCompositionUpdate(text: string, caret: number): void {
+    if (!this._composition) return;
+
+    this._composition = { ...this._composition, text, caret };
+    this._updateLayout();
+    this._resetCaretBlink();
+    this._render();
+  }
+
+  /**
+   * Handle compositionend: insert the committed text as a single edit
+   */
+  private _handleCompositionEnd(text: string): void {
+    if (!this._composition) return;
+
+    const length = getDocumentLength(this._document);
+    const { range } = this._composition;
+    this._composition = null;
+    this._selection = {
+      anchor: Math.min(range.start, length),
+      focus: Math.min(range.end, length),
+    };
+
+    if (text) {
+      this._insertText(text, 'insertCompositionText');
+    } else {
+      // Cancelled (e.g. Escape in the IME)
+      this._updateLayout();
+      this._render();
+    }
+  }
+
+  /**
+   * Commit the in-progress composition, if any, before the caret moves away
+   */
+  private _commitComposition(): void {
+    if (this._composition) {
+      this._handleCompositionEnd(this._composition.text);
+    }
+  }
+
+  /**
+   * Get the current selection as an ordered range
+   */
+  private _getSelectionRange(): TextRange {
+    return {
+      start: Math.min(this._selection.anchor, this._selection.focus),
+      end: Math.max(this._selection.anchor, this._selection.focus),
+    };
+  }
+
+  /**
+   * Run a document edit: fire a cancellable `beforeinput`, apply the edit,
+   * refresh layout and rendering, record history and fire `textchange`.
+   * Returns false when a `beforeinput` handler vetoed the edit.
+   */
+  private _performEdit(
+    inputType: InputType,
+    range: TextRange,
+    data: string | null,
+    apply: (data: string | null) => void,
+    options: { cancelable?: boolean; history?: boolean } = {}
+  ): boolean {
+    const { cancelable = true, history = true } = options;
+
+    if (cancelable) {
+      const beforeInput: BeforeInputEvent = {
+        inputType,
+        range: { ...range },
+        data,
+        defaultPrevented: false,
+        preventDefault() {
+          this.defaultPrevented = true;
+        },
+      };
+      this.fire('beforeinput', beforeInput);
+      if (beforeInput.defaultPrevented) return false;
+      data = beforeInput.data;
+    }
+
+    const oldDocument = this._document;
+    apply(data);
+
+    this._updateLayout();
+    this._render();
+    if (history) {
+      this._pushHistory();
+    }
+
+    if (this._document !== oldDocument) {
+      this.fire('textchange', {
+        inputType,
+        oldDocument,
+        newDocument: this._document,
+        range: { ...range },
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Fire `selectionchange` if the selection moved since the last report
+   */
+  private _emitSelectionChange(): void {
+    if (
+      this._lastSelection &&
+      this._lastSelection.anchor === this._selection.anchor &&
+      this._lastSelection.focus === this._selection.focus
+    ) {
+      return;
+    }
+
+    const oldSelection = this._lastSelection ?? { anchor: 0, focus: 0 };
+    this._lastSelection = { ...this._selection };
+    this.fire('selectionchange', {
+      oldSelection,
+      newSelection: { ...this._selection },
+    });
+  }
+
+  /**
+   * Fire `sizechange` if the box size or font scale changed since the last
+   * render. The first render only records them.
+   */
+  private _emitSizeChange(): void {
+    const size = { width: this._boxWidth, height: this._boxHeight, fontScale: this._fontScale };
+    const last = this._lastSize;
+    this._lastSize = size;
+    if (
+      !last ||
+      (last.width === size.width && last.height === size.height && last.fontScale === size.fontScale)
+    ) {
+      return;
+    }
+
+    this.fire('sizechange', {
+      mode: this._autoFit,
+      oldSize: { width: last.width, height: last.height },
+      newSize: { width: size.width, height: size.height },
+      fontScale: size.fontScale,
+    });
+  }
+
+  /**
+   * Update current style based on caret position
+   */
+  private _updateCurrentStyle(): void {
+    this._currentStyle = getStyleAtPosition(this._document, this._selection.focus);
+  }
+
+  /**
+   * Start editing mode
+   */
+  public startEditing(): void {
+    if (this._isEditing) return;
 
     this._isEditing = true;
     this._caretVisible = true;
+    this._setLinkHovered(false);
 
-    // Add keyboard listeners
-    window.addEventListener('keydown', this._boundKeyDownHandler);
-    window.addEventListener('keypress', this._boundKeyPressHandler);
-
-    // Setup paste handler
-    window.addEventListener('paste', this._boundPasteHandler);
+    // Route keyboard, IME and paste input through the hidden textarea
+    this._inputBridge.attach();
 
     // Start caret blink
     this._startCaretBlink();
 
     this._updateCurrentStyle();
+    this._updateLayout();
     this._render();
 
     this.fire('editstart');
@@ -1068,18 +1557,20 @@ export class RichTextNode extends Konva.Group {
   public stopEditing(): void {
     if (!this._isEditing) return;
 
+    // Keep whatever was being composed
+    this._commitComposition();
+
     this._isEditing = false;
     this._caretVisible = false;
     this._isDraggingSelection = false;
 
-    // Remove keyboard listeners
-    window.removeEventListener('keydown', this._boundKeyDownHandler);
-    window.removeEventListener('keypress', this._boundKeyPressHandler);
-    window.removeEventListener('paste', this._boundPasteHandler);
+    // Remove the input textarea
+    this._inputBridge.detach();
 
     // Stop caret blink
     this._stopCaretBlink();
 
+    this._updateLayout();
     this._render();
 
     this.fire('editend');
@@ -1128,45 +1619,66 @@ export class RichTextNode extends Konva.Group {
     if (richTextSpans && richTextSpans.length > 0) {
       // Rich text paste - preserve styles
       this._insertStyledSpans(richTextSpans);
+      return;
+    }
+
+    const text = e.clipboardData?.getData('text/plain') || '';
+    if (!text) return;
+
+    if (!htmlData && looksLikeMarkdown(text)) {
+      // Plain text that is Markdown - keep its formatting and lists
+      const fragment = parseMarkdown(text, this._currentStyle);
+      this._insertStyledSpans(fragment.spans, fragment.listItems);
     } else {
       // Plain text paste
-      const text = e.clipboardData?.getData('text/plain') || '';
-      if (text) {
-        this._insertText(text);
-      }
+      this._insertText(text, 'insertFromPaste');
     }
   }
 
   /**
    * Insert styled spans at current position (for rich paste)
+   * List items are keyed by line index within the pasted text.
    */
-  private _insertStyledSpans(spans: TextSpan[]): void {
-    // Delete selected text first (if any)
-    let insertPosition = this._selection.focus;
+  private _insertStyledSpans(
+    spans: TextSpan[],
+    listItems: Map<number, ListItem> = new Map()
+  ): void {
+    const text = spans.map((span) => span.text).join('');
 
-    if (this._selection.anchor !== this._selection.focus) {
-      const { doc, newPosition } = replaceSelection(
-        this._document,
-        this._selection,
-        ''
-      );
-      this._document = doc;
-      insertPosition = newPosition;
-    }
+    this._performEdit('insertFromPaste', this._getSelectionRange(), text, (data) => {
+      // Delete selected text first (if any)
+      let insertPosition = this._selection.focus;
 
-    // Insert the styled spans
-    const { doc, newPosition } = insertStyledSpans(
-      this._document,
-      insertPosition,
-      spans
-    );
+      if (this._selection.anchor !== this._selection.focus) {
+        const { doc, newPosition } = replaceSelection(
+          this._document,
+          this._selection,
+          ''
+        );
+        this._document = doc;
+        insertPosition = newPosition;
+      }
 
-    this._document = doc;
-    this._selection = { anchor: newPosition, focus: newPosition };
+      // A handler that rewrote the text gets it inserted with the first span's style
+      const insertSpans = data === text
+        ? spans
+        : data
+        ? [{ ...spans[0], text: data }]
+        : [];
+
+      // Insert the styled spans (with their list items, unless rewritten)
+      const { doc, newPosition } = data === text && listItems.size > 0
+        ? insertDocumentFragment(this._document, insertPosition, {
+            ...this._document,
+            spans: insertSpans,
+            listItems,
+            paragraphs: new Map(),
+          })
+        : insertStyledSpans(this._document, insertPosition, insertSpans);
 
-    this._updateLayout();
-    this._render();
-    this._pushHistory();
+      this._document = doc;
+      this._selection = { anchor: newPosition, focus: newPosition };
+    });
     this._resetCaretBlink();
   }
 
@@ -1177,7 +1689,12 @@ export class RichTextNode extends Konva.Group {
     this._stopCaretBlink();
     this._caretBlinkInterval = window.setInterval(() => {
       this._caretVisible = !this._caretVisible;
-      this._render();
+
+      // Only the caret changes, so skip the full render. The caret may be in
+      // a linked frame on another layer.
+      if (!this._caretRenderer) return;
+      this._caretRenderer.setCaretVisible(this._caretVisible && this._isEditing);
+      this._caretRenderer.getGroup().getLayer()?.batchDraw();
     }, 530);
   }
 
@@ -1238,12 +1755,13 @@ export class RichTextNode extends Konva.Group {
    */
   public undo(): void {
     if (this._historyIndex > 0) {
-      this._historyIndex--;
-      const entry = this._history[this._historyIndex];
-      this._document = cloneDocument(entry.document);
-      this._selection = { ...entry.selection };
-      this._updateLayout();
-      this._render();
+      const length = getDocumentLength(this._document);
+      this._performEdit('historyUndo', { start: 0, end: length }, null, () => {
+        this._historyIndex--;
+        const entry = this._history[this._historyIndex];
+        this._document = cloneDocument(entry.document);
+        this._selection = { ...entry.selection };
+      }, { history: false });
     }
   }
 
@@ -1252,12 +1770,13 @@ export class RichTextNode extends Konva.Group {
    */
   public redo(): void {
     if (this._historyIndex < this._history.length - 1) {
-      this._historyIndex++;
-      const entry = this._history[this._historyIndex];
-      this._document = cloneDocument(entry.document);
-      this._selection = { ...entry.selection };
-      this._updateLayout();
-      this._render();
+      const length = getDocumentLength(this._document);
+      this._performEdit('historyRedo', { start: 0, end: length }, null, () => {
+        this._historyIndex++;
+        const entry = this._history[this._historyIndex];
+        this._document = cloneDocument(entry.document);
+        this._selection = { ...entry.selection };
+      }, { history: false });
     }
   }
 
@@ -1278,21 +1797,18 @@ export class RichTextNode extends Konva.Group {
       // No character selection - apply to ALL text
       const length = getDocumentLength(this._document);
       if (length > 0) {
-        this._document = toggleBoldInRange(this._document, 0, length);
-        this._updateLayout();
-        this._render();
-        this._pushHistory();
+        this._performEdit('formatBold', { start: 0, end: length }, null, () => {
+          this._document = toggleBoldInRange(this._document, 0, length);
+        });
       }
       // Also update current style for future input
       this._currentStyle.fontWeight =
         this._currentStyle.fontWeight === 'bold' ? 'normal' : 'bold';
     } else {
-      const start = Math.min(this._selection.anchor, this._selection.focus);
-      const end = Math.max(this._selection.anchor, this._selection.focus);
-      this._document = toggleBoldInRange(this._document, start, end);
-      this._updateLayout();
-      this._render();
-      this._pushHistory();
+      const { start, end } = this._getSelectionRange();
+      this._performEdit('formatBold', { start, end }, null, () => {
+        this._document = toggleBoldInRange(this._document, start, end);
+      });
     }
   }
 
@@ -1304,20 +1820,17 @@ export class RichTextNode extends Konva.Group {
       // No character selection - apply to ALL text
       const length = getDocumentLength(this._document);
       if (length > 0) {
-        this._document = toggleItalicInRange(this._document, 0, length);
-        this._updateLayout();
-        this._render();
-        this._pushHistory();
+        this._performEdit('formatItalic', { start: 0, end: length }, null, () => {
+          this._document = toggleItalicInRange(this._document, 0, length);
+        });
       }
       this._currentStyle.fontStyle =
         this._currentStyle.fontStyle === 'italic' ? 'normal' : 'italic';
     } else {
-      const start = Math.min(this._selection.anchor, this._selection.focus);
-      const end = Math.max(this._selection.anchor, this._selection.focus);
-      this._document = toggleItalicInRange(this._document, start, end);
-      this._updateLayout();
-      this._render();
-      this._pushHistory();
+      const { start, end } = this._getSelectionRange();
+      this._performEdit('formatItalic', { start, end }, null, () => {
+        this._document = toggleItalicInRange(this._document, start, end);
+      });
     }
   }
 
@@ -1329,19 +1842,53 @@ export class RichTextNode extends Konva.Group {
       // No character selection - apply to ALL text
       const length = getDocumentLength(this._document);
       if (length > 0) {
-        this._document = toggleStyleInRange(this._document, 0, length, 'underline');
-        this._updateLayout();
-        this._render();
-        this._pushHistory();
+        this._performEdit('formatUnderline', { start: 0, end: length }, null, () => {
+          this._document = toggleStyleInRange(this._document, 0, length, 'underline');
+        });
       }
       this._currentStyle.underline = !this._currentStyle.underline;
     } else {
-      const start = Math.min(this._selection.anchor, this._selection.focus);
-      const end = Math.max(this._selection.anchor, this._selection.focus);
-      this._document = toggleStyleInRange(this._document, start, end, 'underline');
-      this._updateLayout();
-      this._render();
-      this._pushHistory();
+      const { start, end } = this._getSelectionRange();
+      this._performEdit('formatUnderline', { start, end }, null, () => {
+        this._document = toggleStyleInRange(this._document, start, end, 'underline');
+      });
+    }
+  }
+
+  /**
+   * Toggle superscript on selection
+   */
+  public toggleSuperscript(): void {
+    this._toggleVerticalPosition('super', 'formatSuperscript');
+  }
+
+  /**
+   * Toggle subscript on selection
+   */
+  public toggleSubscript(): void {
+    this._toggleVerticalPosition('sub', 'formatSubscript');
+  }
+
+  /**
+   * Toggle superscript or subscript on the selection (all text when nothing
+   * is selected)
+   */
+  private _toggleVerticalPosition(position: VerticalPosition, inputType: InputType): void {
+    if (this._selection.anchor === this._selection.focus) {
+      // No character selection - apply to ALL text
+      const length = getDocumentLength(this._document);
+      if (length > 0) {
+        this._performEdit(inputType, { start: 0, end: length }, null, () => {
+          this._document = toggleVerticalPositionInRange(this._document, 0, length, position);
+        });
+      }
+      this._currentStyle.verticalPosition =
+        this._currentStyle.verticalPosition === position ? undefined : position;
+    } else {
+      const { start, end } = this._getSelectionRange();
+      this._performEdit(inputType, { start, end }, null, () => {
+        this._document = toggleVerticalPositionInRange(this._document, start, end, position);
+      });
     }
   }
 
@@ -1353,55 +1900,301 @@ export class RichTextNode extends Konva.Group {
       // No character selection - apply to ALL text
       const length = getDocumentLength(this._document);
       if (length > 0) {
-        this._document = applyStyleToRange(this._document, 0, length, style);
-        this._updateLayout();
-        this._render();
-        this._pushHistory();
+        this._performEdit('formatText', { start: 0, end: length }, null, () => {
+          this._document = applyStyleToRange(this._document, 0, length, style);
+        });
       }
       // Also update current style for future input
       this._currentStyle = { ...this._currentStyle, ...style };
     } else {
-      const start = Math.min(this._selection.anchor, this._selection.focus);
-      const end = Math.max(this._selection.anchor, this._selection.focus);
-      this._document = applyStyleToRange(this._document, start, end, style);
-      this._updateLayout();
-      this._render();
-      this._pushHistory();
+      const { start, end } = this._getSelectionRange();
+      this._performEdit('formatText', { start, end }, null, () => {
+        this._document = applyStyleToRange(this._document, start, end, style);
+      });
+    }
+  }
+
+  /**
+   * Link the selection to `href`. With no selection (or with `text`), the
+   * text (the URL by default) is inserted as a link at the caret.
+   */
+  public insertLink(href: string, title?: string, text?: string): void {
+    const link: TextLink = title ? { href, title } : { href };
+    const range = this._getSelectionRange();
+
+    if (range.start < range.end && text === undefined) {
+      this._performEdit('insertLink', range, null, () => {
+        this._document = setLinkInRange(this._document, range.start, range.end, link);
+      });
+      return;
     }
+
+    this._performEdit('insertLink', range, text ?? href, (data) => {
+      const { doc, newPosition } = replaceSelection(this._document, this._selection, data ?? '', {
+        ...this._currentStyle,
+        ...LINK_STYLE,
+        link,
+      });
+      this._document = doc;
+      this._selection = { anchor: newPosition, focus: newPosition };
+    });
+    this._resetCaretBlink();
+  }
+
+  /**
+   * Change where the link at the caret (or at the start of the selection)
+   * leads. Returns false when there is no link there.
+   */
+  public editLink(href: string, title?: string): boolean {
+    const target = this.getLink();
+    if (!target) return false;
+
+    const link: TextLink = title ? { href, title } : { href };
+    const { start, end } = target.range;
+    this._performEdit('insertLink', target.range, null, () => {
+      this._document = applyStyleToRange(this._document, start, end, { link });
+    });
+    return true;
+  }
+
+  /**
+   * Remove links from the selection, or the whole link at the caret
+   */
+  public removeLink(): void {
+    const selection = this._getSelectionRange();
+    const range = selection.start < selection.end ? selection : this.getLink()?.range;
+    if (!range) return;
+
+    this._performEdit('formatText', range, null, () => {
+      this._document = removeLinkInRange(this._document, range.start, range.end);
+    });
+    this._currentStyle = { ...this._currentStyle, link: undefined };
+  }
+
+  /**
+   * The link at a position (the caret, or the start of the selection, by
+   * default) and the range of its text
+   */
+  public getLink(position?: number): { link: TextLink; range: TextRange } | null {
+    const { start, end } = this._getSelectionRange();
+    return getLinkAt(this._document, position ?? (start < end ? start + 1 : start));
+  }
+
+  /**
+   * Insert an inline object (an image or icon) in place of the selection,
+   * in the current style. It takes the place of one character.
+   */
+  public insertObject(object: InlineObject): void {
+    const range = this._getSelectionRange();
+
+    this._performEdit('insertObject', range, OBJECT_REPLACEMENT, () => {
+      const doc = deleteRange(this._document, range.start, range.end);
+      this._document = insertObject(doc, range.start, object, this._currentStyle);
+      const position = range.start + OBJECT_REPLACEMENT.length;
+      this._selection = { anchor: position, focus: position };
+    });
+    this._resetCaretBlink();
   }
 
   /**
    * Set text alignment
    */
   public setAlign(align: 'left' | 'center' | 'right' | 'justify'): void {
-    this._document = { ...this._document, align };
-    this._updateLayout();
-    this._render();
-    this._pushHistory();
+    const length = getDocumentLength(this._document);
+    this._performEdit('formatParagraph', { start: 0, end: length }, null, () => {
+      this._document = { ...this._document, align };
+    });
+  }
+
+  /**
+   * Set the base text direction of the document. Paragraphs with their own
+   * direction (see setParagraphStyle) keep it.
+   */
+  public setDirection(direction: TextDirection): void {
+    const length = getDocumentLength(this._document);
+    this._performEdit('formatParagraph', { start: 0, end: length }, null, () => {
+      this._document = { ...this._document, direction };
+    });
+  }
+
+  /**
+   * Set how text below the bottom of the box is shown
+   */
+  public setOverflow(overflow: TextOverflow): void {
+    const length = getDocumentLength(this._document);
+    this._performEdit('formatParagraph', { start: 0, end: length }, null, () => {
+      this._document = { ...this._document, overflow };
+    });
+  }
+
+  /**
+   * Set the columns text flows through inside the box (undefined for one column)
+   */
+  public setColumns(columns: ColumnSettings | undefined): void {
+    const length = getDocumentLength(this._document);
+    this._performEdit('formatParagraph', { start: 0, end: length }, null, () => {
+      this._document = { ...this._document, columns };
+    });
+  }
+
+  /**
+   * Set the curve the text is drawn along (undefined for straight lines).
+   * Only a box without linked frames draws its text on a path.
+   */
+  public setTextPath(textPath: TextPathSettings | undefined): void {
+    const length = getDocumentLength(this._document);
+    this._performEdit('formatParagraph', { start: 0, end: length }, null, () => {
+      this._document = { ...this._document, textPath };
+    });
+  }
+
+  /**
+   * Set whether words that do not fit a line are broken at their
+   * hyphenation points
+   */
+  public setHyphenation(hyphenate: boolean): void {
+    const length = getDocumentLength(this._document);
+    this._performEdit('formatParagraph', { start: 0, end: length }, null, () => {
+      this._document = { ...this._document, hyphenate };
+    });
+  }
+
+  /**
+   * Set how paragraphs are broken into lines (see LineBreaking)
+   */
+  public setLineBreaking(lineBreaking: LineBreaking): void {
+    const length = getDocumentLength(this._document);
+    this._performEdit('formatParagraph', { start: 0, end: length }, null, () => {
+      this._document = { ...this._document, lineBreaking };
+    });
+  }
+
+  /**
+   * Set the tab stops of paragraphs without their own (undefined for default
+   * stops every DEFAULT_TAB_INTERVAL pixels). Paragraphs get their own with
+   * setParagraphStyle({ tabs }).
+   */
+  public setTabs(tabs: TabSettings | undefined): void {
+    const length = getDocumentLength(this._document);
+    this._performEdit('formatParagraph', { start: 0, end: length }, null, () => {
+      this._document = { ...this._document, tabs };
+    });
+  }
+
+  /**
+   * Insert a column break: the text after the caret starts the next column
+   */
+  public insertColumnBreak(): void {
+    this._insertText(COLUMN_BREAK);
+  }
+
+  /**
+   * Whether some text does not fit the box (see getOverflowRange)
+   */
+  public isOverflowing(): boolean {
+    return this._layout?.overflowRange != null;
+  }
+
+  /**
+   * The text below the bottom of the box, or null if everything fits.
+   * With 'ellipsis' overflow it starts where the text was cut.
+   */
+  public getOverflowRange(): TextRange | null {
+    const range = this._layout?.overflowRange;
+    return range ? { ...range } : null;
+  }
+
+  /**
+   * Apply paragraph formatting (alignment, direction, spacing, indents) to the
+   * paragraph(s) touched by the selection
+   */
+  public setParagraphStyle(style: Partial<ParagraphStyle>): void {
+    const range = this._getSelectionRange();
+    const startParagraph = getLineIndexForPosition(this._document, range.start);
+    const endParagraph = getLineIndexForPosition(this._document, range.end);
+    this._performEdit('formatParagraph', range, null, () => {
+      this._document = setParagraphStyle(this._document, startParagraph, endParagraph, style);
+    });
+  }
+
+  /**
+   * Give the selection a character style from the style sheet (null for
+   * none). With no selection, all text gets it, and so does text typed next.
+   */
+  public applyCharacterStyle(name: string | null): void {
+    const selection = this._getSelectionRange();
+    const range = selection.start < selection.end ? selection : { start: 0, end: getDocumentLength(this._document) };
+
+    if (range.start < range.end) {
+      this._performEdit('formatText', range, null, () => {
+        this._document = applyCharacterStyle(this._document, range.start, range.end, name);
+      });
+    }
+    if (selection.start === selection.end) {
+      this._currentStyle = name
+        ? { ...this._currentStyle, ...resolveCharacterStyle(this._document.styles, name), styleName: name }
+        : { ...this._currentStyle, styleName: undefined };
+    }
+  }
+
+  /**
+   * Give the paragraph(s) touched by the selection a paragraph style from
+   * the style sheet (null for none)
+   */
+  public applyParagraphStyle(name: string | null): void {
+    const range = this._getSelectionRange();
+    const startParagraph = getLineIndexForPosition(this._document, range.start);
+    const endParagraph = getLineIndexForPosition(this._document, range.end);
+    this._performEdit('formatParagraph', range, null, () => {
+      this._document = applyParagraphStyle(this._document, startParagraph, endParagraph, name);
+    });
+    if (name) {
+      this._currentStyle = { ...this._currentStyle, ...resolveParagraphStyle(this._document.styles, name).style };
+    }
+  }
+
+  /**
+   * Add a named style to the style sheet, or change it: the text and
+   * paragraphs that follow it take the new look, except for their local
+   * overrides
+   */
+  public defineStyle<K extends StyleKind>(kind: K, name: string, definition: StyleDefinitions[K]): void {
+    const length = getDocumentLength(this._document);
+    this._performEdit('formatText', { start: 0, end: length }, null, () => {
+      this._document = defineStyle(this._document, kind, name, definition);
+    });
+  }
+
+  /**
+   * The document's named styles
+   */
+  public getStyleSheet(): StyleSheet {
+    const styles = this._document.styles;
+    return { character: new Map(styles?.character), paragraph: new Map(styles?.paragraph) };
   }
 
   /**
    * Toggle bullet list for current line(s)
    */
   public toggleBulletList(): void {
-    const startLine = getLineIndexForPosition(this._document, Math.min(this._selection.anchor, this._selection.focus));
-    const endLine = getLineIndexForPosition(this._document, Math.max(this._selection.anchor, this._selection.focus));
-    this._document = toggleListForLines(this._document, startLine, endLine, 'bullet');
-    this._updateLayout();
-    this._render();
-    this._pushHistory();
+    const range = this._getSelectionRange();
+    const startLine = getLineIndexForPosition(this._document, range.start);
+    const endLine = getLineIndexForPosition(this._document, range.end);
+    this._performEdit('formatList', range, null, () => {
+      this._document = toggleListForLines(this._document, startLine, endLine, 'bullet');
+    });
   }
 
   /**
    * Toggle numbered list for current line(s)
    */
   public toggleNumberedList(): void {
-    const startLine = getLineIndexForPosition(this._document, Math.min(this._selection.anchor, this._selection.focus));
-    const endLine = getLineIndexForPosition(this._document, Math.max(this._selection.anchor, this._selection.focus));
-    this._document = toggleListForLines(this._document, startLine, endLine, 'number');
-    this._updateLayout();
-    this._render();
-    this._pushHistory();
+    const range = this._getSelectionRange();
+    const startLine = getLineIndexForPosition(this._document, range.start);
+    const endLine = getLineIndexForPosition(this._document, range.end);
+    this._performEdit('formatList', range, null, () => {
+      this._document = toggleListForLines(this._document, startLine, endLine, 'number');
+    });
   }
 
   /**
@@ -1415,15 +2208,19 @@ export class RichTextNode extends Konva.Group {
    * Set document
    */
   public setDocument(doc: RichTextDocument): void {
-    this._document = cloneDocument(doc);
-    this._selection = { anchor: 0, focus: 0 };
-
     // Guard against being called from Konva's super() before initialization
-    if (this._hitArea) {
-      this._updateLayout();
-      this._render();
-      this._pushHistory();
+    if (!this._hitArea) {
+      this._document = cloneDocument(doc);
+      this._selection = { anchor: 0, focus: 0 };
+      return;
     }
+
+    const length = getDocumentLength(this._document);
+    this._performEdit('setDocument', { start: 0, end: length }, null, () => {
+      this._document = cloneDocument(doc);
+      this._selection = { anchor: 0, focus: 0 };
+      this._composition = null; // Its range no longer exists
+    }, { cancelable: false });
   }
 
   /**
@@ -1451,20 +2248,20 @@ export class RichTextNode extends Konva.Group {
    * Set plain text (replaces all content)
    */
   public setText(text: string): void {
-    this._document = {
-      ...this._document,
-      spans: [
-        {
-          id: `span_${Date.now()}`,
-          text,
-          style: { ...DEFAULT_STYLE },
-        },
-      ],
-    };
-    this._selection = { anchor: text.length, focus: text.length };
-    this._updateLayout();
-    this._render();
-    this._pushHistory();
+    const length = getDocumentLength(this._document);
+    this._performEdit('setDocument', { start: 0, end: length }, text, () => {
+      this._document = {
+        ...this._document,
+        spans: [
+          {
+            id: `span_${Date.now()}`,
+            text,
+            style: { ...DEFAULT_STYLE },
+          },
+        ],
+      };
+      this._selection = { anchor: text.length, focus: text.length };
+    }, { cancelable: false });
   }
 
   /**
@@ -1475,7 +2272,7 @@ export class RichTextNode extends Konva.Group {
   }
 
   /**
-   * Set box dimensions
+   * Set box dimensions. Auto-fit modes then adjust the dimensions they control.
    */
   public setBoxSize(width: number, height: number): void {
     this._boxWidth = Math.max(this._minWidth, width);
@@ -1484,6 +2281,124 @@ export class RichTextNode extends Konva.Group {
     this._render();
   }
 
+  /**
+   * Get the sizing mode
+   */
+  public getAutoFit(): AutoFitMode {
+    return this._autoFit;
+  }
+
+  /**
+   * Set the sizing mode (see AutoFitMode). The box is fitted right away.
+   */
+  public setAutoFit(mode: AutoFitMode): void {
+    // Konva's constructor sets config attributes through their setters
+    if (!this._hitArea) return;
+
+    this._autoFit = mode;
+    this._fontScale = 1;
+    this._updateLayout();
+    this._render();
+  }
+
+  /**
+   * Sizing mode, limits and current font scale, as passed to fitText
+   */
+  public getAutoFitOptions(): AutoFitOptions {
+    return {
+      mode: this._autoFit,
+      minWidth: this._minWidth,
+      maxWidth: this._maxWidth,
+      minHeight: this._minHeight,
+      maxHeight: this._maxHeight,
+      fontScale: this._fontScale,
+      wrap: this._textWrap,
+    };
+  }
+
+  /**
+   * Scale applied to the displayed font sizes (below 1 only when shrinking to fit)
+   */
+  public getFontScale(): number {
+    return this._fontScale;
+  }
+
+  /**
+   * Get the shape and exclusions text wraps in and around
+   */
+  public getTextWrap(): TextWrap | undefined {
+    return this._textWrap;
+  }
+
+  /**
+   * Set the shape text stays inside and the exclusions it flows around, in
+   * box coordinates (undefined for the plain box). Not part of the document
+   * or the undo history: obstacles move independently of the text.
+   */
+  public setTextWrap(wrap: TextWrap | undefined): void {
+    // Konva's constructor sets config attributes through their setters
+    if (!this._hitArea) return;
+
+    this._textWrap = wrap;
+    this._updateLayout();
+    this._render();
+  }
+
+  /**
+   * Link a frame to the end of the chain. Text that does not fit this box
+   * flows through the linked frames in order; clicking a frame edits the text.
+   */
+  public linkFrame(frame: TextFrame): void {
+    if (this._frames.includes(frame)) return;
+
+    this._frames.push(frame);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    frame.on('click.richtext', this._handleClick.bind(this) as any);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    frame.on('dblclick.richtext', this._handleDoubleClick.bind(this) as any);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    frame.on('mousedown.richtext', this._handleMouseDown.bind(this) as any);
+    frame.on('framesizechange.richtext', () => {
+      this._updateLayout();
+      this._render();
+    });
+
+    this._updateLayout();
+    this._render();
+  }
+
+  /**
+   * Remove a frame from the chain. Its text flows into the remaining boxes.
+   */
+  public unlinkFrame(frame: TextFrame): void {
+    const index = this._frames.indexOf(frame);
+    if (index === -1) return;
+
+    this._frames.splice(index, 1);
+    frame.off('.richtext');
+    frame.clearText();
+    frame.setEditing(false);
+    frame.getLayer()?.batchDraw();
+
+    this._updateLayout();
+    this._render();
+  }
+
+  /**
+   * Linked frames, in flow order
+   */
+  public getFrames(): TextFrame[] {
+    return [...this._frames];
+  }
+
+  /**
+   * Layout of each box in frame-local coordinates: this node's box first,
+   * then each linked frame's
+   */
+  public getFrameLayouts(): LayoutResult[] {
+    return [...this._frameLayouts];
+  }
+
   /**
    * Check if currently editing
    */
@@ -1504,6 +2419,10 @@ export class RichTextNode extends Konva.Group {
   public destroy(): this {
     this.stopEditing();
     this._stopCaretBlink();
+    for (const frame of this._frames) {
+      frame.off('.richtext');
+    }
+    this._frames = [];
     return super.destroy();
   }
 }
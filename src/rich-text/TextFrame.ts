@@ -0,0 +1,127 @@
+// ============================================================================
+// TextFrame - A linked box that shows text flowing on from a RichTextNode
+// ============================================================================
+
+import Konva from 'konva';
+import { TextFrameSize } from './types';
+import { KonvaTextRenderer } from './konva-renderer';
+
+interface TextFrameConfig extends Konva.GroupConfig {
+  width: number;
+  height: number;
+}
+
+/**
+ * A box in a chain of linked text frames. It holds no text of its own: the
+ * RichTextNode it is linked to lays out its document across its own box and
+ * its linked frames, renders each frame's part into it and handles editing.
+ * Fires `framesizechange` when resized.
+ */
+export class TextFrame extends Konva.Group {
+  private _boxWidth: number;
+  private _boxHeight: number;
+  private _minWidth: number = 50;
+  private _minHeight: number = 30;
+  private _hitArea: Konva.Rect;
+  private _borderRect: Konva.Rect;
+  private _textRenderer: KonvaTextRenderer;
+
+  constructor(config: TextFrameConfig) {
+    super(config);
+
+    this._boxWidth = config.width;
+    this._boxHeight = config.height;
+
+    // Hit area for receiving events (invisible but clickable)
+    this._hitArea = new Konva.Rect({
+      width: this._boxWidth,
+      height: this._boxHeight,
+      fill: 'transparent',
+      listening: true,
+    });
+    this.add(this._hitArea);
+
+    // Border shown while the linked text is being edited
+    this._borderRect = new Konva.Rect({
+      width: this._boxWidth,
+      height: this._boxHeight,
+      stroke: 'transparent',
+      strokeWidth: 0,
+      listening: false,
+    });
+    this.add(this._borderRect);
+
+    this._textRenderer = new KonvaTextRenderer();
+    this._textRenderer.getGroup().listening(false);
+    this.add(this._textRenderer.getGroup());
+
+    // Resizing changes the box size, not the scale
+    this.on('transform', this._handleTransform.bind(this));
+    this.on('transformend', this._handleTransform.bind(this));
+  }
+
+  /**
+   * Convert a transformer's scale into a new box size
+   */
+  private _handleTransform(): void {
+    const width = Math.max(this._minWidth, this._boxWidth * this.scaleX());
+    const height = Math.max(this._minHeight, this._boxHeight * this.scaleY());
+
+    this.scaleX(1);
+    this.scaleY(1);
+    this.setFrameSize(width, height);
+  }
+
+  /**
+   * Get the box size
+   */
+  public getFrameSize(): TextFrameSize {
+    return { width: this._boxWidth, height: this._boxHeight };
+  }
+
+  /**
+   * Set the box size. The linked text flows again.
+   */
+  public setFrameSize(width: number, height: number): void {
+    if (width === this._boxWidth && height === this._boxHeight) return;
+
+    this._boxWidth = width;
+    this._boxHeight = height;
+    this._hitArea.size({ width, height });
+    this._borderRect.size({ width, height });
+    this.fire('framesizechange', { width, height });
+  }
+
+  /**
+   * The renderer the linked RichTextNode draws this frame's text with
+   */
+  public getTextRenderer(): KonvaTextRenderer {
+    return this._textRenderer;
+  }
+
+  /**
+   * Remove the rendered text (when the frame is unlinked)
+   */
+  public clearText(): void {
+    this._textRenderer.destroy();
+    this._textRenderer = new KonvaTextRenderer();
+    this._textRenderer.getGroup().listening(false);
+    this.add(this._textRenderer.getGroup());
+  }
+
+  /**
+   * Show or hide the editing border
+   */
+  public setEditing(editing: boolean): void {
+    this._borderRect.stroke(editing ? '#4285f4' : 'transparent');
+    this._borderRect.strokeWidth(editing ? 2 : 0);
+  }
+
+  /**
+   * Destroy the frame and its text nodes
+   */
+  public destroy(): this {
+    this._textRenderer.destroy();
+    return super.destroy();
+  }
+}
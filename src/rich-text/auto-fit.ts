@@ -0,0 +1,203 @@
+// ============================================================================
+// Auto-Fit - Sizing a text box to its text, or its text to the box
+// ============================================================================
+
+import { RichTextDocument, LayoutResult, AutoFitMode, TextStyle, TextWrap } from './types';
+import { layoutText, LayoutCache } from './layout-engine';
+
+/**
+ * Sizing mode and the limits auto-sized boxes stay within
+ */
+export interface AutoFitOptions {
+  mode: AutoFitMode;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  fontScale?: number; // Result of the previous fit; shrink-to-fit starts its search there
+  wrap?: TextWrap; // Shape and exclusions the text wraps in and around
+}
+
+/**
+ * Box size and layout after fitting
+ */
+export interface AutoFitResult {
+  width: number;
+  height: number;
+  fontScale: number;
+  document: RichTextDocument; // The document as laid out (font sizes scaled)
+  layout: LayoutResult;
+}
+
+/**
+ * Smallest font scale shrink-to-fit goes down to
+ */
+export const MIN_FONT_SCALE = 0.1;
+
+/**
+ * Font scales are searched in steps of 1/FONT_SCALE_STEPS (1%)
+ */
+const FONT_SCALE_STEPS = 100;
+
+/**
+ * Width used to measure unwrapped lines for auto-width
+ */
+const UNBOUNDED_WIDTH = 1e6;
+
+function clamp(value: number, min: number = 0, max: number = Infinity): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Whether the laid out text fits inside the box it was laid out for.
+ * A word wider than the box makes its line too wide, so it does not fit.
+ */
+export function fitsInBox(layout: LayoutResult): boolean {
+  const tolerance = 0.01;
+  return (
+    layout.contentWidth <= layout.width + tolerance &&
+    layout.contentHeight <= layout.height + tolerance
+  );
+}
+
+/**
+ * Scale every font size (and letter spacing) in the document.
+ * Spans that shared a style object still share the scaled one.
+ */
+export function scaleFontSizes(doc: RichTextDocument, scale: number): RichTextDocument {
+  if (scale === 1) return doc;
+
+  const scaledStyles = new Map<TextStyle, TextStyle>();
+  const scaleStyle = (style: TextStyle): TextStyle => {
+    let scaled = scaledStyles.get(style);
+    if (!scaled) {
+      scaled = {
+        ...style,
+        fontSize: style.fontSize * scale,
+        letterSpacing: style.letterSpacing * scale,
+      };
+      scaledStyles.set(style, scaled);
+    }
+    return scaled;
+  };
+
+  return {
+    ...doc,
+    spans: doc.spans.map((span) => ({ ...span, style: scaleStyle(span.style) })),
+  };
+}
+
+/**
+ * Lay out a document in a box sized according to `options.mode`.
+ * The returned width and height are the box size to use; `document` is the
+ * document the layout was made from, with font sizes scaled when shrinking.
+ */
+export function fitText(
+  doc: RichTextDocument,
+  width: number,
+  height: number,
+  options: AutoFitOptions,
+  cache?: LayoutCache
+): AutoFitResult {
+  switch (options.mode) {
+    case 'auto-height': {
+      const layout = layoutText(doc, width, height, cache, options.wrap);
+      return fitHeight(doc, layout, options, cache);
+    }
+
+    case 'auto-width': {
+      // Lines are measured unwrapped, then laid out at the width they need
+      const natural = layoutText(doc, UNBOUNDED_WIDTH, height, undefined, options.wrap);
+      const fittedWidth = clamp(Math.ceil(natural.contentWidth), options.minWidth, options.maxWidth);
+      const layout = layoutText(doc, fittedWidth, height, cache, options.wrap);
+      return fitHeight(doc, layout, options, cache);
+    }
+
+    case 'shrink-to-fit':
+      return shrinkToFit(doc, width, height, options.fontScale ?? 1, cache, options.wrap);
+
+    default:
+      return {
+        width,
+        height,
+        fontScale: 1,
+        document: doc,
+        layout: layoutText(doc, width, height, cache, options.wrap),
+      };
+  }
+}
+
+/**
+ * Give the box the height of its text. Lines are laid out again at the new
+ * height (from the cache) so vertical alignment uses it.
+ */
+function fitHeight(
+  doc: RichTextDocument,
+  layout: LayoutResult,
+  options: AutoFitOptions,
+  cache?: LayoutCache
+): AutoFitResult {
+  const fittedHeight = clamp(Math.ceil(layout.contentHeight), options.minHeight, options.maxHeight);
+  const fitted =
+    fittedHeight === layout.height
+      ? layout
+      : layoutText(doc, layout.width, fittedHeight, cache, options.wrap);
+
+  return {
+    width: layout.width,
+    height: fittedHeight,
+    fontScale: 1,
+    document: doc,
+    layout: fitted,
+  };
+}
+
+/**
+ * Find the largest font scale (at most 1) at which the text fits the box.
+ * The previous scale is tried first, so typing into a box that already fits
+ * costs one layout (plus one to check the next step up when shrunk).
+ */
+function shrinkToFit(
+  doc: RichTextDocument,
+  width: number,
+  height: number,
+  previousScale: number,
+  cache?: LayoutCache,
+  wrap?: TextWrap
+): AutoFitResult {
+  const minStep = Math.round(MIN_FONT_SCALE * FONT_SCALE_STEPS);
+  const fitAt = (step: number, withCache: boolean): AutoFitResult => {
+    const fontScale = step / FONT_SCALE_STEPS;
+    const document = scaleFontSizes(doc, fontScale);
+    const layout = layoutText(document, width, height, withCache ? cache : undefined, wrap);
+    return { width, height, fontScale, document, layout };
+  };
+
+  const previous = clamp(Math.round(previousScale * FONT_SCALE_STEPS), minStep, FONT_SCALE_STEPS);
+  const current = fitAt(previous, true);
+
+  // `low` fits (or is the minimum), `high` does not fit
+  let low: number;
+  let high: number;
+  if (fitsInBox(current.layout)) {
+    if (previous === FONT_SCALE_STEPS || !fitsInBox(fitAt(previous + 1, false).layout)) {
+      return current;
+    }
+    low = previous + 1;
+    high = FONT_SCALE_STEPS + 1;
+  } else {
+    low = minStep;
+    high = previous;
+  }
+
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (fitsInBox(fitAt(middle, false).layout)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  return fitAt(low, true);
+}
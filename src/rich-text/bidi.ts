@@ -0,0 +1,483 @@
+// ============================================================================
+// Bidirectional Text - Unicode Bidirectional Algorithm (UAX #9)
+// Resolves embedding levels per paragraph and reorders each line for display,
+// so Arabic and Hebrew run right to left while numbers and embedded Latin
+// text keep their own direction. Levels are resolved on grapheme clusters.
+// ============================================================================
+
+/**
+ * Bidirectional character types (UAX #9, Table 4)
+ */
+export type BidiClass =
+  | 'L' | 'R' | 'AL'
+  | 'EN' | 'ES' | 'ET' | 'AN' | 'CS' | 'NSM' | 'BN'
+  | 'B' | 'S' | 'WS' | 'ON'
+  | 'LRE' | 'LRO' | 'RLE' | 'RLO' | 'PDF'
+  | 'LRI' | 'RLI' | 'FSI' | 'PDI';
+
+/**
+ * Explicit formatting characters and directional marks
+ */
+const EXPLICIT_CLASSES: Record<number, BidiClass> = {
+  0x061c: 'AL', // Arabic letter mark
+  0x200e: 'L', // Left-to-right mark
+  0x200f: 'R', // Right-to-left mark
+  0x202a: 'LRE',
+  0x202b: 'RLE',
+  0x202c: 'PDF',
+  0x202d: 'LRO',
+  0x202e: 'RLO',
+  0x2066: 'LRI',
+  0x2067: 'RLI',
+  0x2068: 'FSI',
+  0x2069: 'PDI',
+};
+
+/**
+ * Code point ranges with a type other than L, ON or NSM, checked in order.
+ * This covers the characters that matter in practice rather than the full
+ * Unicode data file.
+ */
+const CLASS_RANGES: [number, number, BidiClass][] = [
+  // European digits and number separators
+  [0x0030, 0x0039, 'EN'], [0x00b2, 0x00b3, 'EN'], [0x00b9, 0x00b9, 'EN'],
+  [0x06f0, 0x06f9, 'EN'], [0x2070, 0x2070, 'EN'], [0x2074, 0x2079, 'EN'],
+  [0x2080, 0x2089, 'EN'], [0x2488, 0x249b, 'EN'], [0xff10, 0xff19, 'EN'],
+  [0x002b, 0x002b, 'ES'], [0x002d, 0x002d, 'ES'], [0x207a, 0x207b, 'ES'],
+  [0x208a, 0x208b, 'ES'], [0x2212, 0x2212, 'ES'], [0xfe62, 0xfe63, 'ES'],
+  [0xff0b, 0xff0b, 'ES'], [0xff0d, 0xff0d, 'ES'],
+  [0x0023, 0x0025, 'ET'], [0x00a2, 0x00a5, 'ET'], [0x00b0, 0x00b1, 'ET'],
+  [0x0609, 0x060a, 'ET'], [0x066a, 0x066a, 'ET'], [0x2030, 0x2034, 'ET'],
+  [0x20a0, 0x20cf, 'ET'], [0x2213, 0x2213, 'ET'], [0xfe5f, 0xfe5f, 'ET'],
+  [0xfe69, 0xfe6a, 'ET'], [0xff03, 0xff05, 'ET'], [0xffe0, 0xffe1, 'ET'],
+  [0xffe5, 0xffe6, 'ET'],
+  [0x002c, 0x002c, 'CS'], [0x002e, 0x002f, 'CS'], [0x003a, 0x003a, 'CS'],
+  [0x00a0, 0x00a0, 'CS'], [0x060c, 0x060c, 'CS'], [0x202f, 0x202f, 'CS'],
+  [0x2044, 0x2044, 'CS'], [0xfe50, 0xfe50, 'CS'], [0xfe52, 0xfe52, 'CS'],
+  [0xfe55, 0xfe55, 'CS'], [0xff0c, 0xff0c, 'CS'], [0xff0e, 0xff0f, 'CS'],
+  [0xff1a, 0xff1a, 'CS'],
+  // Arabic digits and number signs
+  [0x0600, 0x0605, 'AN'], [0x0660, 0x0669, 'AN'], [0x066b, 0x066c, 'AN'],
+  [0x06dd, 0x06dd, 'AN'], [0x0890, 0x0891, 'AN'], [0x08e2, 0x08e2, 'AN'],
+  [0x10e60, 0x10e7e, 'AN'],
+  // Paragraph and segment separators, whitespace
+  [0x000a, 0x000a, 'B'], [0x000d, 0x000d, 'B'], [0x001c, 0x001e, 'B'],
+  [0x0085, 0x0085, 'B'], [0x2029, 0x2029, 'B'],
+  [0x0009, 0x0009, 'S'], [0x000b, 0x000b, 'S'], [0x001f, 0x001f, 'S'],
+  [0x000c, 0x000c, 'WS'], [0x0020, 0x0020, 'WS'], [0x1680, 0x1680, 'WS'],
+  [0x2000, 0x200a, 'WS'], [0x2028, 0x2028, 'WS'], [0x205f, 0x205f, 'WS'],
+  [0x3000, 0x3000, 'WS'],
+  // Controls and invisible formatting characters
+  [0x0000, 0x0008, 'BN'], [0x000e, 0x001b, 'BN'], [0x007f, 0x0084, 'BN'],
+  [0x0086, 0x009f, 'BN'], [0x00ad, 0x00ad, 'BN'], [0x180e, 0x180e, 'BN'],
+  [0x200b, 0x200d, 'BN'], [0x2060, 0x2064, 'BN'], [0x206a, 0x206f, 'BN'],
+  [0xfeff, 0xfeff, 'BN'],
+  // Right-to-left scripts (Hebrew, NKo, Samaritan, Mandaic; Arabic, Syriac, Thaana)
+  [0x0590, 0x05ff, 'R'], [0x07c0, 0x085f, 'R'], [0xfb1d, 0xfb4f, 'R'],
+  [0x0600, 0x07bf, 'AL'], [0x0860, 0x08ff, 'AL'], [0xfb50, 0xfdff, 'AL'],
+  [0xfe70, 0xfeff, 'AL'], [0x1ee00, 0x1eeff, 'AL'],
+  [0x10800, 0x10fff, 'R'], [0x1e800, 0x1efff, 'R'],
+];
+
+const NON_SPACING_MARK = /^[\p{Mn}\p{Me}]$/u;
+const OTHER_NEUTRAL = /^[\p{P}\p{S}]$/u;
+
+/**
+ * Characters that can make a paragraph need reordering: strong right-to-left
+ * letters and the explicit controls that start right-to-left text
+ */
+const RIGHT_TO_LEFT =
+  /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc\u200f\u202b\u202e\u2067\u2068\u{10800}-\u{10fff}\u{1e800}-\u{1efff}]/u;
+
+const MAX_DEPTH = 125;
+
+/**
+ * Bidirectional type of a code point
+ */
+export function getBidiClass(codePoint: number): BidiClass {
+  const explicit = EXPLICIT_CLASSES[codePoint];
+  if (explicit) return explicit;
+
+  const char = String.fromCodePoint(codePoint);
+  if (NON_SPACING_MARK.test(char)) return 'NSM';
+
+  for (const [start, end, bidiClass] of CLASS_RANGES) {
+    if (codePoint >= start && codePoint <= end) return bidiClass;
+  }
+
+  return OTHER_NEUTRAL.test(char) ? 'ON' : 'L';
+}
+
+/**
+ * Bidirectional types of a sequence of characters (a cluster takes the type
+ * of its first code point)
+ */
+export function getBidiClasses(chars: string[]): BidiClass[] {
+  return chars.map((char) => getBidiClass(char.codePointAt(0) ?? 0x20));
+}
+
+/**
+ * Whether text contains anything that can be displayed right to left.
+ * Text without such characters in a left-to-right paragraph needs no
+ * bidi processing at all.
+ */
+export function containsRightToLeft(text: string): boolean {
+  return RIGHT_TO_LEFT.test(text);
+}
+
+/**
+ * Direction of the first strong character (rules P2 and P3), skipping
+ * isolated text. Null when the text has no strong character.
+ */
+export function getBaseDirection(text: string): 'ltr' | 'rtl' | null {
+  return findFirstStrong(getBidiClasses(Array.from(text)), 0);
+}
+
+/**
+ * First strong direction from `start`, skipping isolates and stopping at the
+ * PDI that closes an isolate opened before `start` (rules P2 and P3)
+ */
+function findFirstStrong(classes: BidiClass[], start: number): 'ltr' | 'rtl' | null {
+  let isolateDepth = 0;
+
+  for (let i = start; i < classes.length; i++) {
+    const type = classes[i];
+    if (type === 'LRI' || type === 'RLI' || type === 'FSI') {
+      isolateDepth++;
+    } else if (type === 'PDI') {
+      if (isolateDepth === 0) return null;
+      isolateDepth--;
+    } else if (type === 'B') {
+      return null;
+    } else if (isolateDepth === 0) {
+      if (type === 'L') return 'ltr';
+      if (type === 'R' || type === 'AL') return 'rtl';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the embedding level of every character of a paragraph
+ * (rules X1-X10, W1-W7, N1-N2 and I1-I2).
+ *
+ * Level runs are resolved as isolating run sequences; runs on either side of
+ * an isolate are not joined (BD13), and bracket pairs (N0) are resolved like
+ * other neutrals.
+ */
+export function resolveBidiLevels(classes: BidiClass[], paragraphLevel: number): number[] {
+  const count = classes.length;
+  const types = classes.slice();
+  const levels = new Array<number>(count).fill(paragraphLevel);
+  const removed = new Array<boolean>(count).fill(false);
+
+  // X1-X8: explicit embeddings, overrides and isolates
+  const stack: { level: number; override: 'L' | 'R' | null; isolate: boolean }[] = [
+    { level: paragraphLevel, override: null, isolate: false },
+  ];
+  let overflowIsolates = 0;
+  let overflowEmbeddings = 0;
+  let validIsolates = 0;
+
+  const nextLevel = (rtl: boolean): number => {
+    const level = stack[stack.length - 1].level;
+    return rtl ? (level + 1) | 1 : (level + 2) & ~1;
+  };
+
+  for (let i = 0; i < count; i++) {
+    const type = classes[i];
+    const top = stack[stack.length - 1];
+
+    switch (type) {
+      case 'RLE':
+      case 'LRE':
+      case 'RLO':
+      case 'LRO': {
+        const level = nextLevel(type === 'RLE' || type === 'RLO');
+        if (level <= MAX_DEPTH && overflowIsolates === 0 && overflowEmbeddings === 0) {
+          const override = type === 'RLO' ? 'R' : type === 'LRO' ? 'L' : null;
+          stack.push({ level, override, isolate: false });
+        } else if (overflowIsolates === 0) {
+          overflowEmbeddings++;
+        }
+        levels[i] = top.level;
+        removed[i] = true;
+        break;
+      }
+      case 'RLI':
+      case 'LRI':
+      case 'FSI': {
+        levels[i] = top.level;
+        if (top.override) types[i] = top.override;
+
+        const rtl = type === 'RLI' || (type === 'FSI' && findFirstStrong(classes, i + 1) === 'rtl');
+        const level = nextLevel(rtl);
+        if (level <= MAX_DEPTH && overflowIsolates === 0 && overflowEmbeddings === 0) {
+          validIsolates++;
+          stack.push({ level, override: null, isolate: true });
+        } else {
+          overflowIsolates++;
+        }
+        break;
+      }
+      case 'PDI': {
+        if (overflowIsolates > 0) {
+          overflowIsolates--;
+        } else if (validIsolates > 0) {
+          overflowEmbeddings = 0;
+          while (!stack[stack.length - 1].isolate) stack.pop();
+          stack.pop();
+          validIsolates--;
+        }
+        const current = stack[stack.length - 1];
+        levels[i] = current.level;
+        if (current.override) types[i] = current.override;
+        break;
+      }
+      case 'PDF':
+        if (overflowIsolates === 0) {
+          if (overflowEmbeddings > 0) {
+            overflowEmbeddings--;
+          } else if (!top.isolate && stack.length >= 2) {
+            stack.pop();
+          }
+        }
+        levels[i] = top.level;
+        removed[i] = true;
+        break;
+      case 'B':
+        levels[i] = paragraphLevel;
+        break;
+      case 'BN':
+        levels[i] = top.level;
+        removed[i] = true;
+        break;
+      default:
+        levels[i] = top.level;
+        if (top.override) types[i] = top.override;
+    }
+  }
+
+  // X10: resolve each level run (removed characters are skipped, rule X9)
+  const kept: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if (!removed[i]) kept.push(i);
+  }
+
+  let runStart = 0;
+  while (runStart < kept.length) {
+    const level = levels[kept[runStart]];
+    let runEnd = runStart;
+    while (runEnd + 1 < kept.length && levels[kept[runEnd + 1]] === level) runEnd++;
+
+    const before = runStart > 0 ? levels[kept[runStart - 1]] : paragraphLevel;
+    const after = runEnd + 1 < kept.length ? levels[kept[runEnd + 1]] : paragraphLevel;
+    const sos = Math.max(before, level) % 2 === 1 ? 'R' : 'L';
+    const eos = Math.max(after, level) % 2 === 1 ? 'R' : 'L';
+
+    resolveRun(types, levels, kept.slice(runStart, runEnd + 1), level, sos, eos);
+    runStart = runEnd + 1;
+  }
+
+  // Removed characters take the level of the character before them
+  for (let i = 0; i < count; i++) {
+    if (removed[i]) levels[i] = i > 0 ? levels[i - 1] : paragraphLevel;
+  }
+
+  return levels;
+}
+
+function isIsolateControl(type: BidiClass): boolean {
+  return type === 'LRI' || type === 'RLI' || type === 'FSI' || type === 'PDI';
+}
+
+function isNeutral(type: BidiClass): boolean {
+  return type === 'B' || type === 'S' || type === 'WS' || type === 'ON' || isIsolateControl(type);
+}
+
+/**
+ * Apply the weak, neutral and implicit rules to one isolating run sequence
+ */
+function resolveRun(
+  types: BidiClass[],
+  levels: number[],
+  run: number[],
+  level: number,
+  sos: 'L' | 'R',
+  eos: 'L' | 'R'
+): void {
+  // W1: non-spacing marks take the type of the previous character
+  let previous: BidiClass = sos;
+  for (const i of run) {
+    if (types[i] === 'NSM') {
+      types[i] = isIsolateControl(previous) ? 'ON' : previous;
+    }
+    previous = types[i];
+  }
+
+  // W2: European numbers after Arabic letters are Arabic numbers; W3: AL is R
+  let lastStrong: BidiClass = sos;
+  for (const i of run) {
+    const type = types[i];
+    if (type === 'L' || type === 'R' || type === 'AL') {
+      lastStrong = type;
+    } else if (type === 'EN' && lastStrong === 'AL') {
+      types[i] = 'AN';
+    }
+  }
+  for (const i of run) {
+    if (types[i] === 'AL') types[i] = 'R';
+  }
+
+  // W4: a single separator between two numbers of the same kind joins them
+  for (let k = 1; k < run.length - 1; k++) {
+    const type = types[run[k]];
+    const before = types[run[k - 1]];
+    const after = types[run[k + 1]];
+    if (type === 'ES' && before === 'EN' && after === 'EN') {
+      types[run[k]] = 'EN';
+    } else if (type === 'CS' && before === after && (before === 'EN' || before === 'AN')) {
+      types[run[k]] = before;
+    }
+  }
+
+  // W5: terminators next to European numbers become numbers
+  for (let k = 0; k < run.length; k++) {
+    if (types[run[k]] !== 'ET') continue;
+
+    let end = k;
+    while (end + 1 < run.length && types[run[end + 1]] === 'ET') end++;
+    const touchesNumber =
+      (k > 0 && types[run[k - 1]] === 'EN') ||
+      (end + 1 < run.length && types[run[end + 1]] === 'EN');
+    if (touchesNumber) {
+      for (let m = k; m <= end; m++) types[run[m]] = 'EN';
+    }
+    k = end;
+  }
+
+  // W6: remaining separators and terminators are neutral
+  for (const i of run) {
+    const type = types[i];
+    if (type === 'ES' || type === 'ET' || type === 'CS') types[i] = 'ON';
+  }
+
+  // W7: European numbers in left-to-right context are left-to-right
+  lastStrong = sos;
+  for (const i of run) {
+    const type = types[i];
+    if (type === 'L' || type === 'R') {
+      lastStrong = type;
+    } else if (type === 'EN' && lastStrong === 'L') {
+      types[i] = 'L';
+    }
+  }
+
+  // N1/N2: neutrals between characters of the same direction take that
+  // direction (numbers count as right-to-left), others the embedding direction
+  const strongDirection = (type: BidiClass): 'L' | 'R' => (type === 'L' ? 'L' : 'R');
+  const embeddingDirection = level % 2 === 1 ? 'R' : 'L';
+
+  for (let k = 0; k < run.length; k++) {
+    if (!isNeutral(types[run[k]])) continue;
+
+    let end = k;
+    while (end + 1 < run.length && isNeutral(types[run[end + 1]])) end++;
+
+    const leading = k > 0 ? strongDirection(types[run[k - 1]]) : sos;
+    const trailing = end + 1 < run.length ? strongDirection(types[run[end + 1]]) : eos;
+    const direction = leading === trailing ? leading : embeddingDirection;
+    for (let m = k; m <= end; m++) types[run[m]] = direction;
+    k = end;
+  }
+
+  // I1/I2: implicit levels
+  for (const i of run) {
+    const type = types[i];
+    if (level % 2 === 0) {
+      if (type === 'R') levels[i] = level + 1;
+      else if (type === 'AN' || type === 'EN') levels[i] = level + 2;
+    } else if (type === 'L' || type === 'EN' || type === 'AN') {
+      levels[i] = level + 1;
+    }
+  }
+}
+
+/**
+ * Visual order of one line's characters (rules L1 and L2).
+ * `classes` and `levels` are the line's slice of the paragraph's; the result
+ * lists logical indices from left to right. `levels` is updated in place
+ * with the whitespace reset of rule L1.
+ */
+export function reorderLine(
+  classes: BidiClass[],
+  levels: number[],
+  paragraphLevel: number
+): number[] {
+  const count = classes.length;
+
+  // L1: separators, and whitespace before them or at the end of the line,
+  // go back to the paragraph level
+  let trailing = true;
+  for (let i = count - 1; i >= 0; i--) {
+    const type = classes[i];
+    if (type === 'S' || type === 'B') {
+      levels[i] = paragraphLevel;
+      trailing = true;
+    } else if (isResettableWhitespace(type)) {
+      if (trailing) levels[i] = paragraphLevel;
+    } else {
+      trailing = false;
+    }
+  }
+
+  // L2: from the highest level down to the lowest odd level, reverse every
+  // run at that level or higher
+  const order = Array.from({ length: count }, (_, i) => i);
+  let highest = 0;
+  let lowestOdd = Infinity;
+  for (const level of levels) {
+    highest = Math.max(highest, level);
+    if (level % 2 === 1) lowestOdd = Math.min(lowestOdd, level);
+  }
+
+  for (let level = highest; level >= lowestOdd; level--) {
+    let k = 0;
+    while (k < count) {
+      if (levels[order[k]] < level) {
+        k++;
+        continue;
+      }
+      let end = k;
+      while (end + 1 < count && levels[order[end + 1]] >= level) end++;
+      reverse(order, k, end);
+      k = end + 1;
+    }
+  }
+
+  return order;
+}
+
+function isResettableWhitespace(type: BidiClass): boolean {
+  return (
+    type === 'WS' ||
+    type === 'BN' ||
+    isIsolateControl(type) ||
+    type === 'LRE' ||
+    type === 'RLE' ||
+    type === 'LRO' ||
+    type === 'RLO' ||
+    type === 'PDF'
+  );
+}
+
+function reverse(values: number[], start: number, end: number): void {
+  while (start < end) {
+    const value = values[start];
+    values[start] = values[end];
+    values[end] = value;
+    start++;
+    end--;
+  }
+}
@@ -6,17 +6,46 @@ import {
   RichTextDocument,
   TextSpan,
   TextStyle,
+  TextAlign,
+  TextDirection,
+  ParagraphStyle,
   Selection,
   StyledChar,
   AbsolutePosition,
+  VerticalPosition,
+  InlineObject,
+  OBJECT_REPLACEMENT,
   generateSpanId,
   DEFAULT_STYLE,
+  DEFAULT_PARAGRAPH_STYLE,
 } from './types';
+import { splitGraphemes } from './graphemes';
 
 /**
- * Flatten document into array of styled characters
+ * Flatten document into array of styled characters.
+ * Each character is an extended grapheme cluster (an emoji or a letter with
+ * combining marks is one character); `absoluteIndex` is its UTF-16 offset.
+ * A cluster that spans two styles takes the style of its first code unit.
  */
 export function flattenDocument(doc: RichTextDocument): StyledChar[] {
+  const codeUnits = flattenCodeUnits(doc);
+  const text = doc.spans.map((span) => span.text).join('');
+  const chars: StyledChar[] = [];
+  let absoluteIndex = 0;
+
+  for (const cluster of splitGraphemes(text)) {
+    chars.push({ ...codeUnits[absoluteIndex], char: cluster });
+    absoluteIndex += cluster.length;
+  }
+
+  return chars;
+}
+
+/**
+ * Flatten document into one entry per UTF-16 code unit, so that array
+ * indices are document positions (for range operations)
+ */
+function flattenCodeUnits(doc: RichTextDocument): StyledChar[] {
   const chars: StyledChar[] = [];
   let absoluteIndex = 0;
 
@@ -27,6 +56,7 @@ export function flattenDocument(doc: RichTextDocument): StyledChar[] {
         style: span.style,
         spanId: span.id,
         absoluteIndex,
+        ...(span.object && { object: span.object }),
       });
       absoluteIndex++;
     }
@@ -125,7 +155,7 @@ export function insertText(
   // Handle empty spans array
   if (doc.spans.length === 0) {
     const newStyle = style ? { ...DEFAULT_STYLE, ...style } : { ...DEFAULT_STYLE };
-    return {
+    return shiftParagraphsForInsert(doc, {
       ...doc,
       spans: [
         {
@@ -134,7 +164,7 @@ export function insertText(
           style: newStyle,
         },
       ],
-    };
+    }, pos, text);
   }
 
   const { spanIndex, charOffset } = absoluteToSpanPosition(doc, pos);
@@ -146,14 +176,15 @@ export function insertText(
     ? { ...currentSpan.style, ...style }
     : { ...currentSpan.style };
 
-  // Check if style matches current span
+  // Check if style matches current span (text never goes into an object's span)
   const stylesMatch =
-    !style ||
+    !currentSpan.object &&
+    (!style ||
     Object.keys(style).every(
       (key) =>
         insertStyle[key as keyof TextStyle] ===
         currentSpan.style[key as keyof TextStyle]
-    );
+    ));
 
   if (stylesMatch) {
     // Insert into current span
@@ -200,10 +231,10 @@ export function insertText(
     newSpans.splice(spanIndex, 1, ...newSpansArray);
   }
 
-  return {
+  return shiftParagraphsForInsert(doc, {
     ...doc,
     spans: normalizeSpans(newSpans),
-  };
+  }, pos, text);
 }
 
 /**
@@ -216,10 +247,10 @@ export function deleteRange(
 ): RichTextDocument {
   if (start >= end) return doc;
 
-  const chars = flattenDocument(doc);
+  const chars = flattenCodeUnits(doc);
   const newChars = [...chars.slice(0, start), ...chars.slice(end)];
 
-  return rebuildDocumentFromChars(doc, newChars);
+  return mergeParagraphsForDelete(doc, rebuildDocumentFromChars(doc, newChars), start, end);
 }
 
 /**
@@ -233,7 +264,7 @@ export function applyStyleToRange(
 ): RichTextDocument {
   if (start >= end) return doc;
 
-  const chars = flattenDocument(doc);
+  const chars = flattenCodeUnits(doc);
 
   // Apply style to characters in range
   for (let i = start; i < end && i < chars.length; i++) {
@@ -257,7 +288,7 @@ export function toggleStyleInRange(
 ): RichTextDocument {
   if (start >= end) return doc;
 
-  const chars = flattenDocument(doc);
+  const chars = flattenCodeUnits(doc);
 
   // Check if all characters in range have the property set
   let allHaveProperty = true;
@@ -274,6 +305,31 @@ export function toggleStyleInRange(
   return applyStyleToRange(doc, start, end, { [property]: newValue });
 }
 
+/**
+ * Toggle superscript or subscript in range: set when not every character
+ * has it, otherwise back to the baseline
+ */
+export function toggleVerticalPositionInRange(
+  doc: RichTextDocument,
+  start: AbsolutePosition,
+  end: AbsolutePosition,
+  position: VerticalPosition
+): RichTextDocument {
+  if (start >= end) return doc;
+
+  const chars = flattenCodeUnits(doc);
+
+  let allHavePosition = true;
+  for (let i = start; i < end && i < chars.length; i++) {
+    if (chars[i].style.verticalPosition !== position) {
+      allHavePosition = false;
+      break;
+    }
+  }
+
+  return applyStyleToRange(doc, start, end, { verticalPosition: allHavePosition ? undefined : position });
+}
+
 /**
  * Toggle bold style in range
  */
@@ -284,7 +340,7 @@ export function toggleBoldInRange(
 ): RichTextDocument {
   if (start >= end) return doc;
 
-  const chars = flattenDocument(doc);
+  const chars = flattenCodeUnits(doc);
 
   // Check if all characters in range are bold
   let allBold = true;
@@ -310,7 +366,7 @@ export function toggleItalicInRange(
 ): RichTextDocument {
   if (start >= end) return doc;
 
-  const chars = flattenDocument(doc);
+  const chars = flattenCodeUnits(doc);
 
   // Check if all characters in range are italic
   let allItalic = true;
@@ -351,7 +407,7 @@ function rebuildDocumentFromChars(
   let currentSpan: TextSpan | null = null;
 
   for (const char of chars) {
-    if (!currentSpan || !stylesEqual(currentSpan.style, char.style)) {
+    if (!currentSpan || !canJoinSpan(currentSpan, char)) {
       // Start new span
       if (currentSpan) {
         spans.push(currentSpan);
@@ -360,6 +416,7 @@ function rebuildDocumentFromChars(
         id: generateSpanId(),
         text: char.char,
         style: char.style,
+        ...(char.object && { object: char.object }),
       };
     } else {
       // Add to current span
@@ -377,6 +434,14 @@ function rebuildDocumentFromChars(
   };
 }
 
+/**
+ * Check if a character continues a span: same style, and neither is an
+ * inline object (each object has a span of its own)
+ */
+function canJoinSpan(span: TextSpan, char: StyledChar): boolean {
+  return !span.object && !char.object && stylesEqual(span.style, char.style);
+}
+
 /**
  * Check if two styles are equal
  */
@@ -392,6 +457,11 @@ function stylesEqual(a: TextStyle, b: TextStyle): boolean {
     a.strikethrough === b.strikethrough &&
     a.letterSpacing === b.letterSpacing &&
     a.lineHeight === b.lineHeight &&
+    a.verticalPosition === b.verticalPosition &&
+    a.baselineShift === b.baselineShift &&
+    a.link?.href === b.link?.href &&
+    a.link?.title === b.link?.title &&
+    a.styleName === b.styleName &&
     JSON.stringify(a.stroke) === JSON.stringify(b.stroke) &&
     JSON.stringify(a.shadow) === JSON.stringify(b.shadow)
   );
@@ -417,7 +487,7 @@ function normalizeSpans(spans: TextSpan[]): TextSpan[] {
   for (let i = 1; i < spans.length; i++) {
     const next = spans[i];
 
-    if (stylesEqual(current.style, next.style)) {
+    if (!current.object && !next.object && stylesEqual(current.style, next.style)) {
       // Merge spans
       current = {
         ...current,
@@ -450,7 +520,7 @@ export function getSelectedText(
   const start = Math.min(selection.anchor, selection.focus);
   const end = Math.max(selection.anchor, selection.focus);
 
-  const chars = flattenDocument(doc);
+  const chars = flattenCodeUnits(doc);
   return chars
     .slice(start, end)
     .map((c) => c.char)
@@ -470,7 +540,7 @@ export function extractStyledSpans(
 
   if (start === end) return [];
 
-  const chars = flattenDocument(doc);
+  const chars = flattenCodeUnits(doc);
   const selectedChars = chars.slice(start, end);
 
   if (selectedChars.length === 0) return [];
@@ -480,7 +550,7 @@ export function extractStyledSpans(
   let currentSpan: TextSpan | null = null;
 
   for (const char of selectedChars) {
-    if (!currentSpan || !stylesEqual(currentSpan.style, char.style)) {
+    if (!currentSpan || !canJoinSpan(currentSpan, char)) {
       // Start new span
       if (currentSpan) {
         result.push(currentSpan);
@@ -489,6 +559,7 @@ export function extractStyledSpans(
         id: generateSpanId(),
         text: char.char,
         style: { ...char.style },
+        ...(char.object && { object: { ...char.object } }),
       };
     } else {
       // Add to current span
@@ -535,37 +606,28 @@ export function insertStyledSpans(
     // Add text before insertion point
     if (charOffset > 0) {
       newSpans.push({
-        id: currentSpan.id,
+        ...currentSpan,
         text: currentSpan.text.slice(0, charOffset),
-        style: currentSpan.style,
       });
     }
 
     // Add the new styled spans
     for (const span of spans) {
-      newSpans.push({
-        id: generateSpanId(),
-        text: span.text,
-        style: { ...span.style },
-      });
+      newSpans.push(copyInsertedSpan(span));
     }
 
     // Add text after insertion point
     if (charOffset < currentSpan.text.length) {
       newSpans.push({
+        ...currentSpan,
         id: generateSpanId(),
         text: currentSpan.text.slice(charOffset),
-        style: currentSpan.style,
       });
     }
   } else {
     // No current span, just add the new spans
     for (const span of spans) {
-      newSpans.push({
-        id: generateSpanId(),
-        text: span.text,
-        style: { ...span.style },
-      });
+      newSpans.push(copyInsertedSpan(span));
     }
   }
 
@@ -576,7 +638,8 @@ export function insertStyledSpans(
 
   // Normalize and return
   const normalizedSpans = normalizeSpans(newSpans);
-  const newDoc = { ...doc, spans: normalizedSpans };
+  const insertedText = spans.map((span) => span.text).join('');
+  const newDoc = shiftParagraphsForInsert(doc, { ...doc, spans: normalizedSpans }, position, insertedText);
 
   return {
     doc: newDoc,
@@ -584,6 +647,84 @@ export function insertStyledSpans(
   };
 }
 
+/**
+ * Copy a span to insert it into a document
+ */
+function copyInsertedSpan(span: TextSpan): TextSpan {
+  return {
+    id: generateSpanId(),
+    text: span.text,
+    style: { ...span.style },
+    ...(span.object && { object: { ...span.object } }),
+  };
+}
+
+/**
+ * Insert an inline object (an image or icon) at a position, in the style of
+ * the text around it
+ */
+export function insertObject(
+  doc: RichTextDocument,
+  pos: AbsolutePosition,
+  object: InlineObject,
+  style?: Partial<TextStyle>
+): RichTextDocument {
+  const chars = flattenCodeUnits(doc);
+  const objectChar: StyledChar = {
+    char: OBJECT_REPLACEMENT,
+    style: { ...getStyleAtPosition(doc, pos), ...style },
+    spanId: '',
+    absoluteIndex: pos,
+    object: { ...object },
+  };
+  const newChars = [...chars.slice(0, pos), objectChar, ...chars.slice(pos)];
+
+  return shiftParagraphsForInsert(doc, rebuildDocumentFromChars(doc, newChars), pos, OBJECT_REPLACEMENT);
+}
+
+/**
+ * Insert another document (spans plus list and paragraph formatting) at a position
+ * Used when pasting content that carries lists, e.g. Markdown.
+ * The first fragment line merges into the line at the insertion point, which
+ * keeps its own list/paragraph formatting if it has any.
+ */
+export function insertDocumentFragment(
+  doc: RichTextDocument,
+  position: AbsolutePosition,
+  fragment: RichTextDocument
+): { doc: RichTextDocument; newPosition: AbsolutePosition } {
+  const { doc: newDoc, newPosition } = insertStyledSpans(doc, position, fragment.spans);
+
+  if (newDoc === doc) {
+    return { doc, newPosition };
+  }
+
+  const startLine = getLineIndexForPosition(doc, position);
+  const insertedLines = countNewlines(fragment.spans.map((span) => span.text).join(''));
+
+  // Shift list items below the insertion point, then add the fragment's
+  const listItems = new Map<number, import('./types').ListItem>();
+  doc.listItems.forEach((item, lineIdx) => {
+    listItems.set(lineIdx > startLine ? lineIdx + insertedLines : lineIdx, item);
+  });
+  fragment.listItems.forEach((item, lineIdx) => {
+    if (lineIdx === 0 && listItems.has(startLine)) return;
+    listItems.set(startLine + lineIdx, { ...item });
+  });
+
+  // Paragraph styles were already shifted by insertStyledSpans
+  const paragraphs = new Map(newDoc.paragraphs ?? []);
+  fragment.paragraphs?.forEach((style, paragraphIdx) => {
+    if (paragraphIdx === 0 && paragraphs.has(startLine)) return;
+    paragraphs.set(startLine + paragraphIdx, { ...style });
+  });
+
+  return {
+    doc: renumberLists({ ...newDoc, listItems, paragraphs }),
+    newPosition,
+  };
+}
+
 /**
  * Replace selected text with new text
  */
@@ -622,7 +763,7 @@ export function cloneDocument(doc: RichTextDocument): RichTextDocument {
     });
   }
 
-  return {
+  const cloned: RichTextDocument = {
     ...doc,
     spans: doc.spans.map((span) => ({
       ...span,
@@ -630,6 +771,24 @@ export function cloneDocument(doc: RichTextDocument): RichTextDocument {
     })),
     listItems: clonedListItems,
   };
+
+  // Deep clone paragraphs Map
+  if (doc.paragraphs) {
+    const clonedParagraphs = new Map<number, ParagraphStyle>();
+    doc.paragraphs.forEach((value, key) => {
+      clonedParagraphs.set(key, { ...value });
+    });
+    cloned.paragraphs = clonedParagraphs;
+  }
+
+  if (doc.styles) {
+    cloned.styles = {
+      character: new Map(doc.styles.character),
+      paragraph: new Map(doc.styles.paragraph),
+    };
+  }
+
+  return cloned;
 }
 
 /**
@@ -639,7 +798,7 @@ export function getLineIndexForPosition(
   doc: RichTextDocument,
   pos: AbsolutePosition
 ): number {
-  const chars = flattenDocument(doc);
+  const chars = flattenCodeUnits(doc);
   let lineIndex = 0;
 
   for (let i = 0; i < pos && i < chars.length; i++) {
@@ -886,7 +1045,7 @@ export function renumberLists(doc: RichTextDocument): RichTextDocument {
  * Check if a line is empty (only contains whitespace or nothing)
  */
 export function isLineEmpty(doc: RichTextDocument, lineIndex: number): boolean {
-  const chars = flattenDocument(doc);
+  const chars = flattenCodeUnits(doc);
   let currentLine = 0;
   let lineStart = 0;
   let lineEnd = 0;
@@ -920,7 +1079,7 @@ export function getLineStartPosition(
   doc: RichTextDocument,
   lineIndex: number
 ): AbsolutePosition {
-  const chars = flattenDocument(doc);
+  const chars = flattenCodeUnits(doc);
   let currentLine = 0;
   let position = 0;
 
@@ -936,3 +1095,125 @@ export function getLineStartPosition(
 
   return position;
 }
+
+// ============================================================================
+// Paragraph Formatting
+// ============================================================================
+
+/**
+ * Count newline characters in a string
+ */
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') count++;
+  }
+  return count;
+}
+
+/**
+ * Keep paragraph formatting attached to the right paragraphs after an insert.
+ * Paragraphs created by inserted newlines inherit the formatting of the
+ * paragraph they were split from.
+ */
+function shiftParagraphsForInsert(
+  originalDoc: RichTextDocument,
+  newDoc: RichTextDocument,
+  pos: AbsolutePosition,
+  text: string
+): RichTextDocument {
+  if (!originalDoc.paragraphs || originalDoc.paragraphs.size === 0) return newDoc;
+
+  const added = countNewlines(text);
+  if (added === 0) return newDoc;
+
+  const splitIndex = getLineIndexForPosition(originalDoc, pos);
+  const newParagraphs = new Map<number, ParagraphStyle>();
+
+  originalDoc.paragraphs.forEach((style, idx) => {
+    newParagraphs.set(idx <= splitIndex ? idx : idx + added, style);
+  });
+
+  const inherited = originalDoc.paragraphs.get(splitIndex);
+  if (inherited) {
+    for (let i = 1; i <= added; i++) {
+      newParagraphs.set(splitIndex + i, { ...inherited });
+    }
+  }
+
+  return { ...newDoc, paragraphs: newParagraphs };
+}
+
+/**
+ * Keep paragraph formatting attached to the right paragraphs after a delete.
+ * Paragraphs merged by removed newlines take the formatting of the first one.
+ */
+function mergeParagraphsForDelete(
+  originalDoc: RichTextDocument,
+  newDoc: RichTextDocument,
+  start: AbsolutePosition,
+  end: AbsolutePosition
+): RichTextDocument {
+  if (!originalDoc.paragraphs || originalDoc.paragraphs.size === 0) return newDoc;
+
+  const startParagraph = getLineIndexForPosition(originalDoc, start);
+  const endParagraph = getLineIndexForPosition(originalDoc, end);
+  const removed = endParagraph - startParagraph;
+  if (removed === 0) return newDoc;
+
+  const newParagraphs = new Map<number, ParagraphStyle>();
+
+  originalDoc.paragraphs.forEach((style, idx) => {
+    if (idx <= startParagraph) {
+      newParagraphs.set(idx, style);
+    } else if (idx > endParagraph) {
+      newParagraphs.set(idx - removed, style);
+    }
+    // Paragraphs inside the deleted range are merged into startParagraph
+  });
+
+  return { ...newDoc, paragraphs: newParagraphs };
+}
+
+/**
+ * Get the resolved formatting for a paragraph, with the alignment and
+ * direction falling back to the document's
+ */
+export function getParagraphStyle(
+  doc: RichTextDocument,
+  paragraphIndex: number
+): ParagraphStyle & { align: TextAlign; direction: TextDirection } {
+  const style = doc.paragraphs?.get(paragraphIndex);
+  return {
+    ...DEFAULT_PARAGRAPH_STYLE,
+    ...style,
+    align: style?.align ?? doc.align,
+    direction: style?.direction ?? doc.direction ?? 'ltr',
+    tabs: style?.tabs ?? doc.tabs,
+  };
+}
+
+/**
+ * Apply paragraph formatting to a range of paragraphs (inclusive)
+ */
+export function setParagraphStyle(
+  doc: RichTextDocument,
+  startParagraph: number,
+  endParagraph: number,
+  style: Partial<ParagraphStyle>
+): RichTextDocument {
+  const newParagraphs = new Map(doc.paragraphs);
+
+  for (let i = startParagraph; i <= endParagraph; i++) {
+    newParagraphs.set(i, {
+      ...DEFAULT_PARAGRAPH_STYLE,
+      ...newParagraphs.get(i),
+      ...style,
+    });
+  }
+
+  return {
+    ...doc,
+    paragraphs: newParagraphs,
+  };
+}
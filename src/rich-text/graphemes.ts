@@ -0,0 +1,136 @@
+// ============================================================================
+// Grapheme Clusters - User-perceived characters
+// Emoji (including ZWJ sequences, skin tones and flags) and letters built from
+// combining marks are single characters for layout, caret movement, deletion
+// and selection. Document positions stay UTF-16 offsets; they just never fall
+// inside a cluster.
+// ============================================================================
+
+/**
+ * The part of Intl.Segmenter used here (not in the ES2020 typings)
+ */
+interface GraphemeSegmenter {
+  segment(text: string): Iterable<{ segment: string; index: number }>;
+}
+
+let segmenter: GraphemeSegmenter | null | undefined;
+
+/**
+ * Intl.Segmenter for grapheme clusters, or null where it is not available
+ */
+function getSegmenter(): GraphemeSegmenter | null {
+  if (segmenter === undefined) {
+    const Segmenter = (Intl as unknown as {
+      Segmenter?: new (locale?: string, options?: { granularity: 'grapheme' }) => GraphemeSegmenter;
+    }).Segmenter;
+    segmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : null;
+  }
+  return segmenter;
+}
+
+const ZWJ = 0x200d;
+
+/**
+ * Code points that attach to the cluster before them: combining marks,
+ * variation selectors, emoji skin-tone modifiers, ZWJ and emoji tag characters
+ */
+const EXTEND = /^[\p{M}\u200c\u200d\u{1f3fb}-\u{1f3ff}\u{e0020}-\u{e007f}]$/u;
+
+function isRegionalIndicator(code: number): boolean {
+  return code >= 0x1f1e6 && code <= 0x1f1ff;
+}
+
+/**
+ * Approximation of extended grapheme clusters for engines without
+ * Intl.Segmenter: handles surrogate pairs, CR LF, combining marks, emoji
+ * modifiers and ZWJ sequences, tag sequences and flag pairs
+ */
+function splitGraphemesFallback(text: string): string[] {
+  const clusters: string[] = [];
+  let previous = 0; // Previous code point
+  let regionalIndicators = 0; // Regional indicators in the current cluster
+
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const last = clusters.length - 1;
+
+    const joins =
+      last >= 0 &&
+      ((previous === 0x0d && code === 0x0a) ||
+        (previous !== 0x0a && previous !== 0x0d && EXTEND.test(char)) ||
+        (previous === ZWJ && code > 0x7f) ||
+        (isRegionalIndicator(code) && regionalIndicators === 1));
+
+    if (joins) {
+      clusters[last] += char;
+      regionalIndicators += isRegionalIndicator(code) ? 1 : 0;
+    } else {
+      clusters.push(char);
+      regionalIndicators = isRegionalIndicator(code) ? 1 : 0;
+    }
+    previous = code;
+  }
+
+  return clusters;
+}
+
+/**
+ * Split text into extended grapheme clusters
+ */
+export function splitGraphemes(text: string): string[] {
+  const native = getSegmenter();
+  if (!native) return splitGraphemesFallback(text);
+
+  const clusters: string[] = [];
+  for (const { segment } of native.segment(text)) {
+    clusters.push(segment);
+  }
+  return clusters;
+}
+
+/**
+ * The grapheme boundary before `position` (a boundary itself).
+ * Only the paragraph around the position is segmented.
+ */
+export function getPreviousGraphemeBoundary(text: string, position: number): number {
+  if (position <= 0) return 0;
+
+  const paragraphStart = text.lastIndexOf('\n', position - 2) + 1;
+  const clusters = splitGraphemes(text.slice(paragraphStart, position));
+  const lastCluster = clusters[clusters.length - 1] ?? '';
+
+  return position - lastCluster.length;
+}
+
+/**
+ * The grapheme boundary after `position` (a boundary itself)
+ */
+export function getNextGraphemeBoundary(text: string, position: number): number {
+  if (position >= text.length) return text.length;
+
+  const newline = text.indexOf('\n', position + 1);
+  const paragraphEnd = newline === -1 ? text.length : newline + 1;
+  const firstCluster = splitGraphemes(text.slice(position, paragraphEnd))[0] ?? '';
+
+  return position + Math.max(1, firstCluster.length);
+}
+
+/**
+ * Move a position that falls inside a cluster to the cluster's start
+ */
+export function snapToGraphemeBoundary(text: string, position: number): number {
+  if (position <= 0 || position >= text.length) {
+    return Math.max(0, Math.min(position, text.length));
+  }
+
+  const paragraphStart = text.lastIndexOf('\n', position - 1) + 1;
+  const newline = text.indexOf('\n', position);
+  const paragraphEnd = newline === -1 ? text.length : newline;
+
+  let boundary = paragraphStart;
+  for (const cluster of splitGraphemes(text.slice(paragraphStart, paragraphEnd))) {
+    if (boundary + cluster.length > position) break;
+    boundary += cluster.length;
+  }
+  return boundary;
+}
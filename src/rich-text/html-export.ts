@@ -0,0 +1,305 @@
+// ============================================================================
+// Rich Text to HTML Exporter
+// Converts a RichTextDocument (or a range of it) to semantic HTML for the
+// clipboard, so pasting into Google Docs, Word or email keeps formatting.
+// The output can be read back with parseHTMLToSpans.
+// ============================================================================
+
+import {
+  RichTextDocument,
+  TextStyle,
+  StyledChar,
+  InlineObject,
+  ListItem,
+  TextRange,
+  DEFAULT_STYLE,
+} from './types';
+import { flattenDocument, getParagraphStyle } from './document-model';
+import { quoteFontFamily } from './layout-engine';
+
+/**
+ * An open <ul>/<ol> while building nested lists
+ */
+interface OpenList {
+  tag: 'ul' | 'ol';
+}
+
+/**
+ * Export a document (or the characters in `range`) to HTML
+ *
+ * Paragraphs become <p>, list items become nested <ul>/<ol>, and
+ * bold/italic/underline/strikethrough/superscript/subscript use
+ * <strong>/<em>/<u>/<s>/<sup>/<sub>, links <a> and inline images <img>.
+ * Everything else is written as inline CSS on a <span>.
+ */
+export function exportToHTML(doc: RichTextDocument, range?: TextRange): string {
+  const chars = flattenDocument(doc);
+  const length = doc.spans.reduce((sum, span) => sum + span.text.length, 0);
+  const start = Math.max(0, Math.min(range?.start ?? 0, range?.end ?? length));
+  const end = Math.min(length, Math.max(range?.start ?? 0, range?.end ?? length));
+
+  // Paragraph index of the first exported character
+  let paragraphIndex = 0;
+  for (const char of chars) {
+    if (char.absoluteIndex >= start) break;
+    if (char.char === '\n') paragraphIndex++;
+  }
+
+  // Split the range into paragraphs. Each keeps the style of the newline
+  // that ends it (or, until then, of the one before it), which empty
+  // paragraphs are exported in.
+  const paragraphs: { index: number; chars: StyledChar[]; breakStyle?: TextStyle }[] = [
+    { index: paragraphIndex, chars: [] },
+  ];
+  for (const char of chars) {
+    if (char.absoluteIndex < start || char.absoluteIndex >= end) continue;
+
+    if (char.char === '\n') {
+      paragraphs[paragraphs.length - 1].breakStyle = char.style;
+      paragraphs.push({ index: ++paragraphIndex, chars: [], breakStyle: char.style });
+    } else {
+      paragraphs[paragraphs.length - 1].chars.push(char);
+    }
+  }
+
+  const html: string[] = [];
+  const openLists: OpenList[] = [];
+
+  const closeLists = (depth: number) => {
+    while (openLists.length > depth) {
+      html.push(`</li></${openLists.pop()!.tag}>`);
+    }
+  };
+
+  for (const paragraph of paragraphs) {
+    const listItem = doc.listItems.get(paragraph.index);
+    const content =
+      paragraph.chars.length > 0 ? exportInline(paragraph.chars) : exportEmptyLine(paragraph.breakStyle);
+    const paragraphCSS = getParagraphCSS(doc, paragraph.index);
+
+    if (listItem && listItem.type !== 'none') {
+      openListItem(html, openLists, listItem);
+      html.push(`<li style="${paragraphCSS}">${content}`);
+    } else {
+      closeLists(0);
+      html.push(`<p style="${paragraphCSS}">${content}</p>`);
+    }
+  }
+
+  closeLists(0);
+
+  return html.join('');
+}
+
+/**
+ * Close and open lists so the next <li> sits at the item's level
+ */
+function openListItem(html: string[], openLists: OpenList[], item: ListItem): void {
+  const tag = item.type === 'number' ? 'ol' : 'ul';
+  const depth = item.level + 1;
+
+  // Close deeper lists
+  while (openLists.length > depth) {
+    html.push(`</li></${openLists.pop()!.tag}>`);
+  }
+
+  if (openLists.length === depth) {
+    if (openLists[depth - 1].tag !== tag) {
+      // Same level, different list type: start a new list
+      html.push(`</li></${openLists.pop()!.tag}>`);
+    } else {
+      // Sibling item
+      html.push('</li>');
+    }
+  }
+
+  // Open lists down to this level (inside the previous item, if any)
+  while (openLists.length < depth) {
+    const isItemList = openLists.length === depth - 1;
+    const startAttr = isItemList && tag === 'ol' && item.index > 1 ? ` start="${item.index}"` : '';
+    html.push(`<${tag}${startAttr}>`);
+    openLists.push({ tag });
+  }
+}
+
+/**
+ * CSS for a paragraph's direction, alignment, spacing and indentation
+ */
+function getParagraphCSS(doc: RichTextDocument, paragraphIndex: number): string {
+  const style = getParagraphStyle(doc, paragraphIndex);
+  const margins = [style.spaceBefore, style.indentRight, style.spaceAfter, style.indentLeft];
+  const css = [
+    margins.some((m) => m !== 0) ? `margin: ${margins.map((m) => `${m}px`).join(' ')}` : 'margin: 0',
+    'white-space: pre-wrap',
+  ];
+
+  if (style.direction === 'rtl') css.push('direction: rtl');
+  if (style.direction === 'auto') css.push('unicode-bidi: plaintext');
+  // 'left' and 'right' follow the text direction, like CSS start and end
+  if (style.align === 'right') {
+    css.push(`text-align: ${style.direction === 'ltr' ? 'right' : 'end'}`);
+  } else if (style.align !== 'left') {
+    css.push(`text-align: ${style.align}`);
+  }
+  if (style.firstLineIndent !== 0) css.push(`text-indent: ${style.firstLineIndent}px`);
+
+  return css.join('; ');
+}
+
+/**
+ * Export one paragraph's characters as inline HTML
+ */
+function exportInline(chars: StyledChar[]): string {
+  let html = '';
+  let runText = '';
+  let runStyle: TextStyle | null = null;
+
+  const flush = () => {
+    if (runStyle && runText) {
+      html += exportRun(runText, runStyle);
+    }
+    runText = '';
+  };
+
+  for (const char of chars) {
+    if (char.object) {
+      flush();
+      runStyle = null;
+      html += exportObject(char.object, char.style);
+      continue;
+    }
+    if (runStyle !== char.style && !(runStyle && stylesEqual(runStyle, char.style))) {
+      flush();
+      runStyle = char.style;
+    }
+    runText += char.char;
+  }
+  flush();
+
+  return html;
+}
+
+/**
+ * Export an empty paragraph as a line break in the style of its newline, so
+ * the line keeps its height
+ */
+function exportEmptyLine(style: TextStyle | undefined): string {
+  return style ? wrapInline('<br>', style) : '<br>';
+}
+
+/**
+ * Export a run of equally styled text
+ */
+function exportRun(text: string, style: TextStyle): string {
+  return wrapInline(escapeHTML(text), style);
+}
+
+/**
+ * Wrap inline HTML in the tags and CSS of a style
+ */
+function wrapInline(content: string, style: TextStyle): string {
+  let html = content;
+
+  if (style.verticalPosition === 'super') html = `<sup>${html}</sup>`;
+  if (style.verticalPosition === 'sub') html = `<sub>${html}</sub>`;
+  if (style.strikethrough) html = `<s>${html}</s>`;
+  if (style.underline) html = `<u>${html}</u>`;
+  if (style.fontStyle === 'italic') html = `<em>${html}</em>`;
+  if (style.fontWeight === 'bold') html = `<strong>${html}</strong>`;
+
+  html = `<span style="${escapeHTML(getInlineCSS(style))}">${html}</span>`;
+  if (style.link) {
+    const title = style.link.title ? ` title="${escapeHTML(style.link.title)}"` : '';
+    html = `<a href="${escapeHTML(style.link.href)}"${title}>${html}</a>`;
+  }
+  return html;
+}
+
+/**
+ * Export an inline object as an <img> sitting on the baseline (inside the
+ * link it belongs to, if any)
+ */
+function exportObject(object: InlineObject, style: TextStyle): string {
+  const alt = object.alt ? ` alt="${escapeHTML(object.alt)}"` : '';
+  const align = object.baseline ? ` style="vertical-align: ${-object.baseline}px"` : '';
+  let html = `<img src="${escapeHTML(object.src)}" width="${object.width}" height="${object.height}"${alt}${align}>`;
+
+  if (style.link) {
+    const title = style.link.title ? ` title="${escapeHTML(style.link.title)}"` : '';
+    html = `<a href="${escapeHTML(style.link.href)}"${title}>${html}</a>`;
+  }
+  return html;
+}
+
+/**
+ * CSS for the style properties that have no semantic tag
+ */
+function getInlineCSS(style: TextStyle): string {
+  const css = [
+    `font-family: ${quoteFontFamily(style.fontFamily)}`,
+    `font-size: ${style.fontSize}px`,
+    `color: ${style.color}`,
+  ];
+
+  if (typeof style.fontWeight === 'number') {
+    css.push(`font-weight: ${style.fontWeight}`);
+  }
+  if (style.backgroundColor) {
+    css.push(`background-color: ${style.backgroundColor}`);
+  }
+  if (style.letterSpacing !== DEFAULT_STYLE.letterSpacing) {
+    css.push(`letter-spacing: ${style.letterSpacing}px`);
+  }
+  if (style.lineHeight !== DEFAULT_STYLE.lineHeight) {
+    css.push(`line-height: ${style.lineHeight}`);
+  }
+  if (typeof style.baselineShift === 'number') {
+    css.push(`vertical-align: ${style.baselineShift}px`);
+  } else if (style.baselineShift) {
+    css.push(`vertical-align: ${style.baselineShift}`);
+  }
+  if (style.stroke && style.stroke.width > 0) {
+    css.push(`-webkit-text-stroke: ${style.stroke.width}px ${style.stroke.color}`);
+  }
+  if (style.shadow) {
+    const { offsetX, offsetY, blur, color } = style.shadow;
+    css.push(`text-shadow: ${offsetX}px ${offsetY}px ${blur}px ${color}`);
+  }
+
+  return css.join('; ');
+}
+
+/**
+ * Escape text for HTML content and attribute values
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Compare the style properties that affect HTML output
+ */
+function stylesEqual(a: TextStyle, b: TextStyle): boolean {
+  return (
+    a.fontFamily === b.fontFamily &&
+    a.fontSize === b.fontSize &&
+    a.fontWeight === b.fontWeight &&
+    a.fontStyle === b.fontStyle &&
+    a.color === b.color &&
+    a.backgroundColor === b.backgroundColor &&
+    a.underline === b.underline &&
+    a.strikethrough === b.strikethrough &&
+    a.letterSpacing === b.letterSpacing &&
+    a.lineHeight === b.lineHeight &&
+    a.verticalPosition === b.verticalPosition &&
+    a.baselineShift === b.baselineShift &&
+    a.link?.href === b.link?.href &&
+    a.link?.title === b.link?.title &&
+    JSON.stringify(a.stroke) === JSON.stringify(b.stroke) &&
+    JSON.stringify(a.shadow) === JSON.stringify(b.shadow)
+  );
+}
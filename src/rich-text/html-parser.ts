@@ -3,7 +3,8 @@
 // Converts HTML from external sources (Google Docs, Word, Canva) to TextSpan[]
 // ============================================================================
 
-import { TextSpan, TextStyle, DEFAULT_STYLE, generateSpanId } from './types';
+import { TextSpan, TextStyle, InlineObject, DEFAULT_STYLE, OBJECT_REPLACEMENT, generateSpanId } from './types';
+import { isSafeHref } from './links';
 
 /**
  * Parse HTML string and convert to array of styled spans
@@ -52,6 +53,20 @@ function processNode(
     const element = node as HTMLElement;
     const tagName = element.tagName.toLowerCase();
 
+    // Images become inline objects in the style of the text around them
+    if (tagName === 'img') {
+      const object = parseImage(element);
+      if (object) {
+        spans.push({
+          id: generateSpanId(),
+          text: OBJECT_REPLACEMENT,
+          style: { ...DEFAULT_STYLE, ...mergeStyleStack(styleStack) },
+          object,
+        });
+      }
+      return;
+    }
+
     // Extract styles from this element
     const elementStyle = extractStyleFromElement(element);
 
@@ -74,14 +89,7 @@ function processNode(
       });
     } else if (isBlockElement(tagName)) {
       // Add newline before block elements (except first)
-      if (spans.length > 0 && !spans[spans.length - 1].text.endsWith('\n')) {
-        const currentStyle = mergeStyleStack(styleStack);
-        spans.push({
-          id: generateSpanId(),
-          text: '\n',
-          style: { ...DEFAULT_STYLE, ...currentStyle },
-        });
-      }
+      endParagraph(spans);
     }
 
     // Process children
@@ -90,15 +98,8 @@ function processNode(
     }
 
     // Add newline after block elements
-    if (isBlockElement(tagName) && spans.length > 0) {
-      if (!spans[spans.length - 1].text.endsWith('\n')) {
-        const currentStyle = mergeStyleStack(styleStack);
-        spans.push({
-          id: generateSpanId(),
-          text: '\n',
-          style: { ...DEFAULT_STYLE, ...currentStyle },
-        });
-      }
+    if (isBlockElement(tagName)) {
+      endParagraph(spans);
     }
 
     // Pop style from stack
@@ -106,6 +107,21 @@ function processNode(
   }
 }
 
+/**
+ * End the paragraph with a newline, unless it already ended. The newline
+ * takes the style of the text it ends, as it would when typed.
+ */
+function endParagraph(spans: TextSpan[]): void {
+  const lastSpan = spans[spans.length - 1];
+  if (!lastSpan || lastSpan.text.endsWith('\n')) return;
+
+  spans.push({
+    id: generateSpanId(),
+    text: '\n',
+    style: { ...lastSpan.style },
+  });
+}
+
 /**
  * Get style properties from HTML tag name
  */
@@ -130,11 +146,38 @@ function getStyleFromTag(tagName: string): Partial<TextStyle> {
     case 'mark':
       return { backgroundColor: '#FFFF00' };
 
+    case 'sup':
+      return { verticalPosition: 'super' };
+
+    case 'sub':
+      return { verticalPosition: 'sub' };
+
     default:
       return {};
   }
 }
 
+/**
+ * Read an <img> as an inline object. Images without a source or a size
+ * (from attributes or CSS) are left out. A negative vertical-align in
+ * pixels lowers the image below the baseline.
+ */
+function parseImage(element: HTMLElement): InlineObject | null {
+  const src = element.getAttribute('src');
+  const width = parseFloat(element.getAttribute('width') ?? element.style.width);
+  const height = parseFloat(element.getAttribute('height') ?? element.style.height);
+  if (!src || !(width > 0) || !(height > 0)) return null;
+
+  const object: InlineObject = { type: 'image', src, width, height };
+  const verticalAlign = element.style.verticalAlign;
+  if (verticalAlign.endsWith('px') && parseFloat(verticalAlign) < 0) {
+    object.baseline = -parseFloat(verticalAlign);
+  }
+  const alt = element.getAttribute('alt');
+  if (alt) object.alt = alt;
+  return object;
+}
+
 /**
  * Extract style properties from element's inline style and attributes
  */
@@ -142,6 +185,13 @@ function extractStyleFromElement(element: HTMLElement): Partial<TextStyle> {
   const style: Partial<TextStyle> = {};
   const computedStyle = element.style;
 
+  // Hyperlink (links to scripts and data are dropped)
+  const href = element.tagName === 'A' ? element.getAttribute('href') : null;
+  if (href && isSafeHref(href)) {
+    const title = element.getAttribute('title');
+    style.link = title ? { href, title } : { href };
+  }
+
   // Font weight
   if (computedStyle.fontWeight) {
     const weight = computedStyle.fontWeight;
@@ -214,6 +264,22 @@ function extractStyleFromElement(element: HTMLElement): Partial<TextStyle> {
     }
   }
 
+  // Vertical align: superscript, subscript or a shift in px or em
+  if (computedStyle.verticalAlign) {
+    const align = computedStyle.verticalAlign;
+    const value = parseFloat(align);
+    if (align === 'super' || align === 'sub') {
+      style.verticalPosition = align;
+    } else if (align === 'baseline') {
+      style.verticalPosition = undefined;
+      style.baselineShift = undefined;
+    } else if (!isNaN(value) && align.endsWith('em')) {
+      style.baselineShift = `${value}em`;
+    } else if (!isNaN(value) && align.endsWith('px')) {
+      style.baselineShift = value;
+    }
+  }
+
   // Letter spacing
   if (computedStyle.letterSpacing) {
     const spacing = parseFloat(computedStyle.letterSpacing);
@@ -238,9 +304,52 @@ function extractStyleFromElement(element: HTMLElement): Partial<TextStyle> {
     }
   }
 
+  // Text stroke (e.g. "2px #000000")
+  const textStroke = computedStyle.getPropertyValue('-webkit-text-stroke');
+  if (textStroke) {
+    const strokeMatch = textStroke.match(/^([\d.]+)px\s+(.+)$/);
+    const color = strokeMatch && parseColor(strokeMatch[2].trim());
+    if (strokeMatch && color) {
+      style.stroke = { width: parseFloat(strokeMatch[1]), color };
+    }
+  }
+
+  // Text shadow (first shadow only, e.g. "1px 1px 4px #333333")
+  if (computedStyle.textShadow && computedStyle.textShadow !== 'none') {
+    const shadow = parseTextShadow(computedStyle.textShadow);
+    if (shadow) {
+      style.shadow = shadow;
+    }
+  }
+
   return style;
 }
 
+/**
+ * Parse the first shadow of a CSS text-shadow value
+ */
+function parseTextShadow(value: string): TextStyle['shadow'] | null {
+  // Color may come first or last, and may contain commas inside parentheses
+  const colorMatch = value.match(/rgba?\([^)]*\)|#[0-9a-fA-F]{3,8}|\b[a-zA-Z]+\b/);
+  const lengths = value
+    .replace(colorMatch ? colorMatch[0] : '', '')
+    .split(',')[0]
+    .trim()
+    .split(/\s+/)
+    .map((part) => parseFloat(part));
+
+  if (lengths.length < 2 || lengths.some((n) => isNaN(n))) {
+    return null;
+  }
+
+  return {
+    offsetX: lengths[0],
+    offsetY: lengths[1],
+    blur: lengths[2] ?? 0,
+    color: (colorMatch && parseColor(colorMatch[0])) || '#000000',
+  };
+}
+
 /**
  * Parse color string to hex or rgba format
  */
@@ -325,8 +434,8 @@ function normalizeSpans(spans: TextSpan[]): TextSpan[] {
     } else {
       const lastSpan = result[result.length - 1];
 
-      // Check if styles are equal
-      if (stylesEqual(lastSpan.style, span.style)) {
+      // Check if styles are equal (inline objects keep spans of their own)
+      if (!lastSpan.object && !span.object && stylesEqual(lastSpan.style, span.style)) {
         // Merge spans
         lastSpan.text += span.text;
       } else {
@@ -335,11 +444,13 @@ function normalizeSpans(spans: TextSpan[]): TextSpan[] {
     }
   }
 
-  // Clean up: remove trailing newlines if multiple
+  // Clean up: the newline that closes the last block element does not start
+  // another line (browsers ignore a trailing <br> the same way)
   if (result.length > 0) {
     const lastSpan = result[result.length - 1];
-    while (lastSpan.text.endsWith('\n\n')) {
+    if (lastSpan.text.endsWith('\n')) {
       lastSpan.text = lastSpan.text.slice(0, -1);
+      if (!lastSpan.text) result.pop();
     }
   }
 
@@ -360,7 +471,13 @@ function stylesEqual(a: TextStyle, b: TextStyle): boolean {
     a.underline === b.underline &&
     a.strikethrough === b.strikethrough &&
     a.letterSpacing === b.letterSpacing &&
-    a.lineHeight === b.lineHeight
+    a.lineHeight === b.lineHeight &&
+    a.verticalPosition === b.verticalPosition &&
+    a.baselineShift === b.baselineShift &&
+    a.link?.href === b.link?.href &&
+    a.link?.title === b.link?.title &&
+    JSON.stringify(a.stroke) === JSON.stringify(b.stroke) &&
+    JSON.stringify(a.shadow) === JSON.stringify(b.shadow)
   );
 }
 
@@ -0,0 +1,156 @@
+// ============================================================================
+// Hyphenation - Liang's pattern-based hyphenation (as in TeX)
+// Finds the points inside a word where a line can break with a visible
+// hyphen. US English patterns are bundled (hyphenation-en-us.ts); other
+// languages can be added with createHyphenator.
+// ============================================================================
+
+import { EN_US_PATTERNS, EN_US_EXCEPTIONS } from './hyphenation-en-us';
+
+/**
+ * Hyphenation points of a word: the indices of the characters a hyphen may
+ * go before, in ascending order
+ */
+export type Hyphenator = (word: string) => number[];
+
+/**
+ * Shortest word fragments before and after a hyphen
+ */
+export interface HyphenatorOptions {
+  leftMin?: number; // Default 2
+  rightMin?: number; // Default 3
+}
+
+/**
+ * A node of the pattern trie: the letters that continue a pattern, and the
+ * break priorities of the pattern ending here (one more than its letters)
+ */
+interface PatternNode {
+  children: Map<string, PatternNode>;
+  priorities?: number[];
+}
+
+/**
+ * Build the trie of whitespace-separated Liang patterns such as `.ach4`
+ * or `4m1l`
+ */
+function buildPatternTrie(patterns: string): PatternNode {
+  const root: PatternNode = { children: new Map() };
+
+  for (const pattern of patterns.split(/\s+/)) {
+    if (!pattern) continue;
+
+    const priorities = [0];
+    let node = root;
+    for (const char of pattern) {
+      if (char >= '0' && char <= '9') {
+        priorities[priorities.length - 1] = Number(char);
+        continue;
+      }
+      let child = node.children.get(char);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(char, child);
+      }
+      node = child;
+      priorities.push(0);
+    }
+    node.priorities = priorities;
+  }
+
+  return root;
+}
+
+/**
+ * Parse whitespace-separated hyphenated words such as `ta-ble` into their
+ * hyphenation points
+ */
+function parseExceptions(exceptions: string): Map<string, number[]> {
+  const words = new Map<string, number[]>();
+
+  for (const exception of exceptions.split(/\s+/)) {
+    if (!exception) continue;
+
+    const points: number[] = [];
+    let word = '';
+    for (const char of exception) {
+      if (char === '-') {
+        points.push(word.length);
+      } else {
+        word += char;
+      }
+    }
+    words.set(word, points);
+  }
+
+  return words;
+}
+
+/**
+ * Create a hyphenator from Liang patterns and an optional list of
+ * hyphenated exception words (both whitespace separated, lowercase).
+ * Results are cached per word.
+ */
+export function createHyphenator(
+  patterns: string,
+  exceptions: string = '',
+  options: HyphenatorOptions = {}
+): Hyphenator {
+  const leftMin = options.leftMin ?? 2;
+  const rightMin = options.rightMin ?? 3;
+  const trie = buildPatternTrie(patterns);
+  const exceptionPoints = parseExceptions(exceptions);
+  const cache = new Map<string, number[]>();
+
+  return (word: string): number[] => {
+    const lower = word.toLowerCase();
+    let points = cache.get(lower);
+    if (points) return points;
+
+    const fragments = (point: number) => point >= leftMin && point <= lower.length - rightMin;
+    const exception = exceptionPoints.get(lower);
+
+    if (exception) {
+      points = exception.filter(fragments);
+    } else {
+      // Every pattern matching anywhere in the word (with its edges marked)
+      // raises the priorities between its letters; odd priorities allow a break
+      const padded = `.${lower}.`;
+      const priorities = new Array<number>(padded.length + 1).fill(0);
+
+      for (let start = 0; start < padded.length; start++) {
+        let node: PatternNode | undefined = trie;
+        for (let k = start; k < padded.length; k++) {
+          node = node.children.get(padded[k]);
+          if (!node) break;
+          node.priorities?.forEach((priority, offset) => {
+            priorities[start + offset] = Math.max(priorities[start + offset], priority);
+          });
+        }
+      }
+
+      // Priority i of the padded word is before character i - 1 of the word
+      points = [];
+      for (let point = 1; point < lower.length; point++) {
+        if (priorities[point + 1] % 2 === 1 && fragments(point)) {
+          points.push(point);
+        }
+      }
+    }
+
+    cache.set(lower, points);
+    return points;
+  };
+}
+
+let englishHyphenator: Hyphenator | null = null;
+
+/**
+ * Hyphenation points of a US English word (see Hyphenator)
+ */
+export function hyphenate(word: string): number[] {
+  if (!englishHyphenator) {
+    englishHyphenator = createHyphenator(EN_US_PATTERNS, EN_US_EXCEPTIONS);
+  }
+  return englishHyphenator(word);
+}
@@ -8,17 +8,68 @@ export * from './types';
 // Document model operations
 export * from './document-model';
 
+// Grapheme clusters (user-perceived characters)
+export * from './graphemes';
+
+// Bidirectional text (Unicode Bidirectional Algorithm)
+export * from './bidi';
+
+// Line break opportunities (Unicode Line Breaking Algorithm)
+export * from './line-break';
+
+// Pattern hyphenation
+export * from './hyphenation';
+
+// Optimal line breaking (Knuth-Plass)
+export * from './knuth-plass';
+
 // Layout engine
 export * from './layout-engine';
 
+// Auto-fit (auto-height, auto-width, shrink-to-fit)
+export * from './auto-fit';
+
+// Text wrap inside shapes and around exclusions
+export * from './text-wrap';
+
+// Text along an arc or SVG path
+export * from './text-path';
+
 // Renderer
 export * from './renderer';
 
+// Hyperlinks and URL detection
+export * from './links';
+
+// Named character and paragraph styles
+export * from './style-sheets';
+
 // HTML Parser for external paste support
 export * from './html-parser';
 
+// HTML export for the clipboard
+export * from './html-export';
+
+// Markdown import/export
+export * from './markdown';
+
+// Versioned JSON serialization
+export * from './serialization';
+
+// SVG renderer for vector export
+export * from './svg-renderer';
+
+// PDF renderer (standard 14 fonts, no dependencies)
+export * from './pdf-renderer';
+
+// Hidden textarea for keyboard and IME input
+export * from './input-bridge';
+
 // Konva-based renderer
 export * from './konva-renderer';
 
 // Main component
 export { RichTextNode } from './RichTextNode';
+
+// Linked text frames
+export { TextFrame } from './TextFrame';
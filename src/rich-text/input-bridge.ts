@@ -0,0 +1,232 @@
+// ============================================================================
+// Input Bridge - Hidden textarea that receives keyboard, IME and mobile input
+// ============================================================================
+
+/**
+ * Callbacks the bridge reports input through
+ */
+export interface InputBridgeHandlers {
+  /** Keys pressed outside a composition (shortcuts, navigation, editing keys) */
+  onKeyDown(e: KeyboardEvent): void;
+  /** Committed text typed, picked from an emoji panel or chosen by autocorrect */
+  onInsertText(text: string): void;
+  /** Deletions and line breaks that arrive without a usable keydown (mobile keyboards) */
+  onEditCommand(command: 'deleteContentBackward' | 'deleteContentForward' | 'insertParagraph'): void;
+  /** A composition (IME, dead key) started */
+  onCompositionStart(): void;
+  /** The in-progress composition text changed; `caret` is an offset into it */
+  onCompositionUpdate(text: string, caret: number): void;
+  /** The composition ended; `text` is the committed text (empty when cancelled) */
+  onCompositionEnd(text: string): void;
+  onPaste(e: ClipboardEvent): void;
+}
+
+/**
+ * Caret rectangle in viewport (client) coordinates
+ */
+export interface InputCaretRect {
+  x: number;
+  y: number;
+  height: number;
+}
+
+/**
+ * A transparent textarea kept under the caret while editing.
+ *
+ * The browser sends all text input to the focused textarea, so input methods,
+ * dead keys, emoji pickers and on-screen keyboards work as they do in a native
+ * field, and the OS places its candidate window next to the textarea.
+ * Text is handed to the editor and the textarea is emptied again, so outside a
+ * composition it never holds more than the characters of a single input event.
+ */
+export class TextInputBridge {
+  private _handlers: InputBridgeHandlers;
+  private _textarea: HTMLTextAreaElement | null = null;
+  private _composing: boolean = false;
+  private _listeners: [string, EventListener][] = [];
+
+  constructor(handlers: InputBridgeHandlers) {
+    this._handlers = handlers;
+  }
+
+  /**
+   * Create the textarea (once) and focus it
+   */
+  public attach(): void {
+    if (!this._textarea) {
+      this._textarea = this._createTextarea();
+      document.body.appendChild(this._textarea);
+    }
+    this.focus();
+  }
+
+  /**
+   * Remove the textarea and its listeners
+   */
+  public detach(): void {
+    const textarea = this._textarea;
+    if (!textarea) return;
+
+    for (const [type, listener] of this._listeners) {
+      textarea.removeEventListener(type, listener);
+    }
+    this._listeners = [];
+    this._textarea = null;
+    this._composing = false;
+    textarea.blur();
+    textarea.remove();
+  }
+
+  /**
+   * Move keyboard focus to the textarea
+   */
+  public focus(): void {
+    if (this._textarea && document.activeElement !== this._textarea) {
+      this._textarea.focus({ preventScroll: true });
+    }
+  }
+
+  public isAttached(): boolean {
+    return this._textarea !== null;
+  }
+
+  public isComposing(): boolean {
+    return this._composing;
+  }
+
+  public getElement(): HTMLTextAreaElement | null {
+    return this._textarea;
+  }
+
+  /**
+   * Place the textarea over the caret so the candidate window opens there
+   */
+  public setCaretRect(rect: InputCaretRect, fontSize: number): void {
+    if (!this._textarea) return;
+
+    const style = this._textarea.style;
+    style.left = `${rect.x}px`;
+    style.top = `${rect.y}px`;
+    style.height = `${rect.height}px`;
+    style.lineHeight = `${rect.height}px`;
+    style.fontSize = `${fontSize}px`;
+  }
+
+  private _createTextarea(): HTMLTextAreaElement {
+    const textarea = document.createElement('textarea');
+    textarea.setAttribute('autocomplete', 'off');
+    textarea.setAttribute('autocorrect', 'off');
+    textarea.setAttribute('autocapitalize', 'off');
+    textarea.setAttribute('spellcheck', 'false');
+    textarea.setAttribute('aria-hidden', 'true');
+    textarea.setAttribute('tabindex', '-1');
+
+    Object.assign(textarea.style, {
+      position: 'fixed',
+      left: '0px',
+      top: '0px',
+      width: '1px',
+      height: '1em',
+      padding: '0',
+      margin: '0',
+      border: '0',
+      outline: 'none',
+      resize: 'none',
+      overflow: 'hidden',
+      whiteSpace: 'pre',
+      opacity: '0',
+      color: 'transparent',
+      background: 'transparent',
+      caretColor: 'transparent',
+      pointerEvents: 'none',
+      zIndex: '-1',
+    });
+
+    this._listen(textarea, 'keydown', (e) => this._handleKeyDown(e as KeyboardEvent));
+    this._listen(textarea, 'beforeinput', (e) => this._handleBeforeInput(e as InputEvent));
+    this._listen(textarea, 'input', (e) => this._handleInput(e as InputEvent));
+    this._listen(textarea, 'compositionstart', () => this._handleCompositionStart());
+    this._listen(textarea, 'compositionupdate', (e) => this._handleCompositionUpdate(e as CompositionEvent));
+    this._listen(textarea, 'compositionend', (e) => this._handleCompositionEnd(e as CompositionEvent));
+    this._listen(textarea, 'paste', (e) => this._handlers.onPaste(e as ClipboardEvent));
+
+    return textarea;
+  }
+
+  private _listen(textarea: HTMLTextAreaElement, type: string, listener: EventListener): void {
+    textarea.addEventListener(type, listener);
+    this._listeners.push([type, listener]);
+  }
+
+  private _handleKeyDown(e: KeyboardEvent): void {
+    // Keys that drive the input method (Enter to commit, arrows to pick a
+    // candidate) must not edit the document. 229 is "IME is processing".
+    if (this._composing || e.isComposing || e.keyCode === 229) return;
+
+    this._handlers.onKeyDown(e);
+  }
+
+  private _handleBeforeInput(e: InputEvent): void {
+    if (this._composing || e.isComposing) return;
+
+    switch (e.inputType) {
+      case 'insertText':
+      case 'insertReplacementText': {
+        e.preventDefault();
+        const text = e.data ?? e.dataTransfer?.getData('text/plain') ?? '';
+        if (text) this._handlers.onInsertText(text);
+        break;
+      }
+      case 'insertLineBreak':
+      case 'insertParagraph':
+        e.preventDefault();
+        this._handlers.onEditCommand('insertParagraph');
+        break;
+      case 'deleteContentBackward':
+      case 'deleteContentForward':
+        e.preventDefault();
+        this._handlers.onEditCommand(e.inputType);
+        break;
+    }
+  }
+
+  /**
+   * During a composition the textarea holds only the composed text, and its
+   * selection is the IME caret. Outside one this is a fallback for browsers
+   * that do not let beforeinput be cancelled: whatever reached the textarea
+   * is committed text.
+   */
+  private _handleInput(e: InputEvent): void {
+    if (!this._textarea) return;
+
+    if (this._composing || e.isComposing) {
+      const text = this._textarea.value;
+      this._handlers.onCompositionUpdate(text, Math.min(this._textarea.selectionEnd, text.length));
+      return;
+    }
+
+    const text = this._textarea.value;
+    this._textarea.value = '';
+    if (text) this._handlers.onInsertText(text);
+  }
+
+  private _handleCompositionStart(): void {
+    this._composing = true;
+    this._handlers.onCompositionStart();
+  }
+
+  /**
+   * Fires before the textarea changes, so the caret is put at the end until
+   * the following input event reports the real one
+   */
+  private _handleCompositionUpdate(e: CompositionEvent): void {
+    const text = e.data ?? '';
+    this._handlers.onCompositionUpdate(text, text.length);
+  }
+
+  private _handleCompositionEnd(e: CompositionEvent): void {
+    this._composing = false;
+    if (this._textarea) this._textarea.value = '';
+    this._handlers.onCompositionEnd(e.data ?? '');
+  }
+}
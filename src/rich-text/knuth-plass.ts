@@ -0,0 +1,185 @@
+// ============================================================================
+// Optimal Line Breaking - Knuth and Plass's total-fit algorithm (as in TeX)
+// Chooses the breaks of a whole paragraph at once, so that its lines are
+// as evenly filled as possible, instead of filling each line in turn.
+// ============================================================================
+
+/**
+ * A paragraph as boxes (text that is never broken), glue (space that
+ * stretches and shrinks, and where a line may break) and penalties (other
+ * break opportunities, such as hyphenation points). A penalty's width only
+ * counts if the line breaks there (the hyphen).
+ */
+export type BreakItem =
+  | { type: 'box'; width: number }
+  | { type: 'glue'; width: number; stretch: number; shrink: number }
+  | { type: 'penalty'; width: number; penalty: number; flagged: boolean };
+
+/**
+ * A penalty that forces a break (the end of a paragraph)
+ */
+export const FORCED_BREAK = -Infinity;
+
+/**
+ * Scoring of line breaks (the defaults are TeX's)
+ */
+export interface OptimalBreakOptions {
+  // Largest adjustment ratio of a line: how far its glue may stretch,
+  // relative to its stretchability (default 2)
+  tolerance?: number;
+  // Added to every line's badness, so fewer lines are preferred (default 10)
+  linePenalty?: number;
+  // Added for two consecutive lines ending at flagged penalties, i.e.
+  // hyphens (default 3000)
+  flaggedDemerits?: number;
+  // Added for a tight line next to a loose one (default 3000)
+  fitnessDemerits?: number;
+}
+
+/**
+ * A feasible break: where it is, which line it ends, the totals of the
+ * items before the line it starts, and the best way to get to it
+ */
+interface BreakNode {
+  position: number;
+  line: number;
+  fitness: number;
+  width: number;
+  stretch: number;
+  shrink: number;
+  demerits: number;
+  previous: BreakNode | null;
+}
+
+/**
+ * Fitness class of a line from its adjustment ratio: tight, normal, loose
+ * or very loose
+ */
+function getFitness(ratio: number): number {
+  if (ratio < -0.5) return 0;
+  if (ratio <= 0.5) return 1;
+  if (ratio <= 1) return 2;
+  return 3;
+}
+
+/**
+ * Find the breaks that minimize the total demerits of a paragraph: the item
+ * indices its lines end at (a glue or penalty each; the last item must be a
+ * forced break). `lineWidth(line)` is the width available to the nth line.
+ * Returns null when the paragraph cannot be set within the tolerance, for
+ * example because a box is wider than a line.
+ */
+export function findOptimalBreaks(
+  items: BreakItem[],
+  lineWidth: (line: number) => number,
+  options: OptimalBreakOptions = {}
+): number[] | null {
+  const tolerance = options.tolerance ?? 2;
+  const linePenalty = options.linePenalty ?? 10;
+  const flaggedDemerits = options.flaggedDemerits ?? 3000;
+  const fitnessDemerits = options.fitnessDemerits ?? 3000;
+
+  let active: BreakNode[] = [
+    { position: -1, line: 0, fitness: 1, width: 0, stretch: 0, shrink: 0, demerits: 0, previous: null },
+  ];
+  let width = 0;
+  let stretch = 0;
+  let shrink = 0;
+
+  /**
+   * Totals after a break at `position`: glue and penalties following a
+   * break are dropped, up to the next box
+   */
+  const totalsAfter = (position: number) => {
+    const totals = { width, stretch, shrink };
+    for (let k = position; k < items.length; k++) {
+      const item = items[k];
+      if (item.type === 'box') break;
+      if (item.type === 'glue') {
+        totals.width += item.width;
+        totals.stretch += item.stretch;
+        totals.shrink += item.shrink;
+      } else if (item.penalty === FORCED_BREAK && k > position) {
+        break;
+      }
+    }
+    return totals;
+  };
+
+  const tryBreak = (position: number) => {
+    const item = items[position];
+    const penalty = item.type === 'penalty' ? item.penalty : 0;
+    const flagged = item.type === 'penalty' && item.flagged;
+    const best: (BreakNode | null)[] = [null, null, null, null];
+
+    active = active.filter((node) => {
+      const lineLength = width - node.width + (item.type === 'penalty' ? item.width : 0);
+      const available = lineWidth(node.line);
+      let ratio = 0;
+      if (lineLength < available) {
+        const lineStretch = stretch - node.stretch;
+        ratio = lineStretch > 0 ? (available - lineLength) / lineStretch : Infinity;
+      } else if (lineLength > available) {
+        const lineShrink = shrink - node.shrink;
+        ratio = lineShrink > 0 ? (available - lineLength) / lineShrink : -Infinity;
+      }
+
+      if (ratio >= -1 && ratio <= tolerance) {
+        const badness = 100 * Math.abs(ratio) ** 3;
+        let demerits = (linePenalty + badness) ** 2;
+        if (penalty >= 0) {
+          demerits += penalty ** 2;
+        } else if (penalty !== FORCED_BREAK) {
+          demerits -= penalty ** 2;
+        }
+        const previousItem = items[node.position];
+        if (flagged && previousItem?.type === 'penalty' && previousItem.flagged) {
+          demerits += flaggedDemerits;
+        }
+        const fitness = getFitness(ratio);
+        if (Math.abs(fitness - node.fitness) > 1) {
+          demerits += fitnessDemerits;
+        }
+        demerits += node.demerits;
+
+        const current = best[fitness];
+        if (!current || demerits < current.demerits) {
+          best[fitness] = { ...totalsAfter(position), position, line: node.line + 1, fitness, demerits, previous: node };
+        }
+      }
+
+      // An overfull line only gets longer; nothing continues past a forced break
+      return ratio >= -1 && penalty !== FORCED_BREAK;
+    });
+
+    for (const node of best) {
+      if (node) active.push(node);
+    }
+  };
+
+  items.forEach((item, position) => {
+    if (item.type === 'box') {
+      width += item.width;
+    } else if (item.type === 'glue') {
+      if (items[position - 1]?.type === 'box') tryBreak(position);
+      width += item.width;
+      stretch += item.stretch;
+      shrink += item.shrink;
+    } else if (item.penalty !== Infinity) {
+      tryBreak(position);
+    }
+  });
+
+  if (active.length === 0) return null;
+
+  let best = active[0];
+  for (const node of active) {
+    if (node.demerits < best.demerits) best = node;
+  }
+
+  const breaks: number[] = [];
+  for (let node: BreakNode | null = best; node && node.previous; node = node.previous) {
+    breaks.unshift(node.position);
+  }
+  return breaks;
+}
@@ -10,68 +10,312 @@ import {
   CaretInfo,
   PositionedChar,
   LayoutLine,
+  TextRange,
+  COLUMN_BREAK,
 } from './types';
+import {
+  getColumnRules,
+  getLineBounds,
+  getDisplayText,
+  getListNumberText,
+  getBaselineShift,
+  getFontSize,
+} from './layout-engine';
+import { placeOnPath } from './text-path';
 
 /**
- * Create Konva nodes for rendering rich text
- * Returns a group containing all text, selection, and caret nodes
+ * A shape to draw. Shapes with equal keys look the same apart from their
+ * position, so a node from the previous frame can be moved instead of rebuilt.
  */
-export function createKonvaTextNodes(
+interface ShapeSpec {
+  key: string;
+  x: number;
+  y: number;
+  rotation?: number; // Degrees, for shapes bent onto a text path
+  create: () => Konva.Shape; // Creates the node at (0, 0)
+}
+
+/**
+ * Position of a straight box of the layout (top-left corner at (x, y),
+ * `width` wide): as laid out, or bent onto the layout's text path
+ */
+function place(
   layout: LayoutResult,
-  doc: RichTextDocument,
-  selection: Selection | null,
-  caretInfo: CaretInfo | null,
-  caretVisible: boolean
-): Konva.Group {
-  const group = new Konva.Group();
+  x: number,
+  y: number,
+  width: number
+): { x: number; y: number; rotation: number } {
+  return layout.path ? placeOnPath(layout.path, x, y, width) : { x, y, rotation: 0 };
+}
+
+/**
+ * Images of inline objects by source, shared by all text boxes so each is
+ * loaded once
+ */
+const imageCache = new Map<string, HTMLImageElement>();
+
+/**
+ * The image for a source, starting to load it if it is new
+ */
+function loadImage(src: string): HTMLImageElement {
+  let image = imageCache.get(src);
+  if (!image) {
+    image = new Image();
+    image.src = src;
+    imageCache.set(src, image);
+  }
+  return image;
+}
+
+/**
+ * Children of a group that are kept between frames and matched by key
+ */
+class RetainedGroup {
+  public readonly group = new Konva.Group();
+  private _nodes = new Map<string, Konva.Shape[]>();
+
+  /**
+   * Make the group's children match `specs`: reuse (and move) nodes with the
+   * same key, create missing ones and destroy the rest
+   */
+  public sync(specs: ShapeSpec[]): void {
+    const next = new Map<string, Konva.Shape[]>();
+
+    for (const spec of specs) {
+      let node = this._nodes.get(spec.key)?.pop();
+      const rotation = spec.rotation ?? 0;
+
+      if (node) {
+        if (node.x() !== spec.x || node.y() !== spec.y) {
+          node.position({ x: spec.x, y: spec.y });
+        }
+        if (node.rotation() !== rotation) {
+          node.rotation(rotation);
+        }
+      } else {
+        node = spec.create();
+        node.setAttrs({ x: spec.x, y: spec.y, rotation });
+        this.group.add(node);
+      }
+
+      const pool = next.get(spec.key);
+      if (pool) {
+        pool.push(node);
+      } else {
+        next.set(spec.key, [node]);
+      }
+    }
+
+    for (const pool of this._nodes.values()) {
+      for (const node of pool) {
+        node.destroy();
+      }
+    }
 
-  // 1. Render selection highlights (behind text)
-  if (selection && selection.anchor !== selection.focus) {
-    const selectionGroup = createSelectionNodes(layout, selection);
-    group.add(selectionGroup);
+    // Pools are popped, so reverse them to hand out nodes in drawing order
+    for (const pool of next.values()) {
+      pool.reverse();
+    }
+    this._nodes = next;
   }
+}
 
-  // 2. Render text background highlights
-  const highlightGroup = createHighlightNodes(layout);
-  if (highlightGroup.children.length > 0) {
-    group.add(highlightGroup);
+/**
+ * Retained-mode renderer for laid-out text.
+ *
+ * Nodes are kept between frames: `update` diffs a new layout against the
+ * previous one and only adds, moves or removes the shapes that changed.
+ * Selection and caret live in their own groups and are updated without
+ * touching the text, so caret blinking and selection dragging are cheap.
+ */
+export class KonvaTextRenderer {
+  private _group = new Konva.Group();
+  private _selection = new Konva.Group();
+  private _highlights = new RetainedGroup();
+  private _markers = new RetainedGroup();
+  private _text = new RetainedGroup();
+  private _decorations = new RetainedGroup();
+  private _composition = new RetainedGroup();
+  private _caret = new Konva.Rect({
+    width: 2,
+    fill: '#000000',
+    visible: false,
+    listening: false,
+  });
+
+  private _lastLayout: LayoutResult | null = null;
+  private _lastDocument: RichTextDocument | null = null;
+  private _lastComposition: TextRange | null = null;
+  private _lastSelection: { layout: LayoutResult; start: number; end: number } | null = null;
+
+  constructor() {
+    // Back to front: selection, highlights, list markers, text, decorations,
+    // composition underline, caret
+    this._group.add(
+      this._selection,
+      this._highlights.group,
+      this._markers.group,
+      this._text.group,
+      this._decorations.group,
+      this._composition.group,
+      this._caret
+    );
   }
 
-  // 3. Render list markers
-  const listMarkerGroup = createListMarkerNodes(layout, doc);
-  if (listMarkerGroup.children.length > 0) {
-    group.add(listMarkerGroup);
+  /**
+   * The group holding all rendered nodes
+   */
+  public getGroup(): Konva.Group {
+    return this._group;
   }
 
-  // 4. Render text characters (grouped by style for performance)
-  const textGroup = createTextNodes(layout);
-  group.add(textGroup);
+  /**
+   * Render text, highlights, list markers and decorations for a layout.
+   * `composition` is the range of in-progress IME text, drawn underlined.
+   * Does nothing if neither the layout nor the composition changed.
+   */
+  public update(
+    layout: LayoutResult,
+    doc: RichTextDocument,
+    composition: TextRange | null = null
+  ): void {
+    const compositionChanged =
+      composition?.start !== this._lastComposition?.start ||
+      composition?.end !== this._lastComposition?.end;
+
+    if (layout !== this._lastLayout || doc !== this._lastDocument) {
+      this._highlights.sync(getHighlightSpecs(layout));
+      this._markers.sync(getListMarkerSpecs(layout, doc));
+      this._text.sync(getTextSpecs(layout));
+      this._decorations.sync([...getDecorationSpecs(layout), ...getColumnRuleSpecs(layout, doc)]);
+    } else if (!compositionChanged) {
+      return;
+    }
+
+    this._composition.sync(
+      composition && composition.start !== composition.end
+        ? getCompositionSpecs(layout, composition)
+        : []
+    );
 
-  // 5. Render text decorations (underline, strikethrough)
-  const decorationGroup = createDecorationNodes(layout);
-  if (decorationGroup.children.length > 0) {
-    group.add(decorationGroup);
+    this._lastLayout = layout;
+    this._lastDocument = doc;
+    this._lastComposition = composition ? { ...composition } : null;
   }
 
-  // 6. Render caret
-  if (caretInfo && caretVisible) {
-    const caretNode = createCaretNode(caretInfo);
-    group.add(caretNode);
+  /**
+   * Render selection highlight rectangles (none for null or a collapsed selection)
+   */
+  public updateSelection(layout: LayoutResult, selection: Selection | null): void {
+    const start = selection ? Math.min(selection.anchor, selection.focus) : 0;
+    const end = selection ? Math.max(selection.anchor, selection.focus) : 0;
+    const last = this._lastSelection;
+    if (last && last.layout === layout && last.start === start && last.end === end) {
+      return;
+    }
+    this._lastSelection = { layout, start, end };
+
+    const rects = start < end ? getSelectionRects(layout, start, end) : [];
+    const nodes = this._selection.getChildren().slice() as Konva.Rect[];
+
+    // Selection rectangles are interchangeable: reuse them by index
+    rects.forEach((rect, i) => {
+      if (nodes[i]) {
+        nodes[i].setAttrs(rect);
+      } else {
+        this._selection.add(
+          new Konva.Rect({
+            ...rect,
+            fill: 'rgba(0, 120, 255, 0.3)',
+            listening: false,
+          })
+        );
+      }
+    });
+    for (const node of nodes.slice(rects.length)) {
+      node.destroy();
+    }
+  }
+
+  /**
+   * Move and show or hide the caret
+   */
+  public updateCaret(caretInfo: CaretInfo | null): void {
+    if (!caretInfo) {
+      this._caret.visible(false);
+      return;
+    }
+
+    const path = this._lastLayout?.path;
+    this._caret.setAttrs({
+      ...(path
+        ? placeOnPath(path, caretInfo.x, caretInfo.y, 0)
+        : { x: caretInfo.x, y: caretInfo.y, rotation: 0 }),
+      height: caretInfo.height,
+      visible: caretInfo.visible,
+    });
+  }
+
+  /**
+   * Show or hide the caret without moving it (caret blinking)
+   */
+  public setCaretVisible(visible: boolean): void {
+    this._caret.visible(visible);
   }
 
-  return group;
+  /**
+   * Destroy all nodes
+   */
+  public destroy(): void {
+    this._group.destroy();
+  }
 }
 
 /**
- * Create selection highlight rectangles
+ * Create Konva nodes for rendering rich text
+ * Returns a group containing all text, selection, and caret nodes.
+ * `composition` is the range of in-progress IME text, drawn underlined.
+ * For repeated rendering of the same text box use KonvaTextRenderer.
  */
-function createSelectionNodes(layout: LayoutResult, selection: Selection): Konva.Group {
-  const group = new Konva.Group();
-  const start = Math.min(selection.anchor, selection.focus);
-  const end = Math.max(selection.anchor, selection.focus);
+export function createKonvaTextNodes(
+  layout: LayoutResult,
+  doc: RichTextDocument,
+  selection: Selection | null,
+  caretInfo: CaretInfo | null,
+  caretVisible: boolean,
+  composition: TextRange | null = null
+): Konva.Group {
+  const renderer = new KonvaTextRenderer();
+  renderer.update(layout, doc, composition);
+  renderer.updateSelection(layout, selection);
+  renderer.updateCaret(caretInfo ? { ...caretInfo, visible: caretVisible } : null);
+  return renderer.getGroup();
+}
+
+/**
+ * Compute selection highlight rectangles, one per line (one per character
+ * on a text path)
+ */
+function getSelectionRects(
+  layout: LayoutResult,
+  start: number,
+  end: number
+): { x: number; y: number; width: number; height: number; rotation: number }[] {
+  if (layout.path) {
+    return layout.chars
+      .filter((char) => char.char.absoluteIndex >= start && char.char.absoluteIndex < end)
+      .map((char) => ({
+        ...placeOnPath(layout.path!, char.x, char.y, char.width),
+        width: char.width,
+        height: char.height,
+      }));
+  }
 
   // Group characters by line for efficient rectangle drawing
-  const lineSelections = new Map<number, { x: number; width: number; y: number; height: number }>();
+  const lineSelections = new Map<
+    number,
+    { x: number; width: number; y: number; height: number; rotation: number }
+  >();
 
   for (const char of layout.chars) {
     if (char.char.absoluteIndex >= start && char.char.absoluteIndex < end) {
@@ -83,36 +327,29 @@ function createSelectionNodes(layout: LayoutResult, selection: Selection): Konva
           width: char.width,
           y: char.y,
           height: char.height,
+          rotation: 0,
         });
       } else {
         const existing = lineSelections.get(lineKey)!;
         const newEndX = char.x + char.width;
         existing.width = newEndX - existing.x;
+        // Raised or lowered characters extend the rectangle
+        const bottom = Math.max(existing.y + existing.height, char.y + char.height);
+        existing.y = Math.min(existing.y, char.y);
+        existing.height = bottom - existing.y;
       }
     }
   }
 
-  // Create rectangles for each line's selection
-  for (const [, rect] of lineSelections) {
-    const selectionRect = new Konva.Rect({
-      x: rect.x,
-      y: rect.y,
-      width: rect.width,
-      height: rect.height,
-      fill: 'rgba(0, 120, 255, 0.3)',
-      listening: false,
-    });
-    group.add(selectionRect);
-  }
-
-  return group;
+  return Array.from(lineSelections.values());
 }
 
 /**
- * Create text background highlight rectangles
+ * Text background highlight rectangles, merged per line and color (one per
+ * character on a text path)
  */
-function createHighlightNodes(layout: LayoutResult): Konva.Group {
-  const group = new Konva.Group();
+function getHighlightSpecs(layout: LayoutResult): ShapeSpec[] {
+  const specs: ShapeSpec[] = [];
 
   // Group consecutive chars with same background color
   let currentHighlight: {
@@ -123,27 +360,32 @@ function createHighlightNodes(layout: LayoutResult): Konva.Group {
     height: number;
   } | null = null;
 
+  const flush = () => {
+    if (!currentHighlight) return;
+    const { color, x, y, width, height } = currentHighlight;
+    specs.push({
+      key: `${color}|${width}|${height}`,
+      ...place(layout, x, y, width),
+      create: () => new Konva.Rect({ width, height, fill: color, listening: false }),
+    });
+    currentHighlight = null;
+  };
+
   for (const char of layout.chars) {
     const bgColor = char.char.style.backgroundColor;
 
     if (bgColor) {
-      if (currentHighlight && currentHighlight.color === bgColor && currentHighlight.y === char.y) {
+      if (
+        currentHighlight &&
+        currentHighlight.color === bgColor &&
+        currentHighlight.y === char.y &&
+        !layout.path // One highlight per character on a text path
+      ) {
         // Extend current highlight
         currentHighlight.width = char.x + char.width - currentHighlight.x;
       } else {
-        // Save previous highlight
-        if (currentHighlight) {
-          const rect = new Konva.Rect({
-            x: currentHighlight.x,
-            y: currentHighlight.y,
-            width: currentHighlight.width,
-            height: currentHighlight.height,
-            fill: currentHighlight.color,
-            listening: false,
-          });
-          group.add(rect);
-        }
-        // Start new highlight
+        // Save previous highlight and start a new one
+        flush();
         currentHighlight = {
           color: bgColor,
           x: char.x,
@@ -152,61 +394,71 @@ function createHighlightNodes(layout: LayoutResult): Konva.Group {
           height: char.height,
         };
       }
-    } else if (currentHighlight) {
+    } else {
       // End current highlight
-      const rect = new Konva.Rect({
-        x: currentHighlight.x,
-        y: currentHighlight.y,
-        width: currentHighlight.width,
-        height: currentHighlight.height,
-        fill: currentHighlight.color,
-        listening: false,
-      });
-      group.add(rect);
-      currentHighlight = null;
+      flush();
     }
   }
 
   // Don't forget last highlight
-  if (currentHighlight) {
-    const rect = new Konva.Rect({
-      x: currentHighlight.x,
-      y: currentHighlight.y,
-      width: currentHighlight.width,
-      height: currentHighlight.height,
-      fill: currentHighlight.color,
-      listening: false,
-    });
-    group.add(rect);
-  }
+  flush();
 
-  return group;
+  return specs;
 }
 
 /**
- * Create text nodes grouped by style for performance
+ * Text nodes grouped by style for performance, and an image per inline object
  */
-function createTextNodes(layout: LayoutResult): Konva.Group {
-  const group = new Konva.Group();
-
-  // Group consecutive characters with same style on same line
+function getTextSpecs(layout: LayoutResult): ShapeSpec[] {
+  // Group consecutive characters with same style and direction on same line.
+  // Characters are in visual order, so right-to-left runs are built backwards
+  // to get their text in logical order for shaping.
   const textRuns: {
     text: string;
     x: number;
     y: number;
+    width: number;
     style: PositionedChar['char']['style'];
-    baseline: number;
+    bidiLevel: number;
   }[] = [];
 
+  const imageSpecs: ShapeSpec[] = [];
   let currentRun: (typeof textRuns)[0] | null = null;
 
   for (const char of layout.chars) {
-    // Skip newlines - they're just for document structure
-    if (char.char.char === '\n') {
+    // An inline object ends the run and is drawn as an image
+    if (char.char.object) {
       if (currentRun) {
         textRuns.push(currentRun);
         currentRun = null;
       }
+      imageSpecs.push(getImageSpec(layout, char));
+      continue;
+    }
+
+    // Skip newlines and column breaks - they're just for document structure
+    if (char.char.char === '\n' || char.char.char === COLUMN_BREAK) {
+      if (currentRun) {
+        textRuns.push(currentRun);
+        currentRun = null;
+      }
+      continue;
+    }
+
+    // A tab ends the run; its leader (if any) is a run of its own
+    if (char.char.char === '\t') {
+      if (currentRun) {
+        textRuns.push(currentRun);
+        currentRun = null;
+      }
+      textRuns.push({
+        text: getDisplayText(char),
+        x: char.x,
+        y: char.y,
+        width: char.width,
+        style: char.char.style,
+        bidiLevel: char.bidiLevel,
+      });
       continue;
     }
 
@@ -214,20 +466,29 @@ function createTextNodes(layout: LayoutResult): Konva.Group {
       currentRun &&
       stylesMatch(currentRun.style, char.char.style) &&
       Math.abs(currentRun.y - char.y) < 1 && // Same line
-      char.char.style.letterSpacing === 0; // No letter spacing (otherwise positions diverge)
+      Math.abs(currentRun.x + currentRun.width - char.x) < 0.5 && // No gap (justified spaces)
+      currentRun.bidiLevel === char.bidiLevel && // Same direction
+      char.char.style.letterSpacing === 0 && // No letter spacing (otherwise positions diverge)
+      !layout.path; // Each glyph follows the path on its own
 
     if (canMerge) {
-      currentRun!.text += char.char.char;
+      if (char.bidiLevel % 2 === 1) {
+        currentRun!.text = getDisplayText(char) + currentRun!.text;
+      } else {
+        currentRun!.text += getDisplayText(char);
+      }
+      currentRun!.width += char.width;
     } else {
       if (currentRun) {
         textRuns.push(currentRun);
       }
       currentRun = {
-        text: char.char.char,
+        text: getDisplayText(char),
         x: char.x,
         y: char.y,
+        width: char.width,
         style: char.char.style,
-        baseline: char.baseline,
+        bidiLevel: char.bidiLevel,
       };
     }
   }
@@ -236,99 +497,209 @@ function createTextNodes(layout: LayoutResult): Konva.Group {
     textRuns.push(currentRun);
   }
 
-  // Create Konva.Text nodes for each run
-  for (const run of textRuns) {
-    const textNode = new Konva.Text({
-      x: run.x,
-      y: run.y,
+  // One Konva.Text per run (soft hyphens and tabs without leaders draw nothing)
+  const textSpecs = textRuns.filter((run) => run.text !== '').map((run): ShapeSpec => {
+    const { style } = run;
+    const config: Konva.TextConfig = {
       text: run.text,
-      fontSize: run.style.fontSize,
-      fontFamily: run.style.fontFamily,
-      fontStyle: buildFontStyle(run.style),
-      fill: run.style.color,
-      letterSpacing: run.style.letterSpacing,
+      fontSize: getFontSize(style),
+      fontFamily: style.fontFamily,
+      fontStyle: buildFontStyle(style),
+      fill: style.color,
+      letterSpacing: style.letterSpacing,
       listening: false,
-    });
+    };
+
+    if (run.bidiLevel % 2 === 1) {
+      config.direction = 'rtl';
+    }
 
     // Apply stroke if defined
-    if (run.style.stroke) {
-      textNode.stroke(run.style.stroke.color);
-      textNode.strokeWidth(run.style.stroke.width);
+    if (style.stroke) {
+      config.stroke = style.stroke.color;
+      config.strokeWidth = style.stroke.width;
     }
 
     // Apply shadow if defined
-    if (run.style.shadow) {
-      textNode.shadowColor(run.style.shadow.color);
-      textNode.shadowBlur(run.style.shadow.blur);
-      textNode.shadowOffsetX(run.style.shadow.offsetX);
-      textNode.shadowOffsetY(run.style.shadow.offsetY);
+    if (style.shadow) {
+      config.shadowColor = style.shadow.color;
+      config.shadowBlur = style.shadow.blur;
+      config.shadowOffsetX = style.shadow.offsetX;
+      config.shadowOffsetY = style.shadow.offsetY;
     }
 
-    group.add(textNode);
-  }
+    return {
+      key: JSON.stringify(config),
+      ...place(layout, run.x, run.y, run.width),
+      create: () => new Konva.Text(config),
+    };
+  });
 
-  return group;
+  return [...textSpecs, ...imageSpecs];
 }
 
 /**
- * Create decoration nodes (underline, strikethrough)
+ * Konva.Image for an inline object, filling the object's box. An image that
+ * is still loading appears (and the layer is redrawn) once it has loaded.
  */
-function createDecorationNodes(layout: LayoutResult): Konva.Group {
-  const group = new Konva.Group();
+function getImageSpec(layout: LayoutResult, char: PositionedChar): ShapeSpec {
+  const { src, width, height } = char.char.object!;
+
+  return {
+    key: `image|${src}|${width}|${height}`,
+    ...place(layout, char.x, char.y, char.width),
+    create: () => {
+      const image = loadImage(src);
+      const loaded = image.complete && image.naturalWidth > 0;
+      const node = new Konva.Image({ image: loaded ? image : undefined, width, height, listening: false });
+      if (!loaded) {
+        image.addEventListener(
+          'load',
+          () => {
+            node.image(image);
+            node.getLayer()?.batchDraw();
+          },
+          { once: true }
+        );
+      }
+      return node;
+    },
+  };
+}
 
-  // Process each line
-  for (const line of layout.lines) {
-    // Find underline runs
-    const underlineRuns = findDecorationRuns(line.chars, 'underline');
-    for (const run of underlineRuns) {
-      const underlineY = line.y + line.baseline + 2;
-      const underline = new Konva.Line({
-        points: [run.startX, underlineY, run.endX, underlineY],
-        stroke: run.color,
+/**
+ * Horizontal line from (0, 0) to (length, 0), positioned by its spec
+ */
+function getLineSpec(
+  layout: LayoutResult,
+  x: number,
+  y: number,
+  length: number,
+  color: string,
+  dash?: number[]
+): ShapeSpec {
+  return {
+    key: `${color}|${length}|${dash ?? ''}`,
+    ...place(layout, x, y, length),
+    create: () =>
+      new Konva.Line({
+        points: [0, 0, length, 0],
+        stroke: color,
         strokeWidth: 1,
+        dash,
         listening: false,
-      });
-      group.add(underline);
+      }),
+  };
+}
+
+/**
+ * Decoration lines (underline, strikethrough). On a text path each
+ * character gets its own piece, so the line follows the curve.
+ */
+function getDecorationSpecs(layout: LayoutResult): ShapeSpec[] {
+  const specs: ShapeSpec[] = [];
+  const perChar = Boolean(layout.path);
+
+  // Process each line (raised or lowered runs move their lines with them)
+  for (const line of layout.lines) {
+    // Find underline runs
+    const underlineY = line.y + line.baseline + 2;
+    for (const run of findDecorationRuns(line.chars, 'underline', perChar)) {
+      specs.push(getLineSpec(layout, run.startX, underlineY - run.shift, run.endX - run.startX, run.color));
     }
 
     // Find strikethrough runs
-    const strikeRuns = findDecorationRuns(line.chars, 'strikethrough');
-    for (const run of strikeRuns) {
-      const strikeY = line.y + line.baseline - line.height * 0.3;
-      const strike = new Konva.Line({
-        points: [run.startX, strikeY, run.endX, strikeY],
-        stroke: run.color,
-        strokeWidth: 1,
-        listening: false,
-      });
-      group.add(strike);
+    const strikeY = line.y + line.baseline - line.height * 0.3;
+    for (const run of findDecorationRuns(line.chars, 'strikethrough', perChar)) {
+      specs.push(getLineSpec(layout, run.startX, strikeY - run.shift, run.endX - run.startX, run.color));
+    }
+  }
+
+  return specs;
+}
+
+/**
+ * Rule lines between columns, from (0, 0) down to (0, length)
+ */
+function getColumnRuleSpecs(layout: LayoutResult, doc: RichTextDocument): ShapeSpec[] {
+  if (layout.path) return [];
+
+  return getColumnRules(layout, doc).map((rule) => {
+    const length = rule.bottom - rule.top;
+    return {
+      key: `rule|${rule.color}|${rule.width}|${length}`,
+      x: rule.x,
+      y: rule.top,
+      create: () =>
+        new Konva.Line({
+          points: [0, 0, 0, length],
+          stroke: rule.color,
+          strokeWidth: rule.width,
+          listening: false,
+        }),
+    };
+  });
+}
+
+/**
+ * The dashed underline below in-progress composition text
+ */
+function getCompositionSpecs(layout: LayoutResult, composition: TextRange): ShapeSpec[] {
+  const specs: ShapeSpec[] = [];
+
+  for (const line of layout.lines) {
+    const chars = line.chars.filter(
+      (char) =>
+        char.char.absoluteIndex >= composition.start &&
+        char.char.absoluteIndex < composition.end &&
+        char.char.char !== '\n'
+    );
+    if (chars.length === 0) continue;
+
+    const y = line.y + line.baseline + 3;
+    const color = chars[0].char.style.color;
+    if (layout.path) {
+      for (const char of chars) {
+        specs.push(getLineSpec(layout, char.x, y, char.width, color, [2, 2]));
+      }
+      continue;
     }
+
+    const last = chars[chars.length - 1];
+    specs.push(getLineSpec(layout, chars[0].x, y, last.x + last.width - chars[0].x, color, [2, 2]));
   }
 
-  return group;
+  return specs;
 }
 
 /**
- * Find continuous runs of a decoration type
+ * Find continuous runs of a decoration type (single characters with `perChar`),
+ * split where the baseline shift changes
  */
 function findDecorationRuns(
   chars: PositionedChar[],
-  decorationType: 'underline' | 'strikethrough'
-): { startX: number; endX: number; color: string }[] {
-  const runs: { startX: number; endX: number; color: string }[] = [];
-  let currentRun: { startX: number; endX: number; color: string } | null = null;
+  decorationType: 'underline' | 'strikethrough',
+  perChar: boolean = false
+): { startX: number; endX: number; color: string; shift: number }[] {
+  const runs: { startX: number; endX: number; color: string; shift: number }[] = [];
+  let currentRun: { startX: number; endX: number; color: string; shift: number } | null = null;
 
   for (const char of chars) {
     const hasDecoration = char.char.style[decorationType];
+    const shift = getBaselineShift(char.char.style);
 
     if (hasDecoration) {
-      if (currentRun) {
+      if (currentRun && currentRun.shift === shift && !perChar) {
         currentRun.endX = char.x + char.width;
       } else {
+        if (currentRun) {
+          runs.push(currentRun);
+        }
         currentRun = {
           startX: char.x,
           endX: char.x + char.width,
           color: char.char.style.color,
+          shift,
         };
       }
     } else if (currentRun) {
@@ -345,124 +716,82 @@ function findDecorationRuns(
 }
 
 /**
- * Create list marker nodes (bullets, numbers)
+ * List markers (bullets, numbers)
  */
-function createListMarkerNodes(layout: LayoutResult, doc: RichTextDocument): Konva.Group {
-  const group = new Konva.Group();
+function getListMarkerSpecs(layout: LayoutResult, doc: RichTextDocument): ShapeSpec[] {
+  const specs: ShapeSpec[] = [];
 
   for (const line of layout.lines) {
     if (line.listItem) {
-      const markerNode = createSingleListMarker(line, doc.padding);
-      group.add(markerNode);
+      const spec = getListMarkerSpec(line, doc.padding, getLineBounds(layout, doc, line));
+      specs.push({ ...spec, ...place(layout, spec.x, spec.y, 0) });
     }
   }
 
-  return group;
+  return specs;
 }
 
 /**
- * Create a single list marker (bullet or number)
+ * A single list marker (bullet or number), mirrored to the right edge in
+ * right-to-left paragraphs. `area` is the line's column or wrap segment.
  */
-function createSingleListMarker(line: LayoutLine, padding: number): Konva.Group | Konva.Shape {
+function getListMarkerSpec(
+  line: LayoutLine,
+  padding: number,
+  area: { left: number; right: number }
+): ShapeSpec {
   const listItem = line.listItem!;
-  const markerX = padding + listItem.level * 20 + 10;
+  const markerOffset = padding + line.indent + listItem.level * 20 + 10;
+  const markerX =
+    line.direction === 'rtl' ? area.right + padding - markerOffset : area.left - padding + markerOffset;
   const markerY = line.y + line.baseline;
+  const level = listItem.level % 3;
 
   if (listItem.type === 'bullet') {
-    const level = listItem.level % 3;
-
     if (level === 0) {
       // Filled circle
-      return new Konva.Circle({
+      return {
+        key: 'bullet-0',
         x: markerX,
         y: markerY - 4,
-        radius: 3,
-        fill: '#000000',
-        listening: false,
-      });
+        create: () => new Konva.Circle({ radius: 3, fill: '#000000', listening: false }),
+      };
     } else if (level === 1) {
       // Empty circle
-      return new Konva.Circle({
+      return {
+        key: 'bullet-1',
         x: markerX,
         y: markerY - 4,
-        radius: 3,
-        stroke: '#000000',
-        strokeWidth: 1,
-        listening: false,
-      });
+        create: () =>
+          new Konva.Circle({ radius: 3, stroke: '#000000', strokeWidth: 1, listening: false }),
+      };
     } else {
       // Filled square
-      return new Konva.Rect({
+      return {
+        key: 'bullet-2',
         x: markerX - 3,
         y: markerY - 7,
-        width: 6,
-        height: 6,
-        fill: '#000000',
-        listening: false,
-      });
-    }
-  } else {
-    // Numbered list
-    const level = listItem.level % 3;
-    let numberText: string;
-
-    if (level === 0) {
-      numberText = `${listItem.index}.`;
-    } else if (level === 1) {
-      numberText = `${String.fromCharCode(96 + listItem.index)}.`;
-    } else {
-      numberText = `${toRomanNumeral(listItem.index)}.`;
-    }
-
-    return new Konva.Text({
-      x: padding + listItem.level * 20,
-      y: line.y,
-      text: numberText,
-      fontSize: 14,
-      fontFamily: 'Arial',
-      fill: '#000000',
-      listening: false,
-    });
-  }
-}
-
-/**
- * Convert number to roman numeral
- */
-function toRomanNumeral(num: number): string {
-  const romanNumerals: [number, string][] = [
-    [10, 'x'],
-    [9, 'ix'],
-    [5, 'v'],
-    [4, 'iv'],
-    [1, 'i'],
-  ];
-
-  let result = '';
-  let remaining = num;
-
-  for (const [value, numeral] of romanNumerals) {
-    while (remaining >= value) {
-      result += numeral;
-      remaining -= value;
+        create: () => new Konva.Rect({ width: 6, height: 6, fill: '#000000', listening: false }),
+      };
     }
   }
 
-  return result;
-}
-
-/**
- * Create caret node
- */
-function createCaretNode(caretInfo: CaretInfo): Konva.Rect {
-  return new Konva.Rect({
-    x: caretInfo.x,
-    y: caretInfo.y,
-    width: 2,
-    height: caretInfo.height,
-    fill: '#000000',
-    listening: false,
-  });
+  // Numbered list
+  const numberText = getListNumberText(listItem);
+
+  return {
+    key: `number|${numberText}`,
+    x: markerX - 10,
+    y: line.y,
+    create: () =>
+      new Konva.Text({
+        text: numberText,
+        fontSize: 14,
+        fontFamily: 'Arial',
+        fill: '#000000',
+        listening: false,
+      }),
+  };
 }
 
 /**
@@ -496,7 +825,9 @@ function stylesMatch(
     a.fontWeight !== b.fontWeight ||
     a.fontStyle !== b.fontStyle ||
     a.color !== b.color ||
-    a.letterSpacing !== b.letterSpacing
+    a.letterSpacing !== b.letterSpacing ||
+    a.verticalPosition !== b.verticalPosition ||
+    a.baselineShift !== b.baselineShift
   ) {
     return false;
   }
@@ -10,10 +10,39 @@ import {
   PositionedChar,
   LayoutLine,
   LayoutResult,
+  TextFrameSize,
+  TextFrameBounds,
   TextAlign,
+  TextDirection,
+  TextRange,
   AbsolutePosition,
+  LayoutColumn,
+  LineSegment,
+  TextWrap,
+  TabSettings,
+  TabStop,
+  InlineObject,
+  ListItem,
+  DEFAULT_STYLE,
+  DEFAULT_TAB_INTERVAL,
+  COLUMN_BREAK,
+  SOFT_HYPHEN,
 } from './types';
-import { flattenDocument } from './document-model';
+import { getParagraphStyle } from './document-model';
+import { splitGraphemes } from './graphemes';
+import {
+  BidiClass,
+  containsRightToLeft,
+  getBaseDirection,
+  getBidiClasses,
+  resolveBidiLevels,
+  reorderLine,
+} from './bidi';
+import { getLineSegments, hasTextWrap } from './text-wrap';
+import { attachTextPath } from './text-path';
+import { getBreakOpportunities } from './line-break';
+import { hyphenate } from './hyphenation';
+import { BreakItem, FORCED_BREAK, findOptimalBreaks } from './knuth-plass';
 
 /**
  * Text measurement cache for performance
@@ -39,6 +68,44 @@ function getMeasureContext(): CanvasRenderingContext2D {
   return measureCtx!;
 }
 
+/**
+ * Font size of superscripts and subscripts, relative to the text around them
+ */
+const VERTICAL_POSITION_SCALE = 0.65;
+
+/**
+ * How far superscripts are raised and subscripts lowered, in ems of the
+ * text around them
+ */
+const SUPERSCRIPT_SHIFT = 0.35;
+const SUBSCRIPT_SHIFT = 0.2;
+
+/**
+ * Size text is drawn at: the font size, reduced for superscripts and
+ * subscripts
+ */
+export function getFontSize(style: TextStyle): number {
+  return style.verticalPosition ? style.fontSize * VERTICAL_POSITION_SCALE : style.fontSize;
+}
+
+/**
+ * How far text is raised above the baseline of its line, in pixels
+ * (negative when lowered): its vertical position plus its baselineShift
+ */
+export function getBaselineShift(style: TextStyle): number {
+  let shift = 0;
+  if (style.verticalPosition === 'super') shift += SUPERSCRIPT_SHIFT * style.fontSize;
+  if (style.verticalPosition === 'sub') shift -= SUBSCRIPT_SHIFT * style.fontSize;
+
+  const { baselineShift } = style;
+  if (typeof baselineShift === 'number') {
+    shift += baselineShift;
+  } else if (typeof baselineShift === 'string') {
+    shift += parseFloat(baselineShift) * style.fontSize;
+  }
+  return shift;
+}
+
 /**
  * Build font string from style
  */
@@ -50,7 +117,15 @@ export function buildFontString(style: TextStyle): string {
       ? 700
       : 400;
 
-  return `${style.fontStyle} ${weight} ${style.fontSize}px ${style.fontFamily}`;
+  return `${style.fontStyle} ${weight} ${getFontSize(style)}px ${style.fontFamily}`;
+}
+
+/**
+ * Quote a font family name for CSS if it contains anything but letters and
+ * dashes
+ */
+export function quoteFontFamily(family: string): string {
+  return /^[a-zA-Z-]+$/.test(family) ? family : `'${family.replace(/'/g, "\\'")}'`;
 }
 
 /**
@@ -64,6 +139,8 @@ function getMeasurementCacheKey(char: string, style: TextStyle): string {
  * Measure width of a single character
  */
 export function measureChar(char: string, style: TextStyle): number {
+  if (char === COLUMN_BREAK || char === SOFT_HYPHEN) return 0;
+
   const cacheKey = getMeasurementCacheKey(char, style);
 
   if (measurementCache.has(cacheKey)) {
@@ -80,6 +157,30 @@ export function measureChar(char: string, style: TextStyle): number {
   return width;
 }
 
+/**
+ * Measure width of a laid-out character: an inline object is as wide as
+ * the object
+ */
+function measureStyledChar(char: StyledChar): number {
+  return char.object ? char.object.width : measureChar(char.char, char.style);
+}
+
+/**
+ * Ascent, descent and height a character takes in its line, before any
+ * baseline shift: the font's scaled by the line height, or an inline
+ * object's box around its baseline
+ */
+function getCharMetrics(char: StyledChar): { ascent: number; descent: number; height: number } {
+  if (char.object) {
+    const descent = char.object.baseline ?? 0;
+    return { ascent: char.object.height - descent, descent, height: char.object.height };
+  }
+
+  const metrics = getFontMetrics(char.style);
+  const lineHeight = char.style.lineHeight;
+  return { ascent: metrics.ascent * lineHeight, descent: metrics.descent * lineHeight, height: metrics.height * lineHeight };
+}
+
 /**
  * Get font metrics (ascent, descent, height)
  */
@@ -92,25 +193,167 @@ export function getFontMetrics(style: TextStyle): {
   ctx.font = buildFontString(style);
 
   const metrics = ctx.measureText('Mg');
-  const ascent = metrics.actualBoundingBoxAscent || style.fontSize * 0.8;
-  const descent = metrics.actualBoundingBoxDescent || style.fontSize * 0.2;
+  const ascent = metrics.actualBoundingBoxAscent || getFontSize(style) * 0.8;
+  const descent = metrics.actualBoundingBoxDescent || getFontSize(style) * 0.2;
   const height = ascent + descent;
 
   return { ascent, descent, height };
 }
 
 /**
- * Tokenize styled characters into words, whitespace, and newlines
+ * Text drawn for a laid-out character: soft hyphens are invisible, a tab
+ * shows its leader (see getTabLeader), and a character the line breaks
+ * after inside a word is followed by a hyphen
+ */
+export function getDisplayText(char: PositionedChar): string {
+  if (char.char.char === '\t') {
+    return getTabLeader(char).map((glyph) => glyph.text).join('');
+  }
+  const text = char.char.char === SOFT_HYPHEN || char.char.object ? '' : char.char.char;
+  return char.hyphen ? `${text}-` : text;
+}
+
+/**
+ * The leader characters filling a tab's gap, one glyph each, from its start
+ * (none without a leader)
+ */
+export function getTabLeader(char: PositionedChar): { text: string; x: number; width: number }[] {
+  if (!char.leader) return [];
+
+  const width = measureChar(char.leader, char.char.style);
+  if (width <= 0) return [];
+
+  const count = Math.floor(char.width / width);
+  return Array.from({ length: count }, (_, k) => ({ text: char.leader!, x: char.x + k * width, width }));
+}
+
+/**
+ * Text of a numbered list item's marker, shared by all renderers: "1." at
+ * the top level, "a." one level down and "i." below that, repeating every
+ * three levels
+ */
+export function getListNumberText(listItem: ListItem): string {
+  const level = listItem.level % 3;
+  if (level === 1 && listItem.index > 0) {
+    return `${String.fromCharCode(97 + ((listItem.index - 1) % 26))}.`;
+  }
+  if (level === 2 && listItem.index > 0) {
+    return `${toRomanNumeral(listItem.index)}.`;
+  }
+  return `${listItem.index}.`;
+}
+
+/**
+ * Convert a positive number to a lowercase roman numeral
+ */
+function toRomanNumeral(value: number): string {
+  const romanNumerals: [number, string][] = [
+    [1000, 'm'],
+    [900, 'cm'],
+    [500, 'd'],
+    [400, 'cd'],
+    [100, 'c'],
+    [90, 'xc'],
+    [50, 'l'],
+    [40, 'xl'],
+    [10, 'x'],
+    [9, 'ix'],
+    [5, 'v'],
+    [4, 'iv'],
+    [1, 'i'],
+  ];
+
+  let result = '';
+  let remaining = value;
+
+  for (const [numeralValue, numeral] of romanNumerals) {
+    while (remaining >= numeralValue) {
+      result += numeral;
+      remaining -= numeralValue;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Words shorter than this are not hyphenated
  */
-export function tokenize(chars: StyledChar[]): LayoutToken[] {
+const MIN_HYPHENATED_LENGTH = 5;
+
+/**
+ * Where a word may break with a hyphen: the hyphenation points of each run
+ * of Latin letters in it, as character indices. Words with soft hyphens
+ * only break at those.
+ */
+function getHyphenationPoints(chars: StyledChar[]): Set<number> {
+  const points = new Set<number>();
+  if (chars.some((c) => c.char === SOFT_HYPHEN)) return points;
+
+  let runStart = 0;
+  for (let i = 0; i <= chars.length; i++) {
+    if (i < chars.length && /^[a-z]$/i.test(chars[i].char)) continue;
+
+    if (i - runStart >= MIN_HYPHENATED_LENGTH) {
+      const word = chars.slice(runStart, i).map((c) => c.char).join('');
+      for (const point of hyphenate(word)) {
+        points.add(runStart + point);
+      }
+    }
+    runStart = i + 1;
+  }
+  return points;
+}
+
+/**
+ * Split a word into the pieces a line may break between: at line break
+ * opportunities (UAX #14), after soft hyphens and, with `hyphenation`, at
+ * hyphenation points. Pieces a line can end with a hyphen record its width.
+ */
+function splitWord(chars: StyledChar[], hyphenation: boolean): LayoutToken[] {
+  const breaks = getBreakOpportunities(chars.map((c) => c.char));
+  const hyphenationPoints = hyphenation ? getHyphenationPoints(chars) : new Set<number>();
+  const pieces: LayoutToken[] = [];
+  let start = 0;
+
+  for (let i = 1; i <= chars.length; i++) {
+    if (i < chars.length && !breaks[i] && !hyphenationPoints.has(i)) continue;
+
+    const pieceChars = chars.slice(start, i);
+    const last = pieceChars[pieceChars.length - 1];
+    const piece: LayoutToken = {
+      chars: pieceChars,
+      width: pieceChars.reduce((sum, c) => sum + measureStyledChar(c), 0),
+      type: 'word',
+    };
+    if (i < chars.length && (last.char === SOFT_HYPHEN || hyphenationPoints.has(i))) {
+      piece.hyphenWidth = measureChar('-', last.style);
+    }
+    pieces.push(piece);
+    start = i;
+  }
+
+  return pieces;
+}
+
+/**
+ * Tokenize styled characters into words, whitespace, tabs, newlines and
+ * column breaks. Words are split where a line may break inside them (see
+ * splitWord). A tab's width depends on where it ends up, so it is measured
+ * as a plain character here and set during layout.
+ */
+export function tokenize(chars: StyledChar[], hyphenation: boolean = false): LayoutToken[] {
   const tokens: LayoutToken[] = [];
   let currentToken: StyledChar[] = [];
   let currentType: 'word' | 'whitespace' | 'newline' = 'word';
 
   const pushToken = () => {
-    if (currentToken.length > 0) {
+    if (currentToken.length > 0 && currentType === 'word') {
+      tokens.push(...splitWord(currentToken, hyphenation));
+      currentToken = [];
+    } else if (currentToken.length > 0) {
       const width = currentToken.reduce(
-        (sum, c) => sum + measureChar(c.char, c.style),
+        (sum, c) => sum + measureStyledChar(c),
         0
       );
       tokens.push({
@@ -131,7 +374,32 @@ export function tokenize(chars: StyledChar[]): LayoutToken[] {
         type: 'newline',
       });
       currentType = 'word';
-    } else if (char.char === ' ' || char.char === '\t') {
+    } else if (char.char === COLUMN_BREAK) {
+      pushToken();
+      tokens.push({
+        chars: [char],
+        width: 0,
+        type: 'columnbreak',
+      });
+      currentType = 'word';
+    } else if (char.char === '\t') {
+      pushToken();
+      tokens.push({
+        chars: [char],
+        width: measureChar(char.char, char.style),
+        type: 'tab',
+      });
+      currentType = 'word';
+    } else if (char.object) {
+      // An inline object is a word of its own that never breaks
+      pushToken();
+      tokens.push({
+        chars: [char],
+        width: measureStyledChar(char),
+        type: 'word',
+      });
+      currentType = 'word';
+    } else if (char.char === ' ') {
       if (currentType !== 'whitespace') {
         pushToken();
         currentType = 'whitespace';
@@ -148,91 +416,1175 @@ export function tokenize(chars: StyledChar[]): LayoutToken[] {
 
   pushToken();
 
-  return tokens;
+  return tokens;
+}
+
+/**
+ * Calculate line height based on characters in the line
+ */
+function calculateLineMetrics(chars: StyledChar[]): {
+  height: number;
+  baseline: number;
+  maxLineHeight: number;
+} {
+  if (chars.length === 0) {
+    // Default metrics for empty line
+    const defaultMetrics = getFontMetrics({
+      fontFamily: 'Arial',
+      fontSize: 16,
+      fontWeight: 'normal',
+      fontStyle: 'normal',
+      color: '#000',
+      underline: false,
+      strikethrough: false,
+      letterSpacing: 0,
+      lineHeight: 1.4,
+    });
+    return {
+      height: defaultMetrics.height * 1.4,
+      baseline: defaultMetrics.ascent * 1.4,
+      maxLineHeight: 1.4,
+    };
+  }
+
+  let maxAscent = 0;
+  let maxDescent = 0;
+  let maxLineHeight = 1.4;
+
+  for (const char of chars) {
+    // Raised and lowered text, and inline objects, make room above or below
+    // the baseline
+    const metrics = getCharMetrics(char);
+    const shift = char.object ? 0 : getBaselineShift(char.style);
+
+    maxAscent = Math.max(maxAscent, metrics.ascent + shift);
+    maxDescent = Math.max(maxDescent, metrics.descent - shift);
+    maxLineHeight = Math.max(maxLineHeight, char.style.lineHeight);
+  }
+
+  return {
+    height: maxAscent + maxDescent,
+    baseline: maxAscent,
+    maxLineHeight,
+  };
+}
+
+/**
+ * Calculate list indentation in pixels
+ */
+function getListIndent(listItem: import('./types').ListItem | undefined): number {
+  if (!listItem) return 0;
+  const baseIndent = 24; // Base indent for bullets/numbers
+  const levelIndent = 20; // Additional indent per level
+  return baseIndent + listItem.level * levelIndent;
+}
+
+/**
+ * A paragraph's source text: the pieces of each span between newlines
+ */
+interface ParagraphSource {
+  index: number;
+  start: AbsolutePosition; // Absolute index of the paragraph's first character
+  segments: { text: string; style: TextStyle; spanId: string; object?: InlineObject }[];
+}
+
+/**
+ * Lines of one paragraph, positioned relative to the paragraph's top edge.
+ * Line indices count from 0 within the paragraph.
+ */
+interface ParagraphLayout {
+  lines: LayoutLine[];
+  width: number; // Widest line including list and paragraph indents
+  height: number; // Including spaceBefore and spaceAfter
+}
+
+/**
+ * A cached paragraph layout and the absolute index its characters were laid out at
+ */
+interface CachedParagraph {
+  layout: ParagraphLayout;
+  start: AbsolutePosition;
+}
+
+/**
+ * Per-paragraph line cache for incremental layout.
+ *
+ * Pass the same cache to successive `layoutText` calls (one cache per text
+ * box). Paragraphs whose text, character styles, paragraph style and list item
+ * are unchanged reuse their lines, shifted to their new position, instead of
+ * being tokenized and measured again. Entries not used by the latest layout
+ * are dropped, so the cache never outgrows the document.
+ */
+export interface LayoutCache {
+  padding: number;
+  paragraphs: Map<string, CachedParagraph>;
+  hits: number; // Paragraphs reused by the latest layout
+  misses: number; // Paragraphs laid out from scratch by the latest layout
+}
+
+/**
+ * Create an empty layout cache
+ */
+export function createLayoutCache(): LayoutCache {
+  return { padding: NaN, paragraphs: new Map(), hits: 0, misses: 0 };
+}
+
+/**
+ * Style keys for the paragraph cache, per style object (styles are shared
+ * between immutable document versions, so most lookups hit)
+ */
+const styleKeys = new WeakMap<object, string>();
+
+function getStyleKey(style: object): string {
+  let key = styleKeys.get(style);
+  if (key === undefined) {
+    key = JSON.stringify(style);
+    styleKeys.set(style, key);
+  }
+  return key;
+}
+
+/**
+ * Split the document's spans into paragraphs without flattening it
+ */
+function splitParagraphs(doc: RichTextDocument): ParagraphSource[] {
+  const paragraphs: ParagraphSource[] = [{ index: 0, start: 0, segments: [] }];
+  let position = 0;
+
+  for (const span of doc.spans) {
+    const parts = span.text.split('\n');
+    for (let i = 0; i < parts.length; i++) {
+      if (i > 0) {
+        position++; // The newline itself
+        paragraphs.push({ index: paragraphs.length, start: position, segments: [] });
+      }
+      if (parts[i].length > 0) {
+        paragraphs[paragraphs.length - 1].segments.push({
+          text: parts[i],
+          style: span.style,
+          spanId: span.id,
+          ...(span.object && { object: span.object }),
+        });
+        position += parts[i].length;
+      }
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Create the styled characters (grapheme clusters) of a paragraph.
+ * A cluster that spans two segments takes the style of its first code unit.
+ */
+function getParagraphChars(paragraph: ParagraphSource): StyledChar[] {
+  const chars: StyledChar[] = [];
+  const text = paragraph.segments.map((segment) => segment.text).join('');
+  let segmentIndex = 0;
+  let segmentEnd = paragraph.segments[0]?.text.length ?? 0;
+  let offset = 0;
+
+  for (const cluster of splitGraphemes(text)) {
+    while (offset >= segmentEnd && segmentIndex < paragraph.segments.length - 1) {
+      segmentIndex++;
+      segmentEnd += paragraph.segments[segmentIndex].text.length;
+    }
+
+    const segment = paragraph.segments[segmentIndex];
+    chars.push({
+      char: cluster,
+      style: segment.style,
+      spanId: segment.spanId,
+      absoluteIndex: paragraph.start + offset,
+      ...(segment.object && { object: segment.object }),
+    });
+    offset += cluster.length;
+  }
+
+  return chars;
+}
+
+/**
+ * Cache key covering everything a paragraph's lines depend on
+ */
+function getParagraphKey(
+  doc: RichTextDocument,
+  paragraph: ParagraphSource,
+  isLastParagraph: boolean,
+  width: number
+): string {
+  const parts = [
+    String(width),
+    isLastParagraph ? 'last' : '',
+    JSON.stringify(getParagraphStyle(doc, paragraph.index)),
+    JSON.stringify(doc.listItems?.get(paragraph.index) ?? null),
+    doc.hyphenate ? 'hyphenate' : '',
+    doc.lineBreaking ?? 'greedy',
+  ];
+  for (const segment of paragraph.segments) {
+    parts.push(getStyleKey(segment.style), segment.text, segment.object ? JSON.stringify(segment.object) : '');
+  }
+  return parts.join('\u0000');
+}
+
+/**
+ * Main layout algorithm: break text into lines and position characters
+ *
+ * With a `cache`, only paragraphs that changed since the previous call with
+ * the same cache are laid out again (see LayoutCache). With a `wrap`, lines
+ * stay inside its shape and flow around its exclusions (see TextWrap). A
+ * document with a `textPath` gets the curve its lines are drawn along.
+ */
+export function layoutText(
+  doc: RichTextDocument,
+  containerWidth: number,
+  containerHeight: number,
+  cache?: LayoutCache,
+  wrap?: TextWrap
+): LayoutResult {
+  const layout = layoutTextFrames(doc, [{ width: containerWidth, height: containerHeight, wrap }], cache)[0];
+  return attachTextPath(layout, doc);
+}
+
+/**
+ * Lay out one document across a chain of linked frames. Text fills each
+ * frame and continues at the top of the next one where it runs out of
+ * height; a paragraph split between frames of different widths is broken
+ * into lines again at the new width. Only the last frame can overflow.
+ * @returns One layout per frame, in the frame's own coordinates
+ */
+export function layoutTextFrames(
+  doc: RichTextDocument,
+  frames: TextFrameSize[],
+  cache?: LayoutCache
+): LayoutResult[] {
+  const paragraphs = splitParagraphs(doc);
+  const slots = getColumnSlots(doc, frames);
+  const results: LayoutResult[] = [];
+  let slotIndex = 0;
+  let lines: LayoutLine[] = []; // Lines of the current column
+  let frameLines: LayoutLine[] = []; // Lines of the current frame's finished columns
+  let currentY = doc.padding;
+  let contentWidth = 0;
+  let frameContentWidth = 0;
+  let frameContentHeight = 0;
+  let overflowRange: TextRange | null = null;
+  let columnBreak = false; // The last line placed ended with a column break
+
+  if (cache) {
+    // Everything depends on the padding (widths are part of the keys)
+    if (cache.padding !== doc.padding) {
+      cache.paragraphs.clear();
+      cache.padding = doc.padding;
+    }
+    cache.hits = 0;
+    cache.misses = 0;
+  }
+  const usedEntries = new Map<string, CachedParagraph>();
+
+  const lastParagraph = paragraphs[paragraphs.length - 1];
+  const documentLength =
+    lastParagraph.start + lastParagraph.segments.reduce((sum, segment) => sum + segment.text.length, 0);
+
+  const finishColumn = () => {
+    const slot = slots[slotIndex];
+    overflowRange = finishLines(doc, lines, slot, currentY, paragraphs, documentLength, slotIndex === slots.length - 1);
+
+    // Columns are laid out as if at the left of the box, then moved into place
+    for (const line of lines) {
+      if (slot.x !== 0) {
+        for (const char of line.chars) {
+          char.x += slot.x;
+        }
+      }
+      if (slot.column !== 0) {
+        line.column = slot.column;
+      }
+      if (line.segment && slot.x !== 0) {
+        line.segment = { left: line.segment.left + slot.x, right: line.segment.right + slot.x };
+      }
+    }
+    frameLines.push(...lines);
+    frameContentWidth = Math.max(frameContentWidth, slot.x + contentWidth + doc.padding * 2);
+    frameContentHeight = Math.max(frameContentHeight, currentY + doc.padding);
+
+    const isLastColumn = slotIndex === slots.length - 1 || slots[slotIndex + 1].frame !== slot.frame;
+    if (isLastColumn) {
+      results.push(
+        buildFrameLayout(
+          doc,
+          frameLines,
+          frames[slot.frame],
+          slots.filter((other) => other.frame === slot.frame),
+          frameContentWidth,
+          frameContentHeight,
+          overflowRange
+        )
+      );
+      frameLines = [];
+      frameContentWidth = 0;
+      frameContentHeight = 0;
+    }
+
+    slotIndex++;
+    lines = [];
+    currentY = doc.padding;
+    contentWidth = 0;
+  };
+
+  for (const paragraph of paragraphs) {
+    const isLastParagraph = paragraph.index === paragraphs.length - 1;
+    let width = slots[slotIndex].width;
+    let piece = getParagraphLayout(
+      paragraph,
+      doc,
+      width,
+      isLastParagraph,
+      cache,
+      usedEntries,
+      getParagraphWrap(doc, slots[slotIndex], currentY)
+    );
+    let top = currentY; // Column y of the piece's top edge
+    let i = 0;
+
+    while (i < piece.layout.lines.length) {
+      const line = piece.layout.lines[i];
+      const slot = slots[slotIndex];
+      const fits = top + line.y + line.height <= slot.height - doc.padding + 0.01;
+
+      if ((columnBreak || !fits) && lines.length > 0 && slotIndex < slots.length - 1) {
+        // The rest of the paragraph continues at the top of the next column
+        if (i > 0) {
+          contentWidth = Math.max(contentWidth, piece.layout.width);
+        }
+        currentY = top + line.y;
+        columnBreak = false;
+        finishColumn();
+
+        const next = slots[slotIndex];
+        if (next.width === width && !slot.wrap && !next.wrap) {
+          top = doc.padding - line.y;
+        } else {
+          // Break the rest into lines again at the new width (or shape)
+          width = next.width;
+          if (i === 0) {
+            // Lines wrapped around a shape are laid out where they go, so
+            // the space before is left out by starting above the padding
+            const wrapTop = doc.padding - getParagraphStyle(doc, paragraph.index).spaceBefore;
+            piece = getParagraphLayout(
+              paragraph,
+              doc,
+              width,
+              isLastParagraph,
+              cache,
+              usedEntries,
+              getParagraphWrap(doc, next, wrapTop)
+            );
+            top = next.wrap ? wrapTop : doc.padding - piece.layout.lines[0].y;
+          } else {
+            const restStart = Math.min(...line.chars.map((char) => char.char.absoluteIndex)) + piece.delta;
+            piece = layoutContinuation(
+              paragraph,
+              restStart,
+              doc,
+              width,
+              isLastParagraph,
+              getParagraphWrap(doc, next, doc.padding)
+            );
+            top = doc.padding;
+            i = 0;
+          }
+        }
+        continue;
+      }
+
+      lines.push(piece.place(line, top, frameLines.length + lines.length));
+      columnBreak = Boolean(line.columnBreak);
+      i++;
+    }
+
+    currentY = top + piece.layout.height;
+    contentWidth = Math.max(contentWidth, piece.layout.width);
+  }
+
+  if (cache) {
+    cache.paragraphs = usedEntries;
+  }
+
+  // The last column with text, then any empty columns and frames after it
+  while (slotIndex < slots.length) {
+    finishColumn();
+  }
+  return results;
+}
+
+/**
+ * A column of a frame, laid out as a box of its own at the left of the frame
+ * (`width` includes the padding on both sides) and then moved right by `x`
+ */
+interface ColumnSlot {
+  frame: number;
+  column: number;
+  x: number;
+  width: number;
+  height: number;
+  wrap?: TextWrap; // The frame's wrap, when it has a shape or exclusions
+}
+
+/**
+ * Every column of every frame, in the order text flows through them
+ */
+function getColumnSlots(doc: RichTextDocument, frames: TextFrameSize[]): ColumnSlot[] {
+  const count = Math.max(1, Math.floor(doc.columns?.count ?? 1));
+  const gap = count > 1 ? doc.columns?.gap ?? 0 : 0;
+  const slots: ColumnSlot[] = [];
+
+  frames.forEach((frame, frameIndex) => {
+    const columnWidth = Math.max(0, (frame.width - doc.padding * 2 - gap * (count - 1)) / count);
+    for (let column = 0; column < count; column++) {
+      slots.push({
+        frame: frameIndex,
+        column,
+        x: count > 1 ? column * (columnWidth + gap) : 0,
+        width: count > 1 ? columnWidth + doc.padding * 2 : frame.width,
+        height: frame.height,
+        ...(hasTextWrap(frame.wrap) && { wrap: frame.wrap }),
+      });
+    }
+  });
+
+  return slots;
+}
+
+/**
+ * Line segments available to a paragraph whose top edge is at `top` in a
+ * column with a wrap shape. Segments are in the column's coordinates (as if
+ * at the left of the box); below the bottom padding lines get the whole
+ * column width again.
+ */
+interface ParagraphWrap {
+  top: number;
+  bottom: number;
+  full: LineSegment;
+  getSegments(top: number, bottom: number): LineSegment[];
+}
+
+function getParagraphWrap(doc: RichTextDocument, slot: ColumnSlot, top: number): ParagraphWrap | undefined {
+  const wrap = slot.wrap;
+  if (!wrap) return undefined;
+
+  return {
+    top,
+    bottom: slot.height - doc.padding,
+    full: { left: doc.padding, right: slot.width - doc.padding },
+    getSegments: (lineTop, lineBottom) =>
+      getLineSegments(wrap, slot.x + doc.padding, slot.x + slot.width - doc.padding, lineTop, lineBottom).map(
+        (segment) => ({ left: segment.left - slot.x, right: segment.right - slot.x })
+      ),
+  };
+}
+
+/**
+ * Assemble a frame's layout from the lines of its columns
+ */
+function buildFrameLayout(
+  doc: RichTextDocument,
+  lines: LayoutLine[],
+  frame: TextFrameSize,
+  columnSlots: ColumnSlot[],
+  contentWidth: number,
+  contentHeight: number,
+  overflowRange: TextRange | null
+): LayoutResult {
+  const chars: PositionedChar[] = [];
+  for (const line of lines) {
+    chars.push(...line.chars);
+  }
+
+  const layout: LayoutResult = {
+    lines,
+    width: frame.width,
+    height: frame.height,
+    chars,
+    contentWidth,
+    contentHeight,
+    overflowRange,
+  };
+
+  if (columnSlots.length > 1) {
+    layout.columns = columnSlots.map((slot) => ({
+      x: slot.x + doc.padding,
+      width: slot.width - doc.padding * 2,
+    }));
+  }
+  return layout;
+}
+
+/**
+ * A paragraph's lines (relative to its top edge) and how to place them
+ */
+interface ParagraphPiece {
+  layout: ParagraphLayout;
+  delta: number; // Added to the cached lines' absolute indices
+  place(line: LayoutLine, top: number, lineIndex: number): LayoutLine;
+}
+
+/**
+ * Lay out a whole paragraph, or reuse its lines from the cache. Lines
+ * wrapped around a shape depend on where they are, so they are not cached.
+ */
+function getParagraphLayout(
+  paragraph: ParagraphSource,
+  doc: RichTextDocument,
+  width: number,
+  isLastParagraph: boolean,
+  cache: LayoutCache | undefined,
+  usedEntries: Map<string, CachedParagraph>,
+  wrap?: ParagraphWrap
+): ParagraphPiece {
+  if (!cache || wrap) {
+    const chars = getParagraphChars(paragraph);
+    return {
+      layout: layoutParagraph(chars, paragraph.index, doc, width, isLastParagraph, false, wrap),
+      delta: 0,
+      place: shiftLine,
+    };
+  }
+
+  const key = getParagraphKey(doc, paragraph, isLastParagraph, width);
+  let entry = usedEntries.get(key) ?? cache.paragraphs.get(key);
+  if (entry) {
+    cache.hits++;
+  } else {
+    cache.misses++;
+    entry = {
+      layout: layoutParagraph(getParagraphChars(paragraph), paragraph.index, doc, width, isLastParagraph),
+      start: paragraph.start,
+    };
+  }
+  usedEntries.set(key, entry);
+
+  const { start } = entry;
+  return {
+    layout: entry.layout,
+    delta: paragraph.start - start,
+    place: (line, top, lineIndex) => copyLine(line, paragraph, start, top, lineIndex),
+  };
+}
+
+/**
+ * Lay out the part of a paragraph from `restStart` on, continuing the
+ * paragraph (no space before or first-line indent). Not cached.
+ */
+function layoutContinuation(
+  paragraph: ParagraphSource,
+  restStart: AbsolutePosition,
+  doc: RichTextDocument,
+  width: number,
+  isLastParagraph: boolean,
+  wrap?: ParagraphWrap
+): ParagraphPiece {
+  const chars = getParagraphChars(paragraph).filter((char) => char.absoluteIndex >= restStart);
+  return {
+    layout: layoutParagraph(chars, paragraph.index, doc, width, isLastParagraph, true, wrap),
+    delta: 0,
+    place: shiftLine,
+  };
+}
+
+/**
+ * Vertically align a column's placed lines, then (in the last column of the
+ * last frame) detect overflow and truncate with an ellipsis
+ * @returns The text that does not fit, or null
+ */
+function finishLines(
+  doc: RichTextDocument,
+  lines: LayoutLine[],
+  column: TextFrameSize,
+  bottomY: number,
+  paragraphs: ParagraphSource[],
+  documentLength: number,
+  isLastColumn: boolean
+): TextRange | null {
+  // Apply vertical alignment
+  const totalTextHeight = bottomY - doc.padding;
+  let verticalOffset = 0;
+
+  if (doc.verticalAlign === 'middle') {
+    verticalOffset = (column.height - totalTextHeight - doc.padding) / 2;
+  } else if (doc.verticalAlign === 'bottom') {
+    verticalOffset = column.height - totalTextHeight - doc.padding * 2;
+  }
+
+  // Lines wrapped around a shape stay where the shape left room for them
+  if (verticalOffset > 0 && !column.wrap) {
+    for (const line of lines) {
+      line.y += verticalOffset;
+      for (const char of line.chars) {
+        char.y += verticalOffset;
+      }
+    }
+  }
+
+  // Text in lines that end below the bottom padding does not fit the box
+  const bottom = column.height - doc.padding + 0.01;
+  const firstHiddenLine = isLastColumn ? lines.findIndex((line) => line.y + line.height > bottom) : -1;
+  if (firstHiddenLine === -1) return null;
+
+  const getLineStart = (line: LayoutLine): AbsolutePosition =>
+    line.chars.length > 0
+      ? Math.min(...line.chars.map((char) => char.char.absoluteIndex))
+      : paragraphs[line.paragraphIndex].start;
+
+  let start = getLineStart(lines[firstHiddenLine]);
+  if (doc.overflow === 'ellipsis') {
+    // The first line stays even if it does not fit
+    const lastLine = Math.max(0, firstHiddenLine - 1);
+    const nextLine = lines[lastLine + 1];
+    start = truncateWithEllipsis(
+      lines,
+      lastLine,
+      nextLine ? getLineStart(nextLine) : documentLength,
+      doc,
+      column.width
+    );
+  }
+  return { start, end: documentLength };
+}
+
+/**
+ * Merge the layouts of linked frames into one layout with the frames stacked
+ * top to bottom, so caret movement, hit testing and selection work across
+ * frame boundaries. `frames` records where each frame is in the stack.
+ */
+export function combineFrameLayouts(layouts: LayoutResult[]): LayoutResult {
+  const frames: TextFrameBounds[] = [];
+  const lines: LayoutLine[] = [];
+  let top = 0;
+
+  for (const layout of layouts) {
+    frames.push({
+      top,
+      width: layout.width,
+      height: layout.height,
+      ...(layout.columns && { columns: layout.columns }),
+    });
+    for (const line of layout.lines) {
+      const lineIndex = lines.length;
+      lines.push({
+        ...line,
+        y: line.y + top,
+        lineIndex,
+        chars: line.chars.map((char) => ({ ...char, y: char.y + top, lineIndex })),
+      });
+    }
+    top += layout.height;
+  }
+
+  const last = layouts[layouts.length - 1];
+  const chars: PositionedChar[] = [];
+  for (const line of lines) {
+    chars.push(...line.chars);
+  }
+
+  return {
+    lines,
+    width: layouts[0].width,
+    height: top,
+    chars,
+    contentWidth: Math.max(...layouts.map((layout) => layout.contentWidth)),
+    contentHeight: top - last.height + last.contentHeight,
+    overflowRange: last.overflowRange,
+    frames,
+    ...(layouts[0].columns && { columns: layouts[0].columns }),
+  };
+}
+
+/**
+ * Drop the lines after `lineIndex` and end that line with an ellipsis,
+ * removing characters (and trailing whitespace) from its end until the
+ * ellipsis fits. The ellipsis takes the style of the line's last character
+ * and replaces the line's hyphen.
+ * @param hiddenStart Position of the first character in the dropped lines
+ * @returns Position of the first character no longer shown
+ */
+function truncateWithEllipsis(
+  lines: LayoutLine[],
+  lineIndex: number,
+  hiddenStart: AbsolutePosition,
+  doc: RichTextDocument,
+  containerWidth: number
+): AbsolutePosition {
+  const line = unhyphenateLine(lines[lineIndex]);
+  const hiddenLines = lines.splice(lineIndex + 1);
+
+  const byIndex = (a: PositionedChar, b: PositionedChar) => a.char.absoluteIndex - b.char.absoluteIndex;
+  const kept = [...line.chars].sort(byIndex);
+  const firstHiddenChar = hiddenLines.flatMap((hidden) => hidden.chars).sort(byIndex)[0];
+  const style = (kept[kept.length - 1] ?? firstHiddenChar)?.char.style ?? DEFAULT_STYLE;
+  const spanId = (kept[kept.length - 1] ?? firstHiddenChar)?.char.spanId ?? '';
+
+  const ellipsisWidth = measureChar('\u2026', style);
+  const rtl = line.direction === 'rtl';
+  const paragraphStyle = getParagraphStyle(doc, line.paragraphIndex);
+  const area = line.segment ?? { left: doc.padding, right: containerWidth - doc.padding };
+  const startEdge = rtl
+    ? area.right - line.listIndent - line.indent
+    : area.left + line.listIndent + line.indent;
+  const endEdge = rtl ? area.left + paragraphStyle.indentLeft : area.right - paragraphStyle.indentRight;
+
+  // Visual edge the ellipsis goes after (before, right-to-left)
+  const getEnd = (chars: PositionedChar[]): number => {
+    if (chars.length === 0) return startEdge;
+    return rtl
+      ? Math.min(...chars.map((char) => char.x))
+      : Math.max(...chars.map((char) => char.x + char.width));
+  };
+  const fits = (chars: PositionedChar[]): boolean =>
+    rtl ? getEnd(chars) - ellipsisWidth >= endEdge : getEnd(chars) + ellipsisWidth <= endEdge;
+
+  let cut = hiddenStart;
+  while (kept.length > 0 && (/^\s+$/.test(kept[kept.length - 1].char.char) || !fits(kept))) {
+    cut = kept.pop()!.char.absoluteIndex;
+  }
+
+  const end = getEnd(kept);
+  const metrics = getFontMetrics(style);
+  const ellipsis: PositionedChar = {
+    char: { char: '\u2026', style, spanId, absoluteIndex: cut },
+    x: rtl ? end - ellipsisWidth : end,
+    y: line.y,
+    width: ellipsisWidth,
+    height: metrics.height * style.lineHeight,
+    baseline: line.baseline,
+    lineIndex: line.lineIndex,
+    bidiLevel: rtl ? 1 : 0,
+  };
+
+  const keptSet = new Set(kept);
+  const chars = line.chars.filter((char) => keptSet.has(char));
+  if (rtl) {
+    chars.unshift(ellipsis);
+  } else {
+    chars.push(ellipsis);
+  }
+
+  lines[lineIndex] = {
+    ...line,
+    chars,
+    width: chars.reduce((sum, char) => sum + char.width, 0),
+  };
+  return cut;
+}
+
+/**
+ * The line without the hyphen at its end, if it has one
+ */
+function unhyphenateLine(line: LayoutLine): LayoutLine {
+  const hyphenated = line.chars.find((char) => char.hyphen);
+  if (!hyphenated) return line;
+
+  const hyphenWidth = measureChar('-', hyphenated.char.style);
+  const { hyphen: _hyphen, ...char } = hyphenated;
+  return {
+    ...line,
+    chars: line.chars.map((c) => (c === hyphenated ? { ...char, width: c.width - hyphenWidth } : c)),
+    width: line.width - hyphenWidth,
+  };
+}
+
+/**
+ * Move a freshly laid out paragraph line into place (in place)
+ */
+function shiftLine(line: LayoutLine, top: number, lineIndex: number): LayoutLine {
+  line.y += top;
+  line.lineIndex = lineIndex;
+  for (const char of line.chars) {
+    char.y += top;
+    char.lineIndex = lineIndex;
+  }
+  return line;
 }
 
 /**
- * Calculate line height based on characters in the line
+ * Copy a cached paragraph line into place. The paragraph may have moved in
+ * the document, so paragraph index, absolute indices and span ids are updated.
  */
-function calculateLineMetrics(chars: StyledChar[]): {
-  height: number;
-  baseline: number;
-  maxLineHeight: number;
-} {
-  if (chars.length === 0) {
-    // Default metrics for empty line
-    const defaultMetrics = getFontMetrics({
-      fontFamily: 'Arial',
-      fontSize: 16,
-      fontWeight: 'normal',
-      fontStyle: 'normal',
-      color: '#000',
-      underline: false,
-      strikethrough: false,
-      letterSpacing: 0,
-      lineHeight: 1.4,
-    });
+function copyLine(
+  line: LayoutLine,
+  paragraph: ParagraphSource,
+  cachedStart: AbsolutePosition,
+  top: number,
+  lineIndex: number
+): LayoutLine {
+  const delta = paragraph.start - cachedStart;
+  const segments = paragraph.segments;
+  let segmentIndex = 0;
+  let segmentStart = paragraph.start;
+  let segmentEnd = paragraph.start + (segments[0]?.text.length ?? 0);
+
+  // Characters are in visual order, so the index can also move backwards
+  const chars = line.chars.map((positioned): PositionedChar => {
+    const absoluteIndex = positioned.char.absoluteIndex + delta;
+    while (absoluteIndex < segmentStart && segmentIndex > 0) {
+      segmentIndex--;
+      segmentEnd = segmentStart;
+      segmentStart -= segments[segmentIndex].text.length;
+    }
+    while (absoluteIndex >= segmentEnd && segmentIndex < segments.length - 1) {
+      segmentIndex++;
+      segmentStart = segmentEnd;
+      segmentEnd += segments[segmentIndex].text.length;
+    }
+
     return {
-      height: defaultMetrics.height * 1.4,
-      baseline: defaultMetrics.ascent * 1.4,
-      maxLineHeight: 1.4,
+      ...positioned,
+      char: {
+        ...positioned.char,
+        spanId: segments[segmentIndex].spanId,
+        absoluteIndex,
+      },
+      y: positioned.y + top,
+      lineIndex,
     };
+  });
+
+  return {
+    ...line,
+    chars,
+    y: line.y + top,
+    lineIndex,
+    paragraphIndex: paragraph.index,
+  };
+}
+
+/**
+ * Split a word token where it reaches `width`: the characters that fit (at
+ * least one) and the rest
+ */
+function splitTokenAt(token: LayoutToken, width: number): [LayoutToken, LayoutToken] {
+  let count = 0;
+  let headWidth = 0;
+  while (count < token.chars.length - 1) {
+    const char = token.chars[count];
+    const charWidth = measureStyledChar(char);
+    if (count > 0 && headWidth + charWidth > width) break;
+    headWidth += charWidth;
+    count++;
   }
 
-  let maxAscent = 0;
-  let maxDescent = 0;
-  let maxLineHeight = 1.4;
+  return [
+    { chars: token.chars.slice(0, count), width: headWidth, type: 'word' },
+    { ...token, chars: token.chars.slice(count), width: token.width - headWidth },
+  ];
+}
 
-  for (const char of chars) {
-    const metrics = getFontMetrics(char.style);
-    const lineHeightMultiplier = char.style.lineHeight;
-    const scaledAscent = metrics.ascent * lineHeightMultiplier;
-    const scaledDescent = metrics.descent * lineHeightMultiplier;
+/**
+ * Most space added between the letters of a justified line, in ems
+ */
+const MAX_LETTER_SPACING = 0.05;
+
+/**
+ * Penalty for breaking a line at a hyphen
+ */
+const HYPHEN_PENALTY = 50;
+
+/**
+ * Stretchability of the glue that fills the last line of a paragraph
+ */
+const FILL_STRETCH = 1e6;
+
+/**
+ * One line chosen by the optimal line breaker: its tokens, the width of the
+ * hyphen it ends with, and whether a column break ends it
+ */
+interface OptimalLine {
+  tokens: LayoutToken[];
+  hyphenWidth: number;
+  columnBreak: boolean;
+}
+
+/**
+ * Break a paragraph's tokens into lines with the Knuth-Plass algorithm (see
+ * findOptimalBreaks). Spaces stretch by half their width and, in justified
+ * text, shrink by a third. Column breaks end lines; each run of text between
+ * them is broken on its own. The last line is left open. Returns null when
+ * the text cannot be set that way (a word wider than its line).
+ */
+function breakLinesOptimally(
+  tokens: LayoutToken[],
+  lineWidth: (line: number) => number,
+  justified: boolean
+): OptimalLine[] | null {
+  const lines: OptimalLine[] = [];
+  let start = 0;
+
+  while (start <= tokens.length) {
+    let end = start;
+    while (end < tokens.length && tokens[end].type !== 'columnbreak') end++;
+    const chunk = tokens.slice(start, end);
+    const firstLine = lines.length;
+
+    // One item per token, and a penalty between the pieces of a word
+    const items: BreakItem[] = [];
+    const itemTokens: number[] = [];
+    chunk.forEach((token, i) => {
+      itemTokens.push(i);
+      if (token.type === 'whitespace') {
+        items.push({ type: 'glue', width: token.width, stretch: token.width / 2, shrink: justified ? token.width / 3 : 0 });
+        return;
+      }
+      items.push({ type: 'box', width: token.width });
+      if (token.type === 'word' && chunk[i + 1]?.type === 'word') {
+        const hyphenated = token.hyphenWidth !== undefined;
+        itemTokens.push(i);
+        items.push({
+          type: 'penalty',
+          width: token.hyphenWidth ?? 0,
+          penalty: hyphenated ? HYPHEN_PENALTY : 0,
+          flagged: hyphenated,
+        });
+      }
+    });
+    items.push({ type: 'glue', width: 0, stretch: FILL_STRETCH, shrink: 0 });
+    items.push({ type: 'penalty', width: 0, penalty: FORCED_BREAK, flagged: false });
+
+    const breaks = findOptimalBreaks(items, (line) => lineWidth(firstLine + line));
+    if (!breaks) return null;
+
+    let lineStart = 0;
+    for (const position of breaks.slice(0, -1)) {
+      const item = items[position];
+      const token = itemTokens[position];
+      const line: OptimalLine = { tokens: chunk.slice(lineStart, token + 1), hyphenWidth: 0, columnBreak: false };
+      if (item.type === 'penalty') {
+        line.hyphenWidth = item.width;
+      } else {
+        // Like a greedy line, keep the space the line breaks at if it fits
+        const width = line.tokens.reduce((sum, t) => sum + t.width, 0);
+        if (width > lineWidth(lines.length)) line.tokens.pop();
+      }
+      lines.push(line);
+      lineStart = token + 1;
+    }
+    lines.push({ tokens: chunk.slice(lineStart), hyphenWidth: 0, columnBreak: false });
 
-    maxAscent = Math.max(maxAscent, scaledAscent);
-    maxDescent = Math.max(maxDescent, scaledDescent);
-    maxLineHeight = Math.max(maxLineHeight, lineHeightMultiplier);
+    if (end === tokens.length) break;
+    lines[lines.length - 1].tokens.push(tokens[end]);
+    lines[lines.length - 1].columnBreak = true;
+    start = end + 1;
   }
 
-  return {
-    height: maxAscent + maxDescent,
-    baseline: maxAscent,
-    maxLineHeight,
-  };
+  return lines;
 }
 
 /**
- * Calculate list indentation in pixels
+ * A tab as laid out: its width and the leader filling it
  */
-function getListIndent(listItem: import('./types').ListItem | undefined): number {
-  if (!listItem) return 0;
-  const baseIndent = 24; // Base indent for bullets/numbers
-  const levelIndent = 20; // Additional indent per level
-  return baseIndent + listItem.level * levelIndent;
+interface TabLayout {
+  width: number;
+  leader?: string;
 }
 
 /**
- * Main layout algorithm: break text into lines and position characters
+ * Lay out a tab starting at `x` (from the start of the paragraph's text):
+ * the next stop after x, and the width that lines the text after the tab
+ * (`following`, up to the next tab) up with it
  */
-export function layoutText(
+function layoutTab(tabs: TabSettings | undefined, x: number, following: LayoutToken[]): TabLayout {
+  const interval = Math.max(1, tabs?.interval ?? DEFAULT_TAB_INTERVAL);
+  const stops = [...(tabs?.stops ?? [])].sort((a, b) => a.position - b.position);
+  const stop: TabStop = stops.find((s) => s.position > x) ?? {
+    position: (Math.floor(x / interval) + 1) * interval,
+    align: 'left',
+  };
+
+  // Width of the text after the tab, and of its part before a decimal point
+  let textWidth = 0;
+  let integerWidth: number | null = null;
+  for (const token of following) {
+    for (const char of token.chars) {
+      if (char.char === '.' && integerWidth === null) integerWidth = textWidth;
+      textWidth += measureStyledChar(char);
+    }
+  }
+
+  let width = stop.position - x;
+  if (stop.align === 'right') {
+    width -= textWidth;
+  } else if (stop.align === 'center') {
+    width -= textWidth / 2;
+  } else if (stop.align === 'decimal') {
+    width -= integerWidth ?? textWidth;
+  }
+
+  return { width: Math.max(0, width), leader: stop.leader };
+}
+
+/**
+ * Break one paragraph into lines, positioned relative to its top edge.
+ * A `continued` paragraph starts in an earlier frame, so its first line gets
+ * neither space before nor the first-line indent. With a `wrap`, each line
+ * fills one free segment of the shape at its height (indents apply inside
+ * every segment); a row with several segments gives several lines at one y.
+ */
+function layoutParagraph(
+  chars: StyledChar[],
+  paragraphIndex: number,
   doc: RichTextDocument,
   containerWidth: number,
-  containerHeight: number
-): LayoutResult {
-  const chars = flattenDocument(doc);
-  const tokens = tokenize(chars);
+  isLastParagraph: boolean,
+  continued: boolean = false,
+  wrap?: ParagraphWrap
+): ParagraphLayout {
+  const tokens = tokenize(chars, Boolean(doc.hyphenate));
   const baseAvailableWidth = containerWidth - doc.padding * 2;
+  const listItem = doc.listItems?.get(paragraphIndex);
+  const listIndent = getListIndent(listItem);
+  const paragraphStyle = getParagraphStyle(doc, paragraphIndex);
+  const direction = resolveDirection(paragraphStyle.direction, chars);
+  const bidi = resolveParagraphBidi(chars, direction);
+
+  // List and first-line indents are on the start side, so a right-to-left
+  // paragraph swaps the roles of indentLeft and indentRight
+  const startIndent = direction === 'rtl' ? paragraphStyle.indentRight : paragraphStyle.indentLeft;
+  const endIndent = direction === 'rtl' ? paragraphStyle.indentLeft : paragraphStyle.indentRight;
 
   const lines: LayoutLine[] = [];
   let currentLineChars: StyledChar[] = [];
   let currentLineWidth = 0;
-  let currentY = doc.padding;
-  let sourceLineIndex = 0; // Track logical line in source (based on newlines)
+  let lineTokens: LayoutToken[] = []; // Tokens on the current line
+  const tabs = new Map<StyledChar, TabLayout>();
+  let currentY = 0;
+  let widestLine = 0;
+  let isFirstLineOfParagraph = !continued;
+
+  // Wrapped lines: the segment the current line fills, the segments left in
+  // its row and the tallest line placed in the row so far
+  let segment: LineSegment | null = null;
+  let rowSegments: LineSegment[] = [];
+  let rowHeight = 0;
+  let rowStarted = false;
+  if (wrap && isFirstLineOfParagraph) {
+    currentY += paragraphStyle.spaceBefore;
+  }
+
+  /**
+   * Take the next free segment for a line of the given height: the next one
+   * in the current row, or the first one of the next row with any. Rows
+   * without room are stepped over; below the bottom padding a line gets the
+   * full width.
+   */
+  const nextSegment = (height: number): LineSegment => {
+    while (rowSegments.length === 0) {
+      if (rowStarted) {
+        // The row is used up: move below its tallest line (or step down)
+        currentY += rowHeight > 0 ? rowHeight : Math.max(1, height / 4);
+        rowHeight = 0;
+      }
+      const top = wrap!.top + currentY;
+      if (top + height > wrap!.bottom) {
+        rowSegments = [wrap!.full];
+      } else {
+        rowSegments = wrap!.getSegments(top, top + height);
+        if (direction === 'rtl') rowSegments.reverse();
+      }
+      rowStarted = true;
+    }
+    segment = rowSegments.shift()!;
+    return segment;
+  };
+
+  /**
+   * Whether the current line still has to take a segment
+   */
+  let needsSegment = Boolean(wrap);
+
+  /**
+   * Get paragraph indent for the current visual line
+   */
+  const getLineIndent = (): number => {
+    return startIndent + (isFirstLineOfParagraph ? paragraphStyle.firstLineIndent : 0);
+  };
+
+  /**
+   * Get available width for the current visual line
+   */
+  const getAvailableWidth = (): number => {
+    const width = wrap && segment ? segment.right - segment.left : baseAvailableWidth;
+    return width - listIndent - getLineIndent() - endIndent;
+  };
+
+  /**
+   * Give the current line a segment wide enough for its first token, if the
+   * shape has one before the bottom padding
+   */
+  const startLine = (tokenChars: StyledChar[], tokenWidth: number) => {
+    const height = calculateLineMetrics(tokenChars).height;
+    nextSegment(height);
+    while (tokenWidth > getAvailableWidth() && segment !== wrap!.full) {
+      nextSegment(height);
+    }
+    needsSegment = false;
+  };
+
+  /**
+   * The current line's area: its wrap segment, or the box inside the padding
+   */
+  const getLineArea = (): LineSegment =>
+    wrap ? segment! : { left: doc.padding, right: containerWidth - doc.padding };
+
+  /**
+   * Make the paragraph at least wide enough for a line of the given width
+   */
+  const noteLineWidth = (width: number) => {
+    widestLine = Math.max(
+      widestLine,
+      getLineArea().left - doc.padding + listIndent + getLineIndent() + endIndent + width
+    );
+  };
+
+  const addToLine = (token: LayoutToken) => {
+    lineTokens.push(token);
+    currentLineChars.push(...token.chars);
+    currentLineWidth += token.width;
+  };
+
+  const removeLastFromLine = (): LayoutToken => {
+    const token = lineTokens.pop()!;
+    currentLineChars.splice(currentLineChars.length - token.chars.length);
+    currentLineWidth -= token.width;
+    return token;
+  };
 
-  const finalizeLine = (isLastLine: boolean = false, isNewlineTerminated: boolean = false) => {
-    const listItem = doc.listItems?.get(sourceLineIndex);
-    const listIndent = getListIndent(listItem);
-    const availableWidth = baseAvailableWidth - listIndent;
+  /**
+   * End the current line. A line that breaks inside a word ends with a
+   * hyphen `hyphenWidth` wide.
+   */
+  const finalizeLine = (isLastLineOfParagraph: boolean, columnBreak: boolean = false, hyphenWidth: number = 0) => {
+    if (needsSegment) {
+      startLine(currentLineChars, 0);
+    }
+    const indent = getLineIndent();
+    const availableWidth = getAvailableWidth();
+    const area = getLineArea();
+    const lineWidth = currentLineWidth + hyphenWidth;
+
+    // The optimal line breaker may shrink the spaces of a justified line:
+    // it is set to the available width
+    const shrunk =
+      doc.lineBreaking === 'optimal' &&
+      paragraphStyle.align === 'justify' &&
+      !isLastLineOfParagraph &&
+      !columnBreak &&
+      lineWidth > availableWidth &&
+      currentLineChars.some((char) => char.char === ' ');
+    const setWidth = shrunk ? availableWidth : lineWidth;
+
+    if (isFirstLineOfParagraph && !wrap) {
+      currentY += paragraphStyle.spaceBefore;
+    }
+    noteLineWidth(setWidth);
 
     if (currentLineChars.length === 0) {
       // Empty line (from newline character)
@@ -244,22 +1596,31 @@ export function layoutText(
         baseline: metrics.baseline,
         width: 0,
         lineIndex: lines.length,
+        paragraphIndex,
         listItem,
         listIndent,
+        indent,
+        direction,
+        ...(wrap && { segment: area }),
       });
-      currentY += metrics.height;
+      rowHeight = Math.max(rowHeight, metrics.height);
     } else {
       const metrics = calculateLineMetrics(currentLineChars);
       const positionedChars = positionCharsInLine(
         currentLineChars,
-        doc.align,
+        bidi,
+        direction,
+        paragraphStyle.align,
         availableWidth,
-        currentLineWidth,
-        doc.padding + listIndent,
+        lineWidth,
+        area.left + (direction === 'rtl' ? endIndent : listIndent + indent),
         currentY,
         metrics.baseline,
         lines.length,
-        isLastLine
+        isLastLineOfParagraph || columnBreak, // Not justified
+        hyphenWidth,
+        doc.lineBreaking === 'optimal',
+        tabs
       );
 
       lines.push({
@@ -267,161 +1628,286 @@ export function layoutText(
         y: currentY,
         height: metrics.height,
         baseline: metrics.baseline,
-        width: currentLineWidth,
+        width: setWidth,
         lineIndex: lines.length,
+        paragraphIndex,
         listItem,
         listIndent,
+        indent,
+        direction,
+        ...(columnBreak && { columnBreak }),
+        ...(wrap && { segment: area }),
       });
+      rowHeight = Math.max(rowHeight, metrics.height);
+    }
+
+    // Unwrapped lines each have a row of their own
+    if (!wrap || isLastLineOfParagraph || columnBreak) {
+      currentY += rowHeight;
+      rowHeight = 0;
+      rowSegments = [];
+      rowStarted = false;
+    }
 
-      currentY += metrics.height;
+    if (isLastLineOfParagraph) {
+      currentY += paragraphStyle.spaceAfter;
     }
 
     currentLineChars = [];
     currentLineWidth = 0;
+    lineTokens = [];
+    isFirstLineOfParagraph = false;
+    needsSegment = Boolean(wrap);
+  };
 
-    // Increment source line index when we hit a newline
-    if (isNewlineTerminated) {
-      sourceLineIndex++;
+  // Optimal breaking (without a wrap shape or tabs, where line widths are
+  // known up front) sets the whole paragraph at once; text it cannot set is
+  // broken greedily instead
+  const contentWidth = baseAvailableWidth - listIndent - startIndent - endIndent;
+  const optimalLines =
+    doc.lineBreaking === 'optimal' && !wrap && !tokens.some((token) => token.type === 'tab')
+      ? breakLinesOptimally(
+          tokens,
+          (line) => contentWidth - (line === 0 && !continued ? paragraphStyle.firstLineIndent : 0),
+          paragraphStyle.align === 'justify'
+        )
+      : null;
+  optimalLines?.forEach((line, i) => {
+    line.tokens.forEach(addToLine);
+    if (i < optimalLines.length - 1) {
+      finalizeLine(false, line.columnBreak, line.hyphenWidth);
     }
-  };
+  });
 
-  // Process tokens and break into lines
-  let endsWithNewline = false;
-  for (let i = 0; i < tokens.length; i++) {
-    const token = tokens[i];
+  // Process tokens and break into lines. Tokens moved to the next line are
+  // pushed back and processed again.
+  const pending = optimalLines ? [] : [...tokens].reverse();
+  while (pending.length > 0) {
+    const token = pending.pop()!;
+
+    if (needsSegment && token.type !== 'columnbreak') {
+      startLine(token.chars, token.width);
+    }
 
-    if (token.type === 'newline') {
+    if (token.type === 'columnbreak') {
+      // Ends the line; the next line starts a new column
+      addToLine(token);
       finalizeLine(false, true);
-      endsWithNewline = (i === tokens.length - 1);
       continue;
     }
 
-    endsWithNewline = false;
+    const availableWidth = getAvailableWidth();
 
-    // Get current list indent for this source line
-    const listItem = doc.listItems?.get(sourceLineIndex);
-    const listIndent = getListIndent(listItem);
-    const availableWidth = baseAvailableWidth - listIndent;
+    if (token.type === 'tab') {
+      // Jump to the next tab stop (at most to the end of the line)
+      const following: LayoutToken[] = [];
+      for (let k = pending.length - 1; k >= 0 && !['tab', 'newline', 'columnbreak'].includes(pending[k].type); k--) {
+        following.push(pending[k]);
+      }
+      const tab = layoutTab(paragraphStyle.tabs, getLineIndent() - startIndent + currentLineWidth, following);
+      tab.width = Math.min(tab.width, Math.max(0, availableWidth - currentLineWidth));
+      tabs.set(token.chars[0], tab);
+      addToLine({ ...token, width: tab.width });
+      continue;
+    }
 
-    // Check if token fits on current line
-    if (currentLineWidth + token.width <= availableWidth || currentLineChars.length === 0) {
-      // Token fits or line is empty
-      currentLineChars.push(...token.chars);
-      currentLineWidth += token.width;
-    } else {
-      // Need to wrap
-      if (token.type === 'whitespace') {
-        // Don't start new line with whitespace
-        finalizeLine(false, false);
+    if (currentLineWidth + token.width <= availableWidth) {
+      // Token fits
+      addToLine(token);
+    } else if (currentLineChars.length === 0) {
+      if (token.type === 'word' && token.chars.length > 1) {
+        // Emergency break: a word wider than the line is broken where it
+        // reaches the end. It still counts at its full width, so the text
+        // does not fit the box (see fitsInBox).
+        const [head, rest] = splitTokenAt(token, availableWidth);
+        noteLineWidth(token.width);
+        addToLine(head);
+        finalizeLine(false);
+        pending.push(rest);
       } else {
-        // Word doesn't fit - wrap
-        finalizeLine(false, false);
-        currentLineChars.push(...token.chars);
-        currentLineWidth = token.width;
+        addToLine(token);
+      }
+    } else if (token.type === 'whitespace') {
+      // Don't start new line with whitespace
+      finalizeLine(false);
+    } else {
+      // Word doesn't fit - wrap. A line ending inside a word gets a hyphen;
+      // pieces of the word it has no room for move down with the token.
+      pending.push(token);
+      let last = lineTokens[lineTokens.length - 1];
+      while (
+        last.hyphenWidth !== undefined &&
+        lineTokens.length > 1 &&
+        currentLineWidth + last.hyphenWidth > availableWidth
+      ) {
+        pending.push(removeLastFromLine());
+        last = lineTokens[lineTokens.length - 1];
       }
+      finalizeLine(false, false, last.hyphenWidth ?? 0);
     }
   }
 
-  // Finalize last line
-  if (currentLineChars.length > 0 || lines.length === 0) {
-    finalizeLine(true, false);
+  // Finalize last line. A paragraph ended by a newline always gets one (even
+  // if empty); the document's last paragraph only if anything is left, or if
+  // it is empty or ends with a column break so the caret has a line to sit on.
+  const endsWithColumnBreak = tokens[tokens.length - 1]?.type === 'columnbreak';
+  if (!isLastParagraph || currentLineChars.length > 0 || lines.length === 0 || endsWithColumnBreak) {
+    finalizeLine(true);
   }
 
-  // If document ends with newline, create an empty line for the cursor
-  if (endsWithNewline) {
-    finalizeLine(true, false);
-  }
+  return { lines, width: widestLine, height: currentY };
+}
 
-  // Apply vertical alignment
-  const totalTextHeight = currentY - doc.padding;
-  let verticalOffset = 0;
+/**
+ * Bidi type and resolved embedding level of a paragraph's characters
+ */
+type ParagraphBidi = Map<StyledChar, { bidiClass: BidiClass; level: number }>;
 
-  if (doc.verticalAlign === 'middle') {
-    verticalOffset = (containerHeight - totalTextHeight - doc.padding) / 2;
-  } else if (doc.verticalAlign === 'bottom') {
-    verticalOffset = containerHeight - totalTextHeight - doc.padding * 2;
-  }
+/**
+ * Resolve a paragraph's base direction ('auto' follows the first strong
+ * character, falling back to left-to-right)
+ */
+function resolveDirection(direction: TextDirection, chars: StyledChar[]): 'ltr' | 'rtl' {
+  if (direction !== 'auto') return direction;
+  return getBaseDirection(chars.map((c) => c.char).join('')) ?? 'ltr';
+}
 
-  if (verticalOffset > 0) {
-    for (const line of lines) {
-      line.y += verticalOffset;
-      for (const char of line.chars) {
-        char.y += verticalOffset;
-      }
-    }
-  }
+/**
+ * Resolve embedding levels for a paragraph, or null when it is entirely
+ * left to right and needs no reordering
+ */
+function resolveParagraphBidi(chars: StyledChar[], direction: 'ltr' | 'rtl'): ParagraphBidi | null {
+  const texts = chars.map((c) => c.char);
+  if (direction === 'ltr' && !containsRightToLeft(texts.join(''))) return null;
 
-  // Flatten all positioned chars
-  const allChars: PositionedChar[] = [];
-  for (const line of lines) {
-    allChars.push(...line.chars);
-  }
+  const classes = getBidiClasses(texts);
+  const levels = resolveBidiLevels(classes, direction === 'rtl' ? 1 : 0);
 
-  return {
-    lines,
-    width: containerWidth,
-    height: containerHeight,
-    chars: allChars,
-  };
+  const bidi: ParagraphBidi = new Map();
+  chars.forEach((char, i) => bidi.set(char, { bidiClass: classes[i], level: levels[i] }));
+  return bidi;
 }
 
 /**
- * Position characters within a line based on alignment
+ * Position characters within a line based on alignment, in visual order.
+ * `left` is the x of the line's text area; 'left' and 'right' alignment are
+ * relative to the paragraph direction ('left' is the start edge). With a
+ * `hyphenWidth`, the line's last character is followed by a hyphen. With
+ * `spreadLetters`, justified lines with few spaces also space out letters.
+ * Tabs take the width they were laid out with (`tabs`); lines with tabs are
+ * not justified.
  */
 function positionCharsInLine(
   chars: StyledChar[],
+  bidi: ParagraphBidi | null,
+  direction: 'ltr' | 'rtl',
   align: TextAlign,
   availableWidth: number,
   lineWidth: number,
-  padding: number,
+  left: number,
   lineY: number,
   baseline: number,
   lineIndex: number,
-  isLastLine: boolean
+  isLastLine: boolean,
+  hyphenWidth: number = 0,
+  spreadLetters: boolean = false,
+  tabs?: Map<StyledChar, TabLayout>
 ): PositionedChar[] {
   const positioned: PositionedChar[] = [];
+  const hyphenated = hyphenWidth > 0 ? chars[chars.length - 1] : null;
+  const paragraphLevel = direction === 'rtl' ? 1 : 0;
+
+  // Visual order (without right-to-left text, the logical order)
+  let levels: number[] = chars.map(() => paragraphLevel);
+  let order = chars.map((_, i) => i);
+  if (bidi) {
+    levels = chars.map((c) => bidi.get(c)!.level);
+    order = reorderLine(chars.map((c) => bidi.get(c)!.bidiClass), levels, paragraphLevel);
+  }
+
+  // Spaces at the end of a line are not stretched, so justified text ends
+  // at the edge
+  let contentEnd = chars.length;
+  while (contentEnd > 0 && chars[contentEnd - 1].char === ' ') contentEnd--;
 
   // Calculate starting X based on alignment
-  let startX = padding;
+  let startX = left;
   let extraSpacing = 0;
+  let letterSpacing = 0;
   let spaceCount = 0;
 
-  if (align === 'center') {
-    startX = padding + (availableWidth - lineWidth) / 2;
-  } else if (align === 'right') {
-    startX = padding + availableWidth - lineWidth;
-  } else if (align === 'justify' && !isLastLine && chars.length > 1) {
+  if (align === 'justify' && !isLastLine && chars.length > 1 && !chars.some((char) => tabs?.has(char))) {
     // Count spaces for justification
-    for (const char of chars) {
-      if (char.char === ' ') spaceCount++;
+    let trailingWidth = 0;
+    chars.forEach((char, i) => {
+      if (i >= contentEnd) {
+        trailingWidth += measureStyledChar(char);
+      } else if (char.char === ' ') {
+        spaceCount++;
+      }
+    });
+    let extra = availableWidth - (lineWidth - trailingWidth);
+
+    // With only one or two spaces to take it, part of the extra space goes
+    // between letters (up to MAX_LETTER_SPACING)
+    if (spreadLetters && spaceCount < 3 && contentEnd > 1 && extra > 0) {
+      const maxLetterSpacing = MAX_LETTER_SPACING * chars[0].style.fontSize;
+      letterSpacing = Math.min(extra / (contentEnd - 1 + spaceCount), maxLetterSpacing);
+      extra -= letterSpacing * (contentEnd - 1);
     }
     if (spaceCount > 0) {
-      extraSpacing = (availableWidth - lineWidth) / spaceCount;
+      extraSpacing = extra / spaceCount;
     }
   }
+  const spreadWidth = lineWidth + (contentEnd > 0 ? letterSpacing * (contentEnd - 1) : 0);
+
+  if (align === 'center') {
+    startX = left + (availableWidth - lineWidth) / 2;
+  } else if (spaceCount === 0 && (align === 'right') !== (direction === 'rtl')) {
+    // Flush right: 'right' in left-to-right text; 'left' (the start edge) and
+    // unjustified 'justify' lines in right-to-left text
+    startX = left + availableWidth - spreadWidth;
+  }
 
+  // Letters are spaced out up to the last one drawn (not before trailing spaces)
+  const lastLetter = order.filter((i) => i < contentEnd).pop();
   let currentX = startX;
 
-  for (const char of chars) {
-    const charWidth = measureChar(char.char, char.style);
-    const metrics = getFontMetrics(char.style);
+  for (const i of order) {
+    const char = chars[i];
+    const tab = tabs?.get(char);
+    const charWidth = (tab ? tab.width : measureStyledChar(char)) + (char === hyphenated ? hyphenWidth : 0);
+    const metrics = getCharMetrics(char);
+
+    // Raised or lowered text gets a box of its own around the moved glyph,
+    // so carets, selection and decorations follow it; so does an inline object
+    const shift = char.object ? 0 : getBaselineShift(char.style);
+    const ownBox = shift !== 0 || char.object !== undefined;
+    const charBaseline = ownBox ? metrics.ascent : baseline;
+    const charY = ownBox ? lineY + baseline - shift - charBaseline : lineY;
 
     positioned.push({
       char,
       x: currentX,
-      y: lineY,
+      y: charY,
       width: charWidth,
-      height: metrics.height * char.style.lineHeight,
-      baseline,
+      height: metrics.height,
+      baseline: charBaseline,
       lineIndex,
+      bidiLevel: levels[i],
+      ...(char === hyphenated && { hyphen: true }),
+      ...(tab?.leader && { leader: tab.leader }),
     });
 
     currentX += charWidth;
 
     // Add extra spacing for justify alignment
-    if (align === 'justify' && char.char === ' ') {
+    if (align === 'justify' && char.char === ' ' && i < contentEnd) {
       currentX += extraSpacing;
     }
+    if (i < contentEnd && i !== lastLetter) {
+      currentX += letterSpacing;
+    }
   }
 
   return positioned;
@@ -460,32 +1946,33 @@ export function getCaretPosition(
 
   // Find character at or before the absolute index
   if (absoluteIndex === 0) {
-    const firstChar = layout.chars[0];
+    const firstChar = layout.chars.find((c) => c.char.absoluteIndex === 0) ?? layout.chars[0];
     return {
-      x: firstChar.x,
+      x: isRightToLeft(firstChar) ? firstChar.x + firstChar.width : firstChar.x,
       y: firstChar.y,
       height: firstChar.height,
     };
   }
 
-  // Find the character just before the caret position
+  // Find the character (cluster) that ends at the caret position. The caret
+  // sits on its trailing edge: the right edge, or the left edge for
+  // right-to-left characters.
   let foundChar = false;
   for (let i = 0; i < layout.chars.length; i++) {
-    if (layout.chars[i].char.absoluteIndex === absoluteIndex - 1) {
+    const { absoluteIndex: charStart, char: text } = layout.chars[i].char;
+    if (charStart + text.length === absoluteIndex) {
       const char = layout.chars[i];
       foundChar = true;
 
-      // Special case: if the character before caret is a newline,
-      // position caret at start of NEXT line, not end of current line
-      if (char.char.char === '\n') {
+      // Special case: if the character before caret is a newline or column
+      // break, position caret at start of NEXT line, not end of current line
+      if (char.char.char === '\n' || char.char.char === COLUMN_BREAK) {
         // Find the next line
         const currentLineIndex = char.lineIndex;
         for (const line of layout.lines) {
           if (line.lineIndex === currentLineIndex + 1) {
-            // Get the list indent for this line
-            const listIndent = line.listIndent || 0;
             return {
-              x: padding + listIndent,
+              x: getLineStartX(layout, doc, line),
               y: line.y,
               height: line.height,
             };
@@ -495,12 +1982,8 @@ export function getCaretPosition(
         const currentLine = layout.lines.find(l => l.lineIndex === currentLineIndex);
         if (currentLine) {
           const nextLineY = currentLine.y + currentLine.height;
-          // Check if next line would have list formatting
-          const nextLineIndex = currentLineIndex + 1;
-          const nextListItem = doc.listItems.get(nextLineIndex);
-          const nextListIndent = nextListItem ? getListIndentForItem(nextListItem) : 0;
           return {
-            x: padding + nextListIndent,
+            x: getParagraphStartX(layout, doc, currentLineIndex + 1, currentLine),
             y: nextLineY,
             height: currentLine.height,
           };
@@ -508,7 +1991,7 @@ export function getCaretPosition(
       }
 
       return {
-        x: char.x + char.width,
+        x: isRightToLeft(char) ? char.x : char.x + char.width,
         y: char.y,
         height: char.height,
       };
@@ -533,9 +2016,8 @@ export function getCaretPosition(
       // Find the line for this source line index
       for (const line of layout.lines) {
         if (line.lineIndex === newlineCount) {
-          const listIndent = line.listIndent || 0;
           return {
-            x: padding + listIndent,
+            x: getLineStartX(layout, doc, line),
             y: line.y,
             height: line.height,
           };
@@ -546,10 +2028,8 @@ export function getCaretPosition(
       const lastLine = layout.lines[layout.lines.length - 1];
       if (lastLine) {
         const nextLineY = lastLine.y + lastLine.height;
-        const nextListItem = doc.listItems.get(newlineCount);
-        const nextListIndent = nextListItem ? getListIndentForItem(nextListItem) : 0;
         return {
-          x: padding + nextListIndent,
+          x: getParagraphStartX(layout, doc, newlineCount, lastLine),
           y: nextLineY,
           height: lastLine.height,
         };
@@ -557,19 +2037,18 @@ export function getCaretPosition(
     }
   }
 
-  // Caret is at the end
-  const lastChar = layout.chars[layout.chars.length - 1];
+  // Caret is at the end (after the logically last character)
+  const lastChar = layout.chars.reduce((last, c) =>
+    c.char.absoluteIndex > last.char.absoluteIndex ? c : last
+  );
 
   // Special case: if last character is a newline, position on next line
   if (lastChar.char.char === '\n') {
     const currentLine = layout.lines.find(l => l.lineIndex === lastChar.lineIndex);
     if (currentLine) {
       const nextLineY = currentLine.y + currentLine.height;
-      const nextLineIndex = lastChar.lineIndex + 1;
-      const nextListItem = doc.listItems.get(nextLineIndex);
-      const nextListIndent = nextListItem ? getListIndentForItem(nextListItem) : 0;
       return {
-        x: padding + nextListIndent,
+        x: getParagraphStartX(layout, doc, lastChar.lineIndex + 1, currentLine),
         y: nextLineY,
         height: currentLine.height,
       };
@@ -577,12 +2056,155 @@ export function getCaretPosition(
   }
 
   return {
-    x: lastChar.x + lastChar.width,
+    x: isRightToLeft(lastChar) ? lastChar.x : lastChar.x + lastChar.width,
     y: lastChar.y,
     height: lastChar.height,
   };
 }
 
+/**
+ * Whether a character was resolved right to left (odd embedding level)
+ */
+function isRightToLeft(char: PositionedChar): boolean {
+  return char.bidiLevel % 2 === 1;
+}
+
+/**
+ * Caret x at the start of a laid-out line (after its list and paragraph
+ * indent, on the right edge for right-to-left paragraphs)
+ */
+function getLineStartX(layout: LayoutResult, doc: RichTextDocument, line: LayoutLine): number {
+  const inset = (line.listIndent || 0) + line.indent;
+  const area = getLineBounds(layout, doc, line);
+  return line.direction === 'rtl' ? area.right - inset : area.left + inset;
+}
+
+/**
+ * Left and right edges of the text area a line is in: its wrap segment, its
+ * column, or the box (or linked frame) inside its padding
+ */
+export function getLineBounds(
+  layout: LayoutResult,
+  doc: RichTextDocument,
+  line: LayoutLine
+): { left: number; right: number } {
+  if (line.segment) {
+    return { left: line.segment.left, right: line.segment.right };
+  }
+  const column = getColumnsAt(layout, line.y)?.[line.column ?? 0];
+  if (column) {
+    return { left: column.x, right: column.x + column.width };
+  }
+  return { left: doc.padding, right: getFrameWidth(layout, line.y) - doc.padding };
+}
+
+/**
+ * Columns of the box a y coordinate is in (undefined for a single column)
+ */
+function getColumnsAt(layout: LayoutResult, y: number): LayoutColumn[] | undefined {
+  if (!layout.frames) return layout.columns;
+
+  let columns = layout.columns;
+  for (const frame of layout.frames) {
+    if (frame.top > y) break;
+    columns = frame.columns;
+  }
+  return columns;
+}
+
+/**
+ * Column a point is in. Columns meet in the middle of the gap between them.
+ */
+function getColumnAt(layout: LayoutResult, x: number, y: number): number {
+  const columns = getColumnsAt(layout, y);
+  if (!columns) return 0;
+
+  for (let k = columns.length - 1; k > 0; k--) {
+    const boundary = (columns[k - 1].x + columns[k - 1].width + columns[k].x) / 2;
+    if (x >= boundary) return k;
+  }
+  return 0;
+}
+
+/**
+ * Index (in layout.lines) of the line at a point: the first line of the
+ * point's column that ends below y, or the column's last line. Points in a
+ * column without lines get the last line. -1 if there are no lines. Of the
+ * wrap segments sharing that line's y, the one nearest to x is taken.
+ */
+export function getLineAtPoint(layout: LayoutResult, x: number, y: number): number {
+  const column = getColumnAt(layout, x, y);
+  let last = -1;
+
+  for (let i = 0; i < layout.lines.length; i++) {
+    const line = layout.lines[i];
+    if ((line.column ?? 0) !== column) continue;
+    if (y < line.y + line.height) return getSegmentAt(layout, i, x);
+    last = i;
+  }
+
+  return last !== -1 ? getSegmentAt(layout, last, x) : layout.lines.length - 1;
+}
+
+/**
+ * Of the lines in the same row as line `index` (wrap segments at the same
+ * y), the one whose segment is nearest to x
+ */
+function getSegmentAt(layout: LayoutResult, index: number, x: number): number {
+  const row = layout.lines[index];
+  if (!row.segment) return index;
+
+  const distance = (line: LayoutLine): number =>
+    Math.max(0, line.segment!.left - x, x - line.segment!.right);
+  const inRow = (line: LayoutLine): boolean =>
+    line.y === row.y && line.column === row.column && line.segment !== undefined;
+
+  let first = index;
+  while (first > 0 && inRow(layout.lines[first - 1])) first--;
+
+  let best = first;
+  for (let i = first; i < layout.lines.length && inRow(layout.lines[i]); i++) {
+    if (distance(layout.lines[i]) < distance(layout.lines[best])) best = i;
+  }
+  return best;
+}
+
+/**
+ * Width of the box a y coordinate is in: the layout width, or in a combined
+ * layout of linked frames the width of the frame at that y
+ */
+function getFrameWidth(layout: LayoutResult, y: number): number {
+  if (!layout.frames) return layout.width;
+
+  let width = layout.width;
+  for (const frame of layout.frames) {
+    if (frame.top > y) break;
+    width = frame.width;
+  }
+  return width;
+}
+
+/**
+ * Caret x at the start of a paragraph's first line, for a paragraph that has
+ * no laid-out line yet (it would follow `previousLine` in the same column)
+ */
+function getParagraphStartX(
+  layout: LayoutResult,
+  doc: RichTextDocument,
+  paragraphIndex: number,
+  previousLine: LayoutLine
+): number {
+  const listItem = doc.listItems.get(paragraphIndex);
+  const listIndent = listItem ? getListIndentForItem(listItem) : 0;
+  const paragraphStyle = getParagraphStyle(doc, paragraphIndex);
+  const area = getLineBounds(layout, doc, previousLine);
+
+  if (paragraphStyle.direction === 'rtl') {
+    return area.right - listIndent - paragraphStyle.indentRight - paragraphStyle.firstLineIndent;
+  }
+  return area.left + listIndent + paragraphStyle.indentLeft + paragraphStyle.firstLineIndent;
+}
+
 /**
  * Helper to get list indent for a list item
  */
@@ -605,25 +2227,9 @@ export function hitTest(
     return 0;
   }
 
-  // Find the line
-  let targetLine: LayoutLine | null = null;
-
-  for (const line of layout.lines) {
-    if (y >= line.y && y < line.y + line.height) {
-      targetLine = line;
-      break;
-    }
-  }
-
-  // If click is above first line
-  if (!targetLine && y < layout.lines[0].y) {
-    targetLine = layout.lines[0];
-  }
-
-  // If click is below last line
-  if (!targetLine) {
-    targetLine = layout.lines[layout.lines.length - 1];
-  }
+  // Find the line in the clicked column (clicks in paragraph spacing snap to
+  // the line below, clicks below the column's last line to that line)
+  const targetLine = layout.lines[getLineAtPoint(layout, x, y)];
 
   // If line is empty, return position at start of next content
   if (targetLine.chars.length === 0) {
@@ -635,22 +2241,34 @@ export function hitTest(
       }
     }
     // Return end of document
-    return layout.chars.length > 0
-      ? layout.chars[layout.chars.length - 1].char.absoluteIndex + 1
-      : 0;
+    const lastChar = layout.chars[layout.chars.length - 1].char;
+    return lastChar.absoluteIndex + lastChar.char.length;
   }
 
-  // Find character in line
+  // Find character in line (characters are in visual order). A click on a
+  // character's left half puts the caret on its left edge: before it, or
+  // after it for right-to-left characters.
   for (const char of targetLine.chars) {
     const charMidpoint = char.x + char.width / 2;
     if (x < charMidpoint) {
-      return char.char.absoluteIndex;
+      return isRightToLeft(char) ? getCharEnd(char) : char.char.absoluteIndex;
     }
   }
 
-  // Click is after last character in line
+  // Click is right of the last character in line. A column break ends its
+  // line, so the caret goes before it.
   const lastCharInLine = targetLine.chars[targetLine.chars.length - 1];
-  return lastCharInLine.char.absoluteIndex + 1;
+  if (lastCharInLine.char.char === COLUMN_BREAK) {
+    return lastCharInLine.char.absoluteIndex;
+  }
+  return isRightToLeft(lastCharInLine) ? lastCharInLine.char.absoluteIndex : getCharEnd(lastCharInLine);
+}
+
+/**
+ * Position right after a character (cluster)
+ */
+function getCharEnd(char: PositionedChar): AbsolutePosition {
+  return char.char.absoluteIndex + char.char.char.length;
 }
 
 /**
@@ -667,15 +2285,12 @@ export function hitTestBulletZone(
     return { inBulletZone: false, lineIndex: -1 };
   }
 
-  // Find the line at this y coordinate
-  let targetLine: LayoutLine | null = null;
-
-  for (const line of layout.lines) {
-    if (y >= line.y && y < line.y + line.height) {
-      targetLine = line;
-      break;
-    }
-  }
+  // Find the line at this point (in the point's column)
+  const column = getColumnAt(layout, x, y);
+  const index = layout.lines.findIndex(
+    (line) => (line.column ?? 0) === column && y >= line.y && y < line.y + line.height
+  );
+  const targetLine = index === -1 ? undefined : layout.lines[getSegmentAt(layout, index, x)];
 
   if (!targetLine) {
     return { inBulletZone: false, lineIndex: -1 };
@@ -688,11 +2303,15 @@ export function hitTestBulletZone(
   }
 
   // Check if click is in the bullet zone (before text starts)
-  // The bullet zone is from padding to where the text starts (listIndent)
+  // The bullet zone is from padding to where the text starts (listIndent),
+  // measured from the right edge in right-to-left paragraphs
   const bulletZoneStart = doc.padding;
   const bulletZoneEnd = targetLine.listIndent;
+  const area = getLineBounds(layout, doc, targetLine);
+  const startDistance =
+    targetLine.direction === 'rtl' ? area.right + doc.padding - x : x - (area.left - doc.padding);
 
-  if (x >= bulletZoneStart && x < bulletZoneEnd) {
+  if (startDistance >= bulletZoneStart && startDistance < bulletZoneEnd) {
     return { inBulletZone: true, lineIndex: targetLine.lineIndex };
   }
 
@@ -713,46 +2332,59 @@ export function getSelectionBoxes(
 
   const boxes: { x: number; y: number; width: number; height: number }[] = [];
 
-  // Group selected characters by line
-  const lineSelections = new Map<
-    number,
-    { minX: number; maxX: number; y: number; height: number }
-  >();
+  // One box per visually contiguous run of selected characters. A range in
+  // mixed-direction text can cover several runs of the same line.
+  let current: { x: number; y: number; width: number; height: number } | null = null;
+  let currentLine = -1;
 
   for (const char of layout.chars) {
     const charIndex = char.char.absoluteIndex;
-    if (charIndex >= start && charIndex < end) {
-      const lineIndex = char.lineIndex;
-
-      if (!lineSelections.has(lineIndex)) {
-        lineSelections.set(lineIndex, {
-          minX: char.x,
-          maxX: char.x + char.width,
-          y: char.y,
-          height: char.height,
-        });
-      } else {
-        const sel = lineSelections.get(lineIndex)!;
-        sel.minX = Math.min(sel.minX, char.x);
-        sel.maxX = Math.max(sel.maxX, char.x + char.width);
-        sel.height = Math.max(sel.height, char.height);
-      }
+    if (charIndex < start || charIndex >= end) {
+      current = null;
+      continue;
     }
-  }
 
-  // Convert to boxes
-  for (const sel of lineSelections.values()) {
-    boxes.push({
-      x: sel.minX,
-      y: sel.y,
-      width: sel.maxX - sel.minX,
-      height: sel.height,
-    });
+    if (current && char.lineIndex === currentLine) {
+      // Raised or lowered characters extend the box
+      const bottom = Math.max(current.y + current.height, char.y + char.height);
+      current.width = char.x + char.width - current.x;
+      current.y = Math.min(current.y, char.y);
+      current.height = bottom - current.y;
+    } else {
+      current = { x: char.x, y: char.y, width: char.width, height: char.height };
+      currentLine = char.lineIndex;
+      boxes.push(current);
+    }
   }
 
   return boxes;
 }
 
+/**
+ * Rule lines between columns, down the middle of each gap from the top to
+ * the bottom padding. None unless the document's columns have a rule.
+ */
+export function getColumnRules(
+  layout: LayoutResult,
+  doc: RichTextDocument
+): { x: number; top: number; bottom: number; width: number; color: string }[] {
+  const rule = doc.columns?.rule;
+  const columns = layout.columns;
+  if (!rule || !columns || rule.width <= 0) return [];
+
+  const rules: { x: number; top: number; bottom: number; width: number; color: string }[] = [];
+  for (let k = 1; k < columns.length; k++) {
+    rules.push({
+      x: (columns[k - 1].x + columns[k - 1].width + columns[k].x) / 2,
+      top: doc.padding,
+      bottom: layout.height - doc.padding,
+      width: rule.width,
+      color: rule.color,
+    });
+  }
+  return rules;
+}
+
 /**
  * Clear measurement cache (useful when fonts change)
  */
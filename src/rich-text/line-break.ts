@@ -0,0 +1,173 @@
+// ============================================================================
+// Line Breaking - Unicode Line Breaking Algorithm (UAX #14)
+// Finds where a run of text without spaces may wrap: after hyphens, slashes
+// and dashes, between CJK characters, after soft hyphens and zero-width
+// spaces, but not before closing punctuation or inside numbers. Breaks are
+// found between grapheme clusters; spaces are handled by the layout.
+// ============================================================================
+
+/**
+ * Line breaking classes (UAX #14, Table 1), reduced to the ones the pair
+ * rules below distinguish: combining marks belong to their cluster, Hangul
+ * syllables and jamo break like ideographs, complex-context scripts (Thai,
+ * Lao, Khmer, Myanmar) and unknown characters like letters
+ */
+export type LineBreakClass =
+  | 'AL' | 'HL' | 'ID' | 'NU'
+  | 'OP' | 'CL' | 'CP' | 'QU' | 'GL' | 'NS' | 'EX' | 'SY' | 'IS' | 'PR' | 'PO'
+  | 'BA' | 'BB' | 'HY' | 'B2' | 'IN' | 'ZW' | 'WJ' | 'CB'
+  | 'SP' | 'BK' | 'EB' | 'EM';
+
+/**
+ * Code point ranges with a class other than AL, checked in order. This
+ * covers the characters that matter in practice rather than the full
+ * Unicode data file.
+ */
+const CLASS_RANGES: [number, number, LineBreakClass][] = [
+  // Spaces and breaks (the layout splits on these before breaking words)
+  [0x0009, 0x0009, 'BA'], [0x000a, 0x000d, 'BK'], [0x0020, 0x0020, 'SP'],
+  [0x0085, 0x0085, 'BK'], [0x2028, 0x2029, 'BK'],
+  // Glue and break controls
+  [0x00a0, 0x00a0, 'GL'], [0x034f, 0x034f, 'GL'], [0x2007, 0x2007, 'GL'],
+  [0x2011, 0x2011, 'GL'], [0x202f, 0x202f, 'GL'], [0x180e, 0x180e, 'GL'],
+  [0x200b, 0x200b, 'ZW'], [0x2060, 0x2060, 'WJ'], [0xfeff, 0xfeff, 'WJ'],
+  [0xfffc, 0xfffc, 'CB'],
+  // Break opportunities after: soft hyphen, spaces other than U+0020, dashes
+  [0x00ad, 0x00ad, 'BA'], [0x058a, 0x058a, 'BA'], [0x1680, 0x1680, 'BA'],
+  [0x2000, 0x2006, 'BA'], [0x2008, 0x200a, 'BA'], [0x2010, 0x2010, 'BA'],
+  [0x2012, 0x2013, 'BA'], [0x205f, 0x205f, 'BA'], [0x2027, 0x2027, 'BA'],
+  [0x007c, 0x007c, 'BA'], [0x0f0b, 0x0f0b, 'BA'], [0x1361, 0x1361, 'BA'],
+  [0x002d, 0x002d, 'HY'],
+  [0x2014, 0x2014, 'B2'],
+  [0x00b4, 0x00b4, 'BB'], [0x02c8, 0x02c8, 'BB'], [0x02cc, 0x02cc, 'BB'],
+  [0x02df, 0x02df, 'BB'],
+  [0x2024, 0x2026, 'IN'], [0x22ef, 0x22ef, 'IN'], [0xfe19, 0xfe19, 'IN'],
+  // Punctuation
+  [0x0021, 0x0021, 'EX'], [0x003f, 0x003f, 'EX'], [0x00a1, 0x00a1, 'OP'],
+  [0x00bf, 0x00bf, 'OP'], [0xff01, 0xff01, 'EX'], [0xff1f, 0xff1f, 'EX'],
+  [0x0022, 0x0022, 'QU'], [0x0027, 0x0027, 'QU'], [0x00ab, 0x00ab, 'QU'],
+  [0x00bb, 0x00bb, 'QU'], [0x2018, 0x2019, 'QU'], [0x201b, 0x201d, 'QU'],
+  [0x201f, 0x201f, 'QU'], [0x2039, 0x203a, 'QU'],
+  [0x0028, 0x0028, 'OP'], [0x005b, 0x005b, 'OP'], [0x007b, 0x007b, 'OP'],
+  [0x201a, 0x201a, 'OP'], [0x201e, 0x201e, 'OP'],
+  [0x0029, 0x0029, 'CP'], [0x005d, 0x005d, 'CP'], [0x007d, 0x007d, 'CL'],
+  [0x002c, 0x002c, 'IS'], [0x002e, 0x002e, 'IS'], [0x003a, 0x003b, 'IS'],
+  [0x037e, 0x037e, 'IS'], [0x0589, 0x0589, 'IS'], [0x060c, 0x060d, 'IS'],
+  [0x2044, 0x2044, 'IS'], [0x002f, 0x002f, 'SY'],
+  // Prefix and postfix numeric (currency, percent, degrees)
+  [0x0024, 0x0024, 'PR'], [0x002b, 0x002b, 'PR'], [0x005c, 0x005c, 'PR'],
+  [0x00a3, 0x00a5, 'PR'], [0x00b1, 0x00b1, 'PR'], [0x20a0, 0x20cf, 'PR'],
+  [0x2116, 0x2116, 'PR'], [0x2212, 0x2213, 'PR'], [0xffe1, 0xffe1, 'PR'],
+  [0xffe5, 0xffe6, 'PR'],
+  [0x0025, 0x0025, 'PO'], [0x00a2, 0x00a2, 'PO'], [0x00b0, 0x00b0, 'PO'],
+  [0x2030, 0x2037, 'PO'], [0x2103, 0x2103, 'PO'], [0x2109, 0x2109, 'PO'],
+  [0xff05, 0xff05, 'PO'], [0xffe0, 0xffe0, 'PO'],
+  // Digits
+  [0x0030, 0x0039, 'NU'], [0x0660, 0x0669, 'NU'], [0x06f0, 0x06f9, 'NU'],
+  [0x0966, 0x096f, 'NU'], [0x0e50, 0x0e59, 'NU'],
+  // Hebrew letters
+  [0x05d0, 0x05ea, 'HL'], [0x05ef, 0x05f2, 'HL'], [0xfb1d, 0xfb4f, 'HL'],
+  // CJK punctuation: small kana and marks that may not start a line,
+  // opening and closing brackets, full stops and commas
+  [0x3001, 0x3002, 'CL'], [0xff0c, 0xff0c, 'CL'], [0xff0e, 0xff0e, 'CL'],
+  [0xff61, 0xff61, 'CL'], [0xff64, 0xff64, 'CL'],
+  [0x3008, 0x3008, 'OP'], [0x300a, 0x300a, 'OP'], [0x300c, 0x300c, 'OP'],
+  [0x300e, 0x300e, 'OP'], [0x3010, 0x3010, 'OP'], [0x3014, 0x3014, 'OP'],
+  [0x3016, 0x3016, 'OP'], [0x3018, 0x3018, 'OP'], [0x301a, 0x301a, 'OP'],
+  [0xff08, 0xff08, 'OP'], [0xff3b, 0xff3b, 'OP'], [0xff5b, 0xff5b, 'OP'],
+  [0x3009, 0x3009, 'CL'], [0x300b, 0x300b, 'CL'], [0x300d, 0x300d, 'CL'],
+  [0x300f, 0x300f, 'CL'], [0x3011, 0x3011, 'CL'], [0x3015, 0x3015, 'CL'],
+  [0x3017, 0x3017, 'CL'], [0x3019, 0x3019, 'CL'], [0x301b, 0x301b, 'CL'],
+  [0xff09, 0xff09, 'CP'], [0xff3d, 0xff3d, 'CP'], [0xff5d, 0xff5d, 'CL'],
+  [0x3005, 0x3005, 'NS'], [0x301c, 0x301c, 'NS'], [0x303b, 0x303c, 'NS'],
+  [0x309b, 0x309e, 'NS'], [0x30a0, 0x30a0, 'NS'], [0x30fb, 0x30fe, 'NS'],
+  [0x3041, 0x3041, 'NS'], [0x3043, 0x3043, 'NS'], [0x3045, 0x3045, 'NS'],
+  [0x3047, 0x3047, 'NS'], [0x3049, 0x3049, 'NS'], [0x3063, 0x3063, 'NS'],
+  [0x3083, 0x3083, 'NS'], [0x3085, 0x3085, 'NS'], [0x3087, 0x3087, 'NS'],
+  [0x308e, 0x308e, 'NS'], [0x3095, 0x3096, 'NS'], [0x30a1, 0x30a1, 'NS'],
+  [0x30a3, 0x30a3, 'NS'], [0x30a5, 0x30a5, 'NS'], [0x30a7, 0x30a7, 'NS'],
+  [0x30a9, 0x30a9, 'NS'], [0x30c3, 0x30c3, 'NS'], [0x30e3, 0x30e3, 'NS'],
+  [0x30e5, 0x30e5, 'NS'], [0x30e7, 0x30e7, 'NS'], [0x30ee, 0x30ee, 'NS'],
+  [0x30f5, 0x30f6, 'NS'], [0x31f0, 0x31ff, 'NS'], [0xff67, 0xff70, 'NS'],
+  [0xff1a, 0xff1b, 'NS'],
+  // Ideographs, kana, Hangul and full-width forms
+  [0x1100, 0x115f, 'ID'], [0x2e80, 0x2fff, 'ID'], [0x3000, 0x3000, 'BA'],
+  [0x3003, 0x3004, 'ID'], [0x3006, 0x3007, 'ID'], [0x3012, 0x3013, 'ID'],
+  [0x3020, 0x303a, 'ID'], [0x303d, 0x303f, 'ID'], [0x3040, 0x30ff, 'ID'],
+  [0x3100, 0x318f, 'ID'], [0x3190, 0x31ef, 'ID'], [0x3200, 0x4dbf, 'ID'],
+  [0x4e00, 0x9fff, 'ID'], [0xa000, 0xa4cf, 'ID'], [0xa960, 0xa97f, 'ID'],
+  [0xac00, 0xd7af, 'ID'], [0xf900, 0xfaff, 'ID'], [0xfe30, 0xfe4f, 'ID'],
+  [0xff00, 0xff60, 'ID'], [0xffe2, 0xffe4, 'ID'], [0x1b000, 0x1b2ff, 'ID'],
+  [0x20000, 0x3fffd, 'ID'],
+  // Emoji
+  [0x1f3fb, 0x1f3ff, 'EM'],
+  [0x261d, 0x261d, 'EB'], [0x26f9, 0x26f9, 'EB'], [0x270a, 0x270d, 'EB'],
+  [0x1f385, 0x1f385, 'EB'], [0x1f3c2, 0x1f3cc, 'EB'], [0x1f442, 0x1f4aa, 'EB'],
+  [0x1f574, 0x1f64f, 'EB'], [0x1f6a3, 0x1f6cc, 'EB'], [0x1f90c, 0x1f9dd, 'EB'],
+  [0x1f000, 0x1faff, 'ID'], [0x2600, 0x27bf, 'ID'],
+];
+
+/**
+ * Line breaking class of a code point
+ */
+export function getLineBreakClass(codePoint: number): LineBreakClass {
+  for (const [start, end, lineBreakClass] of CLASS_RANGES) {
+    if (codePoint >= start && codePoint <= end) return lineBreakClass;
+  }
+  return 'AL';
+}
+
+/**
+ * Classes that keep a number together (UAX #14, LB25): the pairs inside
+ * and around a number such as `$(12.50)` or `-3,5%`
+ */
+const NUMBER_PAIRS = new Set([
+  'CL PO', 'CP PO', 'CL PR', 'CP PR', 'NU PO', 'NU PR', 'PO OP', 'PO NU', 'PR OP', 'PR NU',
+  'HY NU', 'IS NU', 'NU NU', 'SY NU',
+]);
+
+/**
+ * Whether a line may break between two adjacent characters of a word, from
+ * the pair rules of UAX #14 (LB7 to LB31)
+ */
+function canBreakBetween(before: LineBreakClass, after: LineBreakClass): boolean {
+  const letter = (c: LineBreakClass) => c === 'AL' || c === 'HL';
+  const ideograph = (c: LineBreakClass) => c === 'ID' || c === 'EB' || c === 'EM';
+
+  if (after === 'SP' || after === 'ZW') return false; // LB7
+  if (before === 'ZW') return true; // LB8
+  if (before === 'WJ' || after === 'WJ') return false; // LB11
+  if (before === 'GL') return false; // LB12
+  if (after === 'GL') return before === 'SP' || before === 'BA' || before === 'HY'; // LB12a
+  if (['CL', 'CP', 'EX', 'IS', 'SY'].includes(after)) return false; // LB13
+  if (before === 'OP') return false; // LB14
+  if (before === 'QU' && after === 'OP') return false; // LB15
+  if ((before === 'CL' || before === 'CP') && after === 'NS') return false; // LB16
+  if (before === 'B2' && after === 'B2') return false; // LB17
+  if (before === 'SP') return true; // LB18
+  if (before === 'QU' || after === 'QU') return false; // LB19
+  if (before === 'CB' || after === 'CB') return true; // LB20
+  if (['BA', 'HY', 'NS'].includes(after) || before === 'BB') return false; // LB21
+  if (after === 'IN') return false; // LB22
+  if ((letter(before) && after === 'NU') || (before === 'NU' && letter(after))) return false; // LB23
+  if ((before === 'PR' && ideograph(after)) || (ideograph(before) && after === 'PO')) return false; // LB23a
+  if ((before === 'PR' || before === 'PO') && letter(after)) return false; // LB24
+  if (letter(before) && (after === 'PR' || after === 'PO')) return false;
+  if (NUMBER_PAIRS.has(`${before} ${after}`)) return false; // LB25
+  if (letter(before) && letter(after)) return false; // LB28
+  if (before === 'IS' && letter(after)) return false; // LB29
+  if ((letter(before) || before === 'NU') && after === 'OP') return false; // LB30
+  if (before === 'CP' && (letter(after) || after === 'NU')) return false;
+  if (before === 'EB' && after === 'EM') return false; // LB30b
+  return true; // LB31
+}
+
+/**
+ * Where a run of characters (grapheme clusters) may wrap: for each
+ * character, whether a line can break before it. A cluster takes the class
+ * of its first code point; the first character never breaks.
+ */
+export function getBreakOpportunities(chars: string[]): boolean[] {
+  const classes = chars.map((char) => getLineBreakClass(char.codePointAt(0) ?? 0x20));
+  return classes.map((after, i) => i > 0 && canBreakBetween(classes[i - 1], after));
+}
@@ -0,0 +1,155 @@
+// ============================================================================
+// Links - Hyperlinks on text, and URLs typed into it
+// A link is part of a character's style, so editing, span merging, copy and
+// paste carry it along like any other style.
+// ============================================================================
+
+import { RichTextDocument, TextLink, TextRange, TextStyle, DEFAULT_STYLE } from './types';
+import { applyStyleToRange } from './document-model';
+
+/**
+ * How new links look
+ */
+export const LINK_STYLE = { color: '#0563C1', underline: true };
+
+/**
+ * A URL typed as text: a scheme or "www." followed by more than nothing
+ */
+const URL_PATTERN = /^(?:https?:\/\/|mailto:|www\.)[^\s/]\S*$/i;
+
+/**
+ * Punctuation around a URL that belongs to the sentence rather than the URL
+ */
+const LEADING_PUNCTUATION = /^[(<[{"']+/;
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]}>]+$/;
+
+/**
+ * Schemes a link may lead to; links without a scheme are relative
+ */
+const SAFE_LINK_SCHEMES = ['http', 'https', 'mailto'];
+
+/**
+ * Check if a link from outside (such as pasted HTML) is safe to keep: an
+ * http, https or mailto URL, or a relative one. Browsers ignore whitespace
+ * and control characters in a scheme, so "java\tscript:" counts as
+ * "javascript:".
+ */
+export function isSafeHref(href: string): boolean {
+  // eslint-disable-next-line no-control-regex
+  const scheme = href.replace(/[\u0000-\u0020]/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || SAFE_LINK_SCHEMES.includes(scheme[1].toLowerCase());
+}
+
+/**
+ * Check if two links lead to the same place with the same title
+ */
+export function linksEqual(a: TextLink | undefined, b: TextLink | undefined): boolean {
+  return a?.href === b?.href && a?.title === b?.title;
+}
+
+/**
+ * The link at a document position and the range of all its text. The
+ * character before the position counts first, then the one after it, so a
+ * caret at either end of a link is on it. Neighbouring text with the same
+ * link (in another style) belongs to the same link.
+ */
+export function getLinkAt(
+  doc: RichTextDocument,
+  position: number
+): { link: TextLink; range: TextRange } | null {
+  const spans = doc.spans.filter((span) => span.text.length > 0);
+  const starts: number[] = [];
+  let offset = 0;
+  for (const span of spans) {
+    starts.push(offset);
+    offset += span.text.length;
+  }
+
+  const spanAt = (index: number) =>
+    spans.findIndex((span, i) => index >= starts[i] && index < starts[i] + span.text.length);
+
+  let i = spanAt(position - 1);
+  if (i < 0 || !spans[i].style.link) i = spanAt(position);
+  if (i < 0 || !spans[i].style.link) return null;
+
+  const link = spans[i].style.link!;
+  let first = i;
+  let last = i;
+  while (first > 0 && linksEqual(spans[first - 1].style.link, link)) first--;
+  while (last < spans.length - 1 && linksEqual(spans[last + 1].style.link, link)) last++;
+
+  return {
+    link: { ...link },
+    range: { start: starts[first], end: starts[last] + spans[last].text.length },
+  };
+}
+
+/**
+ * Link a range, giving it the look of a link
+ */
+export function setLinkInRange(
+  doc: RichTextDocument,
+  start: number,
+  end: number,
+  link: TextLink
+): RichTextDocument {
+  return applyStyleToRange(doc, start, end, { ...LINK_STYLE, link: { ...link } });
+}
+
+/**
+ * Remove links from a range. Text that still has the look of a link goes
+ * back to the default color without an underline.
+ */
+export function removeLinkInRange(doc: RichTextDocument, start: number, end: number): RichTextDocument {
+  let result = doc;
+  let offset = 0;
+
+  for (const span of doc.spans) {
+    const from = Math.max(start, offset);
+    const to = Math.min(end, offset + span.text.length);
+    offset += span.text.length;
+    if (from >= to || !span.style.link) continue;
+
+    const style: Partial<TextStyle> = { link: undefined };
+    if (span.style.color === LINK_STYLE.color && span.style.underline) {
+      style.color = DEFAULT_STYLE.color;
+      style.underline = false;
+    }
+    result = applyStyleToRange(result, from, to, style);
+  }
+
+  return result;
+}
+
+/**
+ * Find a URL that ends at `end` (where the user just typed a space or a
+ * line break), without the punctuation around it. URLs starting with
+ * "www." get an https link.
+ */
+export function findUrlBefore(text: string, end: number): { range: TextRange; href: string } | null {
+  let start = end;
+  while (start > 0 && !/\s/.test(text[start - 1])) start--;
+
+  const word = text.slice(start, end);
+  const leading = word.match(LEADING_PUNCTUATION)?.[0].length ?? 0;
+  const url = word.slice(leading).replace(TRAILING_PUNCTUATION, '');
+  if (!URL_PATTERN.test(url)) return null;
+
+  const urlStart = start + leading;
+  return {
+    range: { start: urlStart, end: urlStart + url.length },
+    href: /^www\./i.test(url) ? `https://${url}` : url,
+  };
+}
+
+/**
+ * Turn a URL typed just before `position` into a link, unless it is linked
+ * already
+ */
+export function linkUrlBefore(doc: RichTextDocument, position: number): RichTextDocument {
+  const text = doc.spans.map((span) => span.text).join('');
+  const url = findUrlBefore(text, position);
+  if (!url || getLinkAt(doc, url.range.start + 1)) return doc;
+
+  return setLinkInRange(doc, url.range.start, url.range.end, { href: url.href });
+}
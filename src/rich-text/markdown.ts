@@ -0,0 +1,685 @@
+// ============================================================================
+// Markdown Import / Export
+// Converts between RichTextDocument and CommonMark (plus GFM ~~strikethrough~~)
+// ============================================================================
+//
+// Mapping:
+//   bold            <-> **text**
+//   italic          <-> *text*
+//   strikethrough   <-> ~~text~~
+//   bullet list     <-> "- item"      (nesting from ListItem.level)
+//   numbered list   <-> "1. item"
+//   paragraph break <-> blank line    (each extra blank line is an empty paragraph)
+//   hard line break  -> paragraph break ("text\" or two trailing spaces)
+//   link             -> [text](href "title")   (export only)
+//   inline image     -> ![alt](src)            (export only)
+//
+// On import, ATX headings become bold paragraphs and fenced code blocks are
+// kept as literal text. Styles without a Markdown equivalent (underline,
+// colors, fonts) are dropped on export.
+
+import {
+  RichTextDocument,
+  TextSpan,
+  TextStyle,
+  StyledChar,
+  ListItem,
+  DEFAULT_STYLE,
+  generateSpanId,
+  createEmptyDocument,
+} from './types';
+import { flattenDocument, renumberLists } from './document-model';
+import { linksEqual } from './links';
+
+/**
+ * Maximum list nesting level (matches indentListItem)
+ */
+const MAX_LIST_LEVEL = 5;
+
+/**
+ * Inline formatting that Markdown can express
+ */
+interface InlineFlags {
+  bold: boolean;
+  italic: boolean;
+  strikethrough: boolean;
+}
+
+/**
+ * A piece of parsed inline text with its formatting
+ */
+interface InlineSegment extends InlineFlags {
+  text: string;
+}
+
+/**
+ * A parsed block, which becomes one paragraph of the document
+ */
+interface MarkdownBlock {
+  text: string;
+  listItem?: ListItem;
+  heading?: boolean;
+  literal?: boolean; // Code block lines: no inline parsing
+  emptyBefore: number; // Empty paragraphs to insert before this block
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Convert a document to Markdown
+ */
+export function documentToMarkdown(doc: RichTextDocument): string {
+  const paragraphs = splitIntoParagraphs(flattenDocument(doc));
+  const output: string[] = [];
+
+  // Content column of the latest list item at each level, for nesting
+  const contentColumns: number[] = [];
+  let previous: 'text' | 'list' | null = null;
+  let pendingEmpty = 0;
+
+  paragraphs.forEach((chars, index) => {
+    const listItem = doc.listItems.get(index);
+    const isList = listItem !== undefined && listItem.type !== 'none';
+    const content = serializeInline(chars);
+
+    if (!isList && content.trim() === '') {
+      // Empty paragraphs are written as extra blank lines
+      if (previous !== null) pendingEmpty++;
+      return;
+    }
+
+    if (previous !== null) {
+      // List items stay together (tight list); everything else is separated
+      const separator = previous === 'list' && isList && pendingEmpty === 0 ? '\n' : '\n\n';
+      output.push(separator + '\n'.repeat(pendingEmpty));
+    }
+    pendingEmpty = 0;
+
+    if (isList) {
+      const level = Math.min(listItem.level, MAX_LIST_LEVEL);
+      const indent = level > 0 ? contentColumns[level - 1] ?? level * 2 : 0;
+      const marker = listItem.type === 'number' ? `${listItem.index || 1}.` : '-';
+
+      contentColumns[level] = indent + marker.length + 1;
+      contentColumns.length = level + 1;
+
+      output.push(' '.repeat(indent) + marker + ' ' + escapeBlockStart(content));
+      previous = 'list';
+    } else {
+      contentColumns.length = 0;
+      output.push(escapeBlockStart(content));
+      previous = 'text';
+    }
+  });
+
+  return output.join('');
+}
+
+/**
+ * Split flattened characters into paragraphs (newlines removed)
+ */
+function splitIntoParagraphs(chars: StyledChar[]): StyledChar[][] {
+  const paragraphs: StyledChar[][] = [[]];
+
+  for (const char of chars) {
+    if (char.char === '\n') {
+      paragraphs.push([]);
+    } else {
+      paragraphs[paragraphs.length - 1].push(char);
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Read the Markdown-expressible formatting of a style
+ */
+function getInlineFlags(style: TextStyle): InlineFlags {
+  return {
+    bold:
+      style.fontWeight === 'bold' ||
+      (typeof style.fontWeight === 'number' && style.fontWeight >= 600),
+    italic: style.fontStyle === 'italic',
+    strikethrough: style.strikethrough,
+  };
+}
+
+/**
+ * Serialize one paragraph of styled characters to inline Markdown: each run
+ * of text with the same link as one link, formatted inside
+ */
+function serializeInline(chars: StyledChar[]): string {
+  let out = '';
+  let start = 0;
+
+  while (start < chars.length) {
+    const link = chars[start].style.link;
+    let end = start + 1;
+    while (end < chars.length && linksEqual(chars[end].style.link, link)) end++;
+
+    const content = serializeUnlinked(chars.slice(start, end));
+    if (link) {
+      const title = link.title ? ` "${link.title.replace(/["\\]/g, '\\$&')}"` : '';
+      out += `[${content}](${formatDestination(link.href)}${title})`;
+    } else {
+      out += content;
+    }
+    start = end;
+  }
+
+  return out;
+}
+
+/**
+ * Serialize text without links: inline images, and the formatted text
+ * between them
+ */
+function serializeUnlinked(chars: StyledChar[]): string {
+  let out = '';
+  let start = 0;
+
+  for (let i = 0; i <= chars.length; i++) {
+    const object = chars[i]?.object;
+    if (i < chars.length && !object) continue;
+
+    out += serializeFormatted(chars.slice(start, i));
+    if (object) {
+      out += `![${escapeInline(object.alt ?? '')}](${formatDestination(object.src)})`;
+    }
+    start = i + 1;
+  }
+
+  return out;
+}
+
+/**
+ * Serialize formatted text.
+ * Markers are kept properly nested and never placed next to whitespace
+ * on their inner side, which CommonMark would not recognize.
+ */
+function serializeFormatted(chars: StyledChar[]): string {
+  // Group characters into runs of equal formatting
+  const runs: InlineSegment[] = [];
+  for (const char of chars) {
+    const flags = getInlineFlags(char.style);
+    const last = runs[runs.length - 1];
+    if (
+      last &&
+      last.bold === flags.bold &&
+      last.italic === flags.italic &&
+      last.strikethrough === flags.strikethrough
+    ) {
+      last.text += char.char;
+    } else {
+      runs.push({ ...flags, text: char.char });
+    }
+  }
+
+  // Whitespace-only runs take the formatting of the run before them
+  for (let i = 0; i < runs.length; i++) {
+    if (runs[i].text.trim() === '') {
+      const prev = runs[i - 1];
+      Object.assign(runs[i], prev
+        ? { bold: prev.bold, italic: prev.italic, strikethrough: prev.strikethrough }
+        : { bold: false, italic: false, strikethrough: false });
+    }
+  }
+
+  const markers: [keyof InlineFlags, string][] = [
+    ['strikethrough', '~~'],
+    ['bold', '**'],
+    ['italic', '*'],
+  ];
+
+  const open: (keyof InlineFlags)[] = [];
+  let out = '';
+
+  const closeFrom = (depth: number) => {
+    // Move trailing whitespace outside the closing markers
+    const trimmed = out.replace(/\s+$/, '');
+    const whitespace = out.slice(trimmed.length);
+    out = trimmed;
+    while (open.length > depth) {
+      const flag = open.pop()!;
+      out += markers.find(([key]) => key === flag)![1];
+    }
+    out += whitespace;
+  };
+
+  for (const run of runs) {
+    // Close every marker from the first one this run does not have
+    const firstMismatch = open.findIndex((flag) => !run[flag]);
+    if (firstMismatch !== -1) {
+      closeFrom(firstMismatch);
+    }
+
+    // Leading whitespace goes before any new opening markers
+    const text = escapeInline(run.text);
+    const leading = text.match(/^\s*/)![0];
+    out += leading;
+
+    for (const [flag, marker] of markers) {
+      if (run[flag] && !open.includes(flag)) {
+        open.push(flag);
+        out += marker;
+      }
+    }
+
+    out += text.slice(leading.length);
+  }
+
+  closeFrom(0);
+  return out;
+}
+
+/**
+ * Escape characters that Markdown would treat as inline syntax
+ */
+function escapeInline(text: string): string {
+  return text.replace(/[\\*_~`[\]<]/g, '\\$&');
+}
+
+/**
+ * Write a link or image destination, in angle brackets if it has spaces
+ */
+function formatDestination(url: string): string {
+  return /[\s<>]/.test(url) ? `<${url.replace(/[\\<>]/g, '\\$&')}>` : url.replace(/[\\()]/g, '\\$&');
+}
+
+/**
+ * Escape text at the start of a paragraph that would otherwise start a
+ * list, heading, block quote or code fence
+ */
+function escapeBlockStart(content: string): string {
+  return content
+    .replace(/^(\s*)(#{1,6}|[>+-])(?=\s|$)/, '$1\\$2')
+    .replace(/^(\s*\d{1,9})([.)])(?=\s|$)/, '$1\\$2');
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parse Markdown into a document
+ * @param markdown Markdown source
+ * @param baseStyle Style applied to all text before Markdown formatting
+ */
+export function parseMarkdown(
+  markdown: string,
+  baseStyle: Partial<TextStyle> = {}
+): RichTextDocument {
+  const blocks = parseBlocks(markdown);
+  const style: TextStyle = { ...DEFAULT_STYLE, ...baseStyle };
+  const spans: TextSpan[] = [];
+  const listItems = new Map<number, ListItem>();
+  let paragraphIndex = 0;
+
+  blocks.forEach((block, i) => {
+    for (let e = 0; e < block.emptyBefore; e++) {
+      pushSpan(spans, '\n', style);
+      paragraphIndex++;
+    }
+
+    if (i > 0) {
+      pushSpan(spans, '\n', style);
+      paragraphIndex++;
+    }
+
+    if (block.listItem) {
+      listItems.set(paragraphIndex, block.listItem);
+    }
+
+    const segments = block.literal
+      ? [{ text: block.text, bold: false, italic: false, strikethrough: false }]
+      : parseInline(block.text);
+
+    for (const segment of segments) {
+      pushSpan(spans, segment.text, {
+        ...style,
+        fontWeight: segment.bold || block.heading ? 'bold' : style.fontWeight,
+        fontStyle: segment.italic ? 'italic' : style.fontStyle,
+        strikethrough: segment.strikethrough || style.strikethrough,
+      });
+    }
+  });
+
+  const doc = createEmptyDocument();
+  if (spans.length > 0) {
+    doc.spans = spans;
+  } else {
+    doc.spans[0].style = style;
+  }
+
+  return renumberLists({ ...doc, listItems });
+}
+
+/**
+ * Append text to a span list, merging with the previous span when styles match
+ */
+function pushSpan(spans: TextSpan[], text: string, style: TextStyle): void {
+  if (!text) return;
+
+  const last = spans[spans.length - 1];
+  if (
+    last &&
+    last.style.fontWeight === style.fontWeight &&
+    last.style.fontStyle === style.fontStyle &&
+    last.style.strikethrough === style.strikethrough
+  ) {
+    last.text += text;
+  } else {
+    spans.push({ id: generateSpanId(), text, style });
+  }
+}
+
+/**
+ * Measure leading indentation (tabs count as 4 columns)
+ */
+function measureIndent(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width++;
+    else if (char === '\t') width += 4 - (width % 4);
+    else break;
+  }
+  return width;
+}
+
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Split Markdown source into blocks
+ */
+function parseBlocks(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+
+  // Indentation of list markers at each nesting level
+  const listIndents: number[] = [];
+  let current: MarkdownBlock | null = null; // Block that may take continuation lines
+  let hardBreak = false; // Previous line ended with a hard line break
+  let blankLines = 0;
+  let fence: string | null = null;
+
+  const pushBlock = (block: Omit<MarkdownBlock, 'emptyBefore'>): MarkdownBlock => {
+    const created = {
+      ...block,
+      emptyBefore: blocks.length > 0 ? Math.max(0, blankLines - 1) : 0,
+    };
+    blocks.push(created);
+    blankLines = 0;
+    hardBreak = false;
+    return created;
+  };
+
+  for (const rawLine of lines) {
+    // Inside a fenced code block every line is literal
+    if (fence !== null) {
+      if (rawLine.trim().startsWith(fence)) {
+        fence = null;
+      } else {
+        pushBlock({ text: rawLine, literal: true });
+        blankLines = 0;
+      }
+      continue;
+    }
+
+    if (rawLine.trim() === '') {
+      blankLines++;
+      current = null;
+      continue;
+    }
+
+    const fenceMatch = rawLine.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      current = null;
+      listIndents.length = 0;
+      continue;
+    }
+
+    // A trailing backslash or two trailing spaces make a hard line break
+    const endsWithBreak = /(\\| {2,})$/.test(rawLine);
+    const line = rawLine.replace(/(\\| +)$/, '');
+
+    const listMatch = line.match(LIST_ITEM_PATTERN);
+    if (listMatch && (listMatch[3] !== undefined || !current)) {
+      const indent = measureIndent(listMatch[1]);
+
+      while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) {
+        listIndents.pop();
+      }
+      if (listIndents.length === 0 || listIndents[listIndents.length - 1] < indent) {
+        listIndents.push(indent);
+      }
+
+      current = pushBlock({
+        text: (listMatch[3] ?? '').trim(),
+        listItem: {
+          type: /\d/.test(listMatch[2]) ? 'number' : 'bullet',
+          level: Math.min(listIndents.length - 1, MAX_LIST_LEVEL),
+          index: /\d/.test(listMatch[2]) ? parseInt(listMatch[2], 10) : 0,
+        },
+      });
+      hardBreak = endsWithBreak;
+      continue;
+    }
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch) {
+      listIndents.length = 0;
+      pushBlock({ text: (headingMatch[2] ?? '').trim(), heading: true });
+      current = null;
+      continue;
+    }
+
+    if (current && !hardBreak) {
+      // Soft line break: continuation of the current paragraph
+      current.text += ' ' + line.trim();
+    } else if (current && current.listItem) {
+      // Hard break inside a list item: the rest is a plain paragraph
+      current = pushBlock({ text: line.trim() });
+    } else {
+      if (blankLines > 0 || !current) listIndents.length = 0;
+      current = pushBlock({ text: line.trim() });
+    }
+    hardBreak = endsWithBreak;
+  }
+
+  return blocks;
+}
+
+/**
+ * Inline token: plain text or a run of delimiter characters
+ */
+interface InlineToken extends InlineFlags {
+  text: string;
+  delimiter?: '*' | '_' | '~';
+  canOpen?: boolean;
+  canClose?: boolean;
+  count?: number; // Delimiter characters not yet matched
+  length?: number; // Original length of the delimiter run
+}
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+function isWhitespace(char: string): boolean {
+  return char === '' || /\s/.test(char);
+}
+
+function isPunctuation(char: string): boolean {
+  return char !== '' && /[\p{P}\p{S}]/u.test(char);
+}
+
+/**
+ * CommonMark "rule of 3": a delimiter run that can both open and close cannot
+ * match another run if their combined length is a multiple of 3, unless both are
+ */
+function violatesRuleOfThree(opener: InlineToken, closer: InlineToken): boolean {
+  if (!opener.canClose && !closer.canOpen) return false;
+  const openLength = opener.length!;
+  const closeLength = closer.length!;
+  return (
+    (openLength + closeLength) % 3 === 0 &&
+    !(openLength % 3 === 0 && closeLength % 3 === 0)
+  );
+}
+
+/**
+ * Parse inline Markdown (emphasis, strong, strikethrough, escapes and code spans)
+ * using the CommonMark delimiter run rules
+ */
+function parseInline(source: string): InlineSegment[] {
+  const tokens: InlineToken[] = [];
+  const plain = { bold: false, italic: false, strikethrough: false };
+
+  const pushText = (text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && !last.delimiter) {
+      last.text += text;
+    } else {
+      tokens.push({ ...plain, text });
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    // Backslash escapes
+    if (char === '\\' && i + 1 < source.length && ESCAPABLE.test(source[i + 1])) {
+      pushText(source[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    // Code spans are literal
+    if (char === '`') {
+      const ticks = source.slice(i).match(/^`+/)![0];
+      const end = source.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        pushText(source.slice(i + ticks.length, end).replace(/^ (.*) $/, '$1'));
+        i = end + ticks.length;
+        continue;
+      }
+      pushText(ticks);
+      i += ticks.length;
+      continue;
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      let end = i;
+      while (end < source.length && source[end] === char) end++;
+
+      const before = i > 0 ? source[i - 1] : '';
+      const after = end < source.length ? source[end] : '';
+      const leftFlanking =
+        !isWhitespace(after) &&
+        (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+      const rightFlanking =
+        !isWhitespace(before) &&
+        (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+
+      tokens.push({
+        ...plain,
+        text: source.slice(i, end),
+        delimiter: char,
+        count: end - i,
+        length: end - i,
+        canOpen: char === '_' ? leftFlanking && (!rightFlanking || isPunctuation(before)) : leftFlanking,
+        canClose: char === '_' ? rightFlanking && (!leftFlanking || isPunctuation(after)) : rightFlanking,
+      });
+      i = end;
+      continue;
+    }
+
+    pushText(char);
+    i++;
+  }
+
+  // Match closers with the nearest compatible opener
+  for (let c = 0; c < tokens.length; c++) {
+    const closer = tokens[c];
+    if (!closer.delimiter || !closer.canClose) continue;
+
+    while (closer.count! > 0) {
+      let o = c - 1;
+      for (; o >= 0; o--) {
+        const opener = tokens[o];
+        if (
+          opener.delimiter === closer.delimiter &&
+          opener.canOpen &&
+          opener.count! > 0 &&
+          (closer.delimiter === '~'
+            ? opener.count === closer.count
+            : !violatesRuleOfThree(opener, closer))
+        ) {
+          break;
+        }
+      }
+      if (o < 0) break;
+
+      const opener = tokens[o];
+      const use: number = closer.delimiter === '~'
+        ? closer.count!
+        : opener.count! >= 2 && closer.count! >= 2 ? 2 : 1;
+      const flag: keyof InlineFlags = closer.delimiter === '~'
+        ? 'strikethrough'
+        : use === 2 ? 'bold' : 'italic';
+
+      for (let t = o + 1; t < c; t++) {
+        tokens[t][flag] = true;
+        // Unmatched delimiters inside a match stay literal
+        if (tokens[t].delimiter) tokens[t].canOpen = false;
+      }
+
+      // Consume delimiter characters from the inner side
+      opener.count! -= use;
+      opener.text = opener.text.slice(use);
+      closer.count! -= use;
+      closer.text = closer.text.slice(use);
+    }
+  }
+
+  const segments: InlineSegment[] = [];
+  for (const token of tokens) {
+    if (!token.text) continue;
+    const last = segments[segments.length - 1];
+    if (
+      last &&
+      last.bold === token.bold &&
+      last.italic === token.italic &&
+      last.strikethrough === token.strikethrough
+    ) {
+      last.text += token.text;
+    } else {
+      segments.push({
+        text: token.text,
+        bold: token.bold,
+        italic: token.italic,
+        strikethrough: token.strikethrough,
+      });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Heuristic check for Markdown in plain text (used for paste)
+ */
+export function looksLikeMarkdown(text: string): boolean {
+  return (
+    /^\s*([-*+]|\d{1,9}[.)])[ \t]+\S/m.test(text) ||
+    /^ {0,3}#{1,6}[ \t]+\S/m.test(text) ||
+    /^ {0,3}(`{3,}|~{3,})/m.test(text) ||
+    /(\*\*|__|~~)(?=\S)[^\n]*?\S\1/.test(text) ||
+    /(^|[\s(])([*_])(?=[^\s*_])[^\n*_]*[^\s*_]\2(?=$|[\s.,;:!?)])/m.test(text)
+  );
+}
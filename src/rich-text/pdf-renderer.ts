@@ -0,0 +1,686 @@
+// ============================================================================
+// PDF Renderer - Dependency-free PDF export using the standard 14 fonts
+// ============================================================================
+//
+// Each text box is drawn with its own transform, so rotation and scale from
+// Konva carry over. Characters are placed at their layout positions as real
+// text (selectable and searchable), using the standard 14 fonts that every
+// PDF viewer provides, so no font data needs to be embedded.
+//
+// Coordinates are in the same units as the Konva stage: one stage pixel is
+// one PDF point. Links become link annotations over their text.
+
+import {
+  LayoutResult,
+  LayoutLine,
+  RichTextDocument,
+  TextStyle,
+  COLUMN_BREAK,
+  SOFT_HYPHEN,
+} from './types';
+import {
+  getColumnRules,
+  getLineBounds,
+  getListNumberText,
+  getTabLeader,
+  measureChar,
+  getBaselineShift,
+  getFontSize,
+} from './layout-engine';
+import { placeOnPath } from './text-path';
+
+/**
+ * The standard 14 PDF fonts
+ */
+export type StandardFontName =
+  | 'Helvetica'
+  | 'Helvetica-Bold'
+  | 'Helvetica-Oblique'
+  | 'Helvetica-BoldOblique'
+  | 'Times-Roman'
+  | 'Times-Bold'
+  | 'Times-Italic'
+  | 'Times-BoldItalic'
+  | 'Courier'
+  | 'Courier-Bold'
+  | 'Courier-Oblique'
+  | 'Courier-BoldOblique'
+  | 'Symbol'
+  | 'ZapfDingbats';
+
+/**
+ * 2D affine transform [a, b, c, d, e, f], as returned by Konva's
+ * Transform.getMatrix()
+ */
+export type PDFMatrix = [number, number, number, number, number, number];
+
+/**
+ * A laid-out text box to draw on the page
+ */
+export interface PDFTextBox {
+  layout: LayoutResult;
+  document: RichTextDocument;
+  transform?: PDFMatrix; // Box-to-page transform (identity if omitted)
+}
+
+/**
+ * Page options
+ */
+export interface PDFExportOptions {
+  // Page size; defaults to the bounding box of all text boxes. The page
+  // starts at (0, 0), or further up and left to take in boxes placed at
+  // negative coordinates.
+  width?: number;
+  height?: number;
+  title?: string;
+}
+
+const IDENTITY: PDFMatrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * A clickable page area leading to a URI, in PDF page coordinates (y up)
+ */
+interface PDFLinkArea {
+  href: string;
+  rect: [number, number, number, number]; // left, bottom, right, top
+}
+
+/**
+ * Render text boxes onto a single-page PDF
+ * @returns The PDF file bytes
+ */
+export function renderTextBoxesToPDF(
+  boxes: PDFTextBox[],
+  options: PDFExportOptions = {}
+): Uint8Array {
+  const bounds = getPageBounds(boxes);
+  const pageWidth = options.width ?? bounds.width;
+  const pageHeight = options.height ?? bounds.height;
+
+  const fonts = new Map<StandardFontName, string>(); // font -> resource name
+  const getFontResource = (font: StandardFontName): string => {
+    let name = fonts.get(font);
+    if (!name) {
+      name = `F${fonts.size + 1}`;
+      fonts.set(font, name);
+    }
+    return name;
+  };
+
+  // Flip to a y-down coordinate system matching Konva
+  const ops: string[] = [`1 0 0 -1 0 ${num(pageHeight)} cm`];
+  const links: PDFLinkArea[] = [];
+
+  for (const box of boxes) {
+    const [a, b, c, d, e, f] = box.transform ?? IDENTITY;
+    const transform: PDFMatrix = [a, b, c, d, e - bounds.x, f - bounds.y];
+    ops.push('q', `${transform.map(num).join(' ')} cm`);
+    if (box.document.overflow === 'clip') {
+      ops.push(`0 0 ${num(box.layout.width)} ${num(box.layout.height)} re W n`);
+    }
+    ops.push(...drawHighlights(box.layout));
+    ops.push(...drawListMarkers(box.layout, box.document, getFontResource));
+    ops.push(...drawText(box.layout, getFontResource));
+    ops.push(...drawDecorations(box.layout));
+    ops.push(...drawColumnRules(box.layout, box.document));
+    ops.push('Q');
+    links.push(...getLinkAreas(box.layout, transform, pageHeight));
+  }
+
+  return buildPDF(ops.join('\n'), fonts, links, pageWidth, pageHeight, options.title);
+}
+
+/**
+ * Pick the standard font closest to a text style
+ */
+export function getStandardFontName(style: TextStyle): StandardFontName {
+  const family = style.fontFamily.toLowerCase();
+  const bold =
+    style.fontWeight === 'bold' || (typeof style.fontWeight === 'number' && style.fontWeight >= 600);
+  const italic = style.fontStyle === 'italic';
+
+  if (family.includes('symbol')) return 'Symbol';
+  if (family.includes('dingbat')) return 'ZapfDingbats';
+
+  if (/courier|mono|consolas|menlo|monaco/.test(family)) {
+    if (bold && italic) return 'Courier-BoldOblique';
+    if (bold) return 'Courier-Bold';
+    if (italic) return 'Courier-Oblique';
+    return 'Courier';
+  }
+
+  if (/times|serif|georgia|garamond|cambria|palatino|book/.test(family) && !family.includes('sans')) {
+    if (bold && italic) return 'Times-BoldItalic';
+    if (bold) return 'Times-Bold';
+    if (italic) return 'Times-Italic';
+    return 'Times-Roman';
+  }
+
+  if (bold && italic) return 'Helvetica-BoldOblique';
+  if (bold) return 'Helvetica-Bold';
+  if (italic) return 'Helvetica-Oblique';
+  return 'Helvetica';
+}
+
+// ============================================================================
+// Drawing
+// ============================================================================
+
+/**
+ * Operators drawing `shape` bent onto the layout's text path: the straight
+ * box at (x, y), `width` wide, is moved and turned to its place on the
+ * path. Without a path the shape is drawn as is.
+ */
+function bend(layout: LayoutResult, x: number, y: number, width: number, shape: string[]): string[] {
+  if (!layout.path) return shape;
+
+  return ['q', `${getBendMatrix(layout, x, y, width).map(num).join(' ')} cm`, ...shape, 'Q'];
+}
+
+/**
+ * Transform moving the straight box at (x, y), `width` wide, to its place
+ * on the layout's text path (identity without a path)
+ */
+function getBendMatrix(layout: LayoutResult, x: number, y: number, width: number): PDFMatrix {
+  if (!layout.path) return IDENTITY;
+
+  const placed = placeOnPath(layout.path, x, y, width);
+  const angle = (placed.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const e = placed.x - (cos * x - sin * y);
+  const f = placed.y - (sin * x + cos * y);
+  return [cos, sin, -sin, cos, e, f];
+}
+
+/**
+ * Draw characters as text, each at its exact layout position (turned to the
+ * curve on a text path)
+ */
+function drawText(
+  layout: LayoutResult,
+  getFontResource: (font: StandardFontName) => string
+): string[] {
+  const ops: string[] = ['BT'];
+  let currentFont = '';
+  let currentColor = '';
+
+  for (const posChar of layout.chars) {
+    const { char, style } = posChar.char;
+    // Inline objects (images) are not embedded; their space stays empty
+    if (char === '\n' || char === COLUMN_BREAK || posChar.char.object) continue;
+
+    const font = `/${getFontResource(getStandardFontName(style))} ${num(getFontSize(style))} Tf`;
+    if (font !== currentFont) {
+      ops.push(font);
+      currentFont = font;
+    }
+
+    const color = `${formatColor(style.color)} rg`;
+    if (color !== currentColor) {
+      ops.push(color);
+      currentColor = color;
+    }
+
+    // A cluster is one glyph: composed to a single code point where possible
+    // (e + combining acute is é), otherwise it has no glyph in these fonts.
+    // Soft hyphens only show as the hyphen of a line broken inside a word,
+    // tabs as their leader.
+    const composed = char.normalize('NFC');
+    const glyphs: { text: string; x: number; width: number }[] = [];
+    const hyphenWidth = posChar.hyphen ? measureChar('-', style) : 0;
+    if (char === '\t') {
+      glyphs.push(...getTabLeader(posChar));
+    } else if (char !== SOFT_HYPHEN) {
+      const text = Array.from(composed).length === 1 ? composed : '?';
+      glyphs.push({ text, x: posChar.x, width: posChar.width - hyphenWidth });
+    }
+    if (posChar.hyphen) {
+      glyphs.push({ text: '-', x: posChar.x + posChar.width - hyphenWidth, width: hyphenWidth });
+    }
+
+    for (const glyph of glyphs) {
+      // Unflip the glyphs (the page is y-down) and place at the baseline
+      let matrix = [1, 0, 0, -1, glyph.x, posChar.y + posChar.baseline];
+      if (layout.path) {
+        const placed = placeOnPath(layout.path, glyph.x, posChar.y + posChar.baseline, glyph.width);
+        const angle = (placed.rotation * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        matrix = [cos, sin, sin, -cos, placed.x, placed.y];
+      }
+      ops.push(
+        `${matrix.map(num).join(' ')} Tm`,
+        `<${encodeText(glyph.text, getStandardFontName(style))}> Tj`
+      );
+    }
+  }
+
+  ops.push('ET');
+  return ops;
+}
+
+/**
+ * Draw background highlights as filled rectangles
+ */
+function drawHighlights(layout: LayoutResult): string[] {
+  const ops: string[] = [];
+
+  for (const posChar of layout.chars) {
+    const bgColor = posChar.char.style.backgroundColor;
+    if (!bgColor || posChar.char.char === '\n') continue;
+
+    ops.push(
+      ...bend(layout, posChar.x, posChar.y, posChar.width, [
+        `${formatColor(bgColor)} rg`,
+        `${num(posChar.x)} ${num(posChar.y)} ${num(posChar.width)} ${num(posChar.height)} re f`,
+      ])
+    );
+  }
+
+  return ops;
+}
+
+/**
+ * Draw underline and strikethrough lines (same geometry as the Konva renderer)
+ */
+function drawDecorations(layout: LayoutResult): string[] {
+  const ops: string[] = [];
+
+  for (const line of layout.lines) {
+    for (const type of ['underline', 'strikethrough'] as const) {
+      const y = type === 'underline'
+        ? line.y + line.baseline + 2
+        : line.y + line.baseline - line.height * 0.3;
+
+      // Raised or lowered runs move their lines with them
+      for (const run of findDecorationRuns(line, type, Boolean(layout.path))) {
+        const runY = y - run.shift;
+        ops.push(
+          ...bend(layout, run.startX, runY, run.endX - run.startX, [
+            `${formatColor(run.color)} RG`,
+            '1 w',
+            `${num(run.startX)} ${num(runY)} m ${num(run.endX)} ${num(runY)} l S`,
+          ])
+        );
+      }
+    }
+  }
+
+  return ops;
+}
+
+/**
+ * Draw the rule lines between columns (none on a text path)
+ */
+function drawColumnRules(layout: LayoutResult, doc: RichTextDocument): string[] {
+  const ops: string[] = [];
+  if (layout.path) return ops;
+
+  for (const rule of getColumnRules(layout, doc)) {
+    ops.push(
+      `${formatColor(rule.color)} RG`,
+      `${num(rule.width)} w`,
+      `${num(rule.x)} ${num(rule.top)} m ${num(rule.x)} ${num(rule.bottom)} l S`
+    );
+  }
+
+  return ops;
+}
+
+/**
+ * Find continuous runs of a decoration on a line (single characters with
+ * `perChar`, so decorations follow a text path), split where the baseline
+ * shift changes
+ */
+function findDecorationRuns(
+  line: LayoutLine,
+  type: 'underline' | 'strikethrough',
+  perChar: boolean = false
+): { startX: number; endX: number; color: string; shift: number }[] {
+  const runs: { startX: number; endX: number; color: string; shift: number }[] = [];
+  let current: { startX: number; endX: number; color: string; shift: number } | null = null;
+
+  for (const char of line.chars) {
+    const { style } = char.char;
+    const shift = getBaselineShift(style);
+    if (style[type] && current && current.color === style.color && current.shift === shift && !perChar) {
+      current.endX = char.x + char.width;
+    } else {
+      if (current) runs.push(current);
+      current = style[type] ? { startX: char.x, endX: char.x + char.width, color: style.color, shift } : null;
+    }
+  }
+  if (current) runs.push(current);
+
+  return runs;
+}
+
+/**
+ * Draw list bullets and numbers, once per list paragraph
+ */
+function drawListMarkers(
+  layout: LayoutResult,
+  doc: RichTextDocument,
+  getFontResource: (font: StandardFontName) => string
+): string[] {
+  const ops: string[] = [];
+  const renderedParagraphs = new Set<number>();
+
+  for (const line of layout.lines) {
+    const listItem = line.listItem;
+    if (!listItem || listItem.type === 'none') continue;
+    if (renderedParagraphs.has(line.paragraphIndex)) continue;
+    renderedParagraphs.add(line.paragraphIndex);
+
+    // Mirrored to the right edge in right-to-left paragraphs; in the line's
+    // column or wrap segment
+    const area = getLineBounds(layout, doc, line);
+    const markerOffset = doc.padding + line.indent + listItem.level * 20 + 10;
+    const markerX =
+      line.direction === 'rtl' ? area.right + doc.padding - markerOffset : area.left - doc.padding + markerOffset;
+    const baselineY = line.y + line.baseline;
+    const level = listItem.level % 3;
+
+    const marker: string[] = ['0 0 0 rg', '0 0 0 RG'];
+
+    if (listItem.type === 'bullet') {
+      if (level === 0) {
+        marker.push(circlePath(markerX, baselineY - 4, 3), 'f');
+      } else if (level === 1) {
+        marker.push('1 w', circlePath(markerX, baselineY - 4, 3), 'S');
+      } else {
+        marker.push(`${num(markerX - 3)} ${num(baselineY - 7)} 6 6 re f`);
+      }
+    } else {
+      const numberText = getListNumberText(listItem);
+
+      marker.push(
+        'BT',
+        `/${getFontResource('Helvetica')} 14 Tf`,
+        `1 0 0 -1 ${num(markerX - 10)} ${num(baselineY)} Tm`,
+        `<${encodeText(numberText, 'Helvetica')}> Tj`,
+        'ET'
+      );
+    }
+
+    // On a text path, turned around its point on the baseline
+    ops.push(...bend(layout, markerX, baselineY, 0, marker));
+  }
+
+  return ops;
+}
+
+/**
+ * Circle path from four Bezier curves
+ */
+function circlePath(cx: number, cy: number, r: number): string {
+  const k = r * 0.5523;
+  return [
+    `${num(cx + r)} ${num(cy)} m`,
+    `${num(cx + r)} ${num(cy + k)} ${num(cx + k)} ${num(cy + r)} ${num(cx)} ${num(cy + r)} c`,
+    `${num(cx - k)} ${num(cy + r)} ${num(cx - r)} ${num(cy + k)} ${num(cx - r)} ${num(cy)} c`,
+    `${num(cx - r)} ${num(cy - k)} ${num(cx - k)} ${num(cy - r)} ${num(cx)} ${num(cy - r)} c`,
+    `${num(cx + k)} ${num(cy - r)} ${num(cx + r)} ${num(cy - k)} ${num(cx + r)} ${num(cy)} c`,
+  ].join(' ');
+}
+
+/**
+ * Page areas of a box's links: one per run of linked text on a line (per
+ * character on a text path), covering the run's transformed corners
+ */
+function getLinkAreas(layout: LayoutResult, transform: PDFMatrix, pageHeight: number): PDFLinkArea[] {
+  const areas: PDFLinkArea[] = [];
+  const perChar = Boolean(layout.path);
+
+  for (const line of layout.lines) {
+    let run: { href: string; x: number; top: number; right: number; bottom: number } | null = null;
+    const flush = () => {
+      if (!run) return;
+      const bent = getBendMatrix(layout, run.x, run.top, run.right - run.x);
+      const corners = [
+        [run.x, run.top],
+        [run.right, run.top],
+        [run.x, run.bottom],
+        [run.right, run.bottom],
+      ].map(([x, y]) => applyMatrix(transform, applyMatrix(bent, [x, y])));
+      const xs = corners.map(([x]) => x);
+      const ys = corners.map(([, y]) => pageHeight - y);
+      areas.push({ href: run.href, rect: [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)] });
+      run = null;
+    };
+
+    for (const char of line.chars) {
+      const href = char.char.style.link?.href;
+      if (href && run && run.href === href && !perChar) {
+        run.right = char.x + char.width;
+        run.top = Math.min(run.top, char.y);
+        run.bottom = Math.max(run.bottom, char.y + char.height);
+      } else {
+        flush();
+        if (href) {
+          run = { href, x: char.x, top: char.y, right: char.x + char.width, bottom: char.y + char.height };
+        }
+      }
+    }
+    flush();
+  }
+
+  return areas;
+}
+
+/**
+ * Transform a point by an affine matrix
+ */
+function applyMatrix([a, b, c, d, e, f]: PDFMatrix, [x, y]: number[]): [number, number] {
+  return [a * x + c * y + e, b * x + d * y + f];
+}
+
+/**
+ * Page area covering every transformed text box: from the origin, or from
+ * the top left corner of boxes at negative coordinates
+ */
+function getPageBounds(boxes: PDFTextBox[]): { x: number; y: number; width: number; height: number } {
+  let left = 0;
+  let top = 0;
+  let right = 0;
+  let bottom = 0;
+
+  for (const box of boxes) {
+    const [a, b, c, d, e, f] = box.transform ?? IDENTITY;
+    const corners = [
+      [0, 0],
+      [box.layout.width, 0],
+      [0, box.layout.height],
+      [box.layout.width, box.layout.height],
+    ];
+    for (const [x, y] of corners) {
+      left = Math.min(left, a * x + c * y + e);
+      top = Math.min(top, b * x + d * y + f);
+      right = Math.max(right, a * x + c * y + e);
+      bottom = Math.max(bottom, b * x + d * y + f);
+    }
+  }
+
+  const x = Math.floor(left);
+  const y = Math.floor(top);
+  return { x, y, width: Math.ceil(right - x) || 1, height: Math.ceil(bottom - y) || 1 };
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Unicode characters in the 0x80-0x9F range of WinAnsiEncoding
+ */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+  '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+  '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Encode text as a hex string in the font's encoding.
+ * Characters the font cannot show become '?'.
+ */
+function encodeText(text: string, font: StandardFontName): string {
+  let hex = '';
+
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    let byte: number;
+
+    if (font === 'Symbol' || font === 'ZapfDingbats') {
+      // Built-in encodings: only pass through single bytes
+      byte = code < 256 ? code : 0x3f;
+    } else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      byte = code;
+    } else if (char === '\t') {
+      byte = 0x20;
+    } else {
+      byte = WIN_ANSI_EXTRAS[char] ?? 0x3f;
+    }
+
+    hex += byte.toString(16).padStart(2, '0');
+  }
+
+  return hex.toUpperCase();
+}
+
+/**
+ * Convert a CSS color to PDF RGB components (0-1)
+ */
+function formatColor(color: string): string {
+  const [r, g, b] = parseColor(color);
+  return `${num(r / 255)} ${num(g / 255)} ${num(b / 255)}`;
+}
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+  orange: [255, 165, 0],
+  purple: [128, 0, 128],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+};
+
+/**
+ * Parse #rgb, #rrggbb, rgb()/rgba() and a few named colors (alpha is ignored)
+ */
+function parseColor(color: string): [number, number, number] {
+  const value = color.trim().toLowerCase();
+
+  const hex = value.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    const digits = hex[1].length < 6
+      ? hex[1].slice(0, 3).split('').map((d) => d + d).join('')
+      : hex[1].slice(0, 6);
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+  }
+
+  const rgb = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+  if (rgb) {
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+  }
+
+  return NAMED_COLORS[value] ?? [0, 0, 0];
+}
+
+/**
+ * Format a number for PDF (no exponent, at most 3 decimals)
+ */
+function num(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * Escape a PDF literal string
+ */
+function escapePDFString(text: string): string {
+  return text.replace(/[\\()]/g, '\\$&').replace(/[^\x20-\x7e]/g, '?');
+}
+
+/**
+ * URIs are ASCII strings: other characters are percent-encoded
+ */
+function escapePDFURI(href: string): string {
+  return escapePDFString(href.replace(/[^\x20-\x7e]+/g, (chars) => encodeURIComponent(chars)));
+}
+
+/**
+ * Assemble the PDF file: catalog, page tree, one page, content stream, fonts
+ * and link annotations
+ */
+function buildPDF(
+  content: string,
+  fonts: Map<StandardFontName, string>,
+  links: PDFLinkArea[],
+  width: number,
+  height: number,
+  title?: string
+): Uint8Array {
+  const objects: string[] = [];
+  const fontRefs: string[] = [];
+
+  // Fixed object numbers: 1 catalog, 2 pages, 3 page, 4 content, 5 info, 6+ fonts
+  let nextId = 6;
+  const fontObjects: string[] = [];
+  for (const [font, name] of fonts) {
+    const encoding = font === 'Symbol' || font === 'ZapfDingbats' ? '' : ' /Encoding /WinAnsiEncoding';
+    fontObjects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${font}${encoding} >>`);
+    fontRefs.push(`/${name} ${nextId++} 0 R`);
+  }
+
+  // Link annotations follow the fonts
+  const annotObjects: string[] = [];
+  const annotRefs: string[] = [];
+  for (const link of links) {
+    annotObjects.push(
+      `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(num).join(' ')}] /Border [0 0 0] ` +
+        `/A << /S /URI /URI (${escapePDFURI(link.href)}) >> >>`
+    );
+    annotRefs.push(`${nextId++} 0 R`);
+  }
+  const annots = annotRefs.length > 0 ? ` /Annots [${annotRefs.join(' ')}]` : '';
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  objects.push(
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+      `/Resources << /Font << ${fontRefs.join(' ')} >> >> /Contents 4 0 R${annots} >>`
+  );
+  objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  objects.push(
+    `<< /Producer (rich-text-konva)${title ? ` /Title (${escapePDFString(title)})` : ''} >>`
+  );
+  objects.push(...fontObjects, ...annotObjects);
+
+  // Everything is ASCII, so string length equals byte length
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n`;
+  pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) {
+    bytes[i] = pdf.charCodeAt(i);
+  }
+  return bytes;
+}
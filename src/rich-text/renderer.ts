@@ -5,17 +5,45 @@
 import {
   RichTextDocument,
   LayoutResult,
-  PositionedChar,
   Selection,
+  COLUMN_BREAK,
 } from './types';
-import { buildFontString, getFontMetrics, getSelectionBoxes } from './layout-engine';
+import {
+  buildFontString,
+  getFontMetrics,
+  getSelectionBoxes,
+  getColumnRules,
+  getLineBounds,
+  getDisplayText,
+  getListNumberText,
+} from './layout-engine';
+import { placeOnPath } from './text-path';
+
+/**
+ * Move and turn the context so the straight box at (x, y), `width` wide, is
+ * drawn at its place on the layout's text path (nothing without a path)
+ */
+function bendContext(
+  ctx: CanvasRenderingContext2D,
+  layout: LayoutResult,
+  x: number,
+  y: number,
+  width: number
+): void {
+  if (!layout.path) return;
+
+  const placed = placeOnPath(layout.path, x, y, width);
+  ctx.translate(placed.x, placed.y);
+  ctx.rotate((placed.rotation * Math.PI) / 180);
+  ctx.translate(-x, -y);
+}
 
 /**
  * Render text to an offscreen canvas
  */
 export function renderTextToCanvas(
   layout: LayoutResult,
-  _doc: RichTextDocument,
+  doc: RichTextDocument,
   selection: Selection | null,
   caretPosition: { x: number; y: number; height: number } | null,
   caretVisible: boolean,
@@ -42,24 +70,43 @@ export function renderTextToCanvas(
   if (selection && selection.anchor !== selection.focus) {
     const start = Math.min(selection.anchor, selection.focus);
     const end = Math.max(selection.anchor, selection.focus);
-    const selectionBoxes = getSelectionBoxes(layout, start, end);
+    // One box per character on a text path, so the selection follows it
+    const selectionBoxes = layout.path
+      ? layout.chars.filter((c) => c.char.absoluteIndex >= start && c.char.absoluteIndex < end)
+      : getSelectionBoxes(layout, start, end);
 
     ctx.fillStyle = 'rgba(66, 133, 244, 0.3)'; // Google-like selection blue
     for (const box of selectionBoxes) {
+      ctx.save();
+      bendContext(ctx, layout, box.x, box.y, box.width);
       ctx.fillRect(box.x, box.y, box.width, box.height);
+      ctx.restore();
     }
   }
 
   // Render list markers
-  renderListMarkers(ctx, layout);
+  renderListMarkers(ctx, layout, doc);
+
+  // Render rules between columns (not on a text path)
+  for (const rule of layout.path ? [] : getColumnRules(layout, doc)) {
+    ctx.strokeStyle = rule.color;
+    ctx.lineWidth = rule.width;
+    ctx.beginPath();
+    ctx.moveTo(rule.x, rule.top);
+    ctx.lineTo(rule.x, rule.bottom);
+    ctx.stroke();
+  }
 
   // Render text
-  renderChars(ctx, layout.chars);
+  renderChars(ctx, layout);
 
   // Render caret
   if (caretVisible && caretPosition && selection?.anchor === selection?.focus) {
+    ctx.save();
+    bendContext(ctx, layout, caretPosition.x, caretPosition.y, 0);
     ctx.fillStyle = '#000000';
     ctx.fillRect(caretPosition.x, caretPosition.y, 2, caretPosition.height);
+    ctx.restore();
   }
 
   return canvas;
@@ -68,7 +115,7 @@ export function renderTextToCanvas(
 /**
  * Render list bullets and numbers
  */
-function renderListMarkers(ctx: CanvasRenderingContext2D, layout: LayoutResult): void {
+function renderListMarkers(ctx: CanvasRenderingContext2D, layout: LayoutResult, doc: RichTextDocument): void {
   // Track which source lines we've already rendered markers for
   const renderedSourceLines = new Set<number>();
 
@@ -98,9 +145,15 @@ function renderListMarkers(ctx: CanvasRenderingContext2D, layout: LayoutResult):
     ctx.fillStyle = style.color;
     ctx.textBaseline = 'alphabetic';
 
-    const markerX = line.listIndent - 16 + 8; // Position marker before text
+    const markerOffset = line.indent + line.listIndent - 16 + 8; // Position marker before text
+    const area = getLineBounds(layout, doc, line); // The line's column or wrap segment
+    const markerX =
+      line.direction === 'rtl' ? area.right + doc.padding - markerOffset : area.left - doc.padding + markerOffset;
     const textY = line.y + line.baseline;
 
+    ctx.save();
+    bendContext(ctx, layout, markerX, textY, 0);
+
     if (line.listItem.type === 'bullet') {
       // Draw different bullet styles based on nesting level
       const bulletSize = style.fontSize * 0.25;
@@ -129,56 +182,29 @@ function renderListMarkers(ctx: CanvasRenderingContext2D, layout: LayoutResult):
         );
       }
     } else if (line.listItem.type === 'number') {
-      // Draw different number styles based on nesting level
-      const level = line.listItem.level % 3;
-      let numberText: string;
-
-      if (level === 0) {
-        // Arabic numerals (1. 2. 3.)
-        numberText = `${line.listItem.index}.`;
-      } else if (level === 1) {
-        // Lowercase letters (a. b. c.)
-        numberText = `${String.fromCharCode(96 + ((line.listItem.index - 1) % 26) + 1)}.`;
-      } else {
-        // Roman numerals (i. ii. iii.)
-        numberText = `${toRomanNumeral(line.listItem.index)}.`;
-      }
-
+      const numberText = getListNumberText(line.listItem);
       const numberWidth = ctx.measureText(numberText).width;
       ctx.fillText(numberText, markerX - numberWidth / 2, textY);
     }
 
+    ctx.restore();
     renderedSourceLines.add(line.lineIndex);
   }
 }
 
 /**
- * Convert number to lowercase Roman numeral
+ * Render characters to canvas context, each turned to the curve on a text path
  */
-function toRomanNumeral(num: number): string {
-  const romanNumerals = [
-    ['', 'i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii', 'viii', 'ix'],
-    ['', 'x', 'xx', 'xxx', 'xl', 'l', 'lx', 'lxx', 'lxxx', 'xc'],
-    ['', 'c', 'cc', 'ccc', 'cd', 'd', 'dc', 'dcc', 'dccc', 'cm'],
-  ];
-
-  if (num <= 0 || num > 399) return num.toString();
-
-  const hundreds = Math.floor(num / 100);
-  const tens = Math.floor((num % 100) / 10);
-  const ones = num % 10;
-
-  return romanNumerals[2][hundreds] + romanNumerals[1][tens] + romanNumerals[0][ones];
-}
-
-/**
- * Render characters to canvas context
- */
-function renderChars(ctx: CanvasRenderingContext2D, chars: PositionedChar[]): void {
-  for (const posChar of chars) {
+function renderChars(ctx: CanvasRenderingContext2D, layout: LayoutResult): void {
+  for (const posChar of layout.chars) {
     const { char, style } = posChar.char;
+    if (char === COLUMN_BREAK) continue;
+    const text = getDisplayText(posChar);
     const metrics = getFontMetrics(style);
 
+    ctx.save();
+    bendContext(ctx, layout, posChar.x, posChar.y, posChar.width);
+
     // Set font
     ctx.font = buildFontString(style);
     ctx.textBaseline = 'alphabetic';
@@ -209,12 +235,12 @@ function renderChars(ctx: CanvasRenderingContext2D, chars: PositionedChar[]): vo
       ctx.strokeStyle = style.stroke.color;
       ctx.lineWidth = style.stroke.width;
       ctx.lineJoin = 'round';
-      ctx.strokeText(char, posChar.x, textY);
+      ctx.strokeText(text, posChar.x, textY);
     }
 
     // Render text fill
     ctx.fillStyle = style.color;
-    ctx.fillText(char, posChar.x, textY);
+    ctx.fillText(text, posChar.x, textY);
 
     // Clear shadow for decorations
     ctx.shadowColor = 'transparent';
@@ -247,6 +273,8 @@ function renderChars(ctx: CanvasRenderingContext2D, chars: PositionedChar[]): vo
       ctx.lineTo(posChar.x + posChar.width, strikeY);
       ctx.stroke();
     }
+
+    ctx.restore();
   }
 }
 
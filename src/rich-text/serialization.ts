@@ -0,0 +1,730 @@
+// ============================================================================
+// Document Serialization - Versioned JSON Schema with Migrations
+// ============================================================================
+//
+// Schema (version 1):
+//
+//   SerializedDocument {
+//     version: 1,
+//     spans: [{ id, text, style: TextStyle, object?: InlineObject }],
+//     align, verticalAlign, padding, direction?, overflow?,
+//     columns?: { count, gap, rule?: { width, color } },
+//     textPath?: { type: 'arc', curvature } | { type: 'path', data },
+//     hyphenate?: boolean, lineBreaking?: 'greedy' | 'optimal',
+//     tabs?: { interval, stops: [{ position, align, leader? }] },
+//     listItems: { "$map": [[lineIndex, ListItem], ...] },
+//     paragraphs?: { "$map": [[paragraphIndex, ParagraphStyle], ...] },
+//     styles?: { character: { "$map": [[name, { basedOn?, style }], ...] },
+//                paragraph: { "$map": [[name, { basedOn?, paragraph?, style? }], ...] } },
+//     ...fields added by newer versions (kept as-is)
+//   }
+//
+//   SerializedTextBox {
+//     version: 1,
+//     x, y, width, height, scaleX, scaleY, rotation, draggable, autoFit?,
+//     minWidth?, maxWidth?, minHeight?, maxHeight?,
+//     frames?: [{ x, y, width, height, rotation }],
+//     textWrap?: { shape?: [{ x, y }], exclusions?: WrapExclusion[], margin? },
+//     document: SerializedDocument
+//   }
+//
+// `frames` are the linked text frames the document flows on into, in order.
+// `textWrap` holds the wrap shape and the fixed exclusions; exclusions that
+// follow Konva nodes are not saved.
+//
+// Every Map anywhere in the document is encoded as { "$map": entries }, so
+// Map-valued fields survive JSON.stringify. Undefined style fields are dropped
+// and refilled from DEFAULT_STYLE on load. Documents without a `version`
+// field were written before the schema existed and are treated as version 0.
+
+import {
+  RichTextDocument,
+  TextSpan,
+  TextStyle,
+  AutoFitMode,
+  TextWrap,
+  DEFAULT_STYLE,
+  OBJECT_REPLACEMENT,
+  generateSpanId,
+} from './types';
+
+/**
+ * Current schema version written by the serializer
+ */
+export const DOCUMENT_SCHEMA_VERSION = 1;
+
+/**
+ * Document as stored in JSON
+ */
+export interface SerializedDocument {
+  version: number;
+  spans: TextSpan[];
+  align: RichTextDocument['align'];
+  verticalAlign: RichTextDocument['verticalAlign'];
+  padding: number;
+  listItems: SerializedMap;
+  paragraphs?: SerializedMap;
+  [key: string]: unknown;
+}
+
+/**
+ * Position and transform of a text box
+ */
+export interface TextBoxGeometry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scaleX: number;
+  scaleY: number;
+  rotation: number;
+  draggable: boolean;
+  autoFit?: AutoFitMode; // 'fixed' when omitted
+  minWidth?: number; // Auto-fit size limits; the defaults (no maximum) when omitted
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  frames?: TextFrameGeometry[]; // Linked text frames in flow order; none when omitted
+  textWrap?: TextWrap; // Wrap shape and exclusions; a plain rectangle when omitted
+}
+
+/**
+ * Position and size of a linked text frame
+ */
+export interface TextFrameGeometry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+/**
+ * Text box (RichText component) as stored in JSON
+ */
+export interface SerializedTextBox extends TextBoxGeometry {
+  version: number;
+  document: SerializedDocument;
+  [key: string]: unknown;
+}
+
+/**
+ * JSON encoding of a Map
+ */
+export interface SerializedMap {
+  $map: [unknown, unknown][];
+}
+
+/**
+ * A migration upgrades serialized document JSON from one version to the next
+ */
+export type DocumentMigration = (json: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Registered migrations keyed by the version they upgrade from
+ */
+const migrations = new Map<number, DocumentMigration>();
+
+/**
+ * Register a migration that upgrades documents saved with `fromVersion`
+ * to `fromVersion + 1`. Registering twice for a version replaces the first.
+ */
+export function registerDocumentMigration(
+  fromVersion: number,
+  migrate: DocumentMigration
+): void {
+  migrations.set(fromVersion, migrate);
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Check for the JSON encoding of a Map
+ */
+function isSerializedMap(value: unknown): value is SerializedMap {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as SerializedMap).$map)
+  );
+}
+
+/**
+ * Recursively convert a value to plain JSON, encoding Maps and dropping undefined
+ */
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Map) {
+    return {
+      $map: Array.from(value.entries()).map(([key, item]) => [encodeValue(key), encodeValue(item)]),
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        result[key] = encodeValue(item);
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Recursively convert plain JSON back, restoring encoded Maps
+ */
+function decodeValue(value: unknown): unknown {
+  if (isSerializedMap(value)) {
+    return new Map(value.$map.map(([key, item]) => [decodeValue(key), decodeValue(item)]));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = decodeValue(item);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Serialize a document to versioned, JSON-safe data
+ */
+export function serializeDocument(doc: RichTextDocument): SerializedDocument {
+  return {
+    ...(encodeValue(doc) as SerializedDocument),
+    version: DOCUMENT_SCHEMA_VERSION,
+  };
+}
+
+/**
+ * Deserialize a document, migrating older versions first.
+ * Throws if the data does not describe a valid document.
+ */
+export function deserializeDocument(json: unknown): RichTextDocument {
+  const migrated = migrateDocumentJSON(json);
+  const errors = validateSerializedDocument(migrated);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid rich text document: ${errors.join('; ')}`);
+  }
+
+  const { version: _version, ...decoded } = decodeValue(migrated) as Record<string, unknown>;
+  const doc = decoded as unknown as RichTextDocument;
+
+  return {
+    ...doc,
+    spans: doc.spans.map((span) => ({
+      ...span,
+      id: span.id || generateSpanId(),
+      style: { ...DEFAULT_STYLE, ...span.style },
+    })),
+  };
+}
+
+/**
+ * Serialize a text box's geometry together with its document
+ */
+export function serializeTextBox(
+  box: TextBoxGeometry,
+  doc: RichTextDocument
+): SerializedTextBox {
+  return {
+    ...box,
+    version: DOCUMENT_SCHEMA_VERSION,
+    document: serializeDocument(doc),
+  };
+}
+
+const AUTO_FIT_VALUES = ['fixed', 'auto-height', 'auto-width', 'shrink-to-fit'];
+const SIZE_LIMIT_KEYS = ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const;
+
+/**
+ * Deserialize a text box, filling defaults for missing transform fields
+ */
+export function deserializeTextBox(
+  json: unknown
+): TextBoxGeometry & { document: RichTextDocument } {
+  if (typeof json !== 'object' || json === null) {
+    throw new Error('Invalid rich text box: expected an object');
+  }
+
+  const box = json as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of SIZE_LIMIT_KEYS) {
+    if (box[key] !== undefined && typeof box[key] !== 'number') {
+      errors.push(`${key} must be a number`);
+    }
+  }
+  if (box.textWrap !== undefined) validateTextWrap(box.textWrap, errors);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid rich text box: ${errors.join('; ')}`);
+  }
+
+  // Older text boxes did not carry a version; their document shares it
+  const document =
+    typeof box.document === 'object' && box.document !== null && box.version !== undefined
+      ? { version: box.version, ...(box.document as Record<string, unknown>) }
+      : box.document;
+
+  return {
+    x: (box.x as number) || 0,
+    y: (box.y as number) || 0,
+    width: box.width as number,
+    height: box.height as number,
+    scaleX: (box.scaleX as number) || 1,
+    scaleY: (box.scaleY as number) || 1,
+    rotation: (box.rotation as number) || 0,
+    draggable: Boolean(box.draggable),
+    autoFit: AUTO_FIT_VALUES.includes(box.autoFit as string) ? (box.autoFit as AutoFitMode) : 'fixed',
+    ...Object.fromEntries(SIZE_LIMIT_KEYS.filter((key) => box[key] !== undefined).map((key) => [key, box[key]])),
+    frames: Array.isArray(box.frames) ? box.frames.map(deserializeFrame) : [],
+    ...(box.textWrap !== undefined && { textWrap: box.textWrap as TextWrap }),
+    document: deserializeDocument(document),
+  };
+}
+
+/**
+ * Deserialize a linked frame, filling defaults like deserializeTextBox
+ */
+function deserializeFrame(json: unknown): TextFrameGeometry {
+  if (typeof json !== 'object' || json === null) {
+    throw new Error('Invalid text frame: expected an object');
+  }
+
+  const frame = json as Record<string, unknown>;
+  return {
+    x: (frame.x as number) || 0,
+    y: (frame.y as number) || 0,
+    width: frame.width as number,
+    height: frame.height as number,
+    rotation: (frame.rotation as number) || 0,
+  };
+}
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+/**
+ * Upgrade serialized document JSON to `targetVersion` (the current schema
+ * version by default)
+ */
+export function migrateDocumentJSON(
+  json: unknown,
+  targetVersion: number = DOCUMENT_SCHEMA_VERSION
+): Record<string, unknown> {
+  if (typeof json !== 'object' || json === null) {
+    return {};
+  }
+
+  // Live documents (with real Maps) are encoded first
+  let current = encodeValue(json) as Record<string, unknown>;
+  let version = typeof current.version === 'number' ? current.version : 0;
+
+  while (version < targetVersion) {
+    const migrate = migrations.get(version);
+    if (!migrate) {
+      throw new Error(`No migration registered from document version ${version}`);
+    }
+    current = migrate(current);
+    version++;
+    current = { ...current, version };
+  }
+
+  return current;
+}
+
+/**
+ * Version 0 -> 1: documents written before the schema stored Maps through
+ * plain JSON.stringify, which turns them into objects (usually empty ones)
+ */
+registerDocumentMigration(0, (json) => {
+  const toMap = (value: unknown): SerializedMap => {
+    if (isSerializedMap(value)) return value;
+    if (typeof value === 'object' && value !== null) {
+      return {
+        $map: Object.entries(value).map(([key, item]) => [Number(key), item]),
+      };
+    }
+    return { $map: [] };
+  };
+
+  const migrated: Record<string, unknown> = {
+    align: 'left',
+    verticalAlign: 'top',
+    padding: 8,
+    ...json,
+    listItems: toMap(json.listItems),
+  };
+
+  if (json.paragraphs !== undefined) {
+    migrated.paragraphs = toMap(json.paragraphs);
+  }
+
+  return migrated;
+});
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const TEXT_ALIGN_VALUES = ['left', 'center', 'right', 'justify'];
+const VERTICAL_ALIGN_VALUES = ['top', 'middle', 'bottom'];
+const TEXT_DIRECTION_VALUES = ['ltr', 'rtl', 'auto'];
+const TEXT_OVERFLOW_VALUES = ['visible', 'clip', 'ellipsis'];
+const LINE_BREAKING_VALUES = ['greedy', 'optimal'];
+const TAB_ALIGN_VALUES = ['left', 'center', 'right', 'decimal'];
+const LIST_TYPE_VALUES = ['none', 'bullet', 'number'];
+
+/**
+ * Validate style fields that are present (missing fields fall back to defaults)
+ */
+function validateStyle(style: unknown, path: string, errors: string[]): void {
+  if (typeof style !== 'object' || style === null) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  const s = style as Partial<Record<keyof TextStyle, unknown>>;
+  const checks: [keyof TextStyle, string][] = [
+    ['fontFamily', 'string'],
+    ['fontSize', 'number'],
+    ['fontStyle', 'string'],
+    ['color', 'string'],
+    ['backgroundColor', 'string'],
+    ['underline', 'boolean'],
+    ['strikethrough', 'boolean'],
+    ['letterSpacing', 'number'],
+    ['lineHeight', 'number'],
+    ['styleName', 'string'],
+  ];
+
+  for (const [key, type] of checks) {
+    if (s[key] !== undefined && typeof s[key] !== type) {
+      errors.push(`${path}.${key} must be a ${type}`);
+    }
+  }
+
+  if (
+    s.fontWeight !== undefined &&
+    typeof s.fontWeight !== 'number' &&
+    s.fontWeight !== 'normal' &&
+    s.fontWeight !== 'bold'
+  ) {
+    errors.push(`${path}.fontWeight must be 'normal', 'bold' or a number`);
+  }
+
+  if (s.verticalPosition !== undefined && s.verticalPosition !== 'super' && s.verticalPosition !== 'sub') {
+    errors.push(`${path}.verticalPosition must be 'super' or 'sub'`);
+  }
+
+  if (
+    s.baselineShift !== undefined &&
+    typeof s.baselineShift !== 'number' &&
+    !(typeof s.baselineShift === 'string' && /^-?\d*\.?\d+em$/.test(s.baselineShift))
+  ) {
+    errors.push(`${path}.baselineShift must be a number or an em length such as '0.1em'`);
+  }
+
+  const link = s.link as { href?: unknown; title?: unknown } | undefined;
+  if (
+    link !== undefined &&
+    (typeof link !== 'object' ||
+      link === null ||
+      typeof link.href !== 'string' ||
+      (link.title !== undefined && typeof link.title !== 'string'))
+  ) {
+    errors.push(`${path}.link must be { href, title? }`);
+  }
+}
+
+/**
+ * Validate a span's inline object, and that the span's text is the
+ * character it stands for
+ */
+function validateObject(object: unknown, text: unknown, path: string, errors: string[]): void {
+  const o = object as Record<string, unknown> | null;
+  if (
+    typeof o !== 'object' ||
+    o === null ||
+    o.type !== 'image' ||
+    typeof o.src !== 'string' ||
+    typeof o.width !== 'number' ||
+    typeof o.height !== 'number' ||
+    (o.baseline !== undefined && typeof o.baseline !== 'number') ||
+    (o.alt !== undefined && typeof o.alt !== 'string')
+  ) {
+    errors.push(`${path}.object must be { type: 'image', src, width, height, baseline?, alt? }`);
+  }
+  if (text !== OBJECT_REPLACEMENT) {
+    errors.push(`${path}.text must be the object replacement character (U+FFFC) for an inline object`);
+  }
+}
+
+/**
+ * Validate the named styles: a Map of definitions by name for each kind
+ */
+function validateStyleSheet(value: unknown, errors: string[]): void {
+  const sheet = value as Record<string, unknown> | null;
+  if (typeof sheet !== 'object' || sheet === null) {
+    errors.push('styles must be { character, paragraph }');
+    return;
+  }
+
+  for (const kind of ['character', 'paragraph']) {
+    const styles = sheet[kind];
+    if (!isSerializedMap(styles)) {
+      errors.push(`styles.${kind} must be an encoded Map`);
+      continue;
+    }
+
+    styles.$map.forEach((entry, i) => {
+      if (!Array.isArray(entry) || entry.length !== 2 || typeof entry[0] !== 'string') {
+        errors.push(`styles.${kind}[${i}] must be a [name, definition] pair`);
+        return;
+      }
+      const path = `styles.${kind}[${entry[0]}]`;
+      const definition = entry[1] as Record<string, unknown> | null;
+      if (typeof definition !== 'object' || definition === null) {
+        errors.push(`${path} must be a style definition object`);
+        return;
+      }
+      if (definition.basedOn !== undefined && typeof definition.basedOn !== 'string') {
+        errors.push(`${path}.basedOn must be a string`);
+      }
+      if (kind === 'character' || definition.style !== undefined) {
+        validateStyle(definition.style, `${path}.style`, errors);
+      }
+      if (
+        definition.paragraph !== undefined &&
+        (typeof definition.paragraph !== 'object' || definition.paragraph === null)
+      ) {
+        errors.push(`${path}.paragraph must be a paragraph style object`);
+      }
+    });
+  }
+}
+
+/**
+ * Check that a value is a { x, y } point
+ */
+function isPoint(value: unknown): boolean {
+  const point = value as Record<string, unknown> | null;
+  return (
+    typeof point === 'object' && point !== null && typeof point.x === 'number' && typeof point.y === 'number'
+  );
+}
+
+/**
+ * Validate a text box's wrap shape and exclusions
+ */
+function validateTextWrap(value: unknown, errors: string[]): void {
+  const wrap = value as Record<string, unknown> | null;
+  if (typeof wrap !== 'object' || wrap === null) {
+    errors.push('textWrap must be { shape?, exclusions?, margin? }');
+    return;
+  }
+
+  if (wrap.shape !== undefined && !(Array.isArray(wrap.shape) && wrap.shape.every(isPoint))) {
+    errors.push('textWrap.shape must be an array of { x, y } points');
+  }
+
+  if (wrap.exclusions !== undefined) {
+    if (!Array.isArray(wrap.exclusions)) {
+      errors.push('textWrap.exclusions must be an array');
+    } else {
+      wrap.exclusions.forEach((item, i) => {
+        const exclusion = item as Record<string, unknown> | null;
+        const valid =
+          exclusion &&
+          ((exclusion.type === 'rect' &&
+            ['x', 'y', 'width', 'height'].every((key) => typeof exclusion[key] === 'number')) ||
+            (exclusion.type === 'polygon' &&
+              Array.isArray(exclusion.points) &&
+              exclusion.points.every(isPoint)));
+        if (!valid) {
+          errors.push(
+            `textWrap.exclusions[${i}] must be { type: 'rect', x, y, width, height } or { type: 'polygon', points }`
+          );
+        }
+      });
+    }
+  }
+
+  if (wrap.margin !== undefined && typeof wrap.margin !== 'number') {
+    errors.push('textWrap.margin must be a number');
+  }
+}
+
+/**
+ * Validate a Map encoding whose keys are indices
+ */
+function validateIndexMap(
+  value: unknown,
+  path: string,
+  errors: string[],
+  validateItem: (item: unknown, itemPath: string) => void
+): void {
+  if (!isSerializedMap(value)) {
+    errors.push(`${path} must be an encoded Map`);
+    return;
+  }
+
+  value.$map.forEach((entry, i) => {
+    if (!Array.isArray(entry) || entry.length !== 2 || typeof entry[0] !== 'number') {
+      errors.push(`${path}[${i}] must be a [index, value] pair`);
+      return;
+    }
+    validateItem(entry[1], `${path}[${entry[0]}]`);
+  });
+}
+
+/**
+ * Validate serialized document JSON (at the current version).
+ * Returns a list of problems; an empty list means the document is valid.
+ */
+export function validateSerializedDocument(json: unknown): string[] {
+  const errors: string[] = [];
+
+  if (typeof json !== 'object' || json === null) {
+    return ['document must be an object'];
+  }
+
+  const doc = json as Record<string, unknown>;
+
+  if (typeof doc.version !== 'number') {
+    errors.push('version must be a number');
+  }
+
+  if (!Array.isArray(doc.spans)) {
+    errors.push('spans must be an array');
+  } else {
+    doc.spans.forEach((span, i) => {
+      if (typeof span !== 'object' || span === null) {
+        errors.push(`spans[${i}] must be an object`);
+        return;
+      }
+      const { text, style, id, object } = span as Record<string, unknown>;
+      if (typeof text !== 'string') errors.push(`spans[${i}].text must be a string`);
+      if (id !== undefined && typeof id !== 'string') errors.push(`spans[${i}].id must be a string`);
+      validateStyle(style, `spans[${i}].style`, errors);
+      if (object !== undefined) validateObject(object, text, `spans[${i}]`, errors);
+    });
+  }
+
+  if (!TEXT_ALIGN_VALUES.includes(doc.align as string)) {
+    errors.push(`align must be one of ${TEXT_ALIGN_VALUES.join(', ')}`);
+  }
+
+  if (!VERTICAL_ALIGN_VALUES.includes(doc.verticalAlign as string)) {
+    errors.push(`verticalAlign must be one of ${VERTICAL_ALIGN_VALUES.join(', ')}`);
+  }
+
+  if (typeof doc.padding !== 'number') {
+    errors.push('padding must be a number');
+  }
+
+  if (doc.direction !== undefined && !TEXT_DIRECTION_VALUES.includes(doc.direction as string)) {
+    errors.push(`direction must be one of ${TEXT_DIRECTION_VALUES.join(', ')}`);
+  }
+
+  if (doc.overflow !== undefined && !TEXT_OVERFLOW_VALUES.includes(doc.overflow as string)) {
+    errors.push(`overflow must be one of ${TEXT_OVERFLOW_VALUES.join(', ')}`);
+  }
+
+  if (doc.columns !== undefined) {
+    const columns = doc.columns as Record<string, unknown> | null;
+    if (
+      !columns ||
+      typeof columns !== 'object' ||
+      !Number.isInteger(columns.count) ||
+      (columns.count as number) < 1 ||
+      typeof columns.gap !== 'number'
+    ) {
+      errors.push('columns must be { count, gap } with a whole count of at least 1');
+    } else if (columns.rule !== undefined) {
+      const rule = columns.rule as Record<string, unknown> | null;
+      if (!rule || typeof rule.width !== 'number' || typeof rule.color !== 'string') {
+        errors.push('columns.rule must be { width, color }');
+      }
+    }
+  }
+
+  if (doc.textPath !== undefined) {
+    const textPath = doc.textPath as Record<string, unknown> | null;
+    const valid =
+      textPath &&
+      ((textPath.type === 'arc' && typeof textPath.curvature === 'number') ||
+        (textPath.type === 'path' && typeof textPath.data === 'string'));
+    if (!valid) {
+      errors.push("textPath must be { type: 'arc', curvature } or { type: 'path', data }");
+    }
+  }
+
+  if (doc.hyphenate !== undefined && typeof doc.hyphenate !== 'boolean') {
+    errors.push('hyphenate must be a boolean');
+  }
+
+  if (doc.lineBreaking !== undefined && !LINE_BREAKING_VALUES.includes(doc.lineBreaking as string)) {
+    errors.push(`lineBreaking must be one of ${LINE_BREAKING_VALUES.join(', ')}`);
+  }
+
+  if (doc.tabs !== undefined) {
+    const tabs = doc.tabs as Record<string, unknown> | null;
+    const valid =
+      tabs &&
+      typeof tabs.interval === 'number' &&
+      Array.isArray(tabs.stops) &&
+      tabs.stops.every((stop: Record<string, unknown> | null) =>
+        stop &&
+        typeof stop.position === 'number' &&
+        TAB_ALIGN_VALUES.includes(stop.align as string) &&
+        (stop.leader === undefined || typeof stop.leader === 'string')
+      );
+    if (!valid) {
+      errors.push('tabs must be { interval, stops: [{ position, align, leader? }] }');
+    }
+  }
+
+  validateIndexMap(doc.listItems, 'listItems', errors, (item, path) => {
+    const listItem = item as Record<string, unknown> | null;
+    if (
+      !listItem ||
+      !LIST_TYPE_VALUES.includes(listItem.type as string) ||
+      typeof listItem.level !== 'number' ||
+      typeof listItem.index !== 'number'
+    ) {
+      errors.push(`${path} must be a list item { type, level, index }`);
+    }
+  });
+
+  if (doc.paragraphs !== undefined) {
+    validateIndexMap(doc.paragraphs, 'paragraphs', errors, (item, path) => {
+      if (typeof item !== 'object' || item === null) {
+        errors.push(`${path} must be a paragraph style object`);
+      }
+    });
+  }
+
+  if (doc.styles !== undefined) {
+    validateStyleSheet(doc.styles, errors);
+  }
+
+  return errors;
+}
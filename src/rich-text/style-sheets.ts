@@ -0,0 +1,304 @@
+// ============================================================================
+// Style Sheets - Named character and paragraph styles
+// Text and paragraphs keep their full, resolved formatting, plus the name of
+// the style they follow. Properties that differ from the style are local
+// overrides: when a style changes, everything that still matches it follows.
+// ============================================================================
+
+import {
+  RichTextDocument,
+  TextStyle,
+  ParagraphStyle,
+  StyleSheet,
+  CharacterStyleDefinition,
+  ParagraphStyleDefinition,
+  DEFAULT_STYLE,
+  DEFAULT_PARAGRAPH_STYLE,
+} from './types';
+import { applyStyleToRange } from './document-model';
+
+/**
+ * Style definitions by kind
+ */
+export interface StyleDefinitions {
+  character: CharacterStyleDefinition;
+  paragraph: ParagraphStyleDefinition;
+}
+
+/**
+ * Kind of a named style: 'character' or 'paragraph'
+ */
+export type StyleKind = keyof StyleDefinitions;
+
+/**
+ * Create a style sheet without styles
+ */
+export function createStyleSheet(): StyleSheet {
+  return { character: new Map(), paragraph: new Map() };
+}
+
+/**
+ * A style and the styles it is based on, base first. A missing style ends
+ * the chain, and so does a style that is based on itself through others.
+ */
+function getStyleChain<T extends { basedOn?: string }>(
+  styles: Map<string, T> | undefined,
+  name: string | null | undefined
+): T[] {
+  const chain: T[] = [];
+  const seen = new Set<string>();
+
+  while (name && !seen.has(name)) {
+    const definition = styles?.get(name);
+    if (!definition) break;
+    seen.add(name);
+    chain.unshift(definition);
+    name = definition.basedOn;
+  }
+
+  return chain;
+}
+
+/**
+ * Properties of a style merged over those of the styles it is based on,
+ * without a style name of their own
+ */
+function mergeChain<T extends { styleName?: string }>(parts: (Partial<T> | undefined)[]): Partial<T> {
+  const merged: Partial<T> = Object.assign({}, ...parts);
+  delete merged.styleName;
+  return merged;
+}
+
+/**
+ * The text properties a character style sets, including inherited ones
+ * (none for an unknown style)
+ */
+export function resolveCharacterStyle(
+  sheet: StyleSheet | undefined,
+  name: string | null | undefined
+): Partial<TextStyle> {
+  return mergeChain(getStyleChain(sheet?.character, name).map((definition) => definition.style));
+}
+
+/**
+ * The paragraph formatting and text properties a paragraph style sets,
+ * including inherited ones
+ */
+export function resolveParagraphStyle(
+  sheet: StyleSheet | undefined,
+  name: string | null | undefined
+): { paragraph: Partial<ParagraphStyle>; style: Partial<TextStyle> } {
+  const chain = getStyleChain(sheet?.paragraph, name);
+  return {
+    paragraph: mergeChain(chain.map((definition) => definition.paragraph)),
+    style: mergeChain(chain.map((definition) => definition.style)),
+  };
+}
+
+/**
+ * How text in a paragraph style and a character style looks without
+ * overrides
+ */
+function getTextBase(
+  sheet: StyleSheet | undefined,
+  paragraphStyle?: string,
+  characterStyle?: string
+): Partial<TextStyle> {
+  return {
+    ...DEFAULT_STYLE,
+    ...resolveParagraphStyle(sheet, paragraphStyle).style,
+    ...resolveCharacterStyle(sheet, characterStyle),
+  };
+}
+
+/**
+ * How a paragraph in a paragraph style is formatted without overrides
+ */
+function getParagraphBase(sheet: StyleSheet | undefined, name?: string): Partial<ParagraphStyle> {
+  return { ...DEFAULT_PARAGRAPH_STYLE, ...resolveParagraphStyle(sheet, name).paragraph };
+}
+
+/**
+ * Compare property values, including objects such as strokes and shadows
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Move formatting from one base to another: properties equal to `from` take
+ * their value in `to`, the others are overrides and stay. Returns `value`
+ * itself when nothing changes.
+ */
+function rebase<T extends object>(value: T, from: Partial<T>, to: Partial<T>): T {
+  let result = value;
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]) as Set<keyof T>;
+
+  for (const key of keys) {
+    if (sameValue(value[key], from[key]) && !sameValue(value[key], to[key])) {
+      result = { ...result, [key]: to[key] } as T;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Restyle the text between `start` and `end` piece by piece: `restyle` gets
+ * the style of each part of a span within one paragraph, and the paragraph's
+ * index, and returns the style it gets (or the same one)
+ */
+function restyleText(
+  doc: RichTextDocument,
+  start: number,
+  end: number,
+  restyle: (style: TextStyle, paragraphIndex: number) => TextStyle
+): RichTextDocument {
+  let result = doc;
+  let offset = 0;
+  let paragraphIndex = 0;
+
+  for (const span of doc.spans) {
+    const parts = span.text.split('\n');
+    parts.forEach((part, k) => {
+      // A newline belongs to the paragraph it ends
+      const isLast = k === parts.length - 1;
+      const length = part.length + (isLast ? 0 : 1);
+      const from = Math.max(start, offset);
+      const to = Math.min(end, offset + length);
+
+      if (from < to) {
+        const style = restyle(span.style, paragraphIndex);
+        if (style !== span.style) {
+          result = applyStyleToRange(result, from, to, style);
+        }
+      }
+
+      offset += length;
+      if (!isLast) paragraphIndex++;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Restyle every paragraph: `restyle` gets a paragraph's formatting and index
+ * and returns its new formatting (or the same one)
+ */
+function restyleParagraphs(
+  doc: RichTextDocument,
+  restyle: (style: ParagraphStyle, paragraphIndex: number) => ParagraphStyle
+): RichTextDocument {
+  const count = doc.spans.reduce((sum, span) => sum + span.text.split('\n').length - 1, 1);
+  const paragraphs = new Map(doc.paragraphs);
+  let changed = false;
+
+  for (let i = 0; i < count; i++) {
+    const style = paragraphs.get(i) ?? DEFAULT_PARAGRAPH_STYLE;
+    const next = restyle(style, i);
+    if (next !== style) {
+      paragraphs.set(i, next);
+      changed = true;
+    }
+  }
+
+  return changed ? { ...doc, paragraphs } : doc;
+}
+
+/**
+ * Add a named style to the document's style sheet, or change it. Text and
+ * paragraphs that follow it (directly or through styles based on it) take
+ * the new look, except for their local overrides.
+ */
+export function defineStyle<K extends StyleKind>(
+  doc: RichTextDocument,
+  kind: K,
+  name: string,
+  definition: StyleDefinitions[K]
+): RichTextDocument {
+  const oldSheet = doc.styles;
+  const styles: StyleSheet = {
+    character: new Map(oldSheet?.character),
+    paragraph: new Map(oldSheet?.paragraph),
+  };
+  (styles[kind] as Map<string, StyleDefinitions[K]>).set(name, definition);
+
+  const paragraphStyleAt = (index: number) => doc.paragraphs?.get(index)?.styleName;
+  const restyled = restyleText({ ...doc, styles }, 0, Infinity, (style, index) =>
+    rebase(
+      style,
+      getTextBase(oldSheet, paragraphStyleAt(index), style.styleName),
+      getTextBase(styles, paragraphStyleAt(index), style.styleName)
+    )
+  );
+
+  return restyleParagraphs(restyled, (style) =>
+    rebase(style, getParagraphBase(oldSheet, style.styleName), getParagraphBase(styles, style.styleName))
+  );
+}
+
+/**
+ * Give a range of text a character style (null for none). The style's
+ * properties replace the text's own; without a style, text that still
+ * matches its old style goes back to the look of its paragraph.
+ */
+export function applyCharacterStyle(
+  doc: RichTextDocument,
+  start: number,
+  end: number,
+  name: string | null
+): RichTextDocument {
+  const properties = resolveCharacterStyle(doc.styles, name);
+
+  return restyleText(doc, start, end, (style, index) => {
+    if (name) {
+      return { ...style, ...properties, styleName: name };
+    }
+    const paragraphStyle = doc.paragraphs?.get(index)?.styleName;
+    const from = getTextBase(doc.styles, paragraphStyle, style.styleName);
+    return { ...rebase(style, from, getTextBase(doc.styles, paragraphStyle)), styleName: undefined };
+  });
+}
+
+/**
+ * Give a range of paragraphs (inclusive) a paragraph style (null for none).
+ * The style's formatting replaces the paragraphs' own, and its text
+ * properties those of their text, except where the text's character style
+ * sets them. Without a style, what still matches the old style goes back
+ * to the defaults.
+ */
+export function applyParagraphStyle(
+  doc: RichTextDocument,
+  startParagraph: number,
+  endParagraph: number,
+  name: string | null
+): RichTextDocument {
+  const resolved = resolveParagraphStyle(doc.styles, name);
+  const inRange = (index: number) => index >= startParagraph && index <= endParagraph;
+
+  const restyled = restyleText(doc, 0, Infinity, (style, index) => {
+    if (!inRange(index)) return style;
+
+    if (!name) {
+      const from = getTextBase(doc.styles, doc.paragraphs?.get(index)?.styleName, style.styleName);
+      return rebase(style, from, getTextBase(doc.styles, undefined, style.styleName));
+    }
+
+    const characterProperties = resolveCharacterStyle(doc.styles, style.styleName);
+    const next: Record<string, unknown> = { ...style };
+    for (const [key, value] of Object.entries(resolved.style)) {
+      if (!(key in characterProperties)) next[key] = value;
+    }
+    return next as unknown as TextStyle;
+  });
+
+  return restyleParagraphs(restyled, (style, index) => {
+    if (!inRange(index)) return style;
+    if (!name) {
+      const from = getParagraphBase(doc.styles, style.styleName);
+      return { ...rebase(style, from, DEFAULT_PARAGRAPH_STYLE), styleName: undefined };
+    }
+    return { ...style, ...resolved.paragraph, styleName: name };
+  });
+}
@@ -0,0 +1,430 @@
+// ============================================================================
+// SVG Renderer - Vector output for print and export pipelines
+// ============================================================================
+
+import {
+  LayoutResult,
+  LayoutLine,
+  RichTextDocument,
+  PositionedChar,
+  TextStyle,
+  COLUMN_BREAK,
+} from './types';
+import {
+  getColumnRules,
+  getLineBounds,
+  getDisplayText,
+  getListNumberText,
+  getTabLeader,
+  measureChar,
+  getBaselineShift,
+  getFontSize,
+  quoteFontFamily,
+} from './layout-engine';
+import { placeOnPath } from './text-path';
+
+/**
+ * A run of characters on one line that share a style and direction
+ */
+interface TextRun {
+  chars: PositionedChar[];
+  style: TextStyle;
+  bidiLevel: number;
+}
+
+/**
+ * Render laid-out text to a standalone SVG document string
+ *
+ * Every character gets its exact x/y position from the layout, so the SVG
+ * matches on-screen rendering regardless of the viewer's text shaping. On a
+ * text path every glyph is also rotated to the path's direction.
+ */
+export function renderTextToSVG(layout: LayoutResult, doc: RichTextDocument): string {
+  const filters = new Map<string, string>(); // shadow key -> filter id
+  const defs: string[] = [];
+  const body: string[] = [];
+
+  const getShadowFilter = (shadow: NonNullable<TextStyle['shadow']>): string => {
+    const key = `${shadow.offsetX}|${shadow.offsetY}|${shadow.blur}|${shadow.color}`;
+    let id = filters.get(key);
+    if (!id) {
+      id = `rich-text-shadow-${filters.size}`;
+      filters.set(key, id);
+      defs.push(
+        `<filter id="${id}" x="-50%" y="-50%" width="200%" height="200%">` +
+          `<feDropShadow dx="${num(shadow.offsetX)}" dy="${num(shadow.offsetY)}" ` +
+          `stdDeviation="${num(shadow.blur / 2)}" flood-color="${escapeXML(shadow.color)}"/>` +
+          `</filter>`
+      );
+    }
+    return id;
+  };
+
+  // 1. Text background highlights (behind everything)
+  const highlights = createHighlightRects(layout);
+  if (highlights.length > 0) {
+    body.push(`<g class="highlights">${highlights.join('')}</g>`);
+  }
+
+  // 2. List markers
+  const markers = createListMarkers(layout, doc);
+  if (markers.length > 0) {
+    body.push(`<g class="list-markers">${markers.join('')}</g>`);
+  }
+
+  // 3. Text, one <text> per line with a <tspan> per style run.
+  // Shadowed runs get their own <text> because filters do not apply to <tspan>.
+  const text: string[] = [];
+  for (const line of layout.lines) {
+    const plain: string[] = [];
+
+    for (const run of findTextRuns(line)) {
+      const tspan = createTspan(run, layout);
+      if (run.style.shadow) {
+        const filterId = getShadowFilter(run.style.shadow);
+        text.push(`<text xml:space="preserve" filter="url(#${filterId})">${tspan}</text>`);
+      } else {
+        plain.push(tspan);
+      }
+    }
+
+    if (plain.length > 0) {
+      text.push(`<text xml:space="preserve">${plain.join('')}</text>`);
+    }
+  }
+  if (text.length > 0) {
+    body.push(`<g class="text">${text.join('')}</g>`);
+  }
+
+  // 4. Inline objects
+  const images = createImages(layout);
+  if (images.length > 0) {
+    body.push(`<g class="images">${images.join('')}</g>`);
+  }
+
+  // 5. Decorations (underline, strikethrough) and rules between columns
+  const decorations = [...createDecorationLines(layout), ...createColumnRules(layout, doc)];
+  if (decorations.length > 0) {
+    body.push(`<g class="decorations">${decorations.join('')}</g>`);
+  }
+
+  const width = num(layout.width);
+  const height = num(layout.height);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...(defs.length > 0 ? [`<defs>${defs.join('')}</defs>`] : []),
+    ...body,
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Transform attribute that bends a straight box of the layout (top-left
+ * corner at (x, y), `width` wide) onto the layout's text path; empty
+ * without a path
+ */
+function bend(layout: LayoutResult, x: number, y: number, width: number): string {
+  if (!layout.path) return '';
+
+  const placed = placeOnPath(layout.path, x, y, width);
+  return (
+    ` transform="translate(${num(placed.x)} ${num(placed.y)}) rotate(${num(placed.rotation)}) ` +
+    `translate(${num(-x)} ${num(-y)})"`
+  );
+}
+
+/**
+ * Rule lines between columns (none on a text path)
+ */
+function createColumnRules(layout: LayoutResult, doc: RichTextDocument): string[] {
+  if (layout.path) return [];
+
+  return getColumnRules(layout, doc).map(
+    (rule) =>
+      `<line x1="${num(rule.x)}" y1="${num(rule.top)}" x2="${num(rule.x)}" y2="${num(rule.bottom)}" ` +
+      `stroke="${escapeXML(rule.color)}" stroke-width="${num(rule.width)}"/>`
+  );
+}
+
+/**
+ * Group a line's characters into runs of the same style
+ */
+function findTextRuns(line: LayoutLine): TextRun[] {
+  const runs: TextRun[] = [];
+
+  for (const char of line.chars) {
+    if (char.char.char === '\n' || char.char.char === COLUMN_BREAK) continue;
+    if (getDisplayText(char) === '') continue; // Soft hyphen inside a line
+
+    const last = runs[runs.length - 1];
+    if (last && last.bidiLevel === char.bidiLevel && stylesMatch(last.style, char.char.style)) {
+      last.chars.push(char);
+    } else {
+      runs.push({ chars: [char], style: char.char.style, bidiLevel: char.bidiLevel });
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Create a <tspan> with per-character positions (and rotations on a text
+ * path) and the run's style
+ */
+function createTspan(run: TextRun, layout: LayoutResult): string {
+  const { style } = run;
+  // Line characters are in visual order; right-to-left text is written in
+  // logical order (each character keeps its own position) so it shapes
+  const chars = run.bidiLevel % 2 === 1 ? [...run.chars].reverse() : run.chars;
+  // Text drawn at each position: a character (nothing for a soft hyphen),
+  // the leader of a tab, and the hyphen at the end of a line broken inside
+  // a word
+  const glyphs = chars.flatMap((c) => {
+    if (c.char.char === '\t') return getTabLeader(c).map((glyph) => ({ ...glyph, char: c }));
+
+    const text = getDisplayText(c);
+    if (!c.hyphen) return [{ text, x: c.x, width: c.width, char: c }];
+
+    const hyphenWidth = measureChar('-', c.char.style);
+    const hyphen = { text: '-', x: c.x + c.width - hyphenWidth, width: hyphenWidth, char: c };
+    if (text === '-') return [hyphen]; // Soft hyphen
+
+    return [{ text: text.slice(0, -1), x: c.x, width: c.width - hyphenWidth, char: c }, hyphen];
+  });
+  // Glyph origins (on the baseline), bent onto the text path if there is one
+  const origins = glyphs.map(({ x, width, char }) =>
+    layout.path
+      ? placeOnPath(layout.path, x, char.y + char.baseline, width)
+      : { x, y: char.y + char.baseline, rotation: 0 }
+  );
+  // SVG consumes one x/y value per UTF-16 code unit, so a cluster repeats
+  // its position; the values after the first are ignored for a single glyph
+  const values = (value: (origin: (typeof origins)[number]) => number) =>
+    origins.map((origin, k) => repeat(num(value(origin)), glyphs[k].text.length)).join(' ');
+  const content = escapeXML(glyphs.map((glyph) => glyph.text).join(''));
+
+  const attrs = [`x="${values((origin) => origin.x)}"`, `y="${values((origin) => origin.y)}"`];
+  if (layout.path) {
+    attrs.push(`rotate="${values((origin) => origin.rotation)}"`);
+  }
+  attrs.push(
+    `font-family="${escapeXML(quoteFontFamily(style.fontFamily))}"`,
+    `font-size="${num(getFontSize(style))}"`,
+    `fill="${escapeXML(style.color)}"`
+  );
+
+  if (style.fontWeight !== 'normal') {
+    attrs.push(`font-weight="${style.fontWeight}"`);
+  }
+  if (style.fontStyle === 'italic') {
+    attrs.push('font-style="italic"');
+  }
+  if (style.stroke && style.stroke.width > 0) {
+    attrs.push(
+      `stroke="${escapeXML(style.stroke.color)}"`,
+      `stroke-width="${num(style.stroke.width)}"`,
+      'stroke-linejoin="round"'
+    );
+  }
+
+  return `<tspan ${attrs.join(' ')}>${content}</tspan>`;
+}
+
+/**
+ * Create an <image> for each inline object, filling its box
+ */
+function createImages(layout: LayoutResult): string[] {
+  return layout.chars
+    .filter((char) => char.char.object)
+    .map((char) => {
+      const { src, alt } = char.char.object!;
+      const title = alt ? `<title>${escapeXML(alt)}</title>` : '';
+      return (
+        `<image href="${escapeXML(src)}" x="${num(char.x)}" y="${num(char.y)}" ` +
+        `width="${num(char.width)}" height="${num(char.height)}"${bend(layout, char.x, char.y, char.width)}>` +
+        `${title}</image>`
+      );
+    });
+}
+
+/**
+ * Create background highlight rectangles, merged per line and color (one per
+ * character on a text path)
+ */
+function createHighlightRects(layout: LayoutResult): string[] {
+  const rects: string[] = [];
+  let current: { color: string; x: number; y: number; width: number; height: number } | null = null;
+
+  const flush = () => {
+    if (current) {
+      rects.push(
+        `<rect x="${num(current.x)}" y="${num(current.y)}" width="${num(current.width)}" ` +
+          `height="${num(current.height)}" fill="${escapeXML(current.color)}"` +
+          `${bend(layout, current.x, current.y, current.width)}/>`
+      );
+      current = null;
+    }
+  };
+
+  for (const char of layout.chars) {
+    const bgColor = char.char.style.backgroundColor;
+
+    if (bgColor && current && current.color === bgColor && current.y === char.y && !layout.path) {
+      current.width = char.x + char.width - current.x;
+    } else {
+      flush();
+      if (bgColor) {
+        current = { color: bgColor, x: char.x, y: char.y, width: char.width, height: char.height };
+      }
+    }
+  }
+  flush();
+
+  return rects;
+}
+
+/**
+ * Create underline and strikethrough lines (one per character on a text path,
+ * so they follow the curve)
+ */
+function createDecorationLines(layout: LayoutResult): string[] {
+  const lines: string[] = [];
+
+  for (const line of layout.lines) {
+    for (const type of ['underline', 'strikethrough'] as const) {
+      const y = type === 'underline'
+        ? line.y + line.baseline + 2
+        : line.y + line.baseline - line.height * 0.3;
+
+      // Raised or lowered runs move their lines with them
+      let run: { startX: number; endX: number; color: string; shift: number } | null = null;
+      const flush = () => {
+        if (run) {
+          const runY = y - run.shift;
+          lines.push(
+            `<line x1="${num(run.startX)}" y1="${num(runY)}" x2="${num(run.endX)}" y2="${num(runY)}" ` +
+              `stroke="${escapeXML(run.color)}" stroke-width="1"` +
+              `${bend(layout, run.startX, runY, run.endX - run.startX)}/>`
+          );
+          run = null;
+        }
+      };
+
+      for (const char of line.chars) {
+        const { style } = char.char;
+        const shift = getBaselineShift(style);
+        if (style[type] && run && run.color === style.color && run.shift === shift && !layout.path) {
+          run.endX = char.x + char.width;
+        } else {
+          flush();
+          if (style[type]) {
+            run = { startX: char.x, endX: char.x + char.width, color: style.color, shift };
+          }
+        }
+      }
+      flush();
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Create list bullets and numbers, once per list paragraph
+ */
+function createListMarkers(layout: LayoutResult, doc: RichTextDocument): string[] {
+  const markers: string[] = [];
+  const renderedParagraphs = new Set<number>();
+
+  for (const line of layout.lines) {
+    const listItem = line.listItem;
+    if (!listItem || listItem.type === 'none') continue;
+
+    // Only the first visual line of a wrapped list paragraph gets a marker
+    if (renderedParagraphs.has(line.paragraphIndex)) continue;
+    renderedParagraphs.add(line.paragraphIndex);
+
+    // Mirrored to the right edge in right-to-left paragraphs; in the line's
+    // column or wrap segment
+    const area = getLineBounds(layout, doc, line);
+    const markerOffset = doc.padding + line.indent + listItem.level * 20 + 10;
+    const markerX =
+      line.direction === 'rtl' ? area.right + doc.padding - markerOffset : area.left - doc.padding + markerOffset;
+    const baselineY = line.y + line.baseline;
+    const level = listItem.level % 3;
+
+    let marker: string;
+    if (listItem.type === 'bullet') {
+      if (level === 0) {
+        // Filled circle
+        marker = `<circle cx="${num(markerX)}" cy="${num(baselineY - 4)}" r="3" fill="#000000"/>`;
+      } else if (level === 1) {
+        // Empty circle
+        marker =
+          `<circle cx="${num(markerX)}" cy="${num(baselineY - 4)}" r="3" fill="none" stroke="#000000" stroke-width="1"/>`;
+      } else {
+        // Filled square
+        marker = `<rect x="${num(markerX - 3)}" y="${num(baselineY - 7)}" width="6" height="6" fill="#000000"/>`;
+      }
+    } else {
+      const numberText = getListNumberText(listItem);
+
+      marker =
+        `<text x="${num(markerX - 10)}" y="${num(baselineY)}" font-family="Arial" font-size="14" fill="#000000">` +
+        `${numberText}</text>`;
+    }
+
+    // On a text path, turned around its point on the baseline
+    markers.push(layout.path ? `<g${bend(layout, markerX, baselineY, 0)}>${marker}</g>` : marker);
+  }
+
+  return markers;
+}
+
+/**
+ * Format a coordinate compactly (at most 2 decimals)
+ */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * A value repeated `count` times, space separated
+ */
+function repeat(value: string, count: number): string {
+  return Array(count).fill(value).join(' ');
+}
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Check if two styles render the same text (decorations and background are
+ * drawn separately, so they do not split runs)
+ */
+function stylesMatch(a: TextStyle, b: TextStyle): boolean {
+  return (
+    a.fontFamily === b.fontFamily &&
+    a.fontSize === b.fontSize &&
+    a.fontWeight === b.fontWeight &&
+    a.fontStyle === b.fontStyle &&
+    a.color === b.color &&
+    a.verticalPosition === b.verticalPosition &&
+    a.baselineShift === b.baselineShift &&
+    a.stroke?.color === b.stroke?.color &&
+    a.stroke?.width === b.stroke?.width &&
+    a.shadow?.color === b.shadow?.color &&
+    a.shadow?.blur === b.shadow?.blur &&
+    a.shadow?.offsetX === b.shadow?.offsetX &&
+    a.shadow?.offsetY === b.shadow?.offsetY
+  );
+}
@@ -0,0 +1,352 @@
+// ============================================================================
+// Text Path - Drawing laid-out lines along an arc or an SVG path
+// ============================================================================
+
+import {
+  RichTextDocument,
+  LayoutResult,
+  LayoutPath,
+  TextPathSettings,
+  ShapePoint,
+} from './types';
+
+/**
+ * Straight pieces each curve segment of a path is sampled into
+ */
+const CURVE_STEPS = 16;
+
+/**
+ * Straight pieces an arc of a full circle is sampled into
+ */
+const ARC_STEPS = 128;
+
+/**
+ * Curvature below which an arc is drawn as a straight line
+ */
+const MIN_CURVATURE = 0.01;
+
+/**
+ * Points along an elliptical arc given by its end points (SVG `A` command),
+ * without the start point
+ */
+function sampleEllipticalArc(
+  from: ShapePoint,
+  rx: number,
+  ry: number,
+  rotationDeg: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: ShapePoint
+): ShapePoint[] {
+  if (rx === 0 || ry === 0) return [to];
+
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const coefficient =
+    (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (coefficient * rx * y1) / ry;
+  const cy1 = (-coefficient * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const startAngle = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let sweepAngle = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && sweepAngle > 0) sweepAngle -= Math.PI * 2;
+  if (sweep && sweepAngle < 0) sweepAngle += Math.PI * 2;
+
+  const steps = Math.max(2, Math.ceil((Math.abs(sweepAngle) / (Math.PI * 2)) * ARC_STEPS));
+  const points: ShapePoint[] = [];
+  for (let k = 1; k <= steps; k++) {
+    const t = startAngle + (sweepAngle * k) / steps;
+    points.push({
+      x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+      y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos,
+    });
+  }
+  return points;
+}
+
+/**
+ * Sample the first subpath of SVG path data into a polyline. Supports the
+ * commands M, L, H, V, C, S, Q, T, A and Z, absolute and relative.
+ */
+export function parsePathData(data: string): ShapePoint[] {
+  const tokens = data.match(/[a-df-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+  const points: ShapePoint[] = [];
+  let current: ShapePoint = { x: 0, y: 0 };
+  let subpathStart: ShapePoint = current;
+  let control: ShapePoint | null = null; // Last control point, for S and T
+  let command = '';
+  let i = 0;
+
+  const number = (): number => parseFloat(tokens[i++]);
+  const point = (relative: boolean): ShapePoint => {
+    const x = number();
+    const y = number();
+    return relative ? { x: current.x + x, y: current.y + y } : { x, y };
+  };
+  const sampleCurve = (at: (t: number) => ShapePoint) => {
+    for (let k = 1; k <= CURVE_STEPS; k++) {
+      points.push(at(k / CURVE_STEPS));
+    }
+  };
+
+  while (i < tokens.length) {
+    if (/[a-z]/i.test(tokens[i])) {
+      command = tokens[i++];
+    } else if (!command) {
+      break;
+    }
+
+    const relative = command === command.toLowerCase();
+    const type = command.toUpperCase();
+    let nextControl: ShapePoint | null = null;
+
+    if (type === 'M') {
+      if (points.length > 0) break; // Only the first subpath
+      current = point(relative);
+      subpathStart = current;
+      points.push(current);
+      command = relative ? 'l' : 'L'; // Further pairs are lines
+    } else if (type === 'L') {
+      current = point(relative);
+      points.push(current);
+    } else if (type === 'H') {
+      const x = number();
+      current = { x: relative ? current.x + x : x, y: current.y };
+      points.push(current);
+    } else if (type === 'V') {
+      const y = number();
+      current = { x: current.x, y: relative ? current.y + y : y };
+      points.push(current);
+    } else if (type === 'C' || type === 'S') {
+      const p0 = current;
+      const p1: ShapePoint =
+        type === 'C'
+          ? point(relative)
+          : control
+            ? { x: 2 * p0.x - control.x, y: 2 * p0.y - control.y }
+            : p0;
+      const p2 = point(relative);
+      const p3 = point(relative);
+      sampleCurve((t) => {
+        const u = 1 - t;
+        return {
+          x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+          y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+        };
+      });
+      current = p3;
+      nextControl = p2;
+    } else if (type === 'Q' || type === 'T') {
+      const p0 = current;
+      const p1: ShapePoint =
+        type === 'Q'
+          ? point(relative)
+          : control
+            ? { x: 2 * p0.x - control.x, y: 2 * p0.y - control.y }
+            : p0;
+      const p2 = point(relative);
+      sampleCurve((t) => {
+        const u = 1 - t;
+        return {
+          x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x,
+          y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y,
+        };
+      });
+      current = p2;
+      nextControl = p1;
+    } else if (type === 'A') {
+      const rx = number();
+      const ry = number();
+      const rotation = number();
+      const largeArc = number() !== 0;
+      const sweep = number() !== 0;
+      const to = point(relative);
+      points.push(...sampleEllipticalArc(current, rx, ry, rotation, largeArc, sweep, to));
+      current = to;
+    } else if (type === 'Z') {
+      current = subpathStart;
+      points.push(current);
+    } else {
+      break; // Unknown command
+    }
+
+    // S only reflects the control point of a C or S, T that of a Q or T
+    control = nextControl;
+    if (points.length === 0) break; // Paths must start with M
+  }
+
+  return points.filter((p, k) => k === 0 || p.x !== points[k - 1].x || p.y !== points[k - 1].y);
+}
+
+/**
+ * Points of an arc of length `length` whose middle is at (centerX, y):
+ * arching up for positive curvature, down for negative
+ */
+function createArcPoints(curvature: number, centerX: number, y: number, length: number): ShapePoint[] {
+  const bend = Math.max(-1, Math.min(1, curvature / 100)) * Math.PI * 2;
+  if (Math.abs(curvature) < MIN_CURVATURE || length <= 0) {
+    return [
+      { x: centerX - length / 2, y },
+      { x: centerX + length / 2, y },
+    ];
+  }
+
+  const sign = Math.sign(bend);
+  const sweep = Math.abs(bend);
+  const radius = length / sweep;
+  const centerY = y + sign * radius;
+  // An even number of steps puts a point at the middle of the arc
+  const steps = 2 * Math.max(1, Math.ceil((sweep / (Math.PI * 2)) * (ARC_STEPS / 2)));
+  const points: ShapePoint[] = [];
+
+  for (let k = 0; k <= steps; k++) {
+    const angle = sign * (-Math.PI / 2 + sweep * (k / steps - 0.5));
+    points.push({ x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) });
+  }
+  return points;
+}
+
+/**
+ * The curve a layout is drawn along, or null for straight text. An arc is as
+ * long as the text area is wide and has its middle on the first baseline, so
+ * a curvature of 0 leaves the text where it is. On an SVG path, lines are
+ * aligned along the path as the document's alignment places them in the box.
+ */
+export function createLayoutPath(
+  settings: TextPathSettings,
+  layout: LayoutResult,
+  doc: RichTextDocument
+): LayoutPath | null {
+  const firstLine = layout.lines[0];
+  const baseline = firstLine ? firstLine.y + firstLine.baseline : doc.padding;
+  const textWidth = layout.width - doc.padding * 2;
+
+  const points =
+    settings.type === 'arc'
+      ? createArcPoints(settings.curvature, layout.width / 2, baseline, textWidth)
+      : parsePathData(settings.data);
+  if (points.length < 2) return null;
+
+  const lengths = [0];
+  for (let k = 1; k < points.length; k++) {
+    const previous = points[k - 1];
+    lengths.push(lengths[k - 1] + Math.hypot(points[k].x - previous.x, points[k].y - previous.y));
+  }
+
+  // Where the text area starts along the path
+  const spare = lengths[lengths.length - 1] - textWidth;
+  const alignment = doc.align === 'center' ? 0.5 : doc.align === 'right' ? 1 : 0;
+  const offset = settings.type === 'path' ? spare * alignment : 0;
+
+  return { points, lengths, start: doc.padding - offset, baseline };
+}
+
+/**
+ * The layout with the document's text path attached (unchanged without one)
+ */
+export function attachTextPath(layout: LayoutResult, doc: RichTextDocument): LayoutResult {
+  if (!doc.textPath) return layout;
+
+  const path = createLayoutPath(doc.textPath, layout, doc);
+  return path ? { ...layout, path } : layout;
+}
+
+/**
+ * Point at a distance along the path and the path's direction there
+ * (radians). Before the start and after the end the path continues straight.
+ */
+function getPointAtDistance(path: LayoutPath, distance: number): { x: number; y: number; angle: number } {
+  const { points, lengths } = path;
+  let k = 0;
+  while (k < points.length - 2 && lengths[k + 1] < distance) k++;
+
+  const a = points[k];
+  const b = points[k + 1];
+  const segmentLength = lengths[k + 1] - lengths[k];
+  const t = segmentLength > 0 ? (distance - lengths[k]) / segmentLength : 0;
+
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    angle: Math.atan2(b.y - a.y, b.x - a.x),
+  };
+}
+
+/**
+ * Where a straight box of the layout (top-left corner at (x, y), `width`
+ * wide) is drawn on the path: its top-left corner and its rotation in
+ * degrees. The box is centered on its point of the path and turned to the
+ * path's direction there.
+ */
+export function placeOnPath(
+  path: LayoutPath,
+  x: number,
+  y: number,
+  width: number = 0
+): { x: number; y: number; rotation: number } {
+  const point = getPointAtDistance(path, x + width / 2 - path.start);
+  const cos = Math.cos(point.angle);
+  const sin = Math.sin(point.angle);
+  const offset = y - path.baseline;
+
+  // Along the normal (down for a path going right), then back half the width
+  return {
+    x: point.x - sin * offset - (cos * width) / 2,
+    y: point.y + cos * offset - (sin * width) / 2,
+    rotation: (point.angle * 180) / Math.PI,
+  };
+}
+
+/**
+ * Layout coordinates of a point drawn on the path (the inverse of
+ * placeOnPath): the nearest point of the path gives x, the distance from it
+ * along the normal gives y. Used to hit test curved text.
+ */
+export function mapFromPath(path: LayoutPath, x: number, y: number): { x: number; y: number } {
+  const { points, lengths } = path;
+  let best = { distance: Infinity, along: 0, offset: 0 };
+
+  for (let k = 0; k < points.length - 1; k++) {
+    const a = points[k];
+    const b = points[k + 1];
+    const segmentLength = lengths[k + 1] - lengths[k];
+    if (segmentLength === 0) continue;
+
+    const ux = (b.x - a.x) / segmentLength;
+    const uy = (b.y - a.y) / segmentLength;
+    // The first and last segment extend beyond the path's ends
+    const min = k === 0 ? -Infinity : 0;
+    const max = k === points.length - 2 ? Infinity : segmentLength;
+    const t = Math.max(min, Math.min(max, (x - a.x) * ux + (y - a.y) * uy));
+    const px = a.x + ux * t;
+    const py = a.y + uy * t;
+    const distance = Math.hypot(x - px, y - py);
+
+    if (distance < best.distance) {
+      best = { distance, along: lengths[k] + t, offset: (x - px) * -uy + (y - py) * ux };
+    }
+  }
+
+  return { x: path.start + best.along, y: path.baseline + best.offset };
+}
@@ -0,0 +1,171 @@
+// ============================================================================
+// Text Wrap - Free line segments inside a shape and around exclusions
+// ============================================================================
+
+import { TextWrap, WrapExclusion, ShapePoint, LineSegment } from './types';
+
+/**
+ * Segments narrower than this are not worth a line
+ */
+const MIN_SEGMENT_WIDTH = 1;
+
+/**
+ * Where a polygon's edges cross a horizontal line, as inside intervals
+ * (even-odd rule), left to right
+ */
+function scanPolygon(points: ShapePoint[], y: number): LineSegment[] {
+  const crossings: number[] = [];
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    if ((a.y <= y && y < b.y) || (b.y <= y && y < a.y)) {
+      crossings.push(a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y));
+    }
+  }
+
+  crossings.sort((a, b) => a - b);
+  const intervals: LineSegment[] = [];
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    intervals.push({ left: crossings[i], right: crossings[i + 1] });
+  }
+  return intervals;
+}
+
+/**
+ * Heights a band is sampled at: just inside its top and bottom edge, and
+ * every polygon vertex in between (where the outline changes direction)
+ */
+function getSampleYs(points: ShapePoint[], top: number, bottom: number): number[] {
+  const epsilon = Math.min(0.01, (bottom - top) / 2);
+  const ys = [top + epsilon, bottom - epsilon];
+  for (const point of points) {
+    if (point.y > top && point.y < bottom) {
+      ys.push(point.y);
+    }
+  }
+  return ys;
+}
+
+/**
+ * Overlap of two sorted interval lists
+ */
+function intersect(a: LineSegment[], b: LineSegment[]): LineSegment[] {
+  const result: LineSegment[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    const left = Math.max(a[i].left, b[j].left);
+    const right = Math.min(a[i].right, b[j].right);
+    if (left < right) {
+      result.push({ left, right });
+    }
+    if (a[i].right < b[j].right) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove one interval from a sorted interval list
+ */
+function subtract(intervals: LineSegment[], removed: LineSegment): LineSegment[] {
+  const result: LineSegment[] = [];
+  for (const interval of intervals) {
+    if (removed.right <= interval.left || removed.left >= interval.right) {
+      result.push(interval);
+      continue;
+    }
+    if (removed.left > interval.left) {
+      result.push({ left: interval.left, right: removed.left });
+    }
+    if (removed.right < interval.right) {
+      result.push({ left: removed.right, right: interval.right });
+    }
+  }
+  return result;
+}
+
+/**
+ * Horizontal extent an exclusion covers within a band, or null if it does
+ * not reach into the band. A polygon blocks everything between its leftmost
+ * and rightmost point in the band.
+ */
+function getExclusionExtent(exclusion: WrapExclusion, top: number, bottom: number): LineSegment | null {
+  if (exclusion.type === 'rect') {
+    if (exclusion.y >= bottom || exclusion.y + exclusion.height <= top) return null;
+    return { left: exclusion.x, right: exclusion.x + exclusion.width };
+  }
+
+  let left = Infinity;
+  let right = -Infinity;
+  for (const y of getSampleYs(exclusion.points, top, bottom)) {
+    for (const interval of scanPolygon(exclusion.points, y)) {
+      left = Math.min(left, interval.left);
+      right = Math.max(right, interval.right);
+    }
+  }
+  return left < right ? { left, right } : null;
+}
+
+/**
+ * Free segments of the band from `top` to `bottom` between `left` and
+ * `right` (box coordinates), left to right. A segment is free along the
+ * whole height of the band: inside the wrap shape and clear of exclusions
+ * (and their margin).
+ */
+export function getLineSegments(
+  wrap: TextWrap,
+  left: number,
+  right: number,
+  top: number,
+  bottom: number
+): LineSegment[] {
+  let segments: LineSegment[] = left < right ? [{ left, right }] : [];
+
+  if (wrap.shape && wrap.shape.length >= 3) {
+    for (const y of getSampleYs(wrap.shape, top, bottom)) {
+      segments = intersect(segments, scanPolygon(wrap.shape, y));
+    }
+  }
+
+  const margin = wrap.margin ?? 0;
+  for (const exclusion of wrap.exclusions ?? []) {
+    const extent = getExclusionExtent(exclusion, top - margin, bottom + margin);
+    if (extent) {
+      segments = subtract(segments, { left: extent.left - margin, right: extent.right + margin });
+    }
+  }
+
+  return segments.filter((segment) => segment.right - segment.left >= MIN_SEGMENT_WIDTH);
+}
+
+/**
+ * Whether a wrap changes anything (a shape or at least one exclusion)
+ */
+export function hasTextWrap(wrap: TextWrap | undefined): wrap is TextWrap {
+  return Boolean(wrap && ((wrap.shape && wrap.shape.length >= 3) || (wrap.exclusions?.length ?? 0) > 0));
+}
+
+/**
+ * Points of a regular polygon approximating an ellipse, for circular and
+ * oval text frames
+ */
+export function createEllipseShape(
+  centerX: number,
+  centerY: number,
+  radiusX: number,
+  radiusY: number,
+  sides: number = 64
+): ShapePoint[] {
+  const points: ShapePoint[] = [];
+  for (let i = 0; i < sides; i++) {
+    const angle = (i / sides) * Math.PI * 2;
+    points.push({ x: centerX + radiusX * Math.cos(angle), y: centerY + radiusY * Math.sin(angle) });
+  }
+  return points;
+}
@@ -16,6 +16,15 @@ export interface TextStyle {
   strikethrough: boolean;
   letterSpacing: number; // in pixels
   lineHeight: number; // multiplier (e.g., 1.2)
+  // Superscript or subscript: raised or lowered at a reduced size
+  verticalPosition?: VerticalPosition;
+  // Raises (positive) or lowers (negative) the text: pixels, or ems of the
+  // font size such as '0.3em'
+  baselineShift?: BaselineShift;
+  // Hyperlink the text leads to when clicked
+  link?: TextLink;
+  // Character style (in the document's style sheet) the text follows
+  styleName?: string;
   // Advanced styles
   stroke?: {
     color: string;
@@ -29,6 +38,24 @@ export interface TextStyle {
   };
 }
 
+/**
+ * Superscript ('super') or subscript ('sub')
+ */
+export type VerticalPosition = 'super' | 'sub';
+
+/**
+ * A baseline shift in pixels, or in ems of the font size ('0.3em')
+ */
+export type BaselineShift = number | `${number}em`;
+
+/**
+ * A hyperlink: where it leads and an optional tooltip
+ */
+export interface TextLink {
+  href: string;
+  title?: string;
+}
+
 /**
  * Default text style
  */
@@ -51,13 +78,126 @@ export interface TextSpan {
   id: string;
   text: string;
   style: TextStyle;
+  // An inline object in place of text; the span's text is then a single
+  // OBJECT_REPLACEMENT character
+  object?: InlineObject;
 }
 
+/**
+ * An image or icon embedded in the text flow. It takes the place of one
+ * character: lines never break inside it, and the caret and selection move
+ * over it as a whole.
+ */
+export interface InlineObject {
+  type: 'image';
+  src: string;
+  width: number;
+  height: number;
+  // How far the object reaches below the text baseline, in pixels (default
+  // 0: its bottom sits on the baseline)
+  baseline?: number;
+  // Text that describes the image
+  alt?: string;
+}
+
+/**
+ * Character an inline object takes the place of in the text
+ */
+export const OBJECT_REPLACEMENT = '\uFFFC';
+
 /**
  * Text alignment options
  */
 export type TextAlign = 'left' | 'center' | 'right' | 'justify';
 
+/**
+ * Base text direction; 'auto' follows the first strong character
+ * of each paragraph (falling back to left-to-right)
+ */
+export type TextDirection = 'ltr' | 'rtl' | 'auto';
+
+/**
+ * What happens to text below the bottom of the box: drawn past the box
+ * ('visible'), cut off at the box edge ('clip'), or truncated after the last
+ * line that fits with an ellipsis ('ellipsis')
+ */
+export type TextOverflow = 'visible' | 'clip' | 'ellipsis';
+
+/**
+ * How paragraphs are broken into lines: 'greedy' fills each line in turn,
+ * 'optimal' chooses all of a paragraph's breaks together for evenly filled
+ * lines (Knuth-Plass)
+ */
+export type LineBreaking = 'greedy' | 'optimal';
+
+/**
+ * How text after a tab lines up with its tab stop: its start ('left'), its
+ * middle, its end ('right') or its decimal point
+ */
+export type TabAlign = 'left' | 'center' | 'right' | 'decimal';
+
+/**
+ * A position tabs jump to, measured from the start of the paragraph's text
+ * (after its list and left indents)
+ */
+export interface TabStop {
+  position: number; // in pixels
+  align: TabAlign;
+  leader?: string; // Character repeated across the gap, e.g. '.' or '-'
+}
+
+/**
+ * Tab stops: explicit stops, then default left stops every `interval`
+ * pixels after them
+ */
+export interface TabSettings {
+  interval: number;
+  stops: TabStop[];
+}
+
+/**
+ * Default tab stop interval in pixels (half an inch at 96 dpi)
+ */
+export const DEFAULT_TAB_INTERVAL = 48;
+
+/**
+ * Columns text flows through inside the box, left to right
+ */
+export interface ColumnSettings {
+  count: number;
+  gap: number; // Space between columns in pixels
+  rule?: ColumnRule; // Line drawn down the middle of each gap
+}
+
+/**
+ * Line between columns
+ */
+export interface ColumnRule {
+  width: number;
+  color: string;
+}
+
+/**
+ * Character that ends a column: the text after it starts at the top of the
+ * next column (or the next linked frame)
+ */
+export const COLUMN_BREAK = '\u000E';
+
+/**
+ * Soft hyphen: invisible, but a line may break after it, and then shows a
+ * hyphen
+ */
+export const SOFT_HYPHEN = '\u00AD';
+
+/**
+ * Curve the text's baseline follows: an arc bent by `curvature` (-100 to
+ * 100; 100 bends the line into a full circle arching up, negative values
+ * bend it downwards), or an SVG path in box coordinates (as for Konva.Path)
+ */
+export type TextPathSettings =
+  | { type: 'arc'; curvature: number }
+  | { type: 'path'; data: string };
+
 /**
  * Vertical alignment options
  */
@@ -77,6 +217,61 @@ export interface ListItem {
   index: number; // For numbered lists, the number to display
 }
 
+/**
+ * Paragraph-level formatting (a paragraph is the text between two newlines)
+ */
+export interface ParagraphStyle {
+  align?: TextAlign; // Falls back to the document alignment when omitted
+  direction?: TextDirection; // Falls back to the document direction when omitted
+  tabs?: TabSettings; // Falls back to the document tab stops when omitted
+  spaceBefore: number; // in pixels
+  spaceAfter: number; // in pixels
+  firstLineIndent: number; // in pixels, added to indentLeft on the first line
+  indentLeft: number; // in pixels
+  indentRight: number; // in pixels
+  styleName?: string; // Paragraph style (in the document's style sheet) the paragraph follows
+}
+
+/**
+ * Default paragraph style
+ */
+export const DEFAULT_PARAGRAPH_STYLE: ParagraphStyle = {
+  spaceBefore: 0,
+  spaceAfter: 0,
+  firstLineIndent: 0,
+  indentLeft: 0,
+  indentRight: 0,
+};
+
+/**
+ * A named character style: text properties, on top of those of the style it
+ * is based on
+ */
+export interface CharacterStyleDefinition {
+  basedOn?: string;
+  style: Partial<TextStyle>;
+}
+
+/**
+ * A named paragraph style: paragraph formatting and the look of the
+ * paragraph's text, on top of those of the style it is based on
+ */
+export interface ParagraphStyleDefinition {
+  basedOn?: string;
+  paragraph?: Partial<ParagraphStyle>;
+  style?: Partial<TextStyle>;
+}
+
+/**
+ * Named character and paragraph styles of a document. Text and paragraphs
+ * refer to them by name (`styleName`); their own values for properties that
+ * differ from their style are local overrides.
+ */
+export interface StyleSheet {
+  character: Map<string, CharacterStyleDefinition>;
+  paragraph: Map<string, ParagraphStyleDefinition>;
+}
+
 /**
  * The document model - represents the entire text content
  */
@@ -85,8 +280,28 @@ export interface RichTextDocument {
   align: TextAlign;
   verticalAlign: VerticalAlign;
   padding: number;
+  // Base direction of paragraphs without their own ('ltr' when omitted)
+  direction?: TextDirection;
+  // Text that does not fit the box ('visible' when omitted)
+  overflow?: TextOverflow;
+  // Columns inside the box (one column when omitted)
+  columns?: ColumnSettings;
+  // Curve the text follows (straight lines when omitted)
+  textPath?: TextPathSettings;
+  // Break words at hyphenation points with a visible hyphen (US English
+  // patterns; off when omitted)
+  hyphenate?: boolean;
+  // How paragraphs are broken into lines ('greedy' when omitted)
+  lineBreaking?: LineBreaking;
+  // Tab stops of paragraphs without their own (default stops every
+  // DEFAULT_TAB_INTERVAL pixels when omitted)
+  tabs?: TabSettings;
   // Map from line index (0-based) to list item info
   listItems: Map<number, ListItem>;
+  // Map from paragraph index (0-based) to paragraph formatting
+  paragraphs?: Map<number, ParagraphStyle>;
+  // Named character and paragraph styles (none when omitted)
+  styles?: StyleSheet;
 }
 
 /**
@@ -110,6 +325,116 @@ export interface Selection {
   focus: AbsolutePosition; // Where selection ended (cursor position)
 }
 
+/**
+ * Range of characters affected by an edit (start inclusive, end exclusive)
+ */
+export interface TextRange {
+  start: AbsolutePosition;
+  end: AbsolutePosition;
+}
+
+/**
+ * Kind of edit, modelled on the DOM `InputEvent.inputType` names
+ */
+export type InputType =
+  | 'insertText'
+  | 'insertCompositionText'
+  | 'insertParagraph'
+  | 'insertFromPaste'
+  | 'deleteContentBackward'
+  | 'deleteContentForward'
+  | 'deleteByCut'
+  | 'historyUndo'
+  | 'historyRedo'
+  | 'formatBold'
+  | 'formatItalic'
+  | 'formatUnderline'
+  | 'formatSuperscript'
+  | 'formatSubscript'
+  | 'insertLink'
+  | 'insertObject'
+  | 'formatText'
+  | 'formatParagraph'
+  | 'formatList'
+  | 'setDocument';
+
+/**
+ * Payload of the `textchange` event, fired after the document changed.
+ * Documents are the editor's own instances and must be treated as read-only.
+ */
+export interface TextChangeEvent {
+  inputType: InputType;
+  oldDocument: RichTextDocument;
+  newDocument: RichTextDocument;
+  range: TextRange; // Range in the old document that was replaced or restyled
+}
+
+/**
+ * Payload of the `selectionchange` event
+ */
+export interface SelectionChangeEvent {
+  oldSelection: Selection;
+  newSelection: Selection;
+}
+
+/**
+ * Payload of the `beforeinput` event, fired before an edit is applied.
+ * Handlers can call preventDefault() to veto the edit, or assign `data`
+ * to rewrite the text that is about to be inserted.
+ */
+export interface BeforeInputEvent {
+  inputType: InputType;
+  range: TextRange;
+  data: string | null; // Text to insert, null for deletions and formatting
+  defaultPrevented: boolean;
+  preventDefault(): void;
+}
+
+/**
+ * Payload of the `linkclick` event, fired when a link is clicked while the
+ * box is not being edited. Handlers can call preventDefault() to keep the
+ * click from starting editing.
+ */
+export interface LinkClickEvent {
+  link: TextLink;
+  range: TextRange; // All of the link's text
+  defaultPrevented: boolean;
+  preventDefault(): void;
+}
+
+/**
+ * How a text box sizes itself to its text:
+ * - 'fixed': the box keeps its size, text may overflow it
+ * - 'auto-height': the width is fixed, the height follows the text
+ * - 'auto-width': text is not wrapped; the box grows to its widest line
+ *   (up to maxWidth, where wrapping resumes) and the height follows
+ * - 'shrink-to-fit': the box keeps its size and font sizes are scaled down
+ *   until the text fits
+ */
+export type AutoFitMode = 'fixed' | 'auto-height' | 'auto-width' | 'shrink-to-fit';
+
+/**
+ * Payload of the `sizechange` event, fired when the box size or the
+ * shrink-to-fit font scale changed
+ */
+export interface SizeChangeEvent {
+  mode: AutoFitMode;
+  oldSize: { width: number; height: number };
+  newSize: { width: number; height: number };
+  fontScale: number; // Applied to all font sizes; 1 unless shrinking to fit
+}
+
+/**
+ * Events fired by RichTextNode and forwarded by RichText
+ */
+export interface RichTextEventMap {
+  textchange: TextChangeEvent;
+  selectionchange: SelectionChangeEvent;
+  beforeinput: BeforeInputEvent;
+  sizechange: SizeChangeEvent;
+  linkclick: LinkClickEvent;
+}
+
 /**
  * A single character with its style and position
  */
@@ -118,6 +443,7 @@ export interface StyledChar {
   style: TextStyle;
   spanId: string;
   absoluteIndex: number;
+  object?: InlineObject; // The inline object the character stands for
 }
 
 /**
@@ -126,7 +452,10 @@ export interface StyledChar {
 export interface LayoutToken {
   chars: StyledChar[];
   width: number;
-  type: 'word' | 'whitespace' | 'newline';
+  type: 'word' | 'whitespace' | 'newline' | 'columnbreak' | 'tab';
+  // Part of a word that may end a line with a hyphen (after a soft hyphen or
+  // at a hyphenation point): the width the hyphen then takes
+  hyphenWidth?: number;
 }
 
 /**
@@ -140,20 +469,37 @@ export interface PositionedChar {
   height: number;
   baseline: number;
   lineIndex: number;
+  bidiLevel: number; // Resolved embedding level: even is left-to-right, odd right-to-left
+  hyphen?: boolean; // A hyphen is drawn after the character (the line breaks inside a word); included in width
+  leader?: string; // A tab's leader character, repeated across its width
 }
 
 /**
  * A line of text after layout
  */
 export interface LayoutLine {
-  chars: PositionedChar[];
+  chars: PositionedChar[]; // In visual order, left to right
   y: number;
   height: number;
   baseline: number;
   width: number;
   lineIndex: number;
+  paragraphIndex: number; // Source paragraph this visual line belongs to
   listItem?: ListItem; // List metadata for this line
   listIndent: number; // Indentation in pixels for list
+  indent: number; // Paragraph indentation in pixels on the start side (incl. first-line)
+  direction: 'ltr' | 'rtl'; // Resolved paragraph direction; lists and indents start on this side
+  column?: number; // Column the line is in (0 when omitted)
+  columnBreak?: boolean; // Ends with a column break, so the next line starts a new column
+  segment?: LineSegment; // Free stretch of a wrap shape the line is in (several can share a y)
+}
+
+/**
+ * Horizontal stretch of a wrapped line, left and right edge in box coordinates
+ */
+export interface LineSegment {
+  left: number;
+  right: number;
 }
 
 /**
@@ -164,6 +510,76 @@ export interface LayoutResult {
   width: number;
   height: number;
   chars: PositionedChar[];
+  contentWidth: number; // Widest line with its indents, plus padding
+  contentHeight: number; // All lines and paragraph spacing, plus padding
+  overflowRange: TextRange | null; // Text below the box (with 'ellipsis', from the cut)
+  frames?: TextFrameBounds[]; // Linked frames, when the layout spans several (see combineFrameLayouts)
+  columns?: LayoutColumn[]; // Text area of each column, with more than one column
+  path?: LayoutPath; // Curve the lines are bent onto when drawn (see text-path.ts)
+}
+
+/**
+ * The curve a layout's text is drawn along. Layout positions stay straight;
+ * the point (x, y) is drawn at distance `x - start` along the curve, moved
+ * `y - baseline` along its normal, so the first line's baseline lies on it.
+ */
+export interface LayoutPath {
+  points: ShapePoint[]; // Polyline in box coordinates
+  lengths: number[]; // Distance along the polyline to each point
+  start: number; // Layout x at the start of the curve
+  baseline: number; // Layout y that lies on the curve
+}
+
+/**
+ * Text area of a column: lines start at `x` (plus indents) and wrap at `x + width`
+ */
+export interface LayoutColumn {
+  x: number;
+  width: number;
+}
+
+/**
+ * Size of one box in a chain of linked text frames
+ */
+export interface TextFrameSize {
+  width: number;
+  height: number;
+  wrap?: TextWrap;
+}
+
+/**
+ * A point of a wrap shape, in box coordinates
+ */
+export interface ShapePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * An area text flows around
+ */
+export type WrapExclusion =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'polygon'; points: ShapePoint[] };
+
+/**
+ * Non-rectangular text area: lines stay inside `shape` (the whole box when
+ * omitted) and outside every exclusion. Where an exclusion splits a line's
+ * free space, the line is laid out in several segments.
+ */
+export interface TextWrap {
+  shape?: ShapePoint[]; // Polygon the text stays inside
+  exclusions?: WrapExclusion[];
+  margin?: number; // Space kept between text and each exclusion (default 0)
+}
+
+/**
+ * Where a linked frame's lines are in a combined layout: frames are stacked
+ * top to bottom, so a frame's lines have y from `top` to `top + height`
+ */
+export interface TextFrameBounds extends TextFrameSize {
+  top: number;
+  columns?: LayoutColumn[];
 }
 
 /**
@@ -207,7 +623,8 @@ export interface TextBoxConfig {
   minHeight?: number;
   maxWidth?: number;
   maxHeight?: number;
-  autoHeight?: boolean;
+  autoHeight?: boolean; // Same as autoFit: 'auto-height'
+  autoFit?: AutoFitMode;
 }
 
 /**
@@ -244,6 +661,7 @@ export function createEmptyDocument(): RichTextDocument {
     verticalAlign: 'top',
     padding: 8,
     listItems: new Map(),
+    paragraphs: new Map(),
   };
 }
 
@@ -263,5 +681,6 @@ export function createDocument(text: string, style?: Partial<TextStyle>): RichTe
     verticalAlign: 'top',
     padding: 8,
     listItems: new Map(),
+    paragraphs: new Map(),
   };
 }
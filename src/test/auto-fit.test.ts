@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, Mock } from 'vitest';
+import { fitText, fitsInBox, scaleFontSizes, MIN_FONT_SCALE } from '../rich-text/auto-fit';
+import { layoutText, createLayoutCache, clearMeasurementCache } from '../rich-text/layout-engine';
+import { setParagraphStyle } from '../rich-text/document-model';
+import { createDocument, RichTextDocument } from '../rich-text/types';
+
+// The shared canvas mock measures 10px per character at every font size;
+// shrink-to-fit needs widths and heights that follow the font size
+const measureText = document.createElement('canvas').getContext('2d')!.measureText as Mock;
+const fixedSizeMeasure = measureText.getMockImplementation()!;
+
+function measureByFontSize(this: { font: string }, text: string) {
+  const fontSize = parseFloat(/([\d.]+)px/.exec(this.font)?.[1] ?? '16');
+  return {
+    width: text.length * fontSize * 0.5,
+    actualBoundingBoxAscent: fontSize * 0.8,
+    actualBoundingBoxDescent: fontSize * 0.2,
+  };
+}
+
+function doc(text: string): RichTextDocument {
+  return { ...createDocument(text), padding: 10 };
+}
+
+describe('Auto-Fit', () => {
+  describe('layout content size', () => {
+    it('should report the widest line and the text height', () => {
+      const layout = layoutText(doc('Hello\nHi'), 300, 200);
+      // 5 chars at 10px plus padding; two 21px lines plus padding
+      expect(layout.contentWidth).toBe(70);
+      expect(layout.contentHeight).toBeCloseTo(62);
+    });
+
+    it('should include indents and paragraph spacing', () => {
+      const styled = setParagraphStyle(doc('Hello'), 0, 0, { indentLeft: 20, spaceAfter: 8 });
+      const layout = layoutText(styled, 300, 200);
+      expect(layout.contentWidth).toBe(90);
+      expect(layout.contentHeight).toBeCloseTo(49);
+    });
+
+    it('should match with and without a layout cache', () => {
+      const cache = createLayoutCache();
+      const cached = layoutText(doc('One two\nthree'), 300, 200, cache);
+      const again = layoutText(doc('One two\nthree'), 300, 200, cache);
+      expect(cache.hits).toBe(2);
+      expect(again.contentWidth).toBe(cached.contentWidth);
+      expect(again.contentHeight).toBe(cached.contentHeight);
+    });
+
+    it('should not fit when a word is wider than the box', () => {
+      expect(fitsInBox(layoutText(doc('Unbreakable'), 80, 200))).toBe(false);
+      expect(fitsInBox(layoutText(doc('Fits'), 80, 200))).toBe(true);
+    });
+  });
+
+  describe('fixed', () => {
+    it('should keep the box size', () => {
+      const fit = fitText(doc('A\nB\nC\nD'), 100, 40, { mode: 'fixed' });
+      expect(fit.width).toBe(100);
+      expect(fit.height).toBe(40);
+      expect(fit.fontScale).toBe(1);
+      expect(fitsInBox(fit.layout)).toBe(false);
+    });
+  });
+
+  describe('auto-height', () => {
+    it('should grow and shrink to the text', () => {
+      expect(fitText(doc('A\nB\nC'), 100, 40, { mode: 'auto-height' }).height).toBe(83);
+      expect(fitText(doc('A'), 100, 400, { mode: 'auto-height' }).height).toBe(41);
+    });
+
+    it('should stay within min and max height', () => {
+      expect(fitText(doc('A'), 100, 40, { mode: 'auto-height', minHeight: 60 }).height).toBe(60);
+      const fit = fitText(doc('A\nB\nC\nD'), 100, 40, { mode: 'auto-height', maxHeight: 70 });
+      expect(fit.height).toBe(70);
+      expect(fit.layout.height).toBe(70);
+    });
+
+    it('should keep the width and wrap', () => {
+      const fit = fitText(doc('aaa bbb ccc'), 100, 40, { mode: 'auto-height' });
+      expect(fit.width).toBe(100);
+      expect(fit.layout.lines).toHaveLength(2);
+      expect(fit.height).toBe(62);
+    });
+
+    it('should lay out again at the fitted height for vertical alignment', () => {
+      const bottom = { ...doc('A'), verticalAlign: 'bottom' as const };
+      const fit = fitText(bottom, 100, 400, { mode: 'auto-height' });
+      expect(fit.layout.height).toBe(41);
+      expect(fit.layout.lines[0].y).toBeCloseTo(10);
+    });
+  });
+
+  describe('auto-width', () => {
+    it('should size the box to the widest unwrapped line', () => {
+      const fit = fitText(doc('aaa bbb ccc\nd'), 50, 40, { mode: 'auto-width' });
+      expect(fit.width).toBe(130);
+      expect(fit.layout.lines).toHaveLength(2);
+      expect(fit.height).toBe(62);
+    });
+
+    it('should wrap at max width', () => {
+      const fit = fitText(doc('aaa bbb ccc'), 50, 40, { mode: 'auto-width', maxWidth: 100 });
+      expect(fit.width).toBe(100);
+      expect(fit.layout.lines).toHaveLength(2);
+    });
+
+    it('should stay within min width', () => {
+      expect(fitText(doc('a'), 300, 40, { mode: 'auto-width', minWidth: 50 }).width).toBe(50);
+    });
+  });
+
+  describe('shrink-to-fit', () => {
+    beforeEach(() => {
+      clearMeasurementCache();
+      measureText.mockImplementation(measureByFontSize);
+    });
+
+    afterEach(() => {
+      measureText.mockImplementation(fixedSizeMeasure);
+      clearMeasurementCache();
+    });
+
+    it('should scale font sizes', () => {
+      const scaled = scaleFontSizes(doc('Hi'), 0.5);
+      expect(scaled.spans[0].style.fontSize).toBe(8);
+      expect(scaleFontSizes(scaled, 1)).toBe(scaled);
+    });
+
+    it('should keep full size when the text fits', () => {
+      const fit = fitText(doc('Hello'), 200, 100, { mode: 'shrink-to-fit' });
+      expect(fit.fontScale).toBe(1);
+      expect(fit.document.spans[0].style.fontSize).toBe(16);
+    });
+
+    it('should find the largest scale that fits', () => {
+      const text = doc('Some longer text that will not fit at full size');
+      const fit = fitText(text, 120, 60, { mode: 'shrink-to-fit' });
+
+      expect(fit.fontScale).toBeLessThan(1);
+      expect(fit.width).toBe(120);
+      expect(fit.height).toBe(60);
+      expect(fitsInBox(fit.layout)).toBe(true);
+      expect(fit.document.spans[0].style.fontSize).toBeCloseTo(16 * fit.fontScale);
+
+      const larger = layoutText(scaleFontSizes(text, fit.fontScale + 0.01), 120, 60);
+      expect(fitsInBox(larger)).toBe(false);
+    });
+
+    it('should grow back from a previous scale when text is removed', () => {
+      const fit = fitText(doc('Short'), 200, 100, { mode: 'shrink-to-fit', fontScale: 0.3 });
+      expect(fit.fontScale).toBe(1);
+    });
+
+    it('should shrink a single long word to the box width', () => {
+      const fit = fitText(doc('Supercalifragilistic'), 100, 200, { mode: 'shrink-to-fit' });
+      expect(fit.layout.lines).toHaveLength(1);
+      expect(fitsInBox(fit.layout)).toBe(true);
+    });
+
+    it('should stop at the minimum scale', () => {
+      const fit = fitText(doc('x'.repeat(500)), 30, 25, { mode: 'shrink-to-fit' });
+      expect(fit.fontScale).toBe(MIN_FONT_SCALE);
+    });
+
+    it('should reuse the cache for a box that already fits', () => {
+      const cache = createLayoutCache();
+      const text = doc('Some longer text that will not fit at full size');
+      const first = fitText(text, 120, 60, { mode: 'shrink-to-fit' }, cache);
+      fitText(text, 120, 60, { mode: 'shrink-to-fit', fontScale: first.fontScale }, cache);
+      expect(cache.misses).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBidiClass,
+  getBidiClasses,
+  getBaseDirection,
+  resolveBidiLevels,
+  reorderLine,
+} from '../rich-text/bidi';
+import {
+  layoutText,
+  getCaretPosition,
+  hitTest,
+  getSelectionBoxes,
+  createLayoutCache,
+} from '../rich-text/layout-engine';
+import { setParagraphStyle, toggleListForLines } from '../rich-text/document-model';
+import { exportToHTML } from '../rich-text/html-export';
+import { createDocument, RichTextDocument, TextDirection } from '../rich-text/types';
+
+const HEBREW = 'אבג';
+const ARABIC = 'بيت';
+
+const levelsOf = (text: string, paragraphLevel: number) =>
+  resolveBidiLevels(getBidiClasses(Array.from(text)), paragraphLevel);
+
+const visualOrder = (text: string, paragraphLevel: number) => {
+  const classes = getBidiClasses(Array.from(text));
+  return reorderLine(classes, resolveBidiLevels(classes, paragraphLevel), paragraphLevel);
+};
+
+const createDirectedDocument = (text: string, direction: TextDirection): RichTextDocument => ({
+  ...createDocument(text),
+  direction,
+});
+
+describe('Bidirectional Text', () => {
+  describe('getBidiClass', () => {
+    it('should classify common characters', () => {
+      const classOf = (char: string) => getBidiClass(char.codePointAt(0)!);
+
+      expect(classOf('a')).toBe('L');
+      expect(classOf('中')).toBe('L');
+      expect(classOf('א')).toBe('R');
+      expect(classOf('ب')).toBe('AL');
+      expect(classOf('7')).toBe('EN');
+      expect(classOf('٣')).toBe('AN');
+      expect(classOf('-')).toBe('ES');
+      expect(classOf('%')).toBe('ET');
+      expect(classOf(',')).toBe('CS');
+      expect(classOf(' ')).toBe('WS');
+      expect(classOf('\t')).toBe('S');
+      expect(classOf('!')).toBe('ON');
+      expect(classOf('\u0301')).toBe('NSM');
+      expect(classOf('\u05b8')).toBe('NSM');
+      expect(classOf('\u2067')).toBe('RLI');
+    });
+  });
+
+  describe('getBaseDirection', () => {
+    it('should follow the first strong character', () => {
+      expect(getBaseDirection('hello')).toBe('ltr');
+      expect(getBaseDirection(`${HEBREW} hello`)).toBe('rtl');
+      expect(getBaseDirection(`123 ${ARABIC}`)).toBe('rtl');
+      expect(getBaseDirection('123 !')).toBeNull();
+    });
+
+    it('should skip isolated text', () => {
+      expect(getBaseDirection(`\u2067${HEBREW}\u2069 hello`)).toBe('ltr');
+    });
+  });
+
+  describe('resolveBidiLevels', () => {
+    it('should raise right-to-left text in a left-to-right paragraph', () => {
+      expect(levelsOf(`ab ${HEBREW}`, 0)).toEqual([0, 0, 0, 1, 1, 1]);
+    });
+
+    it('should raise numbers and Latin text in a right-to-left paragraph', () => {
+      expect(levelsOf(`${HEBREW} 12 ab`, 1)).toEqual([1, 1, 1, 1, 2, 2, 1, 2, 2]);
+    });
+
+    it('should keep a number with its separators together', () => {
+      expect(levelsOf(`${HEBREW} 1,000.5`, 1)).toEqual([1, 1, 1, 1, 2, 2, 2, 2, 2, 2, 2]);
+    });
+
+    it('should treat European digits after Arabic letters as Arabic numbers', () => {
+      // Level 2 either way, but the digits must not join the Latin text after them
+      expect(levelsOf(`${ARABIC} 12 ab`, 0)).toEqual([1, 1, 1, 1, 2, 2, 0, 0, 0]);
+    });
+
+    it('should give neutrals between same-direction text that direction', () => {
+      expect(levelsOf(`${HEBREW} - ${HEBREW}`, 0)).toEqual([1, 1, 1, 1, 1, 1, 1, 1, 1]);
+      expect(levelsOf(`ab ${HEBREW} cd`, 0)).toEqual([0, 0, 0, 1, 1, 1, 0, 0, 0]);
+    });
+
+    it('should apply explicit embeddings and overrides', () => {
+      // Right-to-left override: Latin letters are displayed reversed
+      expect(levelsOf('a\u202ebc\u202cd', 0)).toEqual([0, 0, 1, 1, 1, 0]);
+    });
+
+    it('should attach combining marks to their base character', () => {
+      expect(levelsOf('א\u05b8b', 0)).toEqual([1, 1, 0]);
+    });
+  });
+
+  describe('reorderLine', () => {
+    it('should reverse right-to-left runs', () => {
+      expect(visualOrder(`ab ${HEBREW}`, 0)).toEqual([0, 1, 2, 5, 4, 3]);
+    });
+
+    it('should keep left-to-right runs in order inside right-to-left text', () => {
+      expect(visualOrder(`${HEBREW} ab`, 1)).toEqual([4, 5, 3, 2, 1, 0]);
+    });
+
+    it('should move trailing whitespace to the paragraph side', () => {
+      const classes = getBidiClasses(Array.from(`${HEBREW}  `));
+      const levels = resolveBidiLevels(classes, 1);
+      const order = reorderLine(classes, levels, 1);
+
+      expect(levels).toEqual([1, 1, 1, 1, 1]);
+      expect(order).toEqual([4, 3, 2, 1, 0]);
+    });
+
+    it('should leave left-to-right text alone', () => {
+      expect(visualOrder('hello', 0)).toEqual([0, 1, 2, 3, 4]);
+    });
+  });
+
+  describe('layout', () => {
+    const indicesOf = (doc: RichTextDocument, width = 400) =>
+      layoutText(doc, width, 300).lines.map((line) => line.chars.map((c) => c.char.absoluteIndex));
+
+    it('should position mixed-direction characters in visual order', () => {
+      const layout = layoutText(createDocument(`ab ${HEBREW} cd`), 400, 300);
+      const chars = layout.lines[0].chars;
+
+      expect(chars.map((c) => c.char.absoluteIndex)).toEqual([0, 1, 2, 5, 4, 3, 6, 7, 8]);
+      for (let i = 1; i < chars.length; i++) {
+        expect(chars[i].x).toBeCloseTo(chars[i - 1].x + chars[i - 1].width);
+      }
+      expect(chars.map((c) => c.bidiLevel)).toEqual([0, 0, 0, 1, 1, 1, 0, 0, 0]);
+    });
+
+    it('should right-align a right-to-left paragraph with left (start) alignment', () => {
+      const layout = layoutText(createDirectedDocument(HEBREW, 'rtl'), 400, 300);
+      const line = layout.lines[0];
+      const rightmost = line.chars[line.chars.length - 1];
+
+      expect(line.direction).toBe('rtl');
+      expect(rightmost.char.absoluteIndex).toBe(0);
+      expect(rightmost.x + rightmost.width).toBeCloseTo(392); // 400 - padding
+    });
+
+    it('should left-align a right-to-left paragraph with right (end) alignment', () => {
+      const doc = { ...createDirectedDocument(HEBREW, 'rtl'), align: 'right' as const };
+      const layout = layoutText(doc, 400, 300);
+
+      expect(layout.lines[0].chars[0].x).toBeCloseTo(8);
+    });
+
+    it('should justify right-to-left lines and start-align the last one', () => {
+      const doc = { ...createDirectedDocument(`${HEBREW} ${HEBREW} ${HEBREW} ${HEBREW}`, 'rtl'), align: 'justify' as const };
+      const layout = layoutText(doc, 100, 300);
+      const [first, last] = [layout.lines[0], layout.lines[layout.lines.length - 1]];
+      const lastRight = last.chars[last.chars.length - 1];
+
+      expect(first.chars[0].x).toBeCloseTo(8);
+      expect(lastRight.x + lastRight.width).toBeCloseTo(92);
+    });
+
+    it('should resolve auto direction per paragraph', () => {
+      const layout = layoutText(createDirectedDocument(`abc\n${HEBREW} abc\n123`, 'auto'), 400, 300);
+
+      expect(layout.lines.map((line) => line.direction)).toEqual(['ltr', 'rtl', 'ltr']);
+    });
+
+    it('should let a paragraph override the document direction', () => {
+      const doc = setParagraphStyle(createDocument(`abc\n${HEBREW}`), 1, 1, { direction: 'rtl' });
+
+      expect(layoutText(doc, 400, 300).lines.map((line) => line.direction)).toEqual(['ltr', 'rtl']);
+      expect(indicesOf(doc)[1]).toEqual([6, 5, 4]);
+    });
+
+    it('should put list indents on the right in right-to-left paragraphs', () => {
+      const doc = toggleListForLines(createDirectedDocument(HEBREW, 'rtl'), 0, 0, 'bullet');
+      const line = layoutText(doc, 400, 300).lines[0];
+      const rightmost = line.chars[line.chars.length - 1];
+
+      expect(rightmost.x + rightmost.width).toBeCloseTo(400 - 8 - line.listIndent);
+    });
+
+    it('should wrap right-to-left text in logical order', () => {
+      // "אבג אבג" does not fit in 60px: the first word stays on the first line
+      expect(indicesOf(createDirectedDocument(`${HEBREW} ${HEBREW}`, 'rtl'), 60)).toEqual([
+        [3, 2, 1, 0],
+        [6, 5, 4],
+      ]);
+    });
+
+    it('should reuse cached right-to-left paragraphs', () => {
+      const doc = createDirectedDocument(`ab ${HEBREW}\n${HEBREW} 12`, 'auto');
+      const cache = createLayoutCache();
+      layoutText(doc, 400, 300, cache);
+
+      expect(layoutText(doc, 400, 300, cache)).toEqual(layoutText(doc, 400, 300));
+      expect(cache.hits).toBe(2);
+    });
+  });
+
+  describe('caret and hit testing', () => {
+    const doc = createDirectedDocument(HEBREW, 'rtl');
+    const layout = layoutText(doc, 400, 300);
+    const [left, middle, right] = layout.lines[0].chars; // ג ב א
+    const y = right.y + right.height / 2;
+
+    it('should place the caret on the trailing edge of right-to-left characters', () => {
+      expect(getCaretPosition(layout, 0, doc).x).toBeCloseTo(right.x + right.width);
+      expect(getCaretPosition(layout, 1, doc).x).toBeCloseTo(right.x);
+      expect(getCaretPosition(layout, 3, doc).x).toBeCloseTo(left.x);
+    });
+
+    it('should map clicks to logical positions', () => {
+      expect(hitTest(layout, right.x + right.width - 2, y, doc)).toBe(0);
+      expect(hitTest(layout, right.x + 2, y, doc)).toBe(1);
+      expect(hitTest(layout, middle.x + 2, y, doc)).toBe(2);
+      expect(hitTest(layout, left.x - 5, y, doc)).toBe(3);
+      expect(hitTest(layout, 399, y, doc)).toBe(0);
+    });
+
+    it('should place the caret on an empty right-to-left line at the right edge', () => {
+      const emptyDoc = createDirectedDocument(`${HEBREW}\n`, 'rtl');
+      const emptyLayout = layoutText(emptyDoc, 400, 300);
+
+      expect(getCaretPosition(emptyLayout, 4, emptyDoc).x).toBeCloseTo(392);
+    });
+
+    it('should find the logical end of a mixed line', () => {
+      const mixedDoc = createDocument(`ab ${HEBREW}`);
+      const mixedLayout = layoutText(mixedDoc, 400, 300);
+      const alef = mixedLayout.lines[0].chars[5];
+
+      // After the last character (א, visually rightmost) the caret is on its left edge
+      expect(getCaretPosition(mixedLayout, 6, mixedDoc).x).toBeCloseTo(mixedLayout.lines[0].chars[3].x);
+      expect(hitTest(mixedLayout, alef.x + alef.width + 50, y, mixedDoc)).toBe(3);
+    });
+  });
+
+  describe('getSelectionBoxes', () => {
+    it('should split a selection that is not visually contiguous', () => {
+      const layout = layoutText(createDocument(`ab ${HEBREW}`), 400, 300);
+      const [, b, space, , , alef] = layout.lines[0].chars;
+
+      // Selects b, the space and א: א is displayed at the far right
+      const boxes = getSelectionBoxes(layout, 1, 4);
+
+      expect(boxes).toHaveLength(2);
+      expect(boxes[0].x).toBeCloseTo(b.x);
+      expect(boxes[0].width).toBeCloseTo(b.width + space.width);
+      expect(boxes[1].x).toBeCloseTo(alef.x);
+      expect(boxes[1].width).toBeCloseTo(alef.width);
+    });
+
+    it('should use one box for a contiguous right-to-left selection', () => {
+      const layout = layoutText(createDirectedDocument(HEBREW, 'rtl'), 400, 300);
+
+      expect(getSelectionBoxes(layout, 0, 2)).toHaveLength(1);
+    });
+  });
+
+  describe('HTML export', () => {
+    it('should write the paragraph direction', () => {
+      const html = exportToHTML({ ...createDirectedDocument(HEBREW, 'rtl'), align: 'right' });
+
+      expect(html).toContain('direction: rtl');
+      expect(html).toContain('text-align: end');
+    });
+  });
+});
@@ -9,10 +9,13 @@ import {
   applyStyleToRange,
   toggleBoldInRange,
   toggleItalicInRange,
+  toggleVerticalPositionInRange,
   absoluteToSpanPosition,
   spanToAbsolutePosition,
   getStyleAtPosition,
   cloneDocument,
+  getParagraphStyle,
+  setParagraphStyle,
 } from '../rich-text/document-model';
 import {
   createEmptyDocument,
@@ -313,6 +316,22 @@ describe('Document Model', () => {
     });
   });
 
+  describe('toggleVerticalPositionInRange', () => {
+    it('should toggle superscript on and off', () => {
+      const doc = toggleVerticalPositionInRange(createDocument('x2'), 1, 2, 'super');
+      expect(flattenDocument(doc)[1].style.verticalPosition).toBe('super');
+
+      const off = toggleVerticalPositionInRange(doc, 1, 2, 'super');
+      expect(flattenDocument(off)[1].style.verticalPosition).toBeUndefined();
+    });
+
+    it('should turn subscript into superscript', () => {
+      const doc = createDocument('x2', { verticalPosition: 'sub' });
+      const newDoc = toggleVerticalPositionInRange(doc, 0, 2, 'super');
+      expect(flattenDocument(newDoc)[0].style.verticalPosition).toBe('super');
+    });
+  });
+
   describe('getStyleAtPosition', () => {
     it('should get style at position', () => {
       const doc = createDocument('Hello', { fontSize: 24 });
@@ -354,4 +373,57 @@ describe('Document Model', () => {
       expect(doc.spans[0].style.fontSize).toBe(24);
     });
   });
+
+  describe('paragraph formatting', () => {
+    it('should fall back to document alignment', () => {
+      const doc = createDocument('Title\nBody');
+      doc.align = 'right';
+      expect(getParagraphStyle(doc, 1).align).toBe('right');
+      expect(getParagraphStyle(doc, 1).spaceBefore).toBe(0);
+    });
+
+    it('should set style on a range of paragraphs', () => {
+      const doc = setParagraphStyle(createDocument('A\nB\nC'), 0, 1, { align: 'center', spaceAfter: 12 });
+      expect(getParagraphStyle(doc, 0).align).toBe('center');
+      expect(getParagraphStyle(doc, 1).spaceAfter).toBe(12);
+      expect(getParagraphStyle(doc, 2).align).toBe('left');
+    });
+
+    it('should shift paragraphs when inserting newlines', () => {
+      let doc = setParagraphStyle(createDocument('Title\nBody'), 0, 0, { align: 'center' });
+      doc = setParagraphStyle(doc, 1, 1, { indentLeft: 20 });
+      // Insert a new paragraph at the start of the body
+      const newDoc = insertText(doc, 6, 'Intro\n');
+      expect(getParagraphStyle(newDoc, 0).align).toBe('center');
+      expect(getParagraphStyle(newDoc, 1).indentLeft).toBe(20);
+      expect(getParagraphStyle(newDoc, 2).indentLeft).toBe(20);
+    });
+
+    it('should let new paragraphs inherit the split paragraph style', () => {
+      const doc = setParagraphStyle(createDocument('HelloWorld\nBody'), 0, 0, { align: 'center' });
+      const newDoc = insertText(doc, 5, '\n');
+      expect(getParagraphStyle(newDoc, 0).align).toBe('center');
+      expect(getParagraphStyle(newDoc, 1).align).toBe('center');
+      expect(getParagraphStyle(newDoc, 2).align).toBe('left');
+    });
+
+    it('should merge paragraphs when deleting newlines', () => {
+      let doc = setParagraphStyle(createDocument('A\nB\nC'), 0, 0, { align: 'center' });
+      doc = setParagraphStyle(doc, 1, 1, { align: 'right' });
+      doc = setParagraphStyle(doc, 2, 2, { spaceBefore: 10 });
+      // Delete "\nB" - paragraph 1 is merged into paragraph 0
+      const newDoc = deleteRange(doc, 1, 3);
+      expect(newDoc.spans[0].text).toBe('A\nC');
+      expect(getParagraphStyle(newDoc, 0).align).toBe('center');
+      expect(getParagraphStyle(newDoc, 1).spaceBefore).toBe(10);
+      expect(newDoc.paragraphs?.size).toBe(2);
+    });
+
+    it('should deep clone paragraphs', () => {
+      const doc = setParagraphStyle(createDocument('A'), 0, 0, { indentLeft: 5 });
+      const clone = cloneDocument(doc);
+      clone.paragraphs!.get(0)!.indentLeft = 50;
+      expect(getParagraphStyle(doc, 0).indentLeft).toBe(5);
+    });
+  });
 });
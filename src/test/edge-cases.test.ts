@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   flattenDocument,
   insertText,
@@ -7,6 +7,12 @@ import {
   getStyleAtPosition,
 } from '../rich-text/document-model';
 import { layoutText, getCaretPosition, hitTest } from '../rich-text/layout-engine';
+import {
+  splitGraphemes,
+  getPreviousGraphemeBoundary,
+  getNextGraphemeBoundary,
+  snapToGraphemeBoundary,
+} from '../rich-text/graphemes';
 import { RichTextDocument, DEFAULT_STYLE } from '../rich-text/types';
 
 describe('Edge Cases - Empty Spans Array', () => {
@@ -102,7 +108,8 @@ describe('Edge Cases - Boundary Conditions', () => {
       listItems: new Map(),
     };
     const chars = flattenDocument(doc);
-    expect(chars.length).toBe(6); // 4 Chinese chars + 2 for emoji (surrogate pair)
+    expect(chars.length).toBe(5); // 4 Chinese chars + the emoji (one grapheme, two code units)
+    expect(chars[4]).toMatchObject({ char: '🌍', absoluteIndex: 4 });
   });
 
   it('should handle multiple newlines', () => {
@@ -167,3 +174,127 @@ describe('Edge Cases - Boundary Conditions', () => {
     expect(pos.charOffset).toBe(2); // Clamped to end
   });
 });
+
+describe('Edge Cases - Emoji and Grapheme Clusters', () => {
+  const FAMILY = '👨‍👩‍👧‍👦'; // 4 emoji joined by ZWJ, 11 code units
+  const FLAG = '🇯🇵'; // Regional indicator pair, 4 code units
+  const THUMBS = '👍🏽'; // Emoji with skin tone modifier, 4 code units
+  const E_ACUTE = 'e\u0301'; // e + combining acute accent, 2 code units
+  const TEXT = `a${FAMILY}${FLAG} ${THUMBS}${E_ACUTE}z`;
+
+  const createDoc = (text: string): RichTextDocument => ({
+    spans: [{ id: 'test', text, style: DEFAULT_STYLE }],
+    align: 'left',
+    verticalAlign: 'top',
+    padding: 8,
+    listItems: new Map(),
+  });
+
+  it('should split text into grapheme clusters', () => {
+    expect(splitGraphemes(TEXT)).toEqual(['a', FAMILY, FLAG, ' ', THUMBS, E_ACUTE, 'z']);
+    expect(splitGraphemes('')).toEqual([]);
+  });
+
+  it('should flatten each cluster to one character at its UTF-16 offset', () => {
+    const chars = flattenDocument(createDoc(TEXT));
+
+    expect(chars.map((c) => c.char)).toEqual(['a', FAMILY, FLAG, ' ', THUMBS, E_ACUTE, 'z']);
+    expect(chars.map((c) => c.absoluteIndex)).toEqual([0, 1, 12, 16, 17, 21, 23]);
+  });
+
+  it('should lay out and measure each cluster as one character', () => {
+    const layout = layoutText(createDoc(TEXT), 400, 300);
+
+    expect(layout.chars.map((c) => c.char.char)).toEqual([
+      'a', FAMILY, FLAG, ' ', THUMBS, E_ACUTE, 'z',
+    ]);
+    // The mock measures 10px per code unit, so the family emoji is one wide glyph
+    expect(layout.chars[1].width).toBe(110);
+    expect(layout.chars[2].x).toBeCloseTo(layout.chars[1].x + 110);
+  });
+
+  it('should place the caret after a cluster', () => {
+    const doc = createDoc(TEXT);
+    const layout = layoutText(doc, 400, 300);
+    const family = layout.chars[1];
+
+    const caret = getCaretPosition(layout, 12, doc);
+    expect(caret.x).toBeCloseTo(family.x + family.width);
+  });
+
+  it('should only hit-test to cluster boundaries', () => {
+    const doc = createDoc(TEXT);
+    const layout = layoutText(doc, 400, 300);
+    const family = layout.chars[1];
+    const y = family.y + family.height / 2;
+
+    expect(hitTest(layout, family.x + 10, y, doc)).toBe(1);
+    expect(hitTest(layout, family.x + family.width - 10, y, doc)).toBe(12);
+    expect(hitTest(layout, 1000, y, doc)).toBe(TEXT.length);
+  });
+
+  it('should find the previous and next cluster boundaries', () => {
+    expect(getNextGraphemeBoundary(TEXT, 0)).toBe(1);
+    expect(getNextGraphemeBoundary(TEXT, 1)).toBe(12);
+    expect(getNextGraphemeBoundary(TEXT, 12)).toBe(16);
+    expect(getNextGraphemeBoundary(TEXT, 17)).toBe(21);
+    expect(getNextGraphemeBoundary(TEXT, TEXT.length)).toBe(TEXT.length);
+
+    expect(getPreviousGraphemeBoundary(TEXT, 12)).toBe(1);
+    expect(getPreviousGraphemeBoundary(TEXT, 16)).toBe(12);
+    expect(getPreviousGraphemeBoundary(TEXT, 23)).toBe(21);
+    expect(getPreviousGraphemeBoundary(TEXT, 0)).toBe(0);
+  });
+
+  it('should not join clusters across a newline', () => {
+    const text = `${FLAG}\n\u0301x`;
+
+    expect(getPreviousGraphemeBoundary(text, 5)).toBe(4);
+    expect(getNextGraphemeBoundary(text, 4)).toBe(5);
+  });
+
+  it('should snap positions inside a cluster to its start', () => {
+    expect(snapToGraphemeBoundary(TEXT, 5)).toBe(1);
+    expect(snapToGraphemeBoundary(TEXT, 14)).toBe(12);
+    expect(snapToGraphemeBoundary(TEXT, 12)).toBe(12);
+    expect(snapToGraphemeBoundary(TEXT, 999)).toBe(TEXT.length);
+  });
+
+  it('should delete a whole cluster by its boundaries', () => {
+    const doc = createDoc(TEXT);
+    const start = getPreviousGraphemeBoundary(TEXT, 12);
+    const result = deleteRange(doc, start, 12);
+
+    expect(result.spans[0].text).toBe(`a${FLAG} ${THUMBS}${E_ACUTE}z`);
+  });
+
+  it('should keep a cluster together when styles split it', () => {
+    const doc: RichTextDocument = {
+      ...createDoc(''),
+      spans: [
+        { id: 'a', text: 'e', style: DEFAULT_STYLE },
+        { id: 'b', text: '\u0301!', style: { ...DEFAULT_STYLE, fontWeight: 'bold' } },
+      ],
+    };
+    const layout = layoutText(doc, 400, 300);
+
+    expect(layout.chars.map((c) => c.char.char)).toEqual([E_ACUTE, '!']);
+    expect(layout.chars[0].char.spanId).toBe('a');
+    expect(layout.chars[1].char.spanId).toBe('b');
+    expect(layout.chars[1].char.absoluteIndex).toBe(2);
+  });
+
+  it('should split clusters without Intl.Segmenter', async () => {
+    const { Segmenter } = Intl as unknown as { Segmenter?: unknown };
+    vi.resetModules();
+    delete (Intl as unknown as { Segmenter?: unknown }).Segmenter;
+
+    try {
+      const graphemes = await import('../rich-text/graphemes');
+      expect(graphemes.splitGraphemes(TEXT)).toEqual(['a', FAMILY, FLAG, ' ', THUMBS, E_ACUTE, 'z']);
+      expect(graphemes.splitGraphemes(`${FLAG}${FLAG}\r\n`)).toEqual([FLAG, FLAG, '\r\n']);
+    } finally {
+      (Intl as unknown as { Segmenter?: unknown }).Segmenter = Segmenter;
+    }
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { exportToHTML } from '../rich-text/html-export';
+import { parseHTMLToSpans } from '../rich-text/html-parser';
+import {
+  applyStyleToRange,
+  toggleListForLines,
+  indentListItem,
+  renumberLists,
+  setParagraphStyle,
+  insertObject,
+} from '../rich-text/document-model';
+import { createDocument, TextSpan, TextStyle, OBJECT_REPLACEMENT } from '../rich-text/types';
+
+function getText(spans: TextSpan[]): string {
+  return spans.map((s) => s.text).join('');
+}
+
+function styleAt(spans: TextSpan[], text: string): TextStyle {
+  const span = spans.find((s) => s.text.includes(text));
+  if (!span) throw new Error(`No span contains "${text}"`);
+  return span.style;
+}
+
+describe('HTML Export', () => {
+  describe('exportToHTML', () => {
+    it('should write paragraphs', () => {
+      const html = exportToHTML(createDocument('One\n\nTwo'));
+      expect(html.match(/<p /g)).toHaveLength(3);
+      expect(html).toContain('<br>');
+    });
+
+    it('should use semantic tags for bold, italic, underline and strikethrough', () => {
+      let doc = createDocument('b i u s');
+      doc = applyStyleToRange(doc, 0, 1, { fontWeight: 'bold' });
+      doc = applyStyleToRange(doc, 2, 3, { fontStyle: 'italic' });
+      doc = applyStyleToRange(doc, 4, 5, { underline: true });
+      doc = applyStyleToRange(doc, 6, 7, { strikethrough: true });
+      const html = exportToHTML(doc);
+      expect(html).toContain('<strong>b</strong>');
+      expect(html).toContain('<em>i</em>');
+      expect(html).toContain('<u>u</u>');
+      expect(html).toContain('<s>s</s>');
+    });
+
+    it('should use sup and sub for superscripts and subscripts', () => {
+      let doc = createDocument('x2 H2O');
+      doc = applyStyleToRange(doc, 1, 2, { verticalPosition: 'super' });
+      doc = applyStyleToRange(doc, 4, 5, { verticalPosition: 'sub' });
+      const html = exportToHTML(doc);
+      expect(html).toContain('<sup>2</sup>');
+      expect(html).toContain('<sub>2</sub>');
+    });
+
+    it('should write nested lists', () => {
+      let doc = createDocument('One\nSub\nTwo\nAfter');
+      doc = toggleListForLines(doc, 0, 2, 'number');
+      doc = renumberLists(indentListItem(doc, 1));
+      doc = toggleListForLines(doc, 1, 1, 'bullet');
+      doc = indentListItem(doc, 1);
+      const html = exportToHTML(doc).replace(/ style="[^"]*"|<\/?span[^>]*>/g, '');
+      expect(html).toBe('<ol><li>One<ul><li>Sub</li></ul></li><li>Two</li></ol><p>After</p>');
+    });
+
+    it('should write paragraph alignment and indentation', () => {
+      const doc = setParagraphStyle(createDocument('Title'), 0, 0, {
+        align: 'center',
+        firstLineIndent: 20,
+      });
+      const html = exportToHTML(doc);
+      expect(html).toContain('text-align: center');
+      expect(html).toContain('text-indent: 20px');
+    });
+
+    it('should escape text', () => {
+      const html = exportToHTML(createDocument('<b>&"'));
+      expect(html).toContain('&lt;b&gt;&amp;&quot;');
+      expect(getText(parseHTMLToSpans(html))).toBe('<b>&"');
+    });
+
+    it('should only export the range', () => {
+      const doc = toggleListForLines(createDocument('Hello\nWorld'), 1, 1, 'bullet');
+      const html = exportToHTML(doc, { start: 3, end: 8 });
+      expect(getText(parseHTMLToSpans(html))).toBe('lo\nWo');
+      expect(html).toMatch(/^<p[^>]*>.*<\/p><ul><li/);
+    });
+  });
+
+  describe('round trip through parseHTMLToSpans', () => {
+    it('should keep text and paragraphs', () => {
+      const spans = parseHTMLToSpans(exportToHTML(createDocument('A\n\nB  spaced\n')));
+      expect(getText(spans)).toBe('A\n\nB  spaced\n');
+    });
+
+    it('should keep the style of paragraph breaks and empty lines', () => {
+      const style = { fontFamily: 'Georgia', fontSize: 24, color: '#336699' };
+      let doc = createDocument('A\n\nB\n', style);
+      doc = applyStyleToRange(doc, 3, 5, { fontWeight: 'bold', fontSize: 30 });
+
+      const spans = parseHTMLToSpans(exportToHTML(doc));
+      expect(spans.map((s) => s.text)).toEqual(doc.spans.map((s) => s.text));
+      spans.forEach((span, i) => expect(span.style).toEqual(doc.spans[i].style));
+    });
+
+    it('should keep inline styles', () => {
+      let doc = createDocument('plain bold italic under struck', {
+        fontFamily: 'Times New Roman',
+        fontSize: 20,
+        color: '#ff0000',
+      });
+      doc = applyStyleToRange(doc, 6, 10, { fontWeight: 'bold' });
+      doc = applyStyleToRange(doc, 11, 17, { fontStyle: 'italic', backgroundColor: '#ffff00' });
+      doc = applyStyleToRange(doc, 18, 23, { underline: true, letterSpacing: 2 });
+      doc = applyStyleToRange(doc, 24, 30, { strikethrough: true, lineHeight: 2 });
+
+      const spans = parseHTMLToSpans(exportToHTML(doc));
+      expect(getText(spans)).toBe('plain bold italic under struck');
+      for (const text of ['plain', 'bold', 'italic', 'under', 'struck']) {
+        expect(styleAt(spans, text)).toEqual(styleAt(doc.spans, text));
+      }
+    });
+
+    it('should keep superscripts, subscripts and baseline shifts', () => {
+      let doc = createDocument('x2 H2O up down');
+      doc = applyStyleToRange(doc, 1, 2, { verticalPosition: 'super' });
+      doc = applyStyleToRange(doc, 4, 5, { verticalPosition: 'sub' });
+      doc = applyStyleToRange(doc, 7, 9, { baselineShift: 3 });
+      doc = applyStyleToRange(doc, 10, 14, { baselineShift: '-0.25em' });
+
+      const spans = parseHTMLToSpans(exportToHTML(doc));
+      expect(spans.map((s) => s.style.verticalPosition)).toEqual([
+        undefined, 'super', undefined, 'sub', undefined, undefined, undefined, undefined,
+      ]);
+      expect(styleAt(spans, 'up').baselineShift).toBe(3);
+      expect(styleAt(spans, 'down').baselineShift).toBe('-0.25em');
+    });
+
+    it('should keep links', () => {
+      let doc = createDocument('a link here');
+      doc = applyStyleToRange(doc, 2, 6, { link: { href: 'https://a.io/?q="x"&y', title: 'A & B' } });
+
+      const html = exportToHTML(doc);
+      expect(html).toContain('<a href="https://a.io/?q=&quot;x&quot;&amp;y" title="A &amp; B">');
+
+      const spans = parseHTMLToSpans(html);
+      expect(styleAt(spans, 'link').link).toEqual({ href: 'https://a.io/?q="x"&y', title: 'A & B' });
+      expect(styleAt(spans, 'here').link).toBeUndefined();
+    });
+
+    it('should keep inline images', () => {
+      const image = { type: 'image' as const, src: 'a.png', width: 20, height: 16, baseline: 4, alt: 'A' };
+      const doc = insertObject(createDocument('ab'), 1, image);
+
+      const html = exportToHTML(doc);
+      expect(html).toContain('<img src="a.png" width="20" height="16" alt="A" style="vertical-align: -4px">');
+
+      const spans = parseHTMLToSpans(html);
+      expect(spans.map((s) => s.text)).toEqual(['a', OBJECT_REPLACEMENT, 'b']);
+      expect(spans[1].object).toEqual(image);
+    });
+
+    it('should keep stroke, shadow and numeric font weights', () => {
+      const doc = createDocument('fancy', {
+        fontWeight: 300,
+        stroke: { color: '#000000', width: 2 },
+        shadow: { color: '#333333', blur: 4, offsetX: 1, offsetY: 2 },
+      });
+      const spans = parseHTMLToSpans(exportToHTML(doc));
+      expect(spans[0].style).toEqual(doc.spans[0].style);
+    });
+  });
+
+  // The newline closing the last block (or a trailing <br>) does not start a
+  // line of its own, as in a browser
+  describe('trailing line breaks in pasted HTML', () => {
+    it('should not add a line after the last paragraph', () => {
+      expect(parseHTMLToSpans('<p>a</p>').map((s) => s.text)).toEqual(['a']);
+      expect(getText(parseHTMLToSpans('<p>a</p><p>b</p>'))).toBe('a\nb');
+      expect(getText(parseHTMLToSpans('<ul><li>x</li><li>y</li></ul>'))).toBe('x\ny');
+    });
+
+    it('should keep empty paragraphs and all but the last <br>', () => {
+      expect(getText(parseHTMLToSpans('<p>a</p><p><br></p>'))).toBe('a\n');
+      expect(getText(parseHTMLToSpans('a<br>'))).toBe('a');
+      expect(getText(parseHTMLToSpans('a<br><br><br>'))).toBe('a\n\n');
+    });
+
+    it('should drop a last span that held only the newline', () => {
+      const spans = parseHTMLToSpans('<p><b>a</b></p>');
+      expect(spans.map((s) => s.text)).toEqual(['a']);
+      expect(spans[0].style.fontWeight).toBe('bold');
+    });
+  });
+});
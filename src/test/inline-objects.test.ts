@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  insertObject,
+  insertText,
+  deleteRange,
+  applyStyleToRange,
+  extractStyledSpans,
+  insertStyledSpans,
+  flattenDocument,
+} from '../rich-text/document-model';
+import {
+  layoutText,
+  tokenize,
+  getCaretPosition,
+  getSelectionBoxes,
+  createLayoutCache,
+} from '../rich-text/layout-engine';
+import { renderTextToSVG } from '../rich-text/svg-renderer';
+import { createDocument, InlineObject, OBJECT_REPLACEMENT } from '../rich-text/types';
+
+const icon: InlineObject = { type: 'image', src: 'icon.png', width: 40, height: 30, baseline: 5 };
+
+// "a" + icon + "b"
+const withIcon = () => insertObject(createDocument('ab'), 1, icon);
+
+describe('Inline Objects', () => {
+  describe('document model', () => {
+    it('should give an object a span of its own', () => {
+      const doc = withIcon();
+
+      expect(doc.spans.map((span) => span.text)).toEqual(['a', OBJECT_REPLACEMENT, 'b']);
+      expect(doc.spans[1].object).toEqual(icon);
+      expect(doc.spans[1].style).toEqual(doc.spans[0].style);
+    });
+
+    it('should keep typed text out of the object', () => {
+      let doc = insertText(withIcon(), 2, 'xy');
+      doc = insertText(doc, 1, 'z');
+
+      expect(doc.spans.map((span) => span.text)).toEqual(['az', OBJECT_REPLACEMENT, 'xyb']);
+    });
+
+    it('should keep the object through restyling, deleting and pasting', () => {
+      const styled = applyStyleToRange(withIcon(), 0, 3, { fontWeight: 'bold' });
+      expect(styled.spans[1].object).toEqual(icon);
+
+      expect(deleteRange(withIcon(), 1, 2).spans.map((span) => span.text)).toEqual(['ab']);
+
+      const copied = extractStyledSpans(withIcon(), { anchor: 0, focus: 2 });
+      const { doc } = insertStyledSpans(createDocument('xy'), 2, copied);
+      expect(doc.spans.map((span) => span.text)).toEqual(['xya', OBJECT_REPLACEMENT]);
+      expect(doc.spans[1].object).toEqual(icon);
+    });
+  });
+
+  describe('layout', () => {
+    it('should measure an object as a single word', () => {
+      const tokens = tokenize(flattenDocument(insertObject(createDocument('abc'), 1, icon)));
+
+      expect(tokens.map((token) => [token.type, token.width])).toEqual([
+        ['word', 10],
+        ['word', 40],
+        ['word', 20],
+      ]);
+    });
+
+    it('should size the line and sit the object on the baseline', () => {
+      const layout = layoutText(withIcon(), 200, 100);
+      const [a, object, b] = layout.chars;
+
+      // 25px of the object above the baseline, 5px below
+      expect(layout.lines[0].height).toBe(30);
+      expect(layout.lines[0].baseline).toBe(25);
+      expect(object).toMatchObject({ x: 18, y: 8, width: 40, height: 30, baseline: 25 });
+      expect(a.y + a.baseline).toBe(33);
+      expect(b.x).toBe(58);
+    });
+
+    it('should move an object that does not fit to the next line', () => {
+      // Characters are 10px wide; a 116px box with 8px padding fits 100px
+      const doc = insertObject(createDocument('abcde'), 3, { ...icon, width: 80 });
+      const layout = layoutText(doc, 116, 200);
+
+      expect(layout.lines.map((line) => line.chars.length)).toEqual([3, 3]);
+      expect(layout.lines[1].chars[0].char.object?.width).toBe(80);
+    });
+
+    it('should lay out a paragraph again when its object changes', () => {
+      const cache = createLayoutCache();
+      layoutText(withIcon(), 200, 100, cache);
+      const layout = layoutText(insertObject(createDocument('ab'), 1, { ...icon, width: 60 }), 200, 100, cache);
+
+      expect(layout.chars[1].width).toBe(60);
+    });
+  });
+
+  describe('caret and selection', () => {
+    it('should move over the object as one character', () => {
+      const doc = withIcon();
+      const layout = layoutText(doc, 200, 100);
+
+      expect(getCaretPosition(layout, 1, doc).x).toBe(18);
+      expect(getCaretPosition(layout, 2, doc).x).toBe(58);
+      expect(getSelectionBoxes(layout, 1, 2)).toEqual([{ x: 18, y: 8, width: 40, height: 30 }]);
+    });
+  });
+
+  describe('SVG', () => {
+    it('should draw the object as an image', () => {
+      const doc = insertObject(createDocument('ab'), 1, { ...icon, alt: 'Icon' });
+      const svg = renderTextToSVG(layoutText(doc, 200, 100), doc);
+
+      expect(svg).toContain('<image href="icon.png" x="18" y="8" width="40" height="30"><title>Icon</title></image>');
+      expect(svg).not.toContain(OBJECT_REPLACEMENT);
+    });
+  });
+});
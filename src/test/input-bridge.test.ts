@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TextInputBridge, InputBridgeHandlers } from '../rich-text/input-bridge';
+
+function createHandlers(): InputBridgeHandlers {
+  return {
+    onKeyDown: vi.fn(),
+    onInsertText: vi.fn(),
+    onEditCommand: vi.fn(),
+    onCompositionStart: vi.fn(),
+    onCompositionUpdate: vi.fn(),
+    onCompositionEnd: vi.fn(),
+    onPaste: vi.fn(),
+  };
+}
+
+function beforeInput(inputType: string, data: string | null = null): InputEvent {
+  return new InputEvent('beforeinput', { inputType, data, cancelable: true });
+}
+
+describe('TextInputBridge', () => {
+  let bridge: TextInputBridge | null = null;
+
+  afterEach(() => {
+    bridge?.detach();
+    bridge = null;
+  });
+
+  function attach(handlers: InputBridgeHandlers): HTMLTextAreaElement {
+    bridge = new TextInputBridge(handlers);
+    bridge.attach();
+    return bridge.getElement()!;
+  }
+
+  it('should add a focused hidden textarea and remove it on detach', () => {
+    const textarea = attach(createHandlers());
+
+    expect(textarea.parentElement).toBe(document.body);
+    expect(document.activeElement).toBe(textarea);
+    expect(textarea.style.opacity).toBe('0');
+
+    bridge!.detach();
+    expect(textarea.isConnected).toBe(false);
+    expect(bridge!.isAttached()).toBe(false);
+  });
+
+  it('should forward keydown outside compositions', () => {
+    const handlers = createHandlers();
+    const textarea = attach(handlers);
+
+    textarea.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowLeft' }));
+    expect(handlers.onKeyDown).toHaveBeenCalledTimes(1);
+
+    // IME processing keys are not editor keys
+    textarea.dispatchEvent(new KeyboardEvent('keydown', { key: 'Process', keyCode: 229 }));
+    textarea.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', isComposing: true }));
+    expect(handlers.onKeyDown).toHaveBeenCalledTimes(1);
+  });
+
+  it('should insert committed text and cancel the native edit', () => {
+    const handlers = createHandlers();
+    const textarea = attach(handlers);
+
+    const event = beforeInput('insertText', 'é');
+    textarea.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(handlers.onInsertText).toHaveBeenCalledWith('é');
+  });
+
+  it('should map mobile deletions and line breaks to edit commands', () => {
+    const handlers = createHandlers();
+    const textarea = attach(handlers);
+
+    textarea.dispatchEvent(beforeInput('deleteContentBackward'));
+    textarea.dispatchEvent(beforeInput('deleteContentForward'));
+    textarea.dispatchEvent(beforeInput('insertLineBreak'));
+
+    expect(handlers.onEditCommand).toHaveBeenNthCalledWith(1, 'deleteContentBackward');
+    expect(handlers.onEditCommand).toHaveBeenNthCalledWith(2, 'deleteContentForward');
+    expect(handlers.onEditCommand).toHaveBeenNthCalledWith(3, 'insertParagraph');
+  });
+
+  it('should commit text left in the textarea by a non-cancellable input', () => {
+    const handlers = createHandlers();
+    const textarea = attach(handlers);
+
+    textarea.value = '😀';
+    textarea.dispatchEvent(new InputEvent('input', { inputType: 'insertText', data: '😀' }));
+
+    expect(handlers.onInsertText).toHaveBeenCalledWith('😀');
+    expect(textarea.value).toBe('');
+  });
+
+  it('should report a composition from start to end', () => {
+    const handlers = createHandlers();
+    const textarea = attach(handlers);
+
+    textarea.dispatchEvent(new CompositionEvent('compositionstart', { data: '' }));
+    expect(bridge!.isComposing()).toBe(true);
+    expect(handlers.onCompositionStart).toHaveBeenCalled();
+
+    textarea.dispatchEvent(new CompositionEvent('compositionupdate', { data: 'にほ' }));
+    expect(handlers.onCompositionUpdate).toHaveBeenLastCalledWith('にほ', 2);
+
+    // The input event that follows reports the IME caret
+    textarea.value = 'にほん';
+    textarea.setSelectionRange(1, 1);
+    textarea.dispatchEvent(new InputEvent('input', { inputType: 'insertCompositionText', isComposing: true }));
+    expect(handlers.onCompositionUpdate).toHaveBeenLastCalledWith('にほん', 1);
+    expect(handlers.onInsertText).not.toHaveBeenCalled();
+
+    // Keys and beforeinput belong to the IME while composing
+    textarea.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+    textarea.dispatchEvent(beforeInput('insertText', 'x'));
+    expect(handlers.onKeyDown).not.toHaveBeenCalled();
+    expect(handlers.onInsertText).not.toHaveBeenCalled();
+
+    textarea.dispatchEvent(new CompositionEvent('compositionend', { data: '日本' }));
+    expect(bridge!.isComposing()).toBe(false);
+    expect(handlers.onCompositionEnd).toHaveBeenCalledWith('日本');
+    expect(textarea.value).toBe('');
+  });
+
+  it('should forward paste events', () => {
+    const handlers = createHandlers();
+    const textarea = attach(handlers);
+
+    textarea.dispatchEvent(new Event('paste'));
+    expect(handlers.onPaste).toHaveBeenCalledTimes(1);
+  });
+
+  it('should position the textarea at the caret', () => {
+    const textarea = attach(createHandlers());
+
+    bridge!.setCaretRect({ x: 120, y: 48, height: 22 }, 32);
+
+    expect(textarea.style.left).toBe('120px');
+    expect(textarea.style.top).toBe('48px');
+    expect(textarea.style.height).toBe('22px');
+    expect(textarea.style.fontSize).toBe('32px');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { findOptimalBreaks, BreakItem, FORCED_BREAK } from '../rich-text/knuth-plass';
+import { layoutText, getDisplayText } from '../rich-text/layout-engine';
+import { createDocument, RichTextDocument } from '../rich-text/types';
+
+const box = (width: number): BreakItem => ({ type: 'box', width });
+const glue = (width: number): BreakItem => ({ type: 'glue', width, stretch: width / 2, shrink: width / 3 });
+const end: BreakItem[] = [
+  { type: 'glue', width: 0, stretch: 1000, shrink: 0 },
+  { type: 'penalty', width: 0, penalty: FORCED_BREAK, flagged: false },
+];
+
+// Characters are 10px wide; a 116px box with 8px padding fits 10 per line
+function lineTexts(doc: RichTextDocument, width = 116): string[] {
+  return layoutText(doc, width, 400).lines.map((line) => line.chars.map(getDisplayText).join(''));
+}
+
+const optimal = (text: string, align: RichTextDocument['align'] = 'left'): RichTextDocument => ({
+  ...createDocument(text),
+  align,
+  lineBreaking: 'optimal',
+});
+
+describe('Optimal Line Breaking', () => {
+  describe('findOptimalBreaks', () => {
+    it('should end with the forced break', () => {
+      const items = [box(30), glue(10), box(30), ...end];
+      expect(findOptimalBreaks(items, () => 100)).toEqual([4]);
+    });
+
+    it('should break at glue when the text does not fit one line', () => {
+      const items = [box(40), glue(10), box(40), glue(10), box(40), ...end];
+      expect(findOptimalBreaks(items, () => 100)).toEqual([3, 6]);
+    });
+
+    it('should return null when a box does not fit', () => {
+      expect(findOptimalBreaks([box(150), ...end], () => 100)).toBeNull();
+    });
+  });
+
+  describe('layout', () => {
+    it('should fill lines evenly', () => {
+      const text = 'a bb ccc d eee fff gggggg';
+
+      expect(lineTexts({ ...createDocument(text), align: 'left' })).toEqual(['a bb ccc d', 'eee fff ', 'gggggg']);
+      expect(lineTexts(optimal(text))).toEqual(['a bb ccc ', 'd eee fff ', 'gggggg']);
+    });
+
+    it('should shrink spaces of justified lines', () => {
+      const doc = optimal('a bb c dddd e ff', 'justify');
+      const line = layoutText(doc, 116, 400).lines[0];
+      const last = line.chars[line.chars.length - 1];
+
+      expect(lineTexts(doc)).toEqual(['a bb c dddd', 'e ff']);
+      expect(line.width).toBe(100);
+      expect(last.x + last.width).toBeCloseTo(108);
+    });
+
+    it('should space out letters of justified lines with few spaces', () => {
+      const line = layoutText(optimal('ab cdefgh ijklmnop', 'justify'), 116, 400).lines[0];
+      const [a, b] = line.chars;
+      const h = line.chars[8];
+
+      expect(b.x - (a.x + a.width)).toBeCloseTo(0.8); // 0.05em of 16px
+      expect(h.x + h.width).toBeCloseTo(108);
+    });
+
+    it('should break at hyphenation points', () => {
+      const doc = { ...optimal('hyphenation is a wonderful thing for justification', 'justify'), hyphenate: true };
+      const lines = lineTexts(doc, 136);
+
+      expect(lines.some((line) => line.endsWith('-'))).toBe(true);
+      expect(lines.join('').replace(/-|\s/g, '')).toBe('hyphenationisawonderfulthingforjustification');
+    });
+
+    it('should fall back to greedy breaking for words wider than a line', () => {
+      expect(lineTexts(optimal('abcdefghijklmn op'))).toEqual(['abcdefghij', 'klmn op']);
+    });
+  });
+
+  describe('justification', () => {
+    it('should not stretch the space at the end of a line', () => {
+      const doc: RichTextDocument = { ...createDocument('aaa bb cc ddddd'), align: 'justify' };
+      const line = layoutText(doc, 136, 400).lines[0];
+      const c = line.chars[line.chars.length - 2];
+
+      expect(c.x + c.width).toBeCloseTo(128);
+    });
+  });
+});
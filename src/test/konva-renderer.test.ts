@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import Konva from 'konva';
+import { KonvaTextRenderer } from '../rich-text/konva-renderer';
+import { layoutText, getCaretPosition } from '../rich-text/layout-engine';
+import { deleteRange, insertText } from '../rich-text/document-model';
+import { createDocument, RichTextDocument } from '../rich-text/types';
+
+function render(renderer: KonvaTextRenderer, doc: RichTextDocument): Konva.Text[] {
+  renderer.update(layoutText(doc, 300, 200), doc);
+  return renderer.getGroup().find('Text') as Konva.Text[];
+}
+
+// New nodes are added after the ones that were kept
+const textOf = (nodes: Konva.Text[]) => nodes.map((node) => node.text());
+
+describe('KonvaTextRenderer', () => {
+  it('should reuse the text nodes when the text is laid out again', () => {
+    const renderer = new KonvaTextRenderer();
+    const doc = createDocument('One\nTwo');
+
+    const first = render(renderer, doc);
+    const second = render(renderer, doc);
+
+    expect(textOf(first)).toEqual(['One', 'Two']);
+    expect(second).toHaveLength(2);
+    second.forEach((node, i) => expect(node).toBe(first[i]));
+  });
+
+  it('should leave the text alone when the caret or selection changes', () => {
+    const renderer = new KonvaTextRenderer();
+    const doc = createDocument('One\nTwo');
+    const layout = layoutText(doc, 300, 200);
+    renderer.update(layout, doc);
+    const textGroup = renderer.getGroup().findOne('Text')!.getParent()!;
+    const children = textGroup.getChildren().slice();
+
+    renderer.updateCaret({ ...getCaretPosition(layout, 2, doc), visible: true });
+    renderer.setCaretVisible(false);
+    renderer.setCaretVisible(true);
+    renderer.updateSelection(layout, { anchor: 0, focus: 5 });
+    renderer.update(layout, doc);
+
+    expect(textGroup.getChildren()).toHaveLength(children.length);
+    textGroup.getChildren().forEach((node, i) => expect(node).toBe(children[i]));
+  });
+
+  it('should only add and remove the runs an edit changed', () => {
+    const renderer = new KonvaTextRenderer();
+    const doc = createDocument('One\nTwo\nThree');
+    const before = render(renderer, doc);
+
+    // "Two" becomes "Too"
+    const after = render(renderer, insertText(deleteRange(doc, 5, 6), 5, 'o'));
+
+    expect(textOf(after)).toEqual(['One', 'Three', 'Too']);
+    expect(after[0]).toBe(before[0]);
+    expect(after[1]).toBe(before[2]);
+    expect(before).not.toContain(after[2]);
+    expect(before[1].getParent()).toBeFalsy();
+  });
+
+  it('should move kept runs instead of rebuilding them', () => {
+    const renderer = new KonvaTextRenderer();
+    const doc = createDocument('One\nTwo');
+    const before = render(renderer, doc);
+    const y = before[1].y();
+
+    // A line above pushes the others down
+    const after = render(renderer, insertText(doc, 0, 'Zero\n'));
+
+    expect(textOf(after)).toEqual(['One', 'Two', 'Zero']);
+    expect(after[0]).toBe(before[0]);
+    expect(after[1]).toBe(before[1]);
+    expect(before[1].y()).toBeGreaterThan(y);
+  });
+});
@@ -2,15 +2,39 @@ import { describe, it, expect } from 'vitest';
 import {
   tokenize,
   layoutText,
+  layoutTextFrames,
+  combineFrameLayouts,
+  getColumnRules,
+  getLineAtPoint,
   getCaretPosition,
   hitTest,
   getSelectionBoxes,
   measureChar,
   buildFontString,
   getFontMetrics,
+  createLayoutCache,
+  getDisplayText,
+  getListNumberText,
+  quoteFontFamily,
+  getBaselineShift,
 } from '../rich-text/layout-engine';
-import { flattenDocument } from '../rich-text/document-model';
-import { createEmptyDocument, createDocument, RichTextDocument } from '../rich-text/types';
+import {
+  flattenDocument,
+  setParagraphStyle,
+  insertText,
+  deleteRange,
+  applyStyleToRange,
+  toggleListForLines,
+} from '../rich-text/document-model';
+import {
+  createEmptyDocument,
+  createDocument,
+  RichTextDocument,
+  COLUMN_BREAK,
+  TabStop,
+  TextStyle,
+  PositionedChar,
+} from '../rich-text/types';
 
 describe('Layout Engine', () => {
   describe('buildFontString', () => {
@@ -47,6 +71,42 @@ describe('Layout Engine', () => {
     });
   });
 
+  describe('quoteFontFamily', () => {
+    it('should only quote names CSS needs quoted', () => {
+      expect(quoteFontFamily('Arial')).toBe('Arial');
+      expect(quoteFontFamily('sans-serif')).toBe('sans-serif');
+      expect(quoteFontFamily('Times New Roman')).toBe("'Times New Roman'");
+      expect(quoteFontFamily("Bob's Font")).toBe("'Bob\\'s Font'");
+    });
+  });
+
+  describe('getListNumberText', () => {
+    const numberAt = (level: number, index: number) => getListNumberText({ type: 'number', level, index });
+
+    it('should number each level in its own style, repeating every three levels', () => {
+      expect([1, 2, 3].map((index) => numberAt(0, index))).toEqual(['1.', '2.', '3.']);
+      expect([1, 2, 3].map((index) => numberAt(1, index))).toEqual(['a.', 'b.', 'c.']);
+      expect([1, 2, 3].map((index) => numberAt(2, index))).toEqual(['i.', 'ii.', 'iii.']);
+      expect(numberAt(3, 2)).toBe('2.');
+      expect(numberAt(4, 2)).toBe('b.');
+    });
+
+    it('should start the letters over after z', () => {
+      expect(numberAt(1, 26)).toBe('z.');
+      expect(numberAt(1, 27)).toBe('a.');
+    });
+
+    it('should write large roman numerals', () => {
+      expect([4, 14, 40, 399, 1999].map((index) => numberAt(2, index))).toEqual([
+        'iv.',
+        'xiv.',
+        'xl.',
+        'cccxcix.',
+        'mcmxcix.',
+      ]);
+    });
+  });
+
   describe('measureChar', () => {
     it('should measure character width', () => {
       const style = {
@@ -218,6 +278,120 @@ describe('Layout Engine', () => {
     });
   });
 
+  describe('paragraph formatting', () => {
+    it('should align each paragraph independently', () => {
+      let doc = createDocument('Title\nBody');
+      doc = setParagraphStyle(doc, 0, 0, { align: 'center' });
+      const layout = layoutText(doc, 400, 300);
+      expect(layout.lines[0].chars[0].x).toBeGreaterThan(doc.padding);
+      expect(layout.lines[1].chars[0].x).toBe(doc.padding);
+      expect(layout.lines[1].paragraphIndex).toBe(1);
+    });
+
+    it('should apply left and first-line indents', () => {
+      const longText = 'This is a very long text that should wrap to multiple lines';
+      const doc = setParagraphStyle(createDocument(longText), 0, 0, {
+        indentLeft: 10,
+        firstLineIndent: 30,
+      });
+      const layout = layoutText(doc, 200, 300);
+      expect(layout.lines.length).toBeGreaterThan(1);
+      expect(layout.lines[0].chars[0].x).toBe(doc.padding + 40);
+      expect(layout.lines[1].chars[0].x).toBe(doc.padding + 10);
+    });
+
+    it('should respect the right indent when wrapping', () => {
+      const text = 'aaaa bbbb cccc';
+      const plain = layoutText(createDocument(text), 160, 300);
+      const indented = layoutText(
+        setParagraphStyle(createDocument(text), 0, 0, { indentRight: 60 }),
+        160,
+        300
+      );
+      expect(indented.lines.length).toBeGreaterThan(plain.lines.length);
+    });
+
+    it('should add space before and after paragraphs', () => {
+      const plain = layoutText(createDocument('A\nB'), 400, 300);
+      const doc = setParagraphStyle(createDocument('A\nB'), 0, 0, { spaceAfter: 10 });
+      const spaced = layoutText(setParagraphStyle(doc, 1, 1, { spaceBefore: 5 }), 400, 300);
+      expect(spaced.lines[0].y).toBe(plain.lines[0].y);
+      expect(spaced.lines[1].y).toBe(plain.lines[1].y + 15);
+    });
+
+    it('should hit test clicks in paragraph spacing to the next line', () => {
+      const doc = setParagraphStyle(createDocument('A\nB'), 1, 1, { spaceBefore: 20 });
+      const layout = layoutText(doc, 400, 300);
+      const gapY = layout.lines[1].y - 10;
+      expect(hitTest(layout, 0, gapY, doc)).toBe(2);
+    });
+  });
+
+  describe('incremental layout', () => {
+    const text = 'First paragraph here\nSecond one wraps around the box\n\nFourth';
+
+    it('should match a full layout', () => {
+      const cache = createLayoutCache();
+      let doc = toggleListForLines(createDocument(text), 1, 1, 'number');
+      layoutText(doc, 120, 300, cache);
+
+      const edits = [
+        (d: RichTextDocument) => insertText(d, 3, 'xyz'),
+        (d: RichTextDocument) => insertText(d, 30, '\n'),
+        (d: RichTextDocument) => deleteRange(d, 0, 8),
+        (d: RichTextDocument) => applyStyleToRange(d, 20, 26, { fontSize: 24 }),
+        (d: RichTextDocument) => setParagraphStyle(d, 2, 2, { spaceBefore: 6 }),
+      ];
+
+      for (const edit of edits) {
+        doc = edit(doc);
+        const incremental = layoutText(doc, 120, 300, cache);
+        const full = layoutText(doc, 120, 300);
+
+        expect(incremental.lines.map((l) => [l.paragraphIndex, l.lineIndex, l.width, l.listItem]))
+          .toEqual(full.lines.map((l) => [l.paragraphIndex, l.lineIndex, l.width, l.listItem]));
+        expect(incremental.chars).toHaveLength(full.chars.length);
+        incremental.chars.forEach((c, i) => {
+          expect(c.char).toEqual(full.chars[i].char);
+          expect(c.x).toBeCloseTo(full.chars[i].x);
+          expect(c.y).toBeCloseTo(full.chars[i].y);
+          expect(c.lineIndex).toBe(full.chars[i].lineIndex);
+        });
+      }
+    });
+
+    it('should only lay out changed paragraphs', () => {
+      const cache = createLayoutCache();
+      const doc = createDocument(text);
+      layoutText(doc, 120, 300, cache);
+      expect(cache.misses).toBe(4);
+
+      // Typing in the second paragraph shifts the ones after it
+      const edited = insertText(doc, 25, 'x');
+      const layout = layoutText(edited, 120, 300, cache);
+      expect(cache.misses).toBe(1);
+      expect(cache.hits).toBe(3);
+      expect(layout.chars.find((c) => c.char.char === 'F' && c.char.absoluteIndex > 0)?.char.absoluteIndex)
+        .toBe(edited.spans[0].text.lastIndexOf('F'));
+    });
+
+    it('should start over when the width changes', () => {
+      const cache = createLayoutCache();
+      const doc = createDocument(text);
+      layoutText(doc, 120, 300, cache);
+      layoutText(doc, 200, 300, cache);
+      expect(cache.hits).toBe(0);
+      expect(cache.misses).toBe(4);
+    });
+
+    it('should not keep entries for removed paragraphs', () => {
+      const cache = createLayoutCache();
+      layoutText(createDocument(text), 120, 300, cache);
+      layoutText(createDocument('Only one'), 120, 300, cache);
+      expect(cache.paragraphs.size).toBe(1);
+    });
+  });
+
   describe('getCaretPosition', () => {
     it('should get caret at start of empty document', () => {
       const doc = createEmptyDocument();
@@ -330,4 +504,340 @@ describe('Layout Engine', () => {
       expect(boxes).toHaveLength(0);
     });
   });
+
+  describe('overflow', () => {
+    // 8px padding and 21px lines: a 60px box has room for two lines
+    it('should report no overflow when the text fits', () => {
+      expect(layoutText(createDocument('A\nB'), 100, 60).overflowRange).toBeNull();
+    });
+
+    it('should keep all lines and report the hidden text when visible or clipped', () => {
+      for (const overflow of [undefined, 'clip' as const]) {
+        const layout = layoutText({ ...createDocument('A\nB\nC'), overflow }, 100, 60);
+        expect(layout.lines).toHaveLength(3);
+        expect(layout.overflowRange).toEqual({ start: 4, end: 5 });
+      }
+    });
+
+    it('should end the last line that fits with an ellipsis', () => {
+      const doc: RichTextDocument = {
+        ...createDocument('aaa bbb ccc ddd eee fff'),
+        overflow: 'ellipsis',
+      };
+      const layout = layoutText(doc, 100, 60);
+
+      expect(layout.lines).toHaveLength(2);
+      const lastLine = layout.lines[1].chars.map((c) => c.char.char).join('');
+      expect(lastLine).toBe('ccc ddd\u2026'); // Trailing space dropped
+      expect(layout.lines[1].chars[7].x).toBe(78);
+      expect(layout.overflowRange).toEqual({ start: 15, end: 23 });
+      expect(layout.chars[layout.chars.length - 1].char.char).toBe('\u2026');
+    });
+
+    it('should remove characters to make room and use the style of the cut run', () => {
+      let doc: RichTextDocument = {
+        ...createDocument('aaaaaaaa bbbbbbbb cc'),
+        overflow: 'ellipsis',
+      };
+      doc = applyStyleToRange(doc, 9, 17, { color: '#ff0000' });
+      const layout = layoutText(doc, 100, 60);
+
+      const chars = layout.lines[1].chars;
+      expect(chars.map((c) => c.char.char).join('')).toBe('bbbbbbb\u2026');
+      expect(chars[7].char.style.color).toBe('#ff0000');
+      expect(chars[7].x + chars[7].width).toBeLessThanOrEqual(92);
+      expect(layout.overflowRange).toEqual({ start: 16, end: 20 });
+    });
+
+    it('should keep the first line even if it does not fit', () => {
+      const layout = layoutText({ ...createDocument('A\nB'), overflow: 'ellipsis' }, 100, 20);
+      expect(layout.lines).toHaveLength(1);
+      expect(layout.chars.map((c) => c.char.char).join('')).toBe('A\u2026');
+      expect(layout.overflowRange).toEqual({ start: 2, end: 3 });
+    });
+
+    it('should not truncate cached lines', () => {
+      const cache = createLayoutCache();
+      const doc: RichTextDocument = { ...createDocument('A\nB\nC'), overflow: 'ellipsis' };
+      layoutText(doc, 100, 60, cache);
+      const layout = layoutText({ ...doc, overflow: 'visible' }, 100, 60, cache);
+      expect(cache.hits).toBe(3);
+      expect(layout.chars.map((c) => c.char.char).join('')).toBe('ABC');
+    });
+  });
+
+  describe('linked frames', () => {
+    // 8px padding and 21px lines: a 60px frame has room for two lines
+    const text = (layout: { chars: { char: { char: string } }[] }) =>
+      layout.chars.map((c) => c.char.char).join('');
+
+    it('should continue at the top of the next frame', () => {
+      const frames = [
+        { width: 100, height: 60 },
+        { width: 100, height: 60 },
+        { width: 100, height: 60 },
+      ];
+      const layouts = layoutTextFrames(createDocument('A\nB\nC\nD\nE'), frames);
+
+      expect(layouts.map(text)).toEqual(['AB', 'CD', 'E']);
+      expect(layouts[1].lines[0].y).toBeCloseTo(8);
+      expect(layouts[1].lines[1].lineIndex).toBe(1);
+      expect(layouts[2].chars[0].char.absoluteIndex).toBe(8);
+      expect(layouts.every((layout) => layout.overflowRange === null)).toBe(true);
+    });
+
+    it('should match layoutText for a single frame', () => {
+      const doc = createDocument('aaa bbb ccc ddd');
+      expect(layoutTextFrames(doc, [{ width: 100, height: 60 }])[0]).toEqual(layoutText(doc, 100, 60));
+    });
+
+    it('should break a paragraph again at the width of the next frame', () => {
+      const doc = setParagraphStyle(createDocument('aaa bbb ccc ddd'), 0, 0, { firstLineIndent: 20 });
+      const layouts = layoutTextFrames(doc, [
+        { width: 100, height: 40 },
+        { width: 200, height: 60 },
+      ]);
+
+      expect(text(layouts[0])).toBe('aaa ');
+      expect(layouts[1].lines).toHaveLength(1);
+      expect(text(layouts[1])).toBe('bbb ccc ddd');
+      // A continued paragraph has no first-line indent
+      expect(layouts[1].chars[0].x).toBe(8);
+      expect(layouts[1].chars[0].char.absoluteIndex).toBe(4);
+    });
+
+    it('should only overflow in the last frame', () => {
+      const doc: RichTextDocument = { ...createDocument('A\nB\nC\nD\nE'), overflow: 'ellipsis' };
+      const layouts = layoutTextFrames(doc, [
+        { width: 100, height: 60 },
+        { width: 100, height: 60 },
+      ]);
+
+      expect(layouts[0].overflowRange).toBeNull();
+      expect(text(layouts[0])).toBe('AB');
+      expect(text(layouts[1])).toBe('CD\u2026');
+      expect(layouts[1].overflowRange).toEqual({ start: 8, end: 9 });
+    });
+
+    it('should leave frames after the text empty', () => {
+      const layouts = layoutTextFrames(createDocument('A'), [
+        { width: 100, height: 60 },
+        { width: 100, height: 60 },
+      ]);
+      expect(text(layouts[0])).toBe('A');
+      expect(layouts[1].lines).toHaveLength(0);
+    });
+
+    it('should reuse cached paragraphs in any frame', () => {
+      const cache = createLayoutCache();
+      const frames = [
+        { width: 100, height: 60 },
+        { width: 100, height: 60 },
+      ];
+      const doc = createDocument('A\nB\nC');
+      const first = layoutTextFrames(doc, frames, cache);
+      const again = layoutTextFrames(doc, frames, cache);
+
+      expect(cache.hits).toBe(3);
+      expect(again).toEqual(first);
+    });
+
+    it('should combine frames for caret movement, hit testing and selection', () => {
+      const doc = createDocument('A\nB\nC');
+      const combined = combineFrameLayouts(
+        layoutTextFrames(doc, [
+          { width: 100, height: 60 },
+          { width: 100, height: 60 },
+        ])
+      );
+
+      expect(combined.frames).toEqual([
+        { top: 0, width: 100, height: 60 },
+        { top: 60, width: 100, height: 60 },
+      ]);
+      expect(combined.lines.map((line) => line.lineIndex)).toEqual([0, 1, 2]);
+      expect(combined.lines[2].y).toBeCloseTo(68);
+      expect(getCaretPosition(combined, 4, doc).y).toBeCloseTo(68);
+      expect(hitTest(combined, 9, 70, doc)).toBe(4);
+      expect(getSelectionBoxes(combined, 0, 5)).toHaveLength(3);
+    });
+  });
+
+  describe('columns', () => {
+    // A 228px box with 8px padding and a 12px gap has two 100px columns, at
+    // x 8 and 120; a 60px box has room for two lines per column
+    const columns = (text: string, overflow?: RichTextDocument['overflow']): RichTextDocument => ({
+      ...createDocument(text),
+      columns: { count: 2, gap: 12, rule: { width: 1, color: '#999999' } },
+      overflow,
+    });
+
+    it('should fill the first column, then the next', () => {
+      const layout = layoutText(columns('A\nB\nC\nD'), 228, 60);
+
+      expect(layout.columns).toEqual([
+        { x: 8, width: 100 },
+        { x: 120, width: 100 },
+      ]);
+      expect(layout.lines.map((line) => line.column ?? 0)).toEqual([0, 0, 1, 1]);
+      expect(layout.lines[2].chars[0].x).toBe(120);
+      expect(layout.lines[2].y).toBeCloseTo(8);
+      expect(layout.lines.map((line) => line.lineIndex)).toEqual([0, 1, 2, 3]);
+      expect(layout.overflowRange).toBeNull();
+    });
+
+    it('should wrap at the column width', () => {
+      const layout = layoutText(columns('aaaa bbbb cccc'), 228, 200);
+      expect(layout.lines).toHaveLength(2);
+      expect(layout.lines[1].chars[0].x).toBe(8);
+    });
+
+    it('should only overflow from the last column', () => {
+      const layout = layoutText(columns('A\nB\nC\nD\nE', 'ellipsis'), 228, 60);
+      expect(layout.overflowRange).toEqual({ start: 8, end: 9 });
+      expect(layout.lines[3].chars.map((c) => c.char.char).join('')).toBe('D\u2026');
+    });
+
+    it('should start a new column after a column break', () => {
+      const doc = columns(`A${COLUMN_BREAK}B`);
+      const layout = layoutText(doc, 228, 200);
+
+      expect(layout.lines).toHaveLength(2);
+      expect(layout.lines[0].columnBreak).toBe(true);
+      expect(layout.lines[1].column).toBe(1);
+      expect(layout.lines[1].chars[0].x).toBe(120);
+
+      // The break takes no space, and the caret after it is in the next column
+      expect(getCaretPosition(layout, 2, doc)).toMatchObject({ x: 120, y: 8 });
+      expect(getCaretPosition(layout, 1, doc).x).toBe(18);
+    });
+
+    it('should give a column break at the end a line to put the caret on', () => {
+      const doc = columns(`A${COLUMN_BREAK}`);
+      const layout = layoutText(doc, 228, 200);
+      expect(layout.lines).toHaveLength(2);
+      expect(getCaretPosition(layout, 2, doc)).toMatchObject({ x: 120, y: 8 });
+    });
+
+    it('should hit test in the column at x', () => {
+      const doc = columns(`A${COLUMN_BREAK}B`);
+      const layout = layoutText(doc, 228, 200);
+
+      expect(hitTest(layout, 121, 10, doc)).toBe(2);
+      expect(hitTest(layout, 200, 10, doc)).toBe(3);
+      // Right of the last character in a line ended by a column break
+      expect(hitTest(layout, 60, 10, doc)).toBe(1);
+      expect(getLineAtPoint(layout, 121, 100)).toBe(1);
+      expect(getLineAtPoint(layout, 20, 100)).toBe(0);
+    });
+
+    it('should put rules in the middle of the gaps', () => {
+      const doc = columns('A');
+      expect(getColumnRules(layoutText(doc, 228, 60), doc)).toEqual([
+        { x: 114, top: 8, bottom: 52, width: 1, color: '#999999' },
+      ]);
+      expect(getColumnRules(layoutText(createDocument('A'), 228, 60), createDocument('A'))).toEqual([]);
+    });
+  });
+
+  describe('tab stops', () => {
+    // Characters are 10px wide; text starts at x 8 (the padding)
+    const withStops = (text: string, ...stops: TabStop[]): RichTextDocument => ({
+      ...createDocument(text),
+      tabs: { interval: 48, stops },
+    });
+    const charsOf = (doc: RichTextDocument) => layoutText(doc, 300, 200).lines[0].chars;
+
+    it('should jump to the next default stop', () => {
+      const [a, tab, b] = charsOf(createDocument('a\tb'));
+
+      expect(a.x).toBe(8);
+      expect(tab.width).toBe(38);
+      expect(b.x).toBe(56);
+    });
+
+    it('should continue with default stops after the explicit ones', () => {
+      const chars = charsOf(withStops('a\tb\tc', { position: 20, align: 'left' }));
+      expect(chars.map((c) => c.x)).toEqual([8, 18, 28, 38, 56]);
+    });
+
+    it('should align text at right, center and decimal stops', () => {
+      const right = charsOf(withStops('Tea\t$4.50', { position: 200, align: 'right' }));
+      const center = charsOf(withStops('x\tabcd', { position: 100, align: 'center' }));
+      const decimal = charsOf(withStops('x\t12.5', { position: 100, align: 'decimal' }));
+      const last = right[right.length - 1];
+
+      expect(last.x + last.width).toBe(208);
+      expect(center[2].x).toBe(88);
+      expect(decimal[4].x).toBe(108); // The decimal point
+    });
+
+    it('should fill the gap with the leader', () => {
+      const tab = charsOf(withStops('Tea\t4', { position: 200, align: 'left', leader: '.' }))[3];
+
+      expect(tab.width).toBe(170);
+      expect(tab.leader).toBe('.');
+      expect(getDisplayText(tab)).toBe('.'.repeat(17));
+    });
+
+    it('should use the tab stops of a paragraph', () => {
+      const doc = setParagraphStyle(createDocument('a\tb\na\tb'), 1, 1, {
+        tabs: { interval: 48, stops: [{ position: 100, align: 'left' }] },
+      });
+      const layout = layoutText(doc, 300, 200);
+
+      expect(layout.lines[0].chars[2].x).toBe(56);
+      expect(layout.lines[1].chars[2].x).toBe(108);
+    });
+
+    it('should stop at the end of the line', () => {
+      const layout = layoutText(withStops('a\tb', { position: 400, align: 'left' }), 300, 200);
+
+      expect(layout.lines[0].chars[1].width).toBe(274);
+      expect(layout.lines[1].chars[0].x).toBe(8);
+    });
+  });
+
+  describe('superscript, subscript and baseline shift', () => {
+    const shifted = (style: Partial<TextStyle>) => applyStyleToRange(createDocument('x2y'), 1, 2, style);
+    const baselineOf = (char: PositionedChar) => char.y + char.baseline;
+
+    it('should raise superscripts at a reduced size', () => {
+      const doc = shifted({ verticalPosition: 'super' });
+      const { lines } = layoutText(doc, 300, 200);
+      const [x, two, y] = lines[0].chars;
+
+      expect(baselineOf(two)).toBeCloseTo(baselineOf(x) - 5.6); // 0.35em of 16px
+      expect(baselineOf(y)).toBe(baselineOf(x));
+      expect(buildFontString(two.char.style)).toContain('10.4px');
+    });
+
+    it('should lower subscripts and shift by px or em', () => {
+      expect(getBaselineShift(shifted({ verticalPosition: 'sub' }).spans[1].style)).toBeCloseTo(-3.2);
+      expect(getBaselineShift(shifted({ baselineShift: 4 }).spans[1].style)).toBe(4);
+      expect(getBaselineShift(shifted({ baselineShift: '-0.5em' }).spans[1].style)).toBe(-8);
+
+      const [x, two] = layoutText(shifted({ baselineShift: -4 }), 300, 200).lines[0].chars;
+      expect(baselineOf(two)).toBe(baselineOf(x) + 4);
+    });
+
+    it('should make room in the line for shifted text', () => {
+      const plain = layoutText(createDocument('x2y'), 300, 200).lines[0];
+      const raised = layoutText(shifted({ baselineShift: 10 }), 300, 200).lines[0];
+
+      expect(raised.height).toBeGreaterThan(plain.height);
+      expect(raised.chars[1].y).toBeGreaterThanOrEqual(raised.y);
+    });
+
+    it('should put the caret and selection around the shifted glyphs', () => {
+      const doc = shifted({ baselineShift: 10 });
+      const layout = layoutText(doc, 300, 200);
+      const [x, two] = layout.chars;
+      const [box] = getSelectionBoxes(layout, 0, 2);
+
+      expect(getCaretPosition(layout, 2, doc).y).toBe(two.y);
+      expect(box.y).toBe(two.y);
+      expect(box.y + box.height).toBe(Math.max(x.y + x.height, two.y + two.height));
+    });
+  });
 });
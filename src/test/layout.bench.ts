@@ -0,0 +1,53 @@
+// Typing into a long text box: full layout vs incremental layout.
+// Run with `npm run bench`.
+import { bench, describe } from 'vitest';
+import { layoutText, createLayoutCache } from '../rich-text/layout-engine';
+import { insertText, deleteRange } from '../rich-text/document-model';
+import { createDocument, RichTextDocument } from '../rich-text/types';
+
+const WORDS = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit'];
+
+/**
+ * About 5,000 words in 100 paragraphs
+ */
+function createLongDocument(): RichTextDocument {
+  const paragraphs: string[] = [];
+  for (let p = 0; p < 100; p++) {
+    const words: string[] = [];
+    for (let w = 0; w < 50; w++) {
+      words.push(WORDS[(p * 50 + w) % WORDS.length]);
+    }
+    paragraphs.push(words.join(' '));
+  }
+  return createDocument(paragraphs.join('\n'));
+}
+
+/**
+ * One keystroke in the middle of the document, alternating insert and
+ * delete so the document keeps its size
+ */
+function createTyping(doc: RichTextDocument): () => RichTextDocument {
+  const position = Math.floor(doc.spans[0].text.length / 2);
+  let typed = false;
+  return () => {
+    doc = typed ? deleteRange(doc, position, position + 1) : insertText(doc, position, 'x');
+    typed = !typed;
+    return doc;
+  };
+}
+
+describe('layout after a keystroke in a 5,000-word document', () => {
+  const base = createLongDocument();
+
+  const typeFull = createTyping(base);
+  bench('full layout', () => {
+    layoutText(typeFull(), 600, 400);
+  });
+
+  const typeIncremental = createTyping(base);
+  const cache = createLayoutCache();
+  layoutText(base, 600, 400, cache);
+  bench('incremental layout', () => {
+    layoutText(typeIncremental(), 600, 400, cache);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { getBreakOpportunities, getLineBreakClass } from '../rich-text/line-break';
+import { createHyphenator, hyphenate } from '../rich-text/hyphenation';
+import { layoutText, getDisplayText } from '../rich-text/layout-engine';
+import { renderTextToSVG } from '../rich-text/svg-renderer';
+import { createDocument, RichTextDocument, SOFT_HYPHEN } from '../rich-text/types';
+
+const breaksIn = (text: string) => {
+  const chars = Array.from(text);
+  return getBreakOpportunities(chars).flatMap((canBreak, i) => (canBreak ? [chars.slice(0, i).join('')] : []));
+};
+
+// Characters are 10px wide; a 100px box with 8px padding fits 8 per line
+function lineTexts(doc: RichTextDocument, width = 100): string[] {
+  const layout = layoutText(doc, width, 200);
+  return layout.lines.map((line) => line.chars.map(getDisplayText).join(''));
+}
+
+const hyphenated = (word: string) => {
+  const points = hyphenate(word);
+  return Array.from(word)
+    .map((char, i) => (points.includes(i) ? `-${char}` : char))
+    .join('');
+};
+
+describe('Line Breaking', () => {
+  describe('getLineBreakClass', () => {
+    it('should classify common characters', () => {
+      expect(getLineBreakClass('a'.codePointAt(0)!)).toBe('AL');
+      expect(getLineBreakClass('7'.codePointAt(0)!)).toBe('NU');
+      expect(getLineBreakClass('-'.codePointAt(0)!)).toBe('HY');
+      expect(getLineBreakClass('日'.codePointAt(0)!)).toBe('ID');
+      expect(getLineBreakClass(0x200b)).toBe('ZW');
+    });
+  });
+
+  describe('getBreakOpportunities', () => {
+    it('should break after hyphens, slashes and dashes', () => {
+      expect(breaksIn('well-known')).toEqual(['well-']);
+      expect(breaksIn('and/or')).toEqual(['and/']);
+      expect(breaksIn('this—that')).toEqual(['this', 'this—']);
+    });
+
+    it('should break between ideographs', () => {
+      expect(breaksIn('日本語')).toEqual(['日', '日本']);
+    });
+
+    it('should keep numbers and closing punctuation together', () => {
+      expect(breaksIn('(12.5%)')).toEqual([]);
+      expect(breaksIn('10,000')).toEqual([]);
+      expect(breaksIn('-5')).toEqual([]);
+      expect(breaksIn('日本。')).toEqual(['日']);
+    });
+
+    it('should break after a zero width space but not before', () => {
+      expect(breaksIn('ab​cd')).toEqual(['ab​']);
+    });
+  });
+
+  describe('hyphenation', () => {
+    it('should hyphenate English words', () => {
+      expect(hyphenated('hyphenation')).toBe('hy-phen-a-tion');
+      expect(hyphenated('computer')).toBe('com-puter');
+      expect(hyphenated('Table')).toBe('Ta-ble');
+    });
+
+    it('should use exceptions over patterns', () => {
+      expect(hyphenated('project')).toBe('project');
+      expect(hyphenated('present')).toBe('present');
+    });
+
+    it('should keep fragments at the ends of words', () => {
+      expect(hyphenate('a')).toEqual([]);
+      expect(hyphenated('idea')).toBe('idea');
+    });
+
+    it('should hyphenate with custom patterns', () => {
+      const hyphenator = createHyphenator('1b 1d', 'abc-de', { leftMin: 1, rightMin: 1 });
+      expect(hyphenator('abcde')).toEqual([3]);
+      expect(hyphenator('aabdd')).toEqual([2, 3, 4]);
+    });
+  });
+
+  describe('layout', () => {
+    it('should wrap at break opportunities inside words', () => {
+      expect(lineTexts(createDocument('data/results'))).toEqual(['data/', 'results']);
+    });
+
+    it('should show a soft hyphen only where the line breaks', () => {
+      expect(lineTexts(createDocument(`abc${SOFT_HYPHEN}defghij`))).toEqual(['abc-', 'defghij']);
+      expect(lineTexts(createDocument(`ab${SOFT_HYPHEN}cd`))).toEqual(['abcd']);
+
+      const layout = layoutText(createDocument(`ab${SOFT_HYPHEN}cd`), 100, 200);
+      expect(layout.lines[0].width).toBe(40);
+    });
+
+    it('should hyphenate words when enabled', () => {
+      const doc: RichTextDocument = { ...createDocument('hyphenation'), hyphenate: true };
+      const layout = layoutText(doc, 100, 200);
+
+      expect(lineTexts(doc)).toEqual(['hyphena-', 'tion']);
+      expect(layout.lines[0].width).toBe(80);
+      expect(layout.chars[6].hyphen).toBe(true);
+    });
+
+    it('should break words longer than a line anywhere', () => {
+      const layout = layoutText(createDocument('hyphenation'), 100, 200);
+
+      expect(lineTexts(createDocument('hyphenation'))).toEqual(['hyphenat', 'ion']);
+      // The full word width is kept, so shrink-to-fit can still make it fit
+      expect(layout.contentWidth).toBe(126);
+    });
+
+    it('should draw the hyphen in SVG', () => {
+      const doc = createDocument(`abc${SOFT_HYPHEN}defghij`);
+      const svg = renderTextToSVG(layoutText(doc, 100, 200), doc);
+      const root = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+      const tspans = Array.from(root.querySelectorAll('tspan'));
+
+      expect(tspans.map((t) => t.textContent)).toEqual(['abc-', 'defghij']);
+      expect(tspans[0].getAttribute('x')).toBe('8 18 28 38');
+    });
+  });
+});
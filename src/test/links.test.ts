@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getLinkAt,
+  setLinkInRange,
+  removeLinkInRange,
+  findUrlBefore,
+  linkUrlBefore,
+  isSafeHref,
+  LINK_STYLE,
+} from '../rich-text/links';
+import { insertText, applyStyleToRange, flattenDocument } from '../rich-text/document-model';
+import { parseHTMLToSpans } from '../rich-text/html-parser';
+import { createDocument, DEFAULT_STYLE, RichTextDocument } from '../rich-text/types';
+
+const link = { href: 'https://example.com', title: 'Example' };
+
+// "see example here" with "example" linked
+const linked = (): RichTextDocument => setLinkInRange(createDocument('see example here'), 4, 11, link);
+
+describe('Links', () => {
+  describe('getLinkAt', () => {
+    it('should find the link and its range at either end', () => {
+      const doc = linked();
+
+      expect(getLinkAt(doc, 4)).toEqual({ link, range: { start: 4, end: 11 } });
+      expect(getLinkAt(doc, 11)?.range).toEqual({ start: 4, end: 11 });
+      expect(getLinkAt(doc, 2)).toBeNull();
+    });
+
+    it('should span differently styled parts of one link', () => {
+      const doc = applyStyleToRange(linked(), 6, 8, { fontWeight: 'bold' });
+      expect(getLinkAt(doc, 9)?.range).toEqual({ start: 4, end: 11 });
+    });
+  });
+
+  describe('editing', () => {
+    it('should give linked text the look of a link', () => {
+      const style = flattenDocument(linked())[4].style;
+      expect(style).toMatchObject({ ...LINK_STYLE, link });
+    });
+
+    it('should keep the link when typing inside it and when restyling', () => {
+      let doc = insertText(linked(), 6, 'x');
+      doc = applyStyleToRange(doc, 4, 12, { fontSize: 20 });
+
+      expect(getLinkAt(doc, 5)).toEqual({ link, range: { start: 4, end: 12 } });
+      expect(doc.spans).toHaveLength(3);
+    });
+
+    it('should remove links and their look', () => {
+      const doc = removeLinkInRange(linked(), 0, 16);
+
+      expect(getLinkAt(doc, 5)).toBeNull();
+      expect(doc.spans).toHaveLength(1);
+      expect(doc.spans[0].style.color).toBe(DEFAULT_STYLE.color);
+    });
+  });
+
+  describe('URL detection', () => {
+    it('should find URLs before a position', () => {
+      expect(findUrlBefore('go to https://a.io/x now', 20)).toEqual({
+        range: { start: 6, end: 20 },
+        href: 'https://a.io/x',
+      });
+      expect(findUrlBefore('(www.a.io).', 11)).toEqual({ range: { start: 1, end: 9 }, href: 'https://www.a.io' });
+      expect(findUrlBefore('http:// x', 7)).toBeNull();
+      expect(findUrlBefore('plain', 5)).toBeNull();
+    });
+
+    it('should link a typed URL once', () => {
+      const doc = linkUrlBefore(createDocument('visit www.a.io '), 14);
+
+      expect(getLinkAt(doc, 10)).toEqual({ link: { href: 'https://www.a.io' }, range: { start: 6, end: 14 } });
+      expect(linkUrlBefore(doc, 14)).toBe(doc);
+    });
+  });
+
+  describe('HTML', () => {
+    it('should parse links from <a href>', () => {
+      const spans = parseHTMLToSpans('<p>go <a href="https://a.io" title="A">here</a></p>');
+      const here = spans.find((span) => span.text === 'here')!;
+
+      expect(here.style.link).toEqual({ href: 'https://a.io', title: 'A' });
+      expect(spans.find((span) => span.text.includes('go'))!.style.link).toBeUndefined();
+    });
+
+    it('should drop pasted links to scripts and data', () => {
+      const spans = parseHTMLToSpans(
+        '<p><a href="javascript:alert(1)">one</a> <a href=" Java&#9;Script:alert(1)">two</a> ' +
+          '<a href="data:text/html,hi">three</a></p>'
+      );
+
+      expect(spans.map((span) => span.text).join('')).toBe('one two three');
+      expect(spans.every((span) => !span.style.link)).toBe(true);
+    });
+
+    it('should only allow http, https, mailto and relative links', () => {
+      const safe = ['https://a.io', 'http://a.io', 'MAILTO:me@a.io', '/docs', 'page.html#top', '#top'];
+      const unsafe = ['javascript:alert(1)', 'vbscript:x', 'data:text/html,hi', 'file:///etc'];
+
+      expect(safe.filter(isSafeHref)).toEqual(safe);
+      expect(unsafe.filter(isSafeHref)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdown, documentToMarkdown, looksLikeMarkdown } from '../rich-text/markdown';
+import {
+  applyStyleToRange,
+  toggleListForLines,
+  indentListItem,
+  renumberLists,
+  insertObject,
+  insertDocumentFragment,
+  getDocumentLength,
+} from '../rich-text/document-model';
+import { createDocument, RichTextDocument } from '../rich-text/types';
+
+function getText(doc: RichTextDocument): string {
+  return doc.spans.map((s) => s.text).join('');
+}
+
+describe('Markdown', () => {
+  describe('documentToMarkdown', () => {
+    it('should write inline formatting', () => {
+      let doc = createDocument('bold italic struck plain');
+      doc = applyStyleToRange(doc, 0, 4, { fontWeight: 'bold' });
+      doc = applyStyleToRange(doc, 5, 11, { fontStyle: 'italic' });
+      doc = applyStyleToRange(doc, 12, 18, { strikethrough: true });
+      expect(documentToMarkdown(doc)).toBe('**bold** *italic* ~~struck~~ plain');
+    });
+
+    it('should nest markers and keep whitespace outside them', () => {
+      let doc = createDocument('ab cd');
+      doc = applyStyleToRange(doc, 0, 5, { fontWeight: 'bold' });
+      doc = applyStyleToRange(doc, 3, 5, { fontStyle: 'italic' });
+      expect(documentToMarkdown(doc)).toBe('**ab *cd***');
+
+      doc = applyStyleToRange(createDocument('one two'), 0, 4, { fontWeight: 'bold' });
+      expect(documentToMarkdown(doc)).toBe('**one** two');
+    });
+
+    it('should write paragraphs and empty paragraphs', () => {
+      expect(documentToMarkdown(createDocument('A\nB'))).toBe('A\n\nB');
+      expect(documentToMarkdown(createDocument('A\n\nB'))).toBe('A\n\n\nB');
+    });
+
+    it('should write nested lists', () => {
+      let doc = createDocument('Intro\nOne\nSub\nTwo');
+      doc = toggleListForLines(doc, 1, 3, 'number');
+      doc = renumberLists(indentListItem(doc, 2));
+      expect(documentToMarkdown(doc)).toBe('Intro\n\n1. One\n   1. Sub\n2. Two');
+    });
+
+    it('should write links, formatted inside', () => {
+      let doc = createDocument('see the docs and more');
+      doc = applyStyleToRange(doc, 4, 12, { link: { href: 'https://a.io/x_(y)', title: 'The "docs"' } });
+      doc = applyStyleToRange(doc, 8, 12, { fontWeight: 'bold' });
+      doc = applyStyleToRange(doc, 17, 21, { link: { href: 'my file.md' } });
+
+      expect(documentToMarkdown(doc)).toBe(
+        'see [the **docs**](https://a.io/x_\\(y\\) "The \\"docs\\"") and [more](<my file.md>)'
+      );
+    });
+
+    it('should write inline images, also inside links', () => {
+      const image = { type: 'image' as const, src: 'a.png', width: 20, height: 16, alt: 'A *logo*' };
+      let doc = insertObject(createDocument('ab'), 1, image);
+      expect(documentToMarkdown(doc)).toBe('a![A \\*logo\\*](a.png)b');
+
+      doc = applyStyleToRange(doc, 0, 2, { link: { href: 'https://a.io' } });
+      expect(documentToMarkdown(doc)).toBe('[a![A \\*logo\\*](a.png)](https://a.io)b');
+      expect(documentToMarkdown(insertObject(createDocument(''), 0, image))).toBe('![A \\*logo\\*](a.png)');
+    });
+
+    it('should escape Markdown syntax in text', () => {
+      expect(documentToMarkdown(createDocument('- not a list *x*'))).toBe('\\- not a list \\*x\\*');
+      expect(documentToMarkdown(createDocument('1. not a list'))).toBe('1\\. not a list');
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should parse emphasis, strong and strikethrough', () => {
+      const doc = parseMarkdown('**bold** *italic* _also_ ~~struck~~');
+      expect(getText(doc)).toBe('bold italic also struck');
+      expect(doc.spans.find((s) => s.text === 'bold')?.style.fontWeight).toBe('bold');
+      expect(doc.spans.find((s) => s.text === 'italic')?.style.fontStyle).toBe('italic');
+      expect(doc.spans.find((s) => s.text === 'also')?.style.fontStyle).toBe('italic');
+      expect(doc.spans.find((s) => s.text === 'struck')?.style.strikethrough).toBe(true);
+    });
+
+    it('should parse nested emphasis', () => {
+      const doc = parseMarkdown('***both*** and **a *b***');
+      const both = doc.spans.find((s) => s.text === 'both')!;
+      expect(both.style.fontWeight).toBe('bold');
+      expect(both.style.fontStyle).toBe('italic');
+      const b = doc.spans.find((s) => s.text === 'b')!;
+      expect(b.style.fontWeight).toBe('bold');
+      expect(b.style.fontStyle).toBe('italic');
+    });
+
+    it('should keep escaped and unmatched delimiters literal', () => {
+      expect(getText(parseMarkdown('\\*not italic\\* and 2 * 3'))).toBe('*not italic* and 2 * 3');
+      expect(getText(parseMarkdown('snake_case_name'))).toBe('snake_case_name');
+      expect(getText(parseMarkdown('`**code**`'))).toBe('**code**');
+    });
+
+    it('should map line breaks and paragraphs', () => {
+      expect(getText(parseMarkdown('soft\nbreak'))).toBe('soft break');
+      expect(getText(parseMarkdown('hard\\\nbreak'))).toBe('hard\nbreak');
+      expect(getText(parseMarkdown('hard  \nbreak'))).toBe('hard\nbreak');
+      expect(getText(parseMarkdown('A\n\nB'))).toBe('A\nB');
+      expect(getText(parseMarkdown('A\n\n\nB'))).toBe('A\n\nB');
+    });
+
+    it('should parse nested lists', () => {
+      const doc = parseMarkdown('- One\n  - Sub\n- Two\n\n1. First\n2. Second');
+      expect(getText(doc)).toBe('One\nSub\nTwo\nFirst\nSecond');
+      expect(doc.listItems.get(0)).toEqual({ type: 'bullet', level: 0, index: 0 });
+      expect(doc.listItems.get(1)).toEqual({ type: 'bullet', level: 1, index: 0 });
+      expect(doc.listItems.get(2)?.level).toBe(0);
+      expect(doc.listItems.get(4)).toEqual({ type: 'number', level: 0, index: 2 });
+    });
+
+    it('should turn headings into bold paragraphs', () => {
+      const doc = parseMarkdown('# Title\nBody');
+      expect(getText(doc)).toBe('Title\nBody');
+      expect(doc.spans[0].style.fontWeight).toBe('bold');
+    });
+
+    it('should apply the base style', () => {
+      const doc = parseMarkdown('*x*', { fontSize: 30, color: '#f00' });
+      expect(doc.spans[0].style.fontSize).toBe(30);
+      expect(doc.spans[0].style.color).toBe('#f00');
+    });
+  });
+
+  describe('round trip', () => {
+    it('should preserve formatting and lists', () => {
+      let doc = createDocument('Title\n\nBold and italic\nItem\nNested\nNext');
+      doc = applyStyleToRange(doc, 7, 11, { fontWeight: 'bold' });
+      doc = applyStyleToRange(doc, 16, 22, { fontStyle: 'italic', strikethrough: true });
+      doc = toggleListForLines(doc, 3, 5, 'bullet');
+      doc = indentListItem(doc, 4);
+
+      const restored = parseMarkdown(documentToMarkdown(doc));
+      expect(getText(restored)).toBe(getText(doc));
+      expect(Array.from(restored.listItems.entries())).toEqual(Array.from(doc.listItems.entries()));
+      expect(documentToMarkdown(restored)).toBe(documentToMarkdown(doc));
+    });
+  });
+
+  describe('looksLikeMarkdown', () => {
+    it('should detect Markdown', () => {
+      expect(looksLikeMarkdown('- item')).toBe(true);
+      expect(looksLikeMarkdown('1. first')).toBe(true);
+      expect(looksLikeMarkdown('# Heading')).toBe(true);
+      expect(looksLikeMarkdown('some **bold** text')).toBe(true);
+      expect(looksLikeMarkdown('an *emphasized* word')).toBe(true);
+    });
+
+    it('should ignore plain text', () => {
+      expect(looksLikeMarkdown('Hello world')).toBe(false);
+      expect(looksLikeMarkdown('2 * 3 * 4 = 24')).toBe(false);
+      expect(looksLikeMarkdown('#hashtag')).toBe(false);
+    });
+  });
+
+  describe('insertDocumentFragment', () => {
+    it('should insert list items with the fragment', () => {
+      const doc = toggleListForLines(createDocument('Start\nEnd'), 1, 1, 'bullet');
+      const fragment = parseMarkdown('- a\n- b');
+      const { doc: result, newPosition } = insertDocumentFragment(doc, 6, fragment);
+
+      expect(getText(result)).toBe('Start\na\nbEnd');
+      expect(newPosition).toBe(9);
+      // Line 1 already was a list item; line 2 comes from the fragment
+      expect(result.listItems.get(1)?.type).toBe('bullet');
+      expect(result.listItems.get(2)?.type).toBe('bullet');
+      expect(getDocumentLength(result)).toBe(12);
+    });
+
+    it('should shift list items after the insertion point', () => {
+      const doc = toggleListForLines(createDocument('Start\nEnd'), 1, 1, 'number');
+      const { doc: result } = insertDocumentFragment(doc, 5, parseMarkdown('x\n\ny'));
+      expect(getText(result)).toBe('Startx\ny\nEnd');
+      expect(result.listItems.has(1)).toBe(false);
+      expect(result.listItems.get(2)?.type).toBe('number');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  renderTextBoxesToPDF,
+  getStandardFontName,
+  PDFTextBox,
+  PDFMatrix,
+} from '../rich-text/pdf-renderer';
+import { layoutText } from '../rich-text/layout-engine';
+import { applyStyleToRange } from '../rich-text/document-model';
+import { createDocument, DEFAULT_STYLE, RichTextDocument } from '../rich-text/types';
+
+function box(doc: RichTextDocument, transform?: PDFMatrix): PDFTextBox {
+  return { layout: layoutText(doc, 200, 100), document: doc, transform };
+}
+
+function toText(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+}
+
+function hex(text: string): string {
+  return Array.from(text, (c) => c.charCodeAt(0).toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+describe('PDF Renderer', () => {
+  it('should write a well-formed PDF file', () => {
+    const pdf = toText(renderTextBoxesToPDF([box(createDocument('Hello'))]));
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    // Every xref entry points at the matching object
+    const xrefStart = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefStart, xrefStart + 4)).toBe('xref');
+    const entries = pdf.slice(xrefStart).match(/^\d{10} 00000 n $/gm)!;
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+
+    // Stream length matches its content
+    const stream = pdf.match(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)!;
+    expect(stream[2].length).toBe(Number(stream[1]));
+  });
+
+  it('should size the page to the boxes unless given', () => {
+    const doc = createDocument('Hi');
+    const fitted = toText(renderTextBoxesToPDF([box(doc, [1, 0, 0, 1, 50, 20])]));
+    expect(fitted).toContain('/MediaBox [0 0 250 120]');
+
+    const a4 = toText(renderTextBoxesToPDF([box(doc)], { width: 595, height: 842 }));
+    expect(a4).toContain('/MediaBox [0 0 595 842]');
+  });
+
+  it('should move the page origin to take in boxes at negative coordinates', () => {
+    const doc = createDocument('Hi');
+    const pdf = toText(renderTextBoxesToPDF([box(doc, [1, 0, 0, 1, -50, -20]), box(doc, [1, 0, 0, 1, 100, 0])]));
+
+    expect(pdf).toContain('/MediaBox [0 0 350 120]');
+    expect(pdf).toContain('q\n1 0 0 1 0 0 cm');
+    expect(pdf).toContain('q\n1 0 0 1 150 20 cm');
+  });
+
+  it('should place each character as selectable text', () => {
+    const doc = createDocument('Hi');
+    const layout = layoutText(doc, 200, 100);
+    const pdf = toText(renderTextBoxesToPDF([box(doc)]));
+
+    expect(pdf).toContain('BT');
+    expect(pdf).toContain(`<${hex('H')}> Tj`);
+    expect(pdf).toContain(`<${hex('i')}> Tj`);
+    const first = layout.chars[0];
+    const baseline = Math.round((first.y + first.baseline) * 1000) / 1000;
+    expect(pdf).toContain(`1 0 0 -1 ${first.x} ${baseline} Tm`);
+  });
+
+  it('should use standard 14 fonts without embedding', () => {
+    let doc = createDocument('plain bold', { fontFamily: 'Times New Roman' });
+    doc = applyStyleToRange(doc, 6, 10, { fontWeight: 'bold', fontStyle: 'italic' });
+    const pdf = toText(renderTextBoxesToPDF([box(doc)]));
+
+    expect(pdf).toContain('/BaseFont /Times-Roman /Encoding /WinAnsiEncoding');
+    expect(pdf).toContain('/BaseFont /Times-BoldItalic');
+    expect(pdf).not.toContain('/FontFile');
+  });
+
+  it('should map styles to standard fonts', () => {
+    expect(getStandardFontName(DEFAULT_STYLE)).toBe('Helvetica');
+    expect(getStandardFontName({ ...DEFAULT_STYLE, fontWeight: 'bold' })).toBe('Helvetica-Bold');
+    expect(getStandardFontName({ ...DEFAULT_STYLE, fontFamily: 'Georgia', fontStyle: 'italic' })).toBe('Times-Italic');
+    expect(getStandardFontName({ ...DEFAULT_STYLE, fontFamily: 'Courier New', fontWeight: 700 })).toBe('Courier-Bold');
+    expect(getStandardFontName({ ...DEFAULT_STYLE, fontFamily: 'Open Sans' })).toBe('Helvetica');
+  });
+
+  it('should write colors, underline and strikethrough', () => {
+    let doc = createDocument('red under strike', { color: '#ff0000' });
+    doc = applyStyleToRange(doc, 4, 9, { underline: true });
+    doc = applyStyleToRange(doc, 10, 16, { strikethrough: true, color: 'rgb(0, 0, 255)' });
+    const pdf = toText(renderTextBoxesToPDF([box(doc)]));
+
+    expect(pdf).toContain('1 0 0 rg');
+    expect(pdf).toContain('0 0 1 rg');
+    expect(pdf).toContain('1 0 0 RG');
+    expect(pdf).toContain('0 0 1 RG');
+    expect(pdf.match(/ l S/g)).toHaveLength(2);
+  });
+
+  it('should apply each box transform', () => {
+    const cos = Math.cos(Math.PI / 6);
+    const sin = Math.sin(Math.PI / 6);
+    const rotated: PDFMatrix = [2 * cos, 2 * sin, -2 * sin, 2 * cos, 100, 40];
+    const pdf = toText(
+      renderTextBoxesToPDF([box(createDocument('A')), box(createDocument('B'), rotated)], {
+        width: 600,
+        height: 400,
+      })
+    );
+
+    expect(pdf).toContain('1 0 0 -1 0 400 cm');
+    expect(pdf).toContain('q\n1 0 0 1 0 0 cm');
+    expect(pdf).toContain('q\n1.732 1 -1 1.732 100 40 cm');
+    expect(pdf.match(/^Q$/gm)).toHaveLength(2);
+  });
+
+  it('should clip boxes with clip overflow to the box', () => {
+    const clipped = toText(renderTextBoxesToPDF([box({ ...createDocument('A'), overflow: 'clip' })]));
+    expect(clipped).toContain('0 0 200 100 re W n');
+    expect(toText(renderTextBoxesToPDF([box(createDocument('A'))]))).not.toContain('re W n');
+  });
+
+  it('should make links clickable', () => {
+    const doc = applyStyleToRange(createDocument('go here'), 3, 7, { link: { href: 'https://a.io/é' } });
+    const pdf = toText(renderTextBoxesToPDF([box(doc)]));
+    const rect = pdf.match(/\/Subtype \/Link \/Rect \[(\S+) (\S+) (\S+) (\S+)\]/)!.slice(1).map(Number);
+
+    expect(pdf).toMatch(/\/Annots \[\d+ 0 R\]/);
+    expect(pdf).toContain('/A << /S /URI /URI (https://a.io/%C3%A9) >>');
+    expect(rect[0]).toBe(38);
+    expect(rect[2]).toBe(78);
+    expect(rect[1]).toBeLessThan(rect[3]);
+    expect(rect[3]).toBeLessThanOrEqual(100 - 8); // Below the top padding, y up
+  });
+
+  it('should encode text for WinAnsiEncoding', () => {
+    const pdf = toText(renderTextBoxesToPDF([box(createDocument('é€(中'))]));
+    expect(pdf).toContain('<E9> Tj');
+    expect(pdf).toContain('<80> Tj');
+    expect(pdf).toContain('<28> Tj');
+    expect(pdf).toContain('<3F> Tj');
+  });
+});
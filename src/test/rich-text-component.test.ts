@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import Konva from 'konva';
+import { RichText } from '../components/RichText';
+import { TextFrame } from '../rich-text/TextFrame';
+
+/**
+ * Save a box as JSON text and load it again, as persistence would
+ */
+function reload(box: RichText): RichText {
+  return RichText.fromJSON(JSON.parse(JSON.stringify(box.toJSON())));
+}
+
+// An auto-height box that stays between 45px and 60px tall
+const limitedConfig = { width: 100, height: 50, autoFit: 'auto-height' as const, minHeight: 45, maxHeight: 60 };
+
+describe('RichText', () => {
+  describe('serialization', () => {
+    it('should keep the text wrap shape and exclusions', () => {
+      const textWrap = {
+        shape: [{ x: 100, y: 0 }, { x: 200, y: 100 }, { x: 100, y: 200 }, { x: 0, y: 100 }],
+        exclusions: [{ type: 'rect' as const, x: 80, y: 80, width: 40, height: 40 }],
+        margin: 4,
+      };
+      const copy = reload(new RichText({ width: 200, height: 200, text: 'Hello world', textWrap }));
+
+      expect(copy.getTextWrap()).toEqual(textWrap);
+      expect(reload(new RichText({ width: 200, height: 200, text: 'Hi' })).getTextWrap()).toBeUndefined();
+    });
+
+    it('should keep the auto-fit size limits', () => {
+      const box = new RichText({ ...limitedConfig, text: 'a\nb\nc\nd\ne\nf' });
+      expect(box.getHeight()).toBe(60);
+
+      const copy = reload(box);
+      expect(copy.getHeight()).toBe(60);
+      copy.setText('a');
+      expect(copy.getHeight()).toBe(45);
+    });
+  });
+
+  describe('clone', () => {
+    it('should keep the auto-fit size limits', () => {
+      const copy = new RichText({ ...limitedConfig, text: 'a' }).clone();
+      expect(copy.getHeight()).toBe(45);
+
+      copy.setText('a\nb\nc\nd\ne\nf');
+      expect(copy.getHeight()).toBe(60);
+    });
+  });
+
+  describe('wrap obstacles', () => {
+    // An auto-height box whose first line the obstacle covers once moved onto it
+    const createWrappedBox = (obstacle: Konva.Node) =>
+      new RichText({ width: 100, height: 40, text: 'Hello', autoFit: 'auto-height' }).addWrapObstacle(obstacle);
+
+    it('should keep following an obstacle another box stopped wrapping around', () => {
+      const obstacle = new Konva.Rect({ x: 500, y: 0, width: 100, height: 20 });
+      const kept = createWrappedBox(obstacle);
+      const height = kept.getHeight();
+      createWrappedBox(obstacle).removeWrapObstacle(obstacle);
+      createWrappedBox(obstacle).destroy();
+
+      obstacle.x(0);
+
+      expect(kept.getHeight()).toBeGreaterThan(height);
+    });
+  });
+
+  describe('PDF export', () => {
+    it('should place boxes by their transform on the stage', () => {
+      const container = document.createElement('div');
+      const stage = new Konva.Stage({ container, width: 400, height: 300, x: 7, scaleX: 3, scaleY: 3 });
+      const layer = new Konva.Layer({ x: 10 });
+      const group = new Konva.Group({ x: 20, y: 30, scaleX: 2, scaleY: 2 });
+      const box = new RichText({ x: 5, y: 5, width: 100, height: 50, text: 'Hi' });
+      const frame = new TextFrame({ x: 40, y: 0, width: 100, height: 50 });
+      stage.add(layer);
+      layer.add(group);
+      box.moveTo(group);
+      group.add(frame);
+      box.linkFrame(frame);
+
+      expect(box.toPDFTextBox().transform).toEqual([2, 0, 0, 2, 40, 40]);
+      expect(box.toPDFTextBoxes().map((pdfBox) => pdfBox.transform)).toEqual([
+        [2, 0, 0, 2, 40, 40],
+        [2, 0, 0, 2, 110, 30],
+      ]);
+      stage.destroy();
+    });
+  });
+});
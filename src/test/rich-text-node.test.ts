@@ -0,0 +1,529 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Konva from 'konva';
+import { RichTextNode } from '../rich-text/RichTextNode';
+import { TextFrame } from '../rich-text/TextFrame';
+import {
+  createDocument,
+  BeforeInputEvent,
+  TextChangeEvent,
+  SelectionChangeEvent,
+  LinkClickEvent,
+  SizeChangeEvent,
+} from '../rich-text/types';
+
+const nodes: RichTextNode[] = [];
+
+function createNode(text = 'Hello'): RichTextNode {
+  const node = new RichTextNode({ width: 300, height: 100, document: createDocument(text) });
+  nodes.push(node);
+  return node;
+}
+
+/**
+ * Start editing and return the hidden textarea input arrives through
+ */
+function edit(node: RichTextNode): HTMLTextAreaElement {
+  node.startEditing();
+  return document.querySelector('textarea')!;
+}
+
+function type(textarea: HTMLTextAreaElement, text: string): void {
+  textarea.dispatchEvent(new InputEvent('beforeinput', { inputType: 'insertText', data: text, cancelable: true }));
+}
+
+function press(textarea: HTMLTextAreaElement, key: string, init: KeyboardEventInit = {}): void {
+  textarea.dispatchEvent(new KeyboardEvent('keydown', { key, cancelable: true, ...init }));
+}
+
+function paste(textarea: HTMLTextAreaElement, data: Record<string, string>): void {
+  const event = new Event('paste', { cancelable: true });
+  Object.defineProperty(event, 'clipboardData', { value: { getData: (type: string) => data[type] ?? '' } });
+  textarea.dispatchEvent(event);
+}
+
+const textOf = (doc: { spans: { text: string }[] }) => doc.spans.map((span) => span.text).join('');
+
+/**
+ * Record the edit events a node fires, in order
+ */
+function record(node: RichTextNode) {
+  const log: string[] = [];
+  const beforeInputs: BeforeInputEvent[] = [];
+  const changes: TextChangeEvent[] = [];
+  node.on('beforeinput', (e) => {
+    log.push(`beforeinput:${e.inputType}`);
+    beforeInputs.push({ ...e });
+  });
+  node.on('textchange', (e) => {
+    log.push(`textchange:${e.inputType}`);
+    changes.push(e);
+  });
+  return { log, beforeInputs, changes };
+}
+
+afterEach(() => {
+  nodes.splice(0).forEach((node) => node.destroy());
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('RichTextNode events', () => {
+  describe('beforeinput and textchange', () => {
+    it('should fire for typing', () => {
+      const node = createNode();
+      const textarea = edit(node);
+      press(textarea, 'End');
+      const { log, beforeInputs, changes } = record(node);
+
+      type(textarea, '!');
+
+      expect(log).toEqual(['beforeinput:insertText', 'textchange:insertText']);
+      expect(beforeInputs[0]).toMatchObject({ range: { start: 5, end: 5 }, data: '!' });
+      expect(textOf(changes[0].oldDocument)).toBe('Hello');
+      expect(textOf(changes[0].newDocument)).toBe('Hello!');
+      expect(changes[0].range).toEqual({ start: 5, end: 5 });
+    });
+
+    it('should fire for pasted plain and rich text', () => {
+      const node = createNode();
+      const textarea = edit(node);
+      press(textarea, 'End');
+      const { log, beforeInputs, changes } = record(node);
+
+      paste(textarea, { 'text/plain': ' there' });
+      paste(textarea, { 'text/html': '<b>!</b>', 'text/plain': '!' });
+
+      expect(log).toEqual([
+        'beforeinput:insertFromPaste',
+        'textchange:insertFromPaste',
+        'beforeinput:insertFromPaste',
+        'textchange:insertFromPaste',
+      ]);
+      expect(beforeInputs.map((e) => e.data)).toEqual([' there', '!']);
+      expect(changes.map((e) => e.range)).toEqual([
+        { start: 5, end: 5 },
+        { start: 11, end: 11 },
+      ]);
+      expect(textOf(changes[1].oldDocument)).toBe('Hello there');
+      expect(textOf(changes[1].newDocument)).toBe('Hello there!');
+      const spans = changes[1].newDocument.spans;
+      expect(spans[spans.length - 1].style.fontWeight).toBe('bold');
+    });
+
+    it('should fire for cut', () => {
+      vi.stubGlobal('navigator', { clipboard: { writeText: vi.fn(() => Promise.resolve()) } });
+      const node = createNode();
+      const textarea = edit(node);
+      node.selectAll();
+      const { log, changes } = record(node);
+
+      press(textarea, 'x', { ctrlKey: true });
+
+      expect(log).toEqual(['beforeinput:deleteByCut', 'textchange:deleteByCut']);
+      expect(changes[0].range).toEqual({ start: 0, end: 5 });
+      expect(textOf(changes[0].oldDocument)).toBe('Hello');
+      expect(textOf(changes[0].newDocument)).toBe('');
+    });
+
+    it('should fire for undo and redo', () => {
+      const node = createNode();
+      const textarea = edit(node);
+      press(textarea, 'End');
+      type(textarea, '!');
+      const { log, changes } = record(node);
+
+      press(textarea, 'z', { ctrlKey: true });
+      press(textarea, 'y', { ctrlKey: true });
+
+      expect(log).toEqual([
+        'beforeinput:historyUndo',
+        'textchange:historyUndo',
+        'beforeinput:historyRedo',
+        'textchange:historyRedo',
+      ]);
+      expect(changes.map((e) => [textOf(e.oldDocument), textOf(e.newDocument)])).toEqual([
+        ['Hello!', 'Hello'],
+        ['Hello', 'Hello!'],
+      ]);
+      expect(changes[0].range).toEqual({ start: 0, end: 6 });
+      expect(changes[1].range).toEqual({ start: 0, end: 5 });
+    });
+
+    it('should fire for list toggles', () => {
+      const node = createNode('One\nTwo');
+      node.selectAll();
+      const { log, changes } = record(node);
+
+      node.toggleBulletList();
+      node.toggleNumberedList();
+
+      expect(log).toEqual([
+        'beforeinput:formatList',
+        'textchange:formatList',
+        'beforeinput:formatList',
+        'textchange:formatList',
+      ]);
+      expect(changes[0].range).toEqual({ start: 0, end: 7 });
+      expect(changes[0].oldDocument.listItems.size).toBe(0);
+      expect(changes[0].newDocument.listItems.get(1)?.type).toBe('bullet');
+      expect(changes[1].oldDocument.listItems.get(1)?.type).toBe('bullet');
+      expect(changes[1].newDocument.listItems.get(1)?.type).toBe('number');
+    });
+
+    it('should fire textchange for setDocument without a beforeinput', () => {
+      const node = createNode();
+      const { log, changes } = record(node);
+
+      node.setDocument(createDocument('World!'));
+
+      expect(log).toEqual(['textchange:setDocument']);
+      expect(changes[0].range).toEqual({ start: 0, end: 5 });
+      expect(textOf(changes[0].oldDocument)).toBe('Hello');
+      expect(textOf(changes[0].newDocument)).toBe('World!');
+    });
+  });
+
+  describe('cancelling and rewriting', () => {
+    it('should veto an edit without recording it in the history', () => {
+      const node = createNode();
+      const textarea = edit(node);
+      press(textarea, 'End');
+      type(textarea, '!');
+
+      const veto = (e: BeforeInputEvent) => e.preventDefault();
+      node.on('beforeinput', veto);
+      const { log } = record(node);
+      type(textarea, '?');
+      paste(textarea, { 'text/plain': '??' });
+      node.toggleBulletList();
+
+      expect(node.getText()).toBe('Hello!');
+      expect(node.getDocument().listItems.size).toBe(0);
+      expect(log.filter((entry) => entry.startsWith('textchange'))).toEqual([]);
+
+      // One undo step takes back the last edit that happened
+      node.off('beforeinput');
+      node.undo();
+      expect(node.getText()).toBe('Hello');
+      node.redo();
+      expect(node.getText()).toBe('Hello!');
+    });
+
+    it('should insert the text a handler rewrote', () => {
+      const node = createNode();
+      const textarea = edit(node);
+      press(textarea, 'End');
+      node.on('beforeinput', (e) => {
+        if (e.data) e.data = e.data.toUpperCase();
+      });
+      const { changes } = record(node);
+
+      type(textarea, 'x');
+      paste(textarea, { 'text/plain': 'yz' });
+
+      expect(node.getText()).toBe('HelloXYZ');
+      expect(node.getSelection()).toEqual({ anchor: 8, focus: 8 });
+      expect(textOf(changes[1].newDocument)).toBe('HelloXYZ');
+    });
+  });
+
+  describe('selectionchange', () => {
+    it('should fire once for each change of the selection', () => {
+      const node = createNode();
+      const events: SelectionChangeEvent[] = [];
+      node.on('selectionchange', (e) => events.push(e));
+
+      node.selectAll();
+      node.selectAll();
+      node.toggleBold();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        oldSelection: { anchor: 0, focus: 0 },
+        newSelection: { anchor: 0, focus: 5 },
+      });
+
+      const textarea = edit(node);
+      type(textarea, 'A');
+      expect(events).toHaveLength(2);
+      expect(events[1].newSelection).toEqual({ anchor: 1, focus: 1 });
+
+      press(textarea, 'Home');
+      press(textarea, 'Home');
+      expect(events).toHaveLength(3);
+      expect(events[2]).toMatchObject({
+        oldSelection: { anchor: 1, focus: 1 },
+        newSelection: { anchor: 0, focus: 0 },
+      });
+    });
+  });
+});
+
+describe('RichTextNode links', () => {
+  /**
+   * A node on a stage with "here" in "Go here now" linked
+   */
+  function createLinkedNode(): { node: RichTextNode; stage: Konva.Stage } {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const stage = new Konva.Stage({ container, width: 400, height: 300 });
+    const layer = new Konva.Layer();
+    stage.add(layer);
+
+    const node = createNode('Go here now');
+    layer.add(node);
+    const textarea = edit(node);
+    press(textarea, 'Home');
+    press(textarea, 'ArrowRight');
+    press(textarea, 'ArrowRight');
+    press(textarea, 'ArrowRight');
+    for (let i = 0; i < 4; i++) press(textarea, 'ArrowRight', { shiftKey: true });
+    node.insertLink('https://example.com');
+    node.stopEditing();
+
+    return { node, stage };
+  }
+
+  /**
+   * Move the pointer over the character at `index` and fire `type` there
+   */
+  function pointAt(node: RichTextNode, stage: Konva.Stage, index: number, type: string): void {
+    const char = node.getFrameLayouts()[0].chars[index];
+    const evt = new MouseEvent(type, { clientX: char.x + 2, clientY: char.y + 2 });
+    stage.setPointersPositions(evt);
+    node.fire(type, { evt });
+  }
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should link the selection, edit the link and remove it', () => {
+    const { node } = createLinkedNode();
+    const { changes } = record(node);
+
+    expect(node.getLink(4)).toEqual({ link: { href: 'https://example.com' }, range: { start: 3, end: 7 } });
+    expect(node.getText()).toBe('Go here now');
+
+    // The caret is at the end of the link
+    expect(node.editLink('https://example.org', 'Example')).toBe(true);
+    expect(node.getLink(4)!.link).toEqual({ href: 'https://example.org', title: 'Example' });
+
+    node.removeLink();
+    expect(node.getLink(4)).toBeNull();
+    expect(node.getDocument().spans[0].style.underline).toBe(false);
+    expect(node.editLink('https://example.net')).toBe(false);
+    expect(changes.map((e) => e.inputType)).toEqual(['insertLink', 'formatText']);
+  });
+
+  it('should insert the URL as a linked text at the caret', () => {
+    const node = createNode('Go ');
+    const textarea = edit(node);
+    press(textarea, 'End');
+
+    node.insertLink('https://example.com');
+
+    expect(node.getText()).toBe('Go https://example.com');
+    expect(node.getLink(5)!.range).toEqual({ start: 3, end: 22 });
+    expect(node.getSelection()).toEqual({ anchor: 22, focus: 22 });
+  });
+
+  it('should fire linkclick when not editing and let it keep editing from starting', () => {
+    const { node, stage } = createLinkedNode();
+    const clicks: LinkClickEvent[] = [];
+    let prevent = true;
+    node.on('linkclick', (e) => {
+      clicks.push(e);
+      if (prevent) e.preventDefault();
+    });
+
+    pointAt(node, stage, 4, 'click');
+    expect(clicks).toHaveLength(1);
+    expect(clicks[0]).toMatchObject({ link: { href: 'https://example.com' }, range: { start: 3, end: 7 } });
+    expect(node.isEditing()).toBe(false);
+
+    prevent = false;
+    pointAt(node, stage, 4, 'click');
+    expect(node.isEditing()).toBe(true);
+
+    // While editing a click places the caret
+    pointAt(node, stage, 4, 'click');
+    expect(clicks).toHaveLength(2);
+  });
+
+  it('should show the pointer cursor over links while not editing', () => {
+    const { node, stage } = createLinkedNode();
+    const container = stage.container();
+
+    pointAt(node, stage, 4, 'mousemove');
+    expect(container.style.cursor).toBe('pointer');
+    pointAt(node, stage, 0, 'mousemove');
+    expect(container.style.cursor).toBe('');
+
+    pointAt(node, stage, 4, 'mousemove');
+    node.fire('mouseleave');
+    expect(container.style.cursor).toBe('');
+
+    pointAt(node, stage, 4, 'mousemove');
+    node.startEditing();
+    expect(container.style.cursor).toBe('');
+    pointAt(node, stage, 4, 'mousemove');
+    expect(container.style.cursor).toBe('');
+  });
+
+  it('should link a URL when a space or line break is typed after it', () => {
+    const node = createNode('');
+    const textarea = edit(node);
+
+    type(textarea, 'see www.example.com');
+    expect(node.getLink(8)).toBeNull();
+    type(textarea, ' ');
+    expect(node.getLink(8)).toEqual({ link: { href: 'https://www.example.com' }, range: { start: 4, end: 19 } });
+
+    type(textarea, '(https://example.org).');
+    press(textarea, 'Enter');
+    expect(node.getLink(25)).toEqual({ link: { href: 'https://example.org' }, range: { start: 21, end: 40 } });
+
+    // The link is part of the edit that typed the space
+    node.undo();
+    node.undo();
+    expect(node.getText()).toBe('see www.example.com ');
+    node.undo();
+    expect(node.getLink(8)).toBeNull();
+  });
+
+  it('should not link typed URLs when autoLink is off', () => {
+    const node = new RichTextNode({ width: 300, height: 100, document: createDocument(''), autoLink: false });
+    nodes.push(node);
+    const textarea = edit(node);
+
+    type(textarea, 'www.example.com');
+    type(textarea, ' ');
+
+    expect(node.getLink(4)).toBeNull();
+  });
+});
+
+describe('RichTextNode sizechange', () => {
+  function createSizedNode(
+    config: Partial<ConstructorParameters<typeof RichTextNode>[0]>
+  ): { node: RichTextNode; events: SizeChangeEvent[] } {
+    const node = new RichTextNode({ width: 200, height: 100, document: createDocument('A'), ...config });
+    nodes.push(node);
+    const events: SizeChangeEvent[] = [];
+    node.on('sizechange', (e) => events.push(e));
+    return { node, events };
+  }
+
+  it('should not fire for the size the first render fitted', () => {
+    const { node, events } = createSizedNode({ autoFit: 'auto-height', minHeight: 10 });
+    expect(node.getBoxSize()).toEqual({ width: 200, height: 37 });
+
+    edit(node);
+    node.selectAll();
+    expect(events).toEqual([]);
+  });
+
+  it('should fire when typing grows an auto-height box', () => {
+    const { node, events } = createSizedNode({ autoFit: 'auto-height', minHeight: 10 });
+    const textarea = edit(node);
+    press(textarea, 'End');
+
+    type(textarea, 'B');
+    expect(events).toEqual([]);
+    press(textarea, 'Enter');
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      mode: 'auto-height',
+      oldSize: { width: 200, height: 37 },
+      newSize: { width: 200, height: 58 },
+      fontScale: 1,
+    });
+  });
+
+  it('should fire when typing widens an auto-width box', () => {
+    const { node, events } = createSizedNode({ autoFit: 'auto-width', minWidth: 10 });
+    expect(node.getBoxSize().width).toBe(26);
+    const textarea = edit(node);
+    press(textarea, 'End');
+
+    type(textarea, 'B');
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      mode: 'auto-width',
+      oldSize: { width: 26, height: 37 },
+      newSize: { width: 36, height: 37 },
+      fontScale: 1,
+    });
+  });
+
+  it('should fire when shrink-to-fit changes the font scale', () => {
+    const { node, events } = createSizedNode({ width: 100, height: 40, autoFit: 'shrink-to-fit' });
+    const textarea = edit(node);
+    press(textarea, 'End');
+
+    // A second line does not fit
+    type(textarea, ' and B and C');
+
+    expect(node.getFontScale()).toBeLessThan(1);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      mode: 'shrink-to-fit',
+      oldSize: { width: 100, height: 40 },
+      newSize: { width: 100, height: 40 },
+      fontScale: node.getFontScale(),
+    });
+  });
+
+  it('should fire when dragging the width turns an auto-width box into auto-height', () => {
+    const { node, events } = createSizedNode({ autoFit: 'auto-width', minWidth: 10 });
+
+    node.scaleX(4);
+    node.fire('transform');
+
+    expect(node.getAutoFit()).toBe('auto-height');
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      mode: 'auto-height',
+      oldSize: { width: 26, height: 37 },
+      newSize: { width: 104, height: 37 },
+    });
+  });
+});
+
+describe('RichTextNode caret', () => {
+  // A renderer's group holds its text group, with the caret drawn last
+  function caretIn(box: Konva.Group): Konva.Node {
+    const children = box.findOne('Text')!.getParent()!.getParent()!.getChildren();
+    return children[children.length - 1];
+  }
+
+  it('should blink the caret in the linked frame it moved into', () => {
+    vi.useFakeTimers();
+    const node = new RichTextNode({ width: 300, height: 30, document: createDocument('A\nB\nC') });
+    nodes.push(node);
+    const frame = new TextFrame({ x: 0, y: 100, width: 300, height: 100 });
+    node.linkFrame(frame);
+    const textarea = edit(node);
+    press(textarea, 'ArrowDown');
+
+    const boxCaret = caretIn(node);
+    const frameCaret = caretIn(frame);
+    expect([boxCaret.visible(), frameCaret.visible()]).toEqual([false, true]);
+
+    const seen: boolean[][] = [];
+    for (let k = 0; k < 4; k++) {
+      vi.advanceTimersByTime(530);
+      seen.push([boxCaret.visible(), frameCaret.visible()]);
+    }
+
+    expect(seen).toEqual([
+      [false, false],
+      [false, true],
+      [false, false],
+      [false, true],
+    ]);
+    frame.destroy();
+  });
+});
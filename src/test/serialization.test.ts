@@ -0,0 +1,328 @@
+import { describe, it, expect } from 'vitest';
+import {
+  serializeDocument,
+  deserializeDocument,
+  serializeTextBox,
+  deserializeTextBox,
+  validateSerializedDocument,
+  registerDocumentMigration,
+  migrateDocumentJSON,
+  DOCUMENT_SCHEMA_VERSION,
+} from '../rich-text/serialization';
+import { toggleListForLines, setParagraphStyle, insertObject } from '../rich-text/document-model';
+import { defineStyle, applyParagraphStyle } from '../rich-text/style-sheets';
+import { createDocument, DEFAULT_STYLE, RichTextDocument, OBJECT_REPLACEMENT } from '../rich-text/types';
+
+/**
+ * Round-trip through an actual JSON string, as persistence would
+ */
+function roundTrip(doc: RichTextDocument): RichTextDocument {
+  return deserializeDocument(JSON.parse(JSON.stringify(serializeDocument(doc))));
+}
+
+describe('Serialization', () => {
+  describe('serializeDocument', () => {
+    it('should write the current schema version', () => {
+      const json = serializeDocument(createDocument('Hello'));
+      expect(json.version).toBe(DOCUMENT_SCHEMA_VERSION);
+    });
+
+    it('should encode Maps so they survive JSON.stringify', () => {
+      const doc = toggleListForLines(createDocument('A\nB'), 0, 1, 'number');
+      const json = JSON.parse(JSON.stringify(serializeDocument(doc)));
+      expect(json.listItems.$map).toHaveLength(2);
+    });
+
+    it('should drop undefined optional style fields', () => {
+      const doc = createDocument('Hello', { backgroundColor: undefined });
+      const json = serializeDocument(doc);
+      expect('backgroundColor' in json.spans[0].style).toBe(false);
+    });
+  });
+
+  describe('round trip', () => {
+    it('should keep list items', () => {
+      const doc = toggleListForLines(createDocument('A\nB\nC'), 0, 2, 'number');
+      const restored = roundTrip(doc);
+      expect(restored.listItems).toBeInstanceOf(Map);
+      expect(restored.listItems.get(2)).toEqual({ type: 'number', level: 0, index: 3 });
+    });
+
+    it('should keep paragraph formatting', () => {
+      const doc = setParagraphStyle(createDocument('Title\nBody'), 0, 0, { align: 'center' });
+      const restored = roundTrip(doc);
+      expect(restored.paragraphs?.get(0)?.align).toBe('center');
+    });
+
+    it('should keep optional styles', () => {
+      const doc = createDocument('Hello', {
+        backgroundColor: '#ff0',
+        stroke: { color: '#000', width: 2 },
+        shadow: { color: '#333', blur: 4, offsetX: 1, offsetY: 1 },
+      });
+      const restored = roundTrip(doc);
+      expect(restored.spans[0].style).toEqual(doc.spans[0].style);
+    });
+
+    it('should preserve fields added by newer versions', () => {
+      const json = { ...serializeDocument(createDocument('Hi')), futureField: { a: 1 } };
+      const restored = deserializeDocument(json) as RichTextDocument & { futureField: unknown };
+      expect(restored.futureField).toEqual({ a: 1 });
+      expect(serializeDocument(restored).futureField).toEqual({ a: 1 });
+    });
+  });
+
+  describe('validateSerializedDocument', () => {
+    it('should accept a serialized document', () => {
+      expect(validateSerializedDocument(serializeDocument(createDocument('Hi')))).toEqual([]);
+    });
+
+    it('should report invalid fields', () => {
+      const json = {
+        ...serializeDocument(createDocument('Hi')),
+        align: 'sideways',
+        spans: [{ id: 'a', text: 42, style: { fontSize: 'big' } }],
+      };
+      const errors = validateSerializedDocument(json);
+      expect(errors).toContain('spans[0].text must be a string');
+      expect(errors).toContain('spans[0].style.fontSize must be a number');
+      expect(errors.some((e) => e.startsWith('align'))).toBe(true);
+    });
+
+    it('should report an invalid overflow mode', () => {
+      const json = { ...serializeDocument(createDocument('Hi')), overflow: 'scroll' };
+      expect(validateSerializedDocument(json)).toEqual(['overflow must be one of visible, clip, ellipsis']);
+    });
+
+    it('should round-trip columns and report invalid ones', () => {
+      const doc = { ...createDocument('Hi'), columns: { count: 2, gap: 12, rule: { width: 1, color: '#999' } } };
+      expect(deserializeDocument(JSON.parse(JSON.stringify(serializeDocument(doc)))).columns).toEqual(doc.columns);
+
+      const json = { ...serializeDocument(createDocument('Hi')), columns: { count: 0, gap: 12 } };
+      expect(validateSerializedDocument(json)).toEqual([
+        'columns must be { count, gap } with a whole count of at least 1',
+      ]);
+    });
+
+    it('should round-trip a text path and report invalid ones', () => {
+      const doc = { ...createDocument('Hi'), textPath: { type: 'arc' as const, curvature: 40 } };
+      expect(deserializeDocument(JSON.parse(JSON.stringify(serializeDocument(doc)))).textPath).toEqual(doc.textPath);
+
+      const json = { ...serializeDocument(createDocument('Hi')), textPath: { type: 'path' } };
+      expect(validateSerializedDocument(json)).toEqual([
+        "textPath must be { type: 'arc', curvature } or { type: 'path', data }",
+      ]);
+    });
+
+    it('should round-trip hyphenation and report invalid values', () => {
+      const doc = { ...createDocument('Hi'), hyphenate: true };
+      expect(deserializeDocument(JSON.parse(JSON.stringify(serializeDocument(doc)))).hyphenate).toBe(true);
+
+      const json = { ...serializeDocument(createDocument('Hi')), hyphenate: 'yes' };
+      expect(validateSerializedDocument(json)).toEqual(['hyphenate must be a boolean']);
+    });
+
+    it('should round-trip the line breaking mode and report invalid ones', () => {
+      const doc = { ...createDocument('Hi'), lineBreaking: 'optimal' as const };
+      expect(deserializeDocument(JSON.parse(JSON.stringify(serializeDocument(doc)))).lineBreaking).toBe('optimal');
+
+      const json = { ...serializeDocument(createDocument('Hi')), lineBreaking: 'best' };
+      expect(validateSerializedDocument(json)).toEqual(['lineBreaking must be one of greedy, optimal']);
+    });
+
+    it('should round-trip tab stops and report invalid ones', () => {
+      const tabs = { interval: 48, stops: [{ position: 200, align: 'decimal' as const, leader: '.' }] };
+      const doc = { ...createDocument('Hi'), tabs };
+      expect(deserializeDocument(JSON.parse(JSON.stringify(serializeDocument(doc)))).tabs).toEqual(tabs);
+
+      const json = { ...serializeDocument(createDocument('Hi')), tabs: { interval: 48, stops: [{ position: 200 }] } };
+      expect(validateSerializedDocument(json)).toEqual(['tabs must be { interval, stops: [{ position, align, leader? }] }']);
+    });
+
+    it('should round-trip superscripts and baseline shifts and report invalid ones', () => {
+      const doc = createDocument('x2', { verticalPosition: 'super', baselineShift: '0.1em' });
+      expect(deserializeDocument(JSON.parse(JSON.stringify(serializeDocument(doc)))).spans).toEqual(doc.spans);
+
+      const json = {
+        ...serializeDocument(createDocument('Hi')),
+        spans: [{ id: 'a', text: 'Hi', style: { verticalPosition: 'top', baselineShift: '2px' } }],
+      };
+      expect(validateSerializedDocument(json)).toEqual([
+        "spans[0].style.verticalPosition must be 'super' or 'sub'",
+        "spans[0].style.baselineShift must be a number or an em length such as '0.1em'",
+      ]);
+    });
+
+    it('should round-trip links and report invalid ones', () => {
+      const doc = createDocument('Hi', { link: { href: 'https://a.io', title: 'A' } });
+      expect(deserializeDocument(JSON.parse(JSON.stringify(serializeDocument(doc)))).spans).toEqual(doc.spans);
+
+      const json = {
+        ...serializeDocument(createDocument('Hi')),
+        spans: [{ id: 'a', text: 'Hi', style: { link: 'https://a.io' } }],
+      };
+      expect(validateSerializedDocument(json)).toEqual(['spans[0].style.link must be { href, title? }']);
+    });
+
+    it('should round-trip inline objects and report invalid ones', () => {
+      const doc = insertObject(createDocument('ab'), 1, { type: 'image', src: 'a.png', width: 20, height: 16 });
+      expect(deserializeDocument(JSON.parse(JSON.stringify(serializeDocument(doc)))).spans).toEqual(doc.spans);
+
+      const json = {
+        ...serializeDocument(createDocument('Hi')),
+        spans: [
+          { id: 'a', text: OBJECT_REPLACEMENT, style: {}, object: { type: 'image', src: 'a.png' } },
+          { id: 'b', text: 'x', style: {}, object: { type: 'image', src: 'a.png', width: 1, height: 1 } },
+        ],
+      };
+      expect(validateSerializedDocument(json)).toEqual([
+        "spans[0].object must be { type: 'image', src, width, height, baseline?, alt? }",
+        'spans[1].text must be the object replacement character (U+FFFC) for an inline object',
+      ]);
+    });
+
+    it('should round-trip style sheets and report invalid ones', () => {
+      let doc = defineStyle(createDocument('Title'), 'paragraph', 'Heading', {
+        paragraph: { spaceBefore: 12 },
+        style: { fontSize: 28 },
+      });
+      doc = applyParagraphStyle(doc, 0, 0, 'Heading');
+      const restored = roundTrip(doc);
+      expect(restored.styles).toEqual(doc.styles);
+      expect(restored.paragraphs?.get(0)?.styleName).toBe('Heading');
+
+      const json = {
+        ...serializeDocument(createDocument('Hi')),
+        styles: {
+          character: { $map: [['Accent', { basedOn: 3, style: { fontSize: 'big' } }]] },
+          paragraph: { $map: [['Body']] },
+        },
+      };
+      expect(validateSerializedDocument(json)).toEqual([
+        'styles.character[Accent].basedOn must be a string',
+        'styles.character[Accent].style.fontSize must be a number',
+        'styles.paragraph[0] must be a [name, definition] pair',
+      ]);
+    });
+
+    it('should throw when deserializing an invalid document', () => {
+      expect(() => deserializeDocument({ version: 1, spans: 'nope' })).toThrow(/Invalid rich text document/);
+    });
+  });
+
+  describe('migrations', () => {
+    it('should load unversioned documents', () => {
+      // Written by the old RichText.toJSON: Maps were stringified to {}
+      const legacy = JSON.parse(JSON.stringify(createDocument('Old')));
+      const restored = deserializeDocument(legacy);
+      expect(restored.spans[0].text).toBe('Old');
+      expect(restored.listItems).toBeInstanceOf(Map);
+    });
+
+    it('should fill missing style fields from defaults', () => {
+      const legacy = {
+        spans: [{ id: 's', text: 'Old', style: { fontSize: 30 } }],
+        align: 'left',
+        verticalAlign: 'top',
+        padding: 8,
+        listItems: {},
+      };
+      const restored = deserializeDocument(legacy);
+      expect(restored.spans[0].style).toEqual({ ...DEFAULT_STYLE, fontSize: 30 });
+    });
+
+    it('should run registered migrations', () => {
+      const next = DOCUMENT_SCHEMA_VERSION + 1;
+      registerDocumentMigration(DOCUMENT_SCHEMA_VERSION, (json) => ({ ...json, migrated: true }));
+      const migrated = migrateDocumentJSON(serializeDocument(createDocument('Hi')), next);
+      expect(migrated.migrated).toBe(true);
+      expect(migrated.version).toBe(next);
+    });
+  });
+
+  describe('text boxes', () => {
+    it('should round-trip geometry and document', () => {
+      const doc = toggleListForLines(createDocument('A\nB'), 0, 1, 'bullet');
+      const json = serializeTextBox(
+        { x: 10, y: 20, width: 300, height: 200, scaleX: 2, scaleY: 2, rotation: 45, draggable: true },
+        doc
+      );
+      const box = deserializeTextBox(JSON.parse(JSON.stringify(json)));
+      expect(box.rotation).toBe(45);
+      expect(box.document.listItems.size).toBe(2);
+    });
+
+    it('should default missing transform fields', () => {
+      const box = deserializeTextBox({ width: 100, height: 50, document: createDocument('Hi') });
+      expect(box.scaleX).toBe(1);
+      expect(box.rotation).toBe(0);
+      expect(box.document.spans[0].text).toBe('Hi');
+    });
+
+    it('should round-trip the auto-fit mode and default unknown values to fixed', () => {
+      const json = serializeTextBox(
+        { x: 0, y: 0, width: 100, height: 50, scaleX: 1, scaleY: 1, rotation: 0, draggable: false, autoFit: 'shrink-to-fit' },
+        createDocument('Hi')
+      );
+      expect(deserializeTextBox(JSON.parse(JSON.stringify(json))).autoFit).toBe('shrink-to-fit');
+      expect(deserializeTextBox({ ...json, autoFit: 'grow' }).autoFit).toBe('fixed');
+    });
+
+    it('should round-trip the auto-fit size limits and reject invalid ones', () => {
+      const json = serializeTextBox(
+        { x: 0, y: 0, width: 100, height: 50, scaleX: 1, scaleY: 1, rotation: 0, draggable: false, autoFit: 'auto-height', minWidth: 50, minHeight: 20, maxHeight: 300 },
+        createDocument('Hi')
+      );
+      const box = deserializeTextBox(JSON.parse(JSON.stringify(json)));
+      expect([box.minWidth, box.maxWidth, box.minHeight, box.maxHeight]).toEqual([50, undefined, 20, 300]);
+
+      expect(() => deserializeTextBox({ ...json, maxHeight: '300' })).toThrow(
+        'Invalid rich text box: maxHeight must be a number'
+      );
+    });
+
+    it('should round-trip linked frames in order', () => {
+      const frames = [
+        { x: 200, y: 0, width: 100, height: 50, rotation: 0 },
+        { x: 0, y: 100, width: 150, height: 80, rotation: 10 },
+      ];
+      const json = serializeTextBox(
+        { x: 0, y: 0, width: 100, height: 50, scaleX: 1, scaleY: 1, rotation: 0, draggable: false, frames },
+        createDocument('Hi')
+      );
+      expect(deserializeTextBox(JSON.parse(JSON.stringify(json))).frames).toEqual(frames);
+      expect(deserializeTextBox({ width: 100, height: 50, document: createDocument('Hi') }).frames).toEqual([]);
+    });
+
+    it('should round-trip the text wrap shape and exclusions', () => {
+      const textWrap = {
+        shape: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 50, y: 100 }],
+        exclusions: [
+          { type: 'rect' as const, x: 10, y: 10, width: 20, height: 20 },
+          { type: 'polygon' as const, points: [{ x: 0, y: 50 }, { x: 20, y: 60 }, { x: 0, y: 70 }] },
+        ],
+        margin: 4,
+      };
+      const json = serializeTextBox(
+        { x: 0, y: 0, width: 100, height: 100, scaleX: 1, scaleY: 1, rotation: 0, draggable: false, textWrap },
+        createDocument('Hi')
+      );
+      expect(deserializeTextBox(JSON.parse(JSON.stringify(json))).textWrap).toEqual(textWrap);
+      expect(deserializeTextBox({ width: 100, height: 50, document: createDocument('Hi') }).textWrap).toBeUndefined();
+    });
+
+    it('should throw for an invalid text wrap', () => {
+      const json = {
+        width: 100,
+        height: 50,
+        document: createDocument('Hi'),
+        textWrap: { shape: [{ x: 0 }], exclusions: [{ type: 'circle' }], margin: '4' },
+      };
+      expect(() => deserializeTextBox(json)).toThrow(
+        "Invalid rich text box: textWrap.shape must be an array of { x, y } points; " +
+          "textWrap.exclusions[0] must be { type: 'rect', x, y, width, height } or { type: 'polygon', points }; " +
+          'textWrap.margin must be a number'
+      );
+    });
+  });
+});
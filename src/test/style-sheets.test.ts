@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defineStyle,
+  applyCharacterStyle,
+  applyParagraphStyle,
+  resolveCharacterStyle,
+  resolveParagraphStyle,
+} from '../rich-text/style-sheets';
+import { applyStyleToRange, flattenDocument, getParagraphStyle } from '../rich-text/document-model';
+import { createDocument, DEFAULT_STYLE, RichTextDocument } from '../rich-text/types';
+
+// "Title" in Heading 1 (based on Body), "Body text" in Body
+function styledDocument(): RichTextDocument {
+  let doc = createDocument('Title\nBody text');
+  doc = defineStyle(doc, 'paragraph', 'Body', {
+    paragraph: { spaceAfter: 6 },
+    style: { fontFamily: 'Georgia', fontSize: 14 },
+  });
+  doc = defineStyle(doc, 'paragraph', 'Heading 1', {
+    basedOn: 'Body',
+    paragraph: { spaceBefore: 12 },
+    style: { fontSize: 28, fontWeight: 'bold' },
+  });
+  doc = defineStyle(doc, 'character', 'Accent', { style: { color: '#FF0000', fontSize: 10 } });
+  doc = applyParagraphStyle(doc, 0, 0, 'Heading 1');
+  return applyParagraphStyle(doc, 1, 1, 'Body');
+}
+
+const styleAt = (doc: RichTextDocument, index: number) => flattenDocument(doc)[index].style;
+
+describe('Style Sheets', () => {
+  describe('resolving', () => {
+    it('should merge a style over the one it is based on', () => {
+      expect(resolveParagraphStyle(styledDocument().styles, 'Heading 1')).toEqual({
+        paragraph: { spaceAfter: 6, spaceBefore: 12 },
+        style: { fontFamily: 'Georgia', fontSize: 28, fontWeight: 'bold' },
+      });
+    });
+
+    it('should stop at unknown styles and cycles', () => {
+      let doc = defineStyle(createDocument('x'), 'character', 'A', { basedOn: 'B', style: { color: '#111111' } });
+      doc = defineStyle(doc, 'character', 'B', { basedOn: 'A', style: { fontSize: 20 } });
+
+      expect(resolveCharacterStyle(doc.styles, 'A')).toEqual({ color: '#111111', fontSize: 20 });
+      expect(resolveCharacterStyle(doc.styles, 'Missing')).toEqual({});
+    });
+  });
+
+  describe('applying', () => {
+    it('should give paragraphs and their text the look of a paragraph style', () => {
+      const doc = styledDocument();
+
+      expect(styleAt(doc, 0)).toMatchObject({ fontFamily: 'Georgia', fontSize: 28, fontWeight: 'bold' });
+      expect(styleAt(doc, 6)).toMatchObject({ fontFamily: 'Georgia', fontSize: 14, fontWeight: 'normal' });
+      expect(getParagraphStyle(doc, 0)).toMatchObject({ styleName: 'Heading 1', spaceBefore: 12, spaceAfter: 6 });
+      expect(getParagraphStyle(doc, 1)).toMatchObject({ styleName: 'Body', spaceBefore: 0 });
+    });
+
+    it('should let character styles win over the paragraph style', () => {
+      let doc = applyCharacterStyle(styledDocument(), 11, 15, 'Accent');
+      expect(styleAt(doc, 11)).toMatchObject({ styleName: 'Accent', color: '#FF0000', fontSize: 10 });
+
+      doc = applyParagraphStyle(doc, 1, 1, 'Heading 1');
+      expect(styleAt(doc, 6).fontSize).toBe(28);
+      expect(styleAt(doc, 11).fontSize).toBe(10);
+    });
+
+    it('should return text without a character style to its paragraph look', () => {
+      let doc = applyCharacterStyle(styledDocument(), 11, 15, 'Accent');
+      doc = applyCharacterStyle(doc, 11, 15, null);
+
+      expect(styleAt(doc, 11)).toMatchObject({ color: DEFAULT_STYLE.color, fontSize: 14 });
+      expect(styleAt(doc, 11).styleName).toBeUndefined();
+      expect(doc.spans.map((span) => span.text)).toEqual(['Title\n', 'Body text']);
+    });
+  });
+
+  describe('defining', () => {
+    it('should restyle text that follows a style, directly or through inheritance', () => {
+      const doc = defineStyle(styledDocument(), 'paragraph', 'Body', {
+        paragraph: { spaceAfter: 10 },
+        style: { fontFamily: 'Inter', fontSize: 16 },
+      });
+
+      // Heading 1 sets its own size
+      expect(styleAt(doc, 0)).toMatchObject({ fontFamily: 'Inter', fontSize: 28 });
+      expect(styleAt(doc, 6)).toMatchObject({ fontFamily: 'Inter', fontSize: 16 });
+      expect(getParagraphStyle(doc, 0).spaceAfter).toBe(10);
+      expect(getParagraphStyle(doc, 1).spaceAfter).toBe(10);
+    });
+
+    it('should keep local overrides', () => {
+      let doc = applyStyleToRange(styledDocument(), 6, 10, { fontFamily: 'Courier' });
+      doc = defineStyle(doc, 'paragraph', 'Body', { style: { fontFamily: 'Inter', fontSize: 14 } });
+
+      expect(styleAt(doc, 6).fontFamily).toBe('Courier');
+      expect(styleAt(doc, 11).fontFamily).toBe('Inter');
+    });
+
+    it('should restyle text in a character style', () => {
+      let doc = applyCharacterStyle(styledDocument(), 11, 15, 'Accent');
+      doc = defineStyle(doc, 'character', 'Accent', { style: { color: '#0000FF' } });
+
+      // The size goes back to the paragraph's
+      expect(styleAt(doc, 11)).toMatchObject({ color: '#0000FF', fontSize: 14 });
+      expect(styleAt(doc, 6).color).toBe(DEFAULT_STYLE.color);
+    });
+  });
+});
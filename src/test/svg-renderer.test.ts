@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { renderTextToSVG } from '../rich-text/svg-renderer';
+import { layoutText } from '../rich-text/layout-engine';
+import {
+  applyStyleToRange,
+  toggleListForLines,
+  indentListItem,
+  renumberLists,
+} from '../rich-text/document-model';
+import { createDocument, RichTextDocument, COLUMN_BREAK } from '../rich-text/types';
+
+function renderSVG(doc: RichTextDocument): { svg: string; root: Element } {
+  const layout = layoutText(doc, 300, 200);
+  const svg = renderTextToSVG(layout, doc);
+  const root = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+  return { svg, root };
+}
+
+describe('SVG Renderer', () => {
+  it('should produce a standalone SVG document', () => {
+    const { root } = renderSVG(createDocument('Hello'));
+    expect(root.tagName).toBe('svg');
+    expect(root.getAttribute('xmlns')).toBe('http://www.w3.org/2000/svg');
+    expect(root.getAttribute('width')).toBe('300');
+    expect(root.getAttribute('height')).toBe('200');
+    expect(root.querySelector('parsererror')).toBeNull();
+  });
+
+  it('should position every character from the layout', () => {
+    const doc = createDocument('Hi\nyou');
+    const layout = layoutText(doc, 300, 200);
+    const { root } = renderSVG(doc);
+    const tspans = Array.from(root.querySelectorAll('tspan'));
+
+    expect(tspans.map((t) => t.textContent)).toEqual(['Hi', 'you']);
+
+    const xs = tspans.flatMap((t) => t.getAttribute('x')!.split(' ').map(Number));
+    const ys = tspans.flatMap((t) => t.getAttribute('y')!.split(' ').map(Number));
+    layout.chars.forEach((c, i) => {
+      expect(xs[i]).toBeCloseTo(c.x, 2);
+      expect(ys[i]).toBeCloseTo(c.y + c.baseline, 2);
+    });
+  });
+
+  it('should draw rules between columns and no column breaks', () => {
+    const doc: RichTextDocument = {
+      ...createDocument(`Hi${COLUMN_BREAK}you`),
+      columns: { count: 2, gap: 20, rule: { width: 2, color: '#cccccc' } },
+    };
+    const { root } = renderSVG(doc);
+    const rule = root.querySelector('line[stroke="#cccccc"]')!;
+
+    expect(rule.getAttribute('x1')).toBe('150');
+    expect(rule.getAttribute('stroke-width')).toBe('2');
+    expect(Array.from(root.querySelectorAll('tspan')).map((t) => t.textContent)).toEqual(['Hi', 'you']);
+  });
+
+  it('should rotate each glyph on a text path', () => {
+    const doc: RichTextDocument = { ...createDocument('abc'), textPath: { type: 'path', data: 'M 50 0 L 50 300' } };
+    const { root } = renderSVG(doc);
+    const tspan = root.querySelector('tspan')!;
+
+    expect(tspan.getAttribute('rotate')).toBe('90 90 90');
+    // Glyphs stand on the path (their baseline origins lie on it), one below the other
+    expect(tspan.getAttribute('x')).toBe('50 50 50');
+    expect(tspan.getAttribute('y')!.split(' ').map(Number)).toEqual([0, 10, 20]);
+  });
+
+  it('should draw tab leaders glyph by glyph', () => {
+    const doc: RichTextDocument = {
+      ...createDocument('a\tb'),
+      tabs: { interval: 48, stops: [{ position: 50, align: 'left', leader: '.' }] },
+    };
+    const tspan = renderSVG(doc).root.querySelector('tspan')!;
+
+    expect(tspan.textContent).toBe('a....b');
+    expect(tspan.getAttribute('x')).toBe('8 18 28 38 48 58');
+  });
+
+  it('should write font attributes per style run', () => {
+    let doc = createDocument('plain bold', { fontFamily: 'Times New Roman', color: '#ff0000' });
+    doc = applyStyleToRange(doc, 6, 10, { fontWeight: 'bold', fontStyle: 'italic' });
+    const { root } = renderSVG(doc);
+    const [plain, bold] = Array.from(root.querySelectorAll('tspan'));
+
+    expect(plain.getAttribute('font-family')).toBe("'Times New Roman'");
+    expect(plain.getAttribute('fill')).toBe('#ff0000');
+    expect(plain.getAttribute('font-weight')).toBeNull();
+    expect(bold.textContent).toBe('bold');
+    expect(bold.getAttribute('font-weight')).toBe('bold');
+    expect(bold.getAttribute('font-style')).toBe('italic');
+  });
+
+  it('should draw highlights, underline and strikethrough', () => {
+    let doc = createDocument('mark under strike');
+    doc = applyStyleToRange(doc, 0, 4, { backgroundColor: '#ffff00' });
+    doc = applyStyleToRange(doc, 5, 10, { underline: true });
+    doc = applyStyleToRange(doc, 11, 17, { strikethrough: true });
+    const { root } = renderSVG(doc);
+
+    const rect = root.querySelector('.highlights rect')!;
+    expect(rect.getAttribute('fill')).toBe('#ffff00');
+    expect(Number(rect.getAttribute('width'))).toBe(40);
+    expect(root.querySelectorAll('.decorations line')).toHaveLength(2);
+  });
+
+  it('should add stroke attributes and shared shadow filters', () => {
+    let doc = createDocument('one two three');
+    const shadow = { color: '#333333', blur: 4, offsetX: 1, offsetY: 1 };
+    doc = applyStyleToRange(doc, 0, 3, { shadow, stroke: { color: '#0000ff', width: 2 } });
+    doc = applyStyleToRange(doc, 8, 13, { shadow });
+    const { root } = renderSVG(doc);
+
+    expect(root.querySelectorAll('filter')).toHaveLength(1);
+    expect(root.querySelector('feDropShadow')!.getAttribute('stdDeviation')).toBe('2');
+    expect(root.querySelectorAll('text[filter="url(#rich-text-shadow-0)"]')).toHaveLength(2);
+
+    const stroked = root.querySelector('tspan[stroke]')!;
+    expect(stroked.textContent).toBe('one');
+    expect(stroked.getAttribute('stroke-width')).toBe('2');
+  });
+
+  it('should draw list markers once per list paragraph', () => {
+    let doc = createDocument('First item that is long enough to wrap onto another line\nSecond');
+    doc = toggleListForLines(doc, 0, 1, 'number');
+    const { root } = renderSVG(doc);
+    const markers = Array.from(root.querySelectorAll('.list-markers text'));
+    expect(markers.map((m) => m.textContent)).toEqual(['1.', '2.']);
+
+    const bullets = renderSVG(toggleListForLines(createDocument('a\nb'), 0, 1, 'bullet')).root;
+    expect(bullets.querySelectorAll('.list-markers circle')).toHaveLength(2);
+  });
+
+  it('should number each nested list level in its own style', () => {
+    let doc = toggleListForLines(createDocument('a\nb\nc'), 0, 2, 'number');
+    doc = indentListItem(indentListItem(indentListItem(doc, 1), 2), 2);
+    const { root } = renderSVG(renumberLists(doc));
+    const markers = Array.from(root.querySelectorAll('.list-markers text'));
+    expect(markers.map((m) => m.textContent)).toEqual(['1.', 'a.', 'i.']);
+  });
+
+  it('should escape text content', () => {
+    const { svg, root } = renderSVG(createDocument('a < b & "c"'));
+    expect(svg).toContain('a &lt; b &amp; &quot;c&quot;');
+    expect(root.querySelector('tspan')!.textContent).toBe('a < b & "c"');
+  });
+});
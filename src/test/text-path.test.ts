@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { parsePathData, placeOnPath, mapFromPath } from '../rich-text/text-path';
+import { layoutText, hitTest } from '../rich-text/layout-engine';
+import { createDocument, RichTextDocument, TextPathSettings } from '../rich-text/types';
+
+// Characters are 10px wide; boxes have 8px padding
+function layoutOnPath(text: string, textPath: TextPathSettings, align: RichTextDocument['align'] = 'left') {
+  const doc: RichTextDocument = { ...createDocument(text), align, textPath };
+  return { doc, layout: layoutText(doc, 300, 200) };
+}
+
+describe('Text Path', () => {
+  describe('parsePathData', () => {
+    it('should follow lines, absolute and relative', () => {
+      expect(parsePathData('M 0 0 L 100 0 V 50')).toEqual([
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 50 },
+      ]);
+      expect(parsePathData('m10 10 5 0h5')).toEqual([
+        { x: 10, y: 10 },
+        { x: 15, y: 10 },
+        { x: 20, y: 10 },
+      ]);
+    });
+
+    it('should sample curves and arcs', () => {
+      const curve = parsePathData('M0 0 C 0 100 100 100 100 0');
+      expect(curve[curve.length - 1]).toEqual({ x: 100, y: 0 });
+      expect(curve[8].x).toBeCloseTo(50);
+      expect(curve[8].y).toBeCloseTo(75);
+
+      const arc = parsePathData('M 0 50 A 50 50 0 0 1 100 50');
+      const top = arc.reduce((a, b) => (b.y < a.y ? b : a));
+      expect(top.x).toBeCloseTo(50);
+      expect(top.y).toBeCloseTo(0);
+      expect(arc[arc.length - 1].x).toBeCloseTo(100);
+    });
+
+    it('should only use the first subpath', () => {
+      expect(parsePathData('M 0 0 L 10 0 M 50 50 L 60 50')).toHaveLength(2);
+    });
+  });
+
+  describe('arc', () => {
+    it('should leave text in place without curvature', () => {
+      const { layout } = layoutOnPath('Hello', { type: 'arc', curvature: 0 });
+      const placed = placeOnPath(layout.path!, 38, 10, 10);
+
+      expect(placed.x).toBeCloseTo(38);
+      expect(placed.y).toBeCloseTo(10);
+      expect(placed.rotation).toBeCloseTo(0);
+    });
+
+    it('should arch text up around the middle of the box', () => {
+      const { layout } = layoutOnPath('abcdefghijklmnopqrstuvwxyz', { type: 'arc', curvature: 30 }, 'center');
+      const [first, middle, last] = [0, 13, 25].map((k) => {
+        const char = layout.chars[k];
+        return placeOnPath(layout.path!, char.x, char.y, char.width);
+      });
+      const baseline = layout.lines[0].y + layout.lines[0].baseline;
+
+      expect(first.y).toBeGreaterThan(middle.y);
+      expect(last.y).toBeGreaterThan(middle.y);
+      expect(first.rotation).toBeLessThan(0);
+      expect(last.rotation).toBeGreaterThan(0);
+      expect(placeOnPath(layout.path!, 150, baseline).y).toBeCloseTo(baseline);
+    });
+
+    it('should bend downwards for negative curvature', () => {
+      const { layout } = layoutOnPath('abcdefghij', { type: 'arc', curvature: -30 }, 'center');
+      const [first, last] = [layout.chars[0], layout.chars[9]];
+
+      expect(placeOnPath(layout.path!, first.x, first.y, 10).rotation).toBeGreaterThan(0);
+      expect(placeOnPath(layout.path!, last.x, last.y, 10).rotation).toBeLessThan(0);
+    });
+  });
+
+  describe('path', () => {
+    it('should align lines along the path', () => {
+      const { layout } = layoutOnPath('abc', { type: 'path', data: 'M 0 100 L 400 100' }, 'center');
+      const middle = layout.chars[1];
+      const placed = placeOnPath(layout.path!, middle.x, middle.y, middle.width);
+
+      expect(placed.x + middle.width / 2).toBeCloseTo(200);
+      expect(placed.rotation).toBeCloseTo(0);
+    });
+
+    it('should turn glyphs to the direction of the path', () => {
+      const { layout } = layoutOnPath('abc', { type: 'path', data: 'M 50 0 L 50 300' });
+      const char = layout.chars[0];
+      expect(placeOnPath(layout.path!, char.x, char.y, char.width).rotation).toBeCloseTo(90);
+    });
+  });
+
+  describe('hit testing', () => {
+    it('should map points on the curve back to the straight layout', () => {
+      const { layout } = layoutOnPath('Hello world', { type: 'arc', curvature: 40 });
+      const placed = placeOnPath(layout.path!, 100, 20);
+      const point = mapFromPath(layout.path!, placed.x, placed.y);
+
+      expect(point.x).toBeCloseTo(100, 0);
+      expect(point.y).toBeCloseTo(20, 0);
+    });
+
+    it('should hit the character drawn under the pointer', () => {
+      const { doc, layout } = layoutOnPath('abcdefghij', { type: 'arc', curvature: 50 }, 'center');
+      const char = layout.chars[7];
+      const center = placeOnPath(layout.path!, char.x + 2, char.y + char.height / 2);
+      const point = mapFromPath(layout.path!, center.x, center.y);
+
+      expect(hitTest(layout, point.x, point.y, doc)).toBe(7);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { getLineSegments, hasTextWrap, createEllipseShape } from '../rich-text/text-wrap';
+import { layoutText, getCaretPosition, hitTest, createLayoutCache } from '../rich-text/layout-engine';
+import { createDocument, RichTextDocument, TextWrap } from '../rich-text/types';
+
+// Lines are 21px high and characters 10px wide; boxes have 8px padding
+const obstacle: TextWrap = { exclusions: [{ type: 'rect', x: 100, y: 0, width: 50, height: 40 }] };
+
+describe('Text Wrap', () => {
+  describe('getLineSegments', () => {
+    it('should split a line around a rectangle', () => {
+      expect(getLineSegments(obstacle, 8, 292, 10, 31)).toEqual([
+        { left: 8, right: 100 },
+        { left: 150, right: 292 },
+      ]);
+      expect(getLineSegments(obstacle, 8, 292, 50, 71)).toEqual([{ left: 8, right: 292 }]);
+    });
+
+    it('should keep the margin around exclusions', () => {
+      const wrap = { ...obstacle, margin: 5 };
+      expect(getLineSegments(wrap, 8, 292, 10, 31)).toEqual([
+        { left: 8, right: 95 },
+        { left: 155, right: 292 },
+      ]);
+      // The margin also reaches below the exclusion
+      expect(getLineSegments(wrap, 8, 292, 42, 63)).toHaveLength(2);
+    });
+
+    it('should keep the whole band inside a shape', () => {
+      const triangle = { shape: [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 0, y: 200 }] };
+      const [segment] = getLineSegments(triangle, 8, 292, 0, 20);
+      expect(segment.left).toBe(8);
+      expect(segment.right).toBeCloseTo(180, 1);
+      expect(getLineSegments(triangle, 8, 292, 210, 230)).toEqual([]);
+    });
+
+    it('should block the widest part of a polygon exclusion in the band', () => {
+      const diamond: TextWrap = {
+        exclusions: [
+          {
+            type: 'polygon',
+            points: [{ x: 150, y: 0 }, { x: 200, y: 50 }, { x: 150, y: 100 }, { x: 100, y: 50 }],
+          },
+        ],
+      };
+      expect(getLineSegments(diamond, 8, 292, 40, 60)).toEqual([
+        { left: 8, right: 100 },
+        { left: 200, right: 292 },
+      ]);
+    });
+
+    it('should tell whether a wrap changes anything', () => {
+      expect(hasTextWrap(undefined)).toBe(false);
+      expect(hasTextWrap({ exclusions: [] })).toBe(false);
+      expect(hasTextWrap(obstacle)).toBe(true);
+    });
+  });
+
+  describe('layout', () => {
+    const doc = (text: string): RichTextDocument => createDocument(text);
+
+    it('should lay out several segments at one y', () => {
+      const layout = layoutText(doc('aaa bbb ccc ddd'), 300, 200, undefined, obstacle);
+
+      expect(layout.lines).toHaveLength(2);
+      expect(layout.lines[0].y).toBe(layout.lines[1].y);
+      expect(layout.lines[0].segment).toEqual({ left: 8, right: 100 });
+      expect(layout.lines[1].segment).toEqual({ left: 150, right: 292 });
+      expect(layout.lines[1].chars[0].x).toBe(150);
+      expect(layout.lines.map((line) => line.lineIndex)).toEqual([0, 1]);
+    });
+
+    it('should hit test and place the caret in the segment at a point', () => {
+      const text = doc('aaa bbb ccc ddd');
+      const layout = layoutText(text, 300, 200, undefined, obstacle);
+
+      expect(hitTest(layout, 152, 15, text)).toBe(8);
+      expect(hitTest(layout, 120, 15, text)).toBe(8);
+      expect(hitTest(layout, 12, 15, text)).toBe(0);
+      expect(getCaretPosition(layout, 9, text).x).toBe(160);
+    });
+
+    it('should skip segments too narrow for the next word', () => {
+      const wrap: TextWrap = { exclusions: [{ type: 'rect', x: 30, y: 0, width: 300, height: 30 }] };
+      const layout = layoutText(doc('aaa'), 300, 200, undefined, wrap);
+
+      expect(layout.lines[0].y).toBeGreaterThanOrEqual(30);
+      expect(layout.lines[0].y).toBeLessThan(40);
+      expect(layout.lines[0].chars[0].x).toBe(8);
+    });
+
+    it('should keep lines inside a circle', () => {
+      const wrap = { shape: createEllipseShape(150, 100, 100, 100) };
+      const layout = layoutText(doc('aaa bbb ccc ddd eee fff ggg hhh iii jjj kkk'), 300, 200, undefined, wrap);
+
+      expect(layout.lines[0].chars[0].x).toBeGreaterThan(8);
+      for (const char of layout.chars) {
+        expect(char.x).toBeGreaterThanOrEqual(50);
+        expect(char.x + char.width).toBeLessThanOrEqual(250);
+      }
+    });
+
+    it('should give lines below the box the full width', () => {
+      const wrap = { shape: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 60 }, { x: 0, y: 60 }] };
+      const layout = layoutText(doc('A\nB\nC\nD'), 300, 60, undefined, wrap);
+
+      expect(layout.lines[0].segment).toEqual({ left: 8, right: 100 });
+      expect(layout.lines[3].segment).toEqual({ left: 8, right: 292 });
+      expect(layout.overflowRange).not.toBeNull();
+    });
+
+    it('should fill segments from the right in right-to-left paragraphs', () => {
+      const rtl = { ...doc('אבג דהו'), direction: 'rtl' as const };
+      const layout = layoutText(rtl, 300, 200, undefined, obstacle);
+      expect(layout.lines[0].segment).toEqual({ left: 150, right: 292 });
+    });
+
+    it('should not cache wrapped lines', () => {
+      const cache = createLayoutCache();
+      layoutText(doc('aaa\nbbb'), 300, 200, cache, obstacle);
+      const layout = layoutText(doc('aaa\nbbb'), 300, 200, cache, obstacle);
+      expect(cache.hits).toBe(0);
+      expect(layout.lines).toHaveLength(2);
+    });
+  });
+});
@@ -1,6 +1,11 @@
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    // Konva's main entry is its Node build, which needs the native canvas
+    // package; the tests run in jsdom, so they use the browser build
+    alias: [{ find: /^konva$/, replacement: 'konva/lib/index.js' }],
+  },
   test: {
     environment: 'jsdom',
     globals: true,